@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getQueryCacheStats, purgeQueryCache, QUERY_CACHE_NAMESPACES } from '@/lib/server/queryCache'
+import { QueryCacheNamespace } from '@/types/product'
+
+/**
+ * GET /api/admin/cache
+ *
+ * Entry counts and hit/miss counters of the query cache, per namespace.
+ *
+ * Returns: { namespaces: QueryCacheStats[] }
+ */
+export async function GET() {
+  try {
+    const namespaces = await getQueryCacheStats()
+    return NextResponse.json({ namespaces }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error reading query cache stats:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to read query cache stats',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/cache
+ *
+ * Purges cached entries.
+ *
+ * Query: ?namespace=imageQuery|imageSearch (default: all)
+ *        &olderThanHours=24 (only entries created before then)
+ *        &resetStats=true (also reset the hit/miss counters)
+ *
+ * Returns: { deleted: number }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const namespace = searchParams.get('namespace') || undefined
+    const olderThanHours = searchParams.get('olderThanHours')
+
+    if (namespace && !QUERY_CACHE_NAMESPACES.includes(namespace as QueryCacheNamespace)) {
+      return NextResponse.json(
+        { error: `Unknown cache namespace: ${namespace}. Use one of: ${QUERY_CACHE_NAMESPACES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (olderThanHours !== null && !(Number(olderThanHours) > 0)) {
+      return NextResponse.json(
+        { error: 'olderThanHours must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    const result = await purgeQueryCache({
+      namespace: namespace as QueryCacheNamespace | undefined,
+      createdBefore: olderThanHours ? new Date(Date.now() - Number(olderThanHours) * 60 * 60 * 1000) : undefined,
+      resetStats: searchParams.get('resetStats') === 'true',
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    console.error('Error purging query cache:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to purge query cache',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
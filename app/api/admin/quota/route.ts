@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getApiQuotaStatus } from '@/lib/server/apiQuota'
+
+/**
+ * GET /api/admin/quota
+ *
+ * Today's usage of the external APIs (Google Custom Search, Gemini) against
+ * their daily budgets and rate limits.
+ *
+ * Returns: { providers: ApiQuotaStatus[] }
+ */
+export async function GET() {
+  try {
+    const providers = await getApiQuotaStatus()
+    return NextResponse.json({ providers }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error reading API quota status:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to read API quota status',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
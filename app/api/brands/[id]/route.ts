@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BrandError, deleteBrand, updateBrand } from '@/lib/server/brands'
+import { getRequestActor } from '@/lib/server/requestActor'
+
+/**
+ * PUT /api/brands/[id]
+ *
+ * Replace a brand. Products are rewritten to the new names by
+ * POST /api/brands/normalize.
+ *
+ * Body: { name: string, aliases?: { ko?: string[], en?: string[], mn?: string[] }, logoUrl?: string, domains?: string[] }
+ *
+ * Returns: Brand
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const brand = await updateBrand(params.id, body)
+    return NextResponse.json(brand, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof BrandError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating brand:', error)
+    return NextResponse.json(
+      { error: 'Failed to update brand' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/brands/[id]
+ *
+ * Products keep the brand name and lose their brandId.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await deleteBrand(params.id, { actor: getRequestActor(request), source: 'ui' })
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof BrandError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error deleting brand:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete brand' },
+      { status: 500 }
+    )
+  }
+}
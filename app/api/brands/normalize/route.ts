@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeProductBrands } from '@/lib/server/brands'
+import { getRequestActor } from '@/lib/server/requestActor'
+
+/**
+ * POST /api/brands/normalize
+ *
+ * Rewrite existing products to the canonical brand names and set brandId.
+ * Names the registry does not know are left as they are.
+ *
+ * Returns: BrandNormalizeResult
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const result = await normalizeProductBrands({ actor: getRequestActor(request), source: 'bulk' })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    console.error('Error normalizing product brands:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to normalize product brands',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
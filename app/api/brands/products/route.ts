@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { listProductBrands } from '@/lib/server/brands'
+
+/**
+ * GET /api/brands/products
+ *
+ * Brand names found on products with their product count and the registry
+ * brand each matches, unknown names first (brand review).
+ *
+ * Returns: { brands: ProductBrandSummary[] }
+ */
+export async function GET() {
+  try {
+    const brands = await listProductBrands()
+    return NextResponse.json({ brands }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing product brands:', error)
+    return NextResponse.json(
+      { error: 'Failed to list product brands' },
+      { status: 500 }
+    )
+  }
+}
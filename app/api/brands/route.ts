@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BrandError, createBrand, listBrands } from '@/lib/server/brands'
+
+/**
+ * GET /api/brands
+ *
+ * All registry brands, alphabetical by canonical name.
+ *
+ * Returns: { brands: Brand[] }
+ */
+export async function GET() {
+  try {
+    const brands = await listBrands()
+    return NextResponse.json({ brands }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing brands:', error)
+    return NextResponse.json(
+      { error: 'Failed to list brands' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/brands
+ *
+ * Body: { name: string, aliases?: { ko?: string[], en?: string[], mn?: string[] }, logoUrl?: string, domains?: string[] }
+ *
+ * Returns: Brand (201), 400 with details when invalid, 409 when a name or alias belongs to another brand
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const brand = await createBrand(body)
+    return NextResponse.json(brand, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof BrandError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error creating brand:', error)
+    return NextResponse.json(
+      { error: 'Failed to create brand' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteGlossaryTerm, GlossaryError, updateGlossaryTerm } from '@/lib/server/glossary'
+
+/**
+ * PUT /api/glossary/[id]
+ *
+ * Replace a glossary term.
+ *
+ * Body: { source: string, mode: 'protect' | 'map', target?: string, english?: string, note?: string }
+ *
+ * Returns: GlossaryTerm
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const term = await updateGlossaryTerm(params.id, body)
+    return NextResponse.json(term, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof GlossaryError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating glossary term:', error)
+    return NextResponse.json(
+      { error: 'Failed to update glossary term' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/glossary/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await deleteGlossaryTerm(params.id)
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof GlossaryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error deleting glossary term:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete glossary term' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findGlossaryViolations } from '@/lib/server/translate'
+import { ProductStatus } from '@/types/product'
+
+/**
+ * GET /api/glossary/check
+ *
+ * Products whose Mongolian title/descriptions violate the glossary.
+ * RAW products are skipped unless requested via lifecycleStatus.
+ *
+ * Query params:
+ * - lifecycleStatus: RAW | DRAFT | READY | PUSHED | RETIRED
+ * - store: Source store
+ *
+ * Returns: { results: GlossaryCheckResult[] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const lifecycleStatus = searchParams.get('lifecycleStatus') || undefined
+    const store = searchParams.get('store') || undefined
+
+    if (lifecycleStatus && !['RAW', 'DRAFT', 'READY', 'PUSHED', 'RETIRED'].includes(lifecycleStatus)) {
+      return NextResponse.json(
+        { error: 'lifecycleStatus must be one of: RAW, DRAFT, READY, PUSHED, RETIRED' },
+        { status: 400 }
+      )
+    }
+
+    const results = await findGlossaryViolations({
+      lifecycleStatus: lifecycleStatus as ProductStatus | undefined,
+      store,
+    })
+    return NextResponse.json({ results }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error checking glossary:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to check glossary',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
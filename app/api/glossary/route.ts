@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createGlossaryTerm, GlossaryError, listGlossaryTerms } from '@/lib/server/glossary'
+
+/**
+ * GET /api/glossary
+ *
+ * All glossary terms, alphabetical by source.
+ *
+ * Returns: { terms: GlossaryTerm[] }
+ */
+export async function GET() {
+  try {
+    const terms = await listGlossaryTerms()
+    return NextResponse.json({ terms }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing glossary terms:', error)
+    return NextResponse.json(
+      { error: 'Failed to list glossary terms' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/glossary
+ *
+ * Body: { source: string, mode: 'protect' | 'map', target?: string, english?: string, note?: string }
+ *
+ * Returns: GlossaryTerm (201), 400 with details when invalid, 409 when the source already exists
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const term = await createGlossaryTerm(body)
+    return NextResponse.json(term, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof GlossaryError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error creating glossary term:', error)
+    return NextResponse.json(
+      { error: 'Failed to create glossary term' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorageBackend, isValidStorageKey } from '@/lib/server/storage'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/images/files/[...key]
+ *
+ * Serve a rehosted file from the storage backend. Keys are content hashes,
+ * so responses are cached forever.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  const key = params.key.join('/')
+  if (!isValidStorageKey(key)) {
+    return NextResponse.json(
+      { error: 'Invalid key' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const object = await getStorageBackend().getObject(key)
+    if (!object) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(object.body), {
+      status: 200,
+      headers: {
+        'Content-Type': object.contentType,
+        'Content-Length': object.body.length.toString(),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    })
+  } catch (error: any) {
+    console.error('Error serving stored file:', error)
+    return NextResponse.json(
+      { error: 'Failed to read file' },
+      { status: 500 }
+    )
+  }
+}
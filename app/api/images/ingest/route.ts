@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findProductsWithPendingImages, ingestProductImages } from '@/lib/server/imageIngest'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { AuditContext } from '@/lib/server/audit'
+import { ProductImageIngestResult } from '@/types/product'
+
+export const runtime = 'nodejs'
+
+// Downloads run sequentially; keep one request bounded
+const MAX_PRODUCTS_PER_REQUEST = 20
+
+/**
+ * POST /api/images/ingest
+ *
+ * Rehost images for several products. Without productIds, picks products
+ * whose images are not ingested yet or are due for a retry.
+ *
+ * Body (optional): { productIds?: string[], limit?: number }
+ *
+ * Returns: { results: ProductImageIngestResult[], errors: { id, error }[] }
+ * (results omit the images list; products that could not be processed, e.g.
+ * missing ones, are listed in errors)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { productIds } = body ?? {}
+    const limit = Math.min(Math.max(1, Number(body?.limit) || MAX_PRODUCTS_PER_REQUEST), MAX_PRODUCTS_PER_REQUEST)
+
+    if (productIds !== undefined && (!Array.isArray(productIds) || productIds.some((id: any) => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'productIds must be an array of strings' },
+        { status: 400 }
+      )
+    }
+
+    const ids: string[] = productIds ? productIds.slice(0, limit) : await findProductsWithPendingImages(limit)
+
+    const results: Omit<ProductImageIngestResult, 'images'>[] = []
+    const errors: { id: string; error: string }[] = []
+    const context: AuditContext = { actor: getRequestActor(request), source: 'bulk' }
+    for (const id of ids) {
+      try {
+        const { images, ...summary } = await ingestProductImages(id, { context })
+        results.push(summary)
+      } catch (error: any) {
+        console.error(`Error ingesting images of ${id}:`, error)
+        errors.push({ id, error: error?.message ?? String(error) })
+      }
+    }
+
+    return NextResponse.json({ results, errors }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error ingesting images:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to ingest images',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findSharedImages } from '@/lib/server/imageDuplicates'
+
+/**
+ * GET /api/images/shared
+ *
+ * Report of images attached to many products (same perceptual hash, or same
+ * file_id for images not ingested yet) — usually placeholder or banner images
+ * picked up by the import.
+ *
+ * Query: ?minProducts=3&limit=100
+ *
+ * Returns: { items: SharedImageReportItem[] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const minProducts = Number(searchParams.get('minProducts')) || undefined
+    const limit = Math.min(Math.max(1, Number(searchParams.get('limit')) || 100), 500)
+
+    if (minProducts !== undefined && minProducts < 2) {
+      return NextResponse.json(
+        { error: 'minProducts must be at least 2' },
+        { status: 400 }
+      )
+    }
+
+    const items = await findSharedImages({ minProducts, limit })
+    return NextResponse.json({ items }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error finding shared images:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to find shared images',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,27 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getProductById } from '@/lib/server/products'
 import { buildEnglishImageQuery } from '@/lib/server/geminiImageQuery'
-import { searchImages } from '@/lib/server/googleImageSearch'
+import { getImageSearchProviders, ImageSearchError, searchImagesWithProviders } from '@/lib/server/imageSearch'
+import { scoreImageCandidates } from '@/lib/server/imageScoring'
+import { resolveBrand } from '@/lib/server/brands'
+import { getLatinBrandNames } from '@/lib/brands'
+import { QuotaExceededError } from '@/lib/server/apiQuota'
+import { Product } from '@/types/product'
 
 export const runtime = 'nodejs'
 
 /**
  * GET /api/images/suggest
- * 
- * Suggests images for a product using Google Custom Search.
- * 
+ *
+ * Suggests images for a product from one or more image search providers
+ * (lib/server/imageSearch.ts). Results are merged, deduplicated, scored
+ * (lib/server/imageScoring.ts) and returned best first.
+ *
  * Query params:
  * - productId: Product ID to get info from (optional if q is provided)
- * - count: Number of images to return (default: 12, max: 10 per request)
+ * - count: Number of images to return (default: 10, max: 30)
  * - start: Start index for pagination (default: 1)
  * - q: Manual search query override (optional)
- * 
+ * - provider: Comma-separated providers: google, source, fixture
+ *   (default: IMAGE_SEARCH_PROVIDERS or google)
+ * - bypassCache: 'true' to skip cached Gemini queries and Google result pages
+ *   (lib/server/queryCache.ts); fresh results replace the cached ones
+ *
  * Returns:
  * {
- *   queryEn: string,
- *   urls: string[],
- *   count: number
+ *   queryEnBase: string,
+ *   queryEnFinal: string,
+ *   urls: string[],                  // Ranked, same order as candidates
+ *   candidates: ImageCandidate[],    // Score breakdown, providers, preselected flag
+ *   count: number,
+ *   source: 'manual' | 'product',
+ *   providers: string[],
+ *   providerErrors: { provider, error }[], // Providers that failed while others answered
+ *   cache: { query: 'hit' | 'miss' | 'bypass' }
  * }
+ *
+ * 429 with resetAt and Retry-After when the Google Custom Search quota is used
+ * up (lib/server/apiQuota.ts). An exhausted Gemini quota only degrades the
+ * query to the fallback.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -33,17 +54,6 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Validate required environment variables
-    const googleApiKey = process.env.GOOGLE_CLOUD_API_KEY
-    const customSearchId = process.env.CUSTOM_SEARCH_ENGINE_ID
-
-    if (!googleApiKey || !customSearchId) {
-      return NextResponse.json(
-        { error: 'Google Custom Search API credentials not configured. Set GOOGLE_CLOUD_API_KEY and CUSTOM_SEARCH_ENGINE_ID.' },
-        { status: 500 }
-      )
-    }
-
     const searchParams = request.nextUrl.searchParams
     const productId = searchParams.get('productId')
     const countParam = searchParams.get('count')
@@ -52,21 +62,20 @@ export async function GET(request: NextRequest) {
 
     const count = countParam ? Math.min(Math.max(1, parseInt(countParam, 10)), 30) : 10
     const start = startParam ? Math.max(1, parseInt(startParam, 10)) : 1
+    const providers = getImageSearchProviders(searchParams.get('provider'))
+    const bypassCache = searchParams.get('bypassCache') === 'true'
 
-    let queryEnBase: string
-    let queryEnFinal: string
-    let querySource: string
+    if (!productId && !(manualQuery && manualQuery.trim())) {
+      return NextResponse.json(
+        { error: 'Either productId or q (query) parameter is required' },
+        { status: 400 }
+      )
+    }
 
-    // Determine query: use manual query if provided, otherwise fetch from product
-    if (manualQuery && manualQuery.trim()) {
-      // User provided manual query - still run through Gemini to get English version
-      const result = await buildEnglishImageQuery({ title: manualQuery })
-      queryEnBase = result.queryEnBase
-      queryEnFinal = result.queryEnFinal
-      querySource = 'manual'
-    } else if (productId) {
-      // Fetch product from database
-      const product = await getProductById(productId)
+    // The product supplies the query, the brand for ranking and the source page
+    let product: Product | null = null
+    if (productId) {
+      product = await getProductById(productId)
 
       if (!product) {
         return NextResponse.json(
@@ -74,29 +83,40 @@ export async function GET(request: NextRequest) {
           { status: 404 }
         )
       }
+    }
+
+    // Registry brand: English name for the query, official domains for ranking
+    const brand = await resolveBrand(product?.brand)
+    const brandNamesEn = brand ? getLatinBrandNames(brand) : []
+
+    let queryEnBase: string
+    let queryEnFinal: string
+    let querySource: string
+    let queryCache: string | undefined
 
+    // Determine query: use manual query if provided, otherwise build from product
+    if (manualQuery && manualQuery.trim()) {
+      // User provided manual query - still run through Gemini to get English version
+      const result = await buildEnglishImageQuery({ title: manualQuery }, { bypassCache })
+      queryEnBase = result.queryEnBase
+      queryEnFinal = result.queryEnFinal
+      queryCache = result.cache
+      querySource = 'manual'
+    } else {
       // Build query from product info
       // Priority: nameOriginal (KR source) > title > nameMn
-      const title = product.nameOriginal || product.title || product.nameMn || ''
-      const brand = product.brand || ''
-      const store = product.sourceStore || ''
-      const category = product.category || ''
-
       const result = await buildEnglishImageQuery({
-        title,
-        brand,
-        store,
-        category,
-      })
+        title: product?.nameOriginal || product?.title || product?.nameMn || '',
+        brand: brandNamesEn[0] || product?.brand || '',
+        brandAliases: brandNamesEn.slice(1),
+        store: product?.sourceStore || '',
+        category: product?.category || '',
+      }, { bypassCache })
 
       queryEnBase = result.queryEnBase
       queryEnFinal = result.queryEnFinal
+      queryCache = result.cache
       querySource = 'product'
-    } else {
-      return NextResponse.json(
-        { error: 'Either productId or q (query) parameter is required' },
-        { status: 400 }
-      )
     }
 
     // Validate query
@@ -107,48 +127,45 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Search images with batching support for count > 10
-    const imageUrls: string[] = []
-    let remaining = count
-    let currentStart = start
-    const seenUrls = new Set<string>()
-
-    while (remaining > 0 && imageUrls.length < 30) {
-      const num = Math.min(10, remaining) // Google API max is 10 per request
-      
-      const pageUrls = await searchImages({
-        query: queryEnFinal,
-        num,
-        start: currentStart,
-        rights: process.env.IMAGE_SEARCH_RIGHTS || undefined,
-      })
-
-      // Add unique URLs
-      for (const url of pageUrls) {
-        if (!seenUrls.has(url)) {
-          seenUrls.add(url)
-          imageUrls.push(url)
-          if (imageUrls.length >= count) break
-        }
-      }
+    const { results, errors } = await searchImagesWithProviders(providers, {
+      query: queryEnFinal,
+      count,
+      start,
+      product,
+      bypassCache,
+    })
 
-      // If we got fewer results than requested, we've reached the end
-      if (pageUrls.length < num) {
-        break
-      }
-
-      remaining = count - imageUrls.length
-      currentStart += 10
-    }
+    const candidates = await scoreImageCandidates(results, {
+      brand: brandNamesEn[0] || product?.brand || undefined,
+      officialDomains: brand?.domains,
+    })
 
     return NextResponse.json({
       queryEnBase,
       queryEnFinal,
-      urls: imageUrls.slice(0, count),
-      count: imageUrls.length,
+      urls: candidates.map((candidate) => candidate.url),
+      candidates,
+      count: candidates.length,
       source: querySource,
+      providers: providers.map((provider) => provider.name),
+      providerErrors: errors,
+      cache: { query: queryCache },
     }, { status: 200 })
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, provider: error.provider, resetAt: error.resetAt.toISOString() },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
+    if (error instanceof ImageSearchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+
     console.error('Error in /api/images/suggest:', error)
     return NextResponse.json(
       {
@@ -159,4 +176,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
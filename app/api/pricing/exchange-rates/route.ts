@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addExchangeRate, listExchangeRates } from '@/lib/server/pricing'
+
+/**
+ * GET /api/pricing/exchange-rates
+ *
+ * KRW → MNT rate history, newest effectiveFrom first.
+ *
+ * Returns: { rates: ExchangeRate[] }
+ */
+export async function GET() {
+  try {
+    const rates = await listExchangeRates()
+    return NextResponse.json({ rates }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing exchange rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to list exchange rates' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/pricing/exchange-rates
+ *
+ * Store a new rate. It takes over from effectiveFrom (default: now), so a
+ * rate can be scheduled ahead of time.
+ *
+ * Body: { rate: number, effectiveFrom?: string, note?: string }
+ *
+ * Returns: ExchangeRate (201)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { rate, effectiveFrom, note } = body ?? {}
+
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      return NextResponse.json(
+        { error: 'rate must be a positive number (MNT per 1 KRW)' },
+        { status: 400 }
+      )
+    }
+
+    let effectiveFromDate: Date | undefined
+    if (effectiveFrom !== undefined) {
+      effectiveFromDate = new Date(effectiveFrom)
+      if (isNaN(effectiveFromDate.getTime())) {
+        return NextResponse.json(
+          { error: 'effectiveFrom must be an ISO date' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const created = await addExchangeRate({
+      rate,
+      effectiveFrom: effectiveFromDate,
+      note: typeof note === 'string' ? note : undefined,
+    })
+    return NextResponse.json(created, { status: 201 })
+  } catch (error: any) {
+    console.error('Error adding exchange rate:', error)
+    return NextResponse.json(
+      { error: 'Failed to add exchange rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { repriceProducts } from '@/lib/server/products'
+import { getRequestActor } from '@/lib/server/requestActor'
+
+/**
+ * POST /api/pricing/reprice
+ *
+ * Recompute priceMnt for the selected products with the current pricing config.
+ *
+ * Body:
+ * - ids: string[] - Products to reprice
+ * - apply: boolean - false (default) returns the diff only, true persists it
+ *
+ * Returns:
+ * {
+ *   exchangeRate: ExchangeRate,
+ *   items: [{ id, title, currentPriceMnt, suggestedPriceMnt, diffMnt, ruleId }],
+ *   changed: number,
+ *   applied: boolean
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { ids, apply } = body ?? {}
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some((id: any) => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'ids must be a non-empty array of strings' },
+        { status: 400 }
+      )
+    }
+
+    const result = await repriceProducts(ids, {
+      apply: apply === true,
+      context: { actor: getRequestActor(request), source: 'bulk' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    console.error('Error repricing products:', error)
+    return NextResponse.json(
+      { error: 'Failed to reprice products' },
+      { status: 500 }
+    )
+  }
+}
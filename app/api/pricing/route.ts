@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPricingConfig, savePricingSettings } from '@/lib/server/pricing'
+import { validatePricingSettings } from '@/lib/pricing'
+
+/**
+ * GET /api/pricing
+ *
+ * Current pricing configuration: the exchange rate in effect plus markup
+ * rules, rounding and default shipping weight.
+ *
+ * Returns: PricingConfig
+ */
+export async function GET() {
+  try {
+    const config = await getPricingConfig()
+    return NextResponse.json(config, { status: 200 })
+  } catch (error: any) {
+    console.error('Error loading pricing config:', error)
+    return NextResponse.json(
+      { error: 'Failed to load pricing config' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/pricing
+ *
+ * Replace markup rules, rounding and default shipping weight.
+ * The exchange rate is managed via /api/pricing/exchange-rates.
+ *
+ * Body: { rules: MarkupRule[], rounding: { mode, step }, defaultWeightKg: number }
+ *
+ * Returns: PricingConfig
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const errors = validatePricingSettings(body)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid pricing settings', details: errors },
+        { status: 400 }
+      )
+    }
+
+    await savePricingSettings(body)
+    const config = await getPricingConfig()
+    return NextResponse.json(config, { status: 200 })
+  } catch (error: any) {
+    console.error('Error saving pricing settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to save pricing settings' },
+      { status: 500 }
+    )
+  }
+}
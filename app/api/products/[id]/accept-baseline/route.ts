@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { acceptSourceBaseline } from '@/lib/server/products'
+import { getRequestActor } from '@/lib/server/requestActor'
+
+/**
+ * POST /api/products/[id]/accept-baseline
+ *
+ * Accept the last checked source price as the new baseline
+ * (sourceBaselinePriceKrw and priceKrw), clearing the price-changed flag.
+ * The change is recorded in the policy audit trail.
+ *
+ * Returns: Updated product
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await acceptSourceBaseline(params.id, { actor: getRequestActor(request), source: 'ui' })
+    return NextResponse.json(product, { status: 200 })
+  } catch (error: any) {
+    if (error?.message?.includes('not found')) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+    if (error?.message?.includes('no checked source price')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error accepting source baseline:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to accept source baseline',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyProductAttributes, AttributeError } from '@/lib/server/attributes'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TrashError } from '@/lib/server/trash'
+
+/**
+ * POST /api/products/[id]/attributes/apply
+ *
+ * Accept attribute suggestions into sizes, colors and custom_specifications.
+ * Suggestions not listed are discarded; an empty list dismisses them all.
+ *
+ * Body: { accept: string[] }  // ExtractedAttribute keys
+ *
+ * Returns: { productId, applied, product }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => null)
+    const accept = body?.accept
+
+    if (!Array.isArray(accept) || accept.some((key: any) => typeof key !== 'string')) {
+      return NextResponse.json(
+        { error: 'accept must be an array of attribute keys' },
+        { status: 400 }
+      )
+    }
+
+    const result = await applyProductAttributes(params.id, accept, { actor: getRequestActor(request), source: 'ui' })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AttributeError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error applying product attributes:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to apply product attributes',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QuotaExceededError } from '@/lib/server/apiQuota'
+import { AttributeError, extractProductAttributes } from '@/lib/server/attributes'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TrashError } from '@/lib/server/trash'
+
+/**
+ * POST /api/products/[id]/attributes
+ *
+ * Propose sizes, colors and specifications from the product's source title and
+ * store them as `attributeSuggestions` for review. Replaces earlier proposals.
+ *
+ * Body (optional): { useLlm?: boolean }  // Also ask Gemini for what the rules missed
+ *
+ * Returns: { productId, suggestions, product }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const result = await extractProductAttributes(params.id, {
+      useLlm: body?.useLlm === true,
+      context: { actor: getRequestActor(request), source: 'ui' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, provider: error.provider, resetAt: error.resetAt.toISOString() },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AttributeError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error extracting product attributes:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to extract product attributes',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
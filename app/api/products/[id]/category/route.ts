@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { assignProductCategory, TaxonomyError } from '@/lib/server/taxonomy'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TrashError } from '@/lib/server/trash'
+
+/**
+ * PUT /api/products/[id]/category
+ *
+ * Set the storefront category by hand. Mapping rules leave the product alone
+ * afterwards.
+ *
+ * Body: { category: string, subCategory?: string | null }
+ *
+ * Returns: Product
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => null)
+    const product = await assignProductCategory(params.id, {
+      category: body?.category,
+      subCategory: body?.subCategory ?? null,
+    }, { actor: getRequestActor(request), source: 'ui' })
+    return NextResponse.json(product, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error assigning product category:', error)
+    return NextResponse.json(
+      { error: 'Failed to assign product category' },
+      { status: 500 }
+    )
+  }
+}
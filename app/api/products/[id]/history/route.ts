@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProductById } from '@/lib/server/products'
+import { listAuditEvents } from '@/lib/server/audit'
+
+/**
+ * GET /api/products/[id]/history
+ *
+ * Returns the audit log of a product (edits, status changes, publishing,
+ * trash, reprices, imports and policy writes), most recent first.
+ *
+ * Query params:
+ * - limit: Max events to return (default: 100, max: 500)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await getProductById(params.id)
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit')
+    const limit = limitParam ? Math.min(Math.max(1, parseInt(limitParam, 10) || 100), 500) : 100
+
+    const events = await listAuditEvents(product.id, limit)
+    return NextResponse.json(events, { status: 200 })
+  } catch (error: any) {
+    console.error('Error getting product history:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to get product history',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
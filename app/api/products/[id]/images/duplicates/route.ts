@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getImageDuplicateWarnings } from '@/lib/server/imageDuplicates'
+
+/**
+ * GET /api/products/[id]/images/duplicates
+ *
+ * Duplicate warnings for the product's imagesFinal: images shared with many
+ * other products and near-duplicates within the product itself.
+ *
+ * Returns: { warnings: ImageDuplicateWarning[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const warnings = await getImageDuplicateWarnings(params.id)
+    return NextResponse.json({ warnings }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error checking image duplicates:', error)
+
+    if (error?.message?.includes('not found')) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to check image duplicates',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
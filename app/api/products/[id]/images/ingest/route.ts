@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ingestProductImages } from '@/lib/server/imageIngest'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TrashError } from '@/lib/server/trash'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/products/[id]/images/ingest
+ *
+ * Download the product's hotlinked images and rehost them in the storage
+ * backend. Updates the images documents and imagesFinal; URLs that fail are
+ * reported and left pointing at the source.
+ *
+ * Also renders the size variants of the rehosted final images.
+ *
+ * Returns: { productId, ingested, reused, variantsGenerated, failed: [{ url, error }], images }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await ingestProductImages(params.id, { context: { actor: getRequestActor(request), source: 'ui' } })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    if (error?.message?.includes('not found')) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error ingesting product images:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to ingest product images',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
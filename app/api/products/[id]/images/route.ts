@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProductById } from '@/lib/server/products'
+import { listProductImages } from '@/lib/server/imageIngest'
+
+/**
+ * GET /api/products/[id]/images
+ *
+ * Documents of the images collection for a product, ordered by sort,
+ * including rehosting metadata (originalUrl, width, height, sha256).
+ *
+ * Returns: ProductImageRecord[]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await getProductById(params.id)
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const images = await listProductImages(product.id)
+    return NextResponse.json(images, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing product images:', error)
+    return NextResponse.json(
+      { error: 'Failed to list product images' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateProductImageVariants } from '@/lib/server/imageVariants'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TrashError } from '@/lib/server/trash'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/products/[id]/images/variants
+ *
+ * Render the thumbnail, card and zoom variants (WebP + JPEG) of the product's
+ * rehosted imagesFinal entries. Entries not rehosted yet are reported as
+ * pending. Existing variants are kept unless force is set.
+ *
+ * Body (optional): { force?: boolean }
+ *
+ * Returns: { productId, generated, skipped, pending, failed: [{ url, error }], product }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const result = await generateProductImageVariants(params.id, {
+      force: body?.force === true,
+      context: { actor: getRequestActor(request), source: 'ui' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    if (error?.message?.includes('not found')) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Error generating image variants:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to generate image variants',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
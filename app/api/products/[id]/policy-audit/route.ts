@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProductById } from '@/lib/server/products'
+import { listPolicyAudits } from '@/lib/server/sourcePolicy'
+
+/**
+ * GET /api/products/[id]/policy-audit
+ *
+ * Returns the source policy audit trail for a product (automatic reprices,
+ * hides, review queueing and accepted baselines), most recent first.
+ *
+ * Query params:
+ * - limit: Max records to return (default: 100, max: 500)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await getProductById(params.id)
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit')
+    const limit = limitParam ? Math.min(Math.max(1, parseInt(limitParam, 10) || 100), 500) : 100
+
+    const audits = await listPolicyAudits(product.id, limit)
+    return NextResponse.json(audits, { status: 200 })
+  } catch (error: any) {
+    console.error('Error getting policy audit:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to get policy audit',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { restoreProducts, TrashError } from '@/lib/server/trash'
+
+/**
+ * POST /api/products/[id]/restore
+ *
+ * Take the product out of the trash.
+ *
+ * Returns: Product
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const [product] = await restoreProducts([params.id], { actor: getRequestActor(request), source: 'ui' })
+    return NextResponse.json(product, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error restoring product:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to restore product',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
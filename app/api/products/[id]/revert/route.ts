@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revertProductToRevision } from '@/lib/server/products'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { RevisionError } from '@/lib/server/revisions'
+
+/**
+ * POST /api/products/[id]/revert
+ *
+ * Set the editable fields back to a revision. Only whitelisted fields are
+ * written, after the same field checks as PATCH (400 INVALID with
+ * `failedRules`); the revert is recorded in the history as a new revision.
+ *
+ * Body: { revisionId: string }
+ *
+ * Returns: Updated product
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (typeof body?.revisionId !== 'string' || body.revisionId === '') {
+      return NextResponse.json(
+        { error: 'revisionId must be a non-empty string', code: 'INVALID' },
+        { status: 400 }
+      )
+    }
+
+    const product = await revertProductToRevision(params.id, body.revisionId, {
+      actor: getRequestActor(request),
+      source: 'ui',
+    })
+    return NextResponse.json(product, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof RevisionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.failedRules.length > 0 && { failedRules: error.failedRules }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error reverting product:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to revert product',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProductById } from '@/lib/server/products'
+import { listProductRevisions } from '@/lib/server/revisions'
+
+/**
+ * GET /api/products/[id]/revisions
+ *
+ * Returns the revision snapshots of the product's editable fields (names,
+ * descriptions, brand, prices, final images, category), newest first.
+ *
+ * Query params:
+ * - limit: Max revisions to return (default: 100, max: 500)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await getProductById(params.id)
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit')
+    const limit = limitParam ? Math.min(Math.max(1, parseInt(limitParam, 10) || 100), 500) : 100
+
+    const revisions = await listProductRevisions(product.id, limit)
+    return NextResponse.json(revisions, { status: 200 })
+  } catch (error: any) {
+    console.error('Error getting product revisions:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to get product revisions',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
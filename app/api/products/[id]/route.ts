@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AuditContext } from '@/lib/server/audit'
 import { getProductById, updateProductById } from '@/lib/server/products'
+import { isLifecycleStatus, LifecycleTransitionError } from '@/lib/server/lifecycle'
+import { publishProduct, PublishError, retireProduct } from '@/lib/server/publisher'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { deleteProducts, TrashError } from '@/lib/server/trash'
+import { DRAFT_VALIDATION_CONFIG, validateProduct } from '@/lib/validation'
 
 export async function GET(
   request: NextRequest,
@@ -51,6 +57,25 @@ export async function PATCH(
     // Remove id from body if present (shouldn't be updated)
     const { id, ...patch } = body
 
+    if (patch.lifecycleStatus !== undefined && !isLifecycleStatus(patch.lifecycleStatus)) {
+      return NextResponse.json(
+        { error: 'lifecycleStatus must be one of: RAW, DRAFT, READY, PUSHED, RETIRED' },
+        { status: 400 }
+      )
+    }
+
+    // Reject values that are invalid in any lifecycle state (shared rules, patched fields only)
+    const validation = validateProduct(patch, DRAFT_VALIDATION_CONFIG, {
+      onlyFields: Object.keys(patch),
+      normalize: false,
+    })
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid product fields', failedRules: validation.errors },
+        { status: 400 }
+      )
+    }
+
     // Check for blocked storefront fields and warn
     const BLOCKED_FIELDS = [
       'status',
@@ -75,7 +100,20 @@ export async function PATCH(
       )
     }
 
-    const product = await updateProductById(params.id, patch)
+    // Pushing publishes to the storefront and retiring unpublishes (with
+    // `retiredReason`); either way the other fields in the patch are saved
+    // only if the adapter succeeds
+    const context: AuditContext = { actor: getRequestActor(request), source: 'ui' }
+    let product
+    if (patch.lifecycleStatus === 'PUSHED') {
+      const { lifecycleStatus, ...fields } = patch
+      product = await publishProduct(params.id, { fields, context })
+    } else if (patch.lifecycleStatus === 'RETIRED') {
+      const { lifecycleStatus, retiredReason, ...fields } = patch
+      product = await retireProduct(params.id, { reason: retiredReason, fields, context })
+    } else {
+      product = await updateProductById(params.id, patch, context)
+    }
     
     // Return product with warning in response if blocked fields were present
     const response: any = product
@@ -88,6 +126,22 @@ export async function PATCH(
     
     return NextResponse.json(response, { status: 200 })
   } catch (error: any) {
+    if (error instanceof LifecycleTransitionError) {
+      return NextResponse.json(error.toResponseBody(), { status: 409 })
+    }
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+    if (error instanceof PublishError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.product && { product: error.product }) },
+        { status: error.status }
+      )
+    }
+
     console.error('Error updating product:', error)
     if (error?.stack) {
       console.error('Stack trace:', error.stack)
@@ -111,3 +165,37 @@ export async function PATCH(
   }
 }
 
+/**
+ * DELETE /api/products/[id]
+ *
+ * Move the product to the trash (restore with POST /api/products/[id]/restore).
+ * PUSHED products have to be retired first (409).
+ *
+ * Returns: Product
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const [product] = await deleteProducts([params.id], { actor: getRequestActor(request), source: 'ui' })
+    return NextResponse.json(product, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error deleting product:', error)
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to delete product',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
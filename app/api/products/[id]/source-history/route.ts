@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProductById } from '@/lib/server/products'
+import { listSourceChecks } from '@/lib/server/sourceCheck'
+
+/**
+ * GET /api/products/[id]/source-history
+ *
+ * Returns the persisted source checks for a product, most recent first.
+ *
+ * Query params:
+ * - days: Only include checks from the last N days (default: 30)
+ * - limit: Max records to return (default: 200, max: 1000)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await getProductById(params.id)
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const daysParam = searchParams.get('days')
+    const limitParam = searchParams.get('limit')
+
+    const days = daysParam ? Math.max(1, parseInt(daysParam, 10) || 30) : 30
+    const limit = limitParam ? Math.min(Math.max(1, parseInt(limitParam, 10) || 200), 1000) : 200
+    const since = new Date(Date.now() - days * 86400000)
+
+    const checks = await listSourceChecks(product.id, { since, limit })
+    return NextResponse.json(checks, { status: 200 })
+  } catch (error: any) {
+    console.error('Error getting source history:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to get source history',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QuotaExceededError } from '@/lib/server/apiQuota'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TRANSLATABLE_FIELDS, TranslationError, translateProduct } from '@/lib/server/translate'
+import { TranslatableField } from '@/types/product'
+import { TrashError } from '@/lib/server/trash'
+
+/**
+ * POST /api/products/[id]/translate
+ *
+ * Machine translate the Mongolian title/descriptions of a RAW or DRAFT product
+ * (RAW moves to DRAFT). Fields edited by a human are skipped and reported
+ * unless `overwrite` is true.
+ *
+ * Body (optional): { fields?: TranslatableField[], overwrite?: boolean }
+ *
+ * Returns: { productId, provider, translated, cached, skipped, requiresConfirmation, product }
+ *
+ * 429 with resetAt and Retry-After when the Gemini quota is used up.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    const fields = body?.fields
+    if (
+      fields !== undefined &&
+      (!Array.isArray(fields) || fields.some((f: any) => !TRANSLATABLE_FIELDS.includes(f)))
+    ) {
+      return NextResponse.json(
+        { error: `fields must be an array of: ${TRANSLATABLE_FIELDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await translateProduct(params.id, {
+      fields: fields as TranslatableField[] | undefined,
+      overwrite: body?.overwrite === true,
+      context: { actor: getRequestActor(request), source: 'ui' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, provider: error.provider, resetAt: error.resetAt.toISOString() },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof TranslationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error translating product:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to translate product',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QuotaExceededError } from '@/lib/server/apiQuota'
+import { extractAttributesForProducts } from '@/lib/server/attributes'
+import { getRequestActor } from '@/lib/server/requestActor'
+
+// With Gemini each product is one request, keep runs bounded
+const MAX_BULK_EXTRACT = 50
+
+/**
+ * POST /api/products/bulk-extract-attributes
+ *
+ * Propose attributes for several RAW products. Products that are not RAW or
+ * do not exist are listed in `errors`.
+ *
+ * Body: { ids: string[], useLlm?: boolean }
+ *
+ * Returns: { results: ProductAttributeExtractResult[], errors: { id, code, error }[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const ids = body?.ids
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: 'ids must be a non-empty array' },
+        { status: 400 }
+      )
+    }
+
+    if (ids.length > MAX_BULK_EXTRACT) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_EXTRACT} products can be processed per request` },
+        { status: 400 }
+      )
+    }
+
+    const result = await extractAttributesForProducts(ids, {
+      useLlm: body?.useLlm === true,
+      context: { actor: getRequestActor(request), source: 'bulk' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, provider: error.provider, resetAt: error.resetAt.toISOString() },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
+    console.error('Error extracting attributes:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to extract attributes',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
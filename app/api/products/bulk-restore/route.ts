@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { restoreProducts, TrashError } from '@/lib/server/trash'
+
+/**
+ * POST /api/products/bulk-restore
+ *
+ * Take several products out of the trash.
+ *
+ * Body: { ids: string[] }
+ *
+ * Returns: Product[]
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const products = await restoreProducts(body?.ids, { actor: getRequestActor(request), source: 'bulk' })
+    return NextResponse.json(products, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error restoring products:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to restore products',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AuditContext } from '@/lib/server/audit'
 import { updateManyStatus } from '@/lib/server/products'
-import { ProductStatus } from '@/types/product'
+import { isLifecycleStatus, LifecycleTransitionError } from '@/lib/server/lifecycle'
+import { publishProducts, PublishError, PublishProductsResult, retireProducts } from '@/lib/server/publisher'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TrashError } from '@/lib/server/trash'
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -14,7 +18,7 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    const { ids, lifecycleStatus } = body
+    const { ids, lifecycleStatus, retiredReason } = body
 
     if (!Array.isArray(ids) || ids.length === 0) {
       return NextResponse.json(
@@ -23,16 +27,51 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    if (!lifecycleStatus || !['RAW', 'DRAFT', 'READY', 'PUSHED'].includes(lifecycleStatus)) {
+    if (!isLifecycleStatus(lifecycleStatus)) {
       return NextResponse.json(
-        { error: 'lifecycleStatus must be one of: RAW, DRAFT, READY, PUSHED' },
+        { error: 'lifecycleStatus must be one of: RAW, DRAFT, READY, PUSHED, RETIRED' },
         { status: 400 }
       )
     }
 
-    const products = await updateManyStatus(ids, lifecycleStatus as ProductStatus)
+    const context: AuditContext = { actor: getRequestActor(request), source: 'bulk' }
+
+    // Pushing publishes each product to the storefront, retiring unpublishes it
+    if (lifecycleStatus === 'PUSHED' || lifecycleStatus === 'RETIRED') {
+      const { products, errors }: PublishProductsResult =
+        lifecycleStatus === 'PUSHED'
+          ? await publishProducts(ids, { context })
+          : await retireProducts(ids, { reason: retiredReason, context })
+      if (errors.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Failed to ${lifecycleStatus === 'PUSHED' ? 'publish' : 'retire'} ${errors.length} of ${ids.length} products`,
+            code: 'PUBLISH_FAILED',
+            products,
+            errors,
+          },
+          { status: 502 }
+        )
+      }
+      return NextResponse.json(products, { status: 200 })
+    }
+
+    const products = await updateManyStatus(ids, lifecycleStatus, context)
     return NextResponse.json(products, { status: 200 })
   } catch (error) {
+    if (error instanceof LifecycleTransitionError) {
+      return NextResponse.json(error.toResponseBody(), { status: 409 })
+    }
+    if (error instanceof PublishError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
     console.error('Error updating bulk status:', error)
     return NextResponse.json(
       { error: 'Failed to update bulk status' },
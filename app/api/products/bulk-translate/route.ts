@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { QuotaExceededError } from '@/lib/server/apiQuota'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { TRANSLATABLE_FIELDS, TranslationError, translateProducts } from '@/lib/server/translate'
+import { TranslatableField } from '@/types/product'
+
+// Translations run sequentially against the provider, keep requests bounded
+const MAX_BULK_TRANSLATE = 50
+
+/**
+ * POST /api/products/bulk-translate
+ *
+ * Machine translate several RAW/DRAFT products. Human edits are kept unless
+ * `overwrite` is true; products that cannot be translated (wrong status, in
+ * the trash, provider or write failures) are listed in `errors` and the rest
+ * are still translated.
+ *
+ * Body: { ids: string[], fields?: TranslatableField[], overwrite?: boolean }
+ *
+ * Returns: { results: ProductTranslateResult[], errors: { id, code, error }[] }
+ *
+ * Stops at the first product that hits the Gemini quota; it and the rest are
+ * listed in `errors` with code QUOTA_EXCEEDED (429 when nothing was translated).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const { ids, fields, overwrite } = body
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: 'ids must be a non-empty array' },
+        { status: 400 }
+      )
+    }
+
+    if (ids.length > MAX_BULK_TRANSLATE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_TRANSLATE} products can be translated per request` },
+        { status: 400 }
+      )
+    }
+
+    if (
+      fields !== undefined &&
+      (!Array.isArray(fields) || fields.some((f: any) => !TRANSLATABLE_FIELDS.includes(f)))
+    ) {
+      return NextResponse.json(
+        { error: `fields must be an array of: ${TRANSLATABLE_FIELDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await translateProducts(ids, {
+      fields: fields as TranslatableField[] | undefined,
+      overwrite: overwrite === true,
+      context: { actor: getRequestActor(request), source: 'bulk' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, provider: error.provider, resetAt: error.resetAt.toISOString() },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
+    if (error instanceof TranslationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error translating products:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to translate products',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
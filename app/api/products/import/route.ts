@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createManyProducts } from '@/lib/server/products'
+import { getRequestActor } from '@/lib/server/requestActor'
 import { Product } from '@/types/product'
 import { generateFakeProducts } from '@/lib/fake-data'
 import { Store, Category } from '@/types/product'
@@ -78,7 +79,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create products
-    const created = await createManyProducts(uniqueProducts)
+    const created = await createManyProducts(uniqueProducts, { actor: getRequestActor(request), source: 'import' })
 
     return NextResponse.json({
       message: `Created ${created.length} products, skipped ${productsToCreate.length - uniqueProducts.length} duplicates`,
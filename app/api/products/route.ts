@@ -1,28 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { listProducts } from '@/lib/server/products'
-import { ProductStatus } from '@/types/product'
+import { listProductsPage } from '@/lib/server/products'
+import { ProductFlagFilter, ProductListQuery, ProductSortKey, ProductStatus } from '@/types/product'
 
+const SORT_KEYS: ProductSortKey[] = ['createdAt', 'price', 'sourceLastCheckedAt', 'flagPriority', 'deletedAt']
+const FLAG_FILTERS: ProductFlagFilter[] = ['priceChanged', 'outOfStock', 'hidden', 'needsReview']
+
+/**
+ * GET /api/products
+ *
+ * Query params:
+ * - lifecycleStatus, store, visibility, category, brand: exact filters (brand is case-insensitive and also matches registry aliases)
+ * - q: text filter on title, names, brand and sourceProductId
+ * - flag: priceChanged | outOfStock | hidden | needsReview
+ * - deleted: true lists the trash instead (products in it are left out otherwise)
+ * - sort: createdAt | price | sourceLastCheckedAt | flagPriority | deletedAt (default: flagPriority)
+ * - order: asc | desc (default: desc)
+ * - limit: page size (default: 50, max: 200)
+ * - cursor: nextCursor from the previous page (400 when sort or order differ from that page's)
+ *
+ * Returns:
+ * {
+ *   items: Product[],
+ *   nextCursor: string | null,
+ *   total: number
+ * }
+ */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const lifecycleStatus = searchParams.get('lifecycleStatus') as ProductStatus | null
-    const store = searchParams.get('store') || undefined
-    const visibility = searchParams.get('visibility') || undefined
+    const sort = searchParams.get('sort') as ProductSortKey | null
+    const flag = searchParams.get('flag') as ProductFlagFilter | null
+    const order = searchParams.get('order')
+    const limitParam = searchParams.get('limit')
 
-    const filters: any = {}
-    if (lifecycleStatus && ['RAW', 'DRAFT', 'READY', 'PUSHED'].includes(lifecycleStatus)) {
+    const filters: ProductListQuery = {}
+    if (lifecycleStatus && ['RAW', 'DRAFT', 'READY', 'PUSHED', 'RETIRED'].includes(lifecycleStatus)) {
       filters.lifecycleStatus = lifecycleStatus
     }
-    if (store) {
-      filters.store = store
+    for (const key of ['store', 'visibility', 'category', 'brand', 'q', 'cursor'] as const) {
+      const value = searchParams.get(key)
+      if (value) {
+        filters[key] = value
+      }
+    }
+    if (sort) {
+      if (!SORT_KEYS.includes(sort)) {
+        return NextResponse.json(
+          { error: `sort must be one of: ${SORT_KEYS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      filters.sort = sort
+    }
+    if (flag) {
+      if (!FLAG_FILTERS.includes(flag)) {
+        return NextResponse.json(
+          { error: `flag must be one of: ${FLAG_FILTERS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      filters.flag = flag
+    }
+    if (searchParams.get('deleted') === 'true') {
+      filters.deleted = true
     }
-    if (visibility) {
-      filters.visibility = visibility
+    if (order === 'asc' || order === 'desc') {
+      filters.order = order
+    }
+    if (limitParam) {
+      filters.limit = parseInt(limitParam, 10) || undefined
+    }
+
+    const page = await listProductsPage(filters)
+    return NextResponse.json(page, { status: 200 })
+  } catch (error: any) {
+    if (typeof error?.message === 'string' && error.message.startsWith('Invalid cursor')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
     }
 
-    const products = await listProducts(filters)
-    return NextResponse.json(products, { status: 200 })
-  } catch (error) {
     console.error('Error listing products:', error)
     return NextResponse.json(
       { error: 'Failed to list products' },
@@ -30,4 +89,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
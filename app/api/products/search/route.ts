@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { searchProductsText } from '@/lib/server/products'
+import { isLifecycleStatus } from '@/lib/server/lifecycle'
+import { ProductFlagFilter } from '@/types/product'
+
+const FLAG_FILTERS: ProductFlagFilter[] = ['priceChanged', 'outOfStock', 'hidden', 'needsReview']
+
+/**
+ * GET /api/products/search
+ *
+ * Full-text search over nameOriginal, title, brand, sourceProductId and tags.
+ * Matches partial Korean and Mongolian fragments (n-gram index).
+ *
+ * Query params:
+ * - q: search text (required)
+ * - lifecycleStatus, store, visibility, category, brand: optional exact filters
+ *   (brand is case-insensitive and also matches registry aliases)
+ * - flag: priceChanged | outOfStock | hidden | needsReview
+ * - limit: max results (default: 20, max: 100)
+ *
+ * Returns:
+ * {
+ *   query: string,
+ *   total: number,
+ *   results: [{ product, score, highlights: [{ field, snippet }] }]
+ * }
+ *
+ * Snippets are HTML-escaped with matches wrapped in <mark></mark>.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const q = searchParams.get('q')?.trim()
+    if (!q) {
+      return NextResponse.json(
+        { error: 'q is required' },
+        { status: 400 }
+      )
+    }
+
+    const lifecycleStatus = searchParams.get('lifecycleStatus')
+    const flag = searchParams.get('flag') as ProductFlagFilter | null
+    const limitParam = searchParams.get('limit')
+
+    if (flag && !FLAG_FILTERS.includes(flag)) {
+      return NextResponse.json(
+        { error: `flag must be one of: ${FLAG_FILTERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const response = await searchProductsText(q, {
+      lifecycleStatus: isLifecycleStatus(lifecycleStatus) ? lifecycleStatus : undefined,
+      store: searchParams.get('store') || undefined,
+      visibility: searchParams.get('visibility') || undefined,
+      category: searchParams.get('category') || undefined,
+      brand: searchParams.get('brand') || undefined,
+      flag: flag || undefined,
+      limit: limitParam ? parseInt(limitParam, 10) || undefined : undefined,
+    })
+
+    return NextResponse.json(response, { status: 200 })
+  } catch (error: any) {
+    console.error('Error searching products:', error)
+    return NextResponse.json(
+      { error: 'Failed to search products' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getProductStats } from '@/lib/server/products'
+
+/**
+ * GET /api/products/stats
+ *
+ * Dashboard counts and filter options, aggregated in the database so the
+ * dashboard does not have to load every product.
+ *
+ * Returns: { total: number, byStatus: Record<ProductStatus, number>, categories: string[], brands: string[] }
+ */
+export async function GET() {
+  try {
+    const stats = await getProductStats()
+    return NextResponse.json(stats, { status: 200 })
+  } catch (error: any) {
+    console.error('Error loading product stats:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to load product stats',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
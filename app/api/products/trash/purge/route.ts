@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestActor } from '@/lib/server/requestActor'
+import { purgeTrash, TrashError } from '@/lib/server/trash'
+
+/**
+ * POST /api/products/trash/purge
+ *
+ * Permanently remove products from the trash, with their `images` documents.
+ * Without `ids`, purges products deleted more than TRASH_RETENTION_DAYS ago.
+ *
+ * Body: { ids?: string[] }
+ *
+ * Returns: { purged: number, imagesDeleted: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const result = await purgeTrash({
+      ids: body?.ids ?? undefined,
+      context: { actor: getRequestActor(request), source: 'ui' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TrashError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error purging trash:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to purge trash',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getTrashSummary } from '@/lib/server/trash'
+
+/**
+ * GET /api/products/trash
+ *
+ * Trash summary; the deleted products themselves are listed by
+ * GET /api/products?deleted=true.
+ *
+ * Returns: { retentionDays: number, total: number, expired: number }
+ */
+export async function GET() {
+  try {
+    const summary = await getTrashSummary()
+    return NextResponse.json(summary, { status: 200 })
+  } catch (error: any) {
+    console.error('Error loading trash summary:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to load trash',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
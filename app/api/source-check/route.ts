@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runSourceCheck } from '@/lib/server/sourceCheck'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/source-check
+ *
+ * Checks the source pages of PUSHED products, updates the source change
+ * detection fields in the database and applies the source policy.
+ *
+ * Body (optional):
+ * - ids: string[] - Restrict the check to these products (default: all PUSHED)
+ * - htmlFixtures: Record<sourceUrl, html> - Offline HTML (not available in production)
+ *
+ * Returns:
+ * {
+ *   checked: number,
+ *   priceChanged: number,
+ *   outOfStock: number,
+ *   failed: number,
+ *   repriced: number,        // Source policy: priceMnt recomputed
+ *   hidden: number,          // Source policy: hidden while out of stock
+ *   queuedForReview: number, // Source policy: queued for manual review
+ *   results: SourceCheckItemResult[]
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Body is optional - an empty POST checks every PUSHED product
+    const text = await request.text()
+    const body = text ? JSON.parse(text) : {}
+
+    if (typeof body !== 'object' || body === null) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const { ids, htmlFixtures } = body
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: any) => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of strings' },
+        { status: 400 }
+      )
+    }
+
+    if (htmlFixtures !== undefined && process.env.NODE_ENV === 'production') {
+      return NextResponse.json(
+        { error: 'htmlFixtures are not available in production' },
+        { status: 403 }
+      )
+    }
+
+    const summary = await runSourceCheck({ ids, htmlFixtures })
+    return NextResponse.json(summary, { status: 200 })
+  } catch (error: any) {
+    console.error('Error running source check:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to run source check',
+        details: process.env.NODE_ENV === 'development' ? error?.message : undefined,
+      },
+      { status: 500 }
+    )
+  }
+}
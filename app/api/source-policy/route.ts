@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getSourcePolicySettings,
+  saveSourcePolicySettings,
+  validateSourcePolicySettings,
+} from '@/lib/server/sourcePolicy'
+
+/**
+ * GET /api/source-policy
+ *
+ * What the source check does with flagged products.
+ *
+ * Returns:
+ * {
+ *   priceChange: { action: 'reprice' | 'review' | 'none', tolerancePercent: number },
+ *   outOfStock: { action: 'hide' | 'review' | 'none' }
+ * }
+ */
+export async function GET() {
+  try {
+    const settings = await getSourcePolicySettings()
+    return NextResponse.json(settings, { status: 200 })
+  } catch (error: any) {
+    console.error('Error loading source policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to load source policy' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/source-policy
+ *
+ * Replace the source policy settings (same shape as GET).
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const errors = validateSourcePolicySettings(body)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid source policy', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const settings = await saveSourcePolicySettings(body)
+    return NextResponse.json(settings, { status: 200 })
+  } catch (error: any) {
+    console.error('Error saving source policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to save source policy' },
+      { status: 500 }
+    )
+  }
+}
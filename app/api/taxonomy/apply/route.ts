@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyCategoryMappings } from '@/lib/server/taxonomy'
+import { getRequestActor } from '@/lib/server/requestActor'
+
+/**
+ * POST /api/taxonomy/apply
+ *
+ * Re-apply the mapping rules to existing products. Categories picked by hand
+ * in the editor are kept.
+ *
+ * Body (optional): { store?: Store }
+ *
+ * Returns: CategoryMappingApplyResult
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const result = await applyCategoryMappings({
+      store: body?.store || undefined,
+      context: { actor: getRequestActor(request), source: 'bulk' },
+    })
+    return NextResponse.json(result, { status: 200 })
+  } catch (error: any) {
+    console.error('Error applying category mappings:', error)
+
+    const isDev = process.env.NODE_ENV === 'development'
+    return NextResponse.json(
+      {
+        error: 'Failed to apply category mappings',
+        ...(isDev && { details: error?.message ?? String(error) }),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteTaxonomyCategory, TaxonomyError, updateTaxonomyCategory } from '@/lib/server/taxonomy'
+
+/**
+ * PUT /api/taxonomy/categories/[id]
+ *
+ * Rename, re-sort or move a category. The slug cannot change.
+ *
+ * Body: { slug: string, name: string, nameMn?: string, parentSlug?: string | null, sort?: number }
+ *
+ * Returns: TaxonomyCategory
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const updated = await updateTaxonomyCategory(params.id, body)
+    return NextResponse.json(updated, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating taxonomy category:', error)
+    return NextResponse.json(
+      { error: 'Failed to update taxonomy category' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/taxonomy/categories/[id]
+ *
+ * Only unused categories (no sub-categories, products or rules) can be deleted; 409 otherwise.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await deleteTaxonomyCategory(params.id)
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error deleting taxonomy category:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete taxonomy category' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createTaxonomyCategory, listTaxonomyCategories, TaxonomyError } from '@/lib/server/taxonomy'
+
+/**
+ * GET /api/taxonomy/categories
+ *
+ * The storefront category tree, each top-level category followed by its sub-categories.
+ *
+ * Returns: { categories: TaxonomyCategory[] }
+ */
+export async function GET() {
+  try {
+    const categories = await listTaxonomyCategories()
+    return NextResponse.json({ categories }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing taxonomy categories:', error)
+    return NextResponse.json(
+      { error: 'Failed to list taxonomy categories' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/taxonomy/categories
+ *
+ * Body: { slug: string, name: string, nameMn?: string, parentSlug?: string | null, sort?: number }
+ *
+ * Returns: TaxonomyCategory (201), 400 with details when invalid, 409 when the slug already exists
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const created = await createTaxonomyCategory(body)
+    return NextResponse.json(created, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error creating taxonomy category:', error)
+    return NextResponse.json(
+      { error: 'Failed to create taxonomy category' },
+      { status: 500 }
+    )
+  }
+}
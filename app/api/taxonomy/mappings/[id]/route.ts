@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteCategoryMapping, TaxonomyError, updateCategoryMapping } from '@/lib/server/taxonomy'
+
+/**
+ * PUT /api/taxonomy/mappings/[id]
+ *
+ * Replace a mapping rule. Products keep their category until rules are re-applied.
+ *
+ * Body: { store, sourceKey: string, sourceSubKey?: string | null, category: string, subCategory?: string | null, note?: string }
+ *
+ * Returns: CategoryMappingRule
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const updated = await updateCategoryMapping(params.id, body)
+    return NextResponse.json(updated, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error updating category mapping:', error)
+    return NextResponse.json(
+      { error: 'Failed to update category mapping' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/taxonomy/mappings/[id]
+ *
+ * Products the rule mapped keep their category.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await deleteCategoryMapping(params.id)
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error: any) {
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error deleting category mapping:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete category mapping' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createCategoryMapping, listCategoryMappings, TaxonomyError } from '@/lib/server/taxonomy'
+
+/**
+ * GET /api/taxonomy/mappings
+ *
+ * Rules mapping source store categories to storefront categories.
+ *
+ * Returns: { mappings: CategoryMappingRule[] }
+ */
+export async function GET() {
+  try {
+    const mappings = await listCategoryMappings()
+    return NextResponse.json({ mappings }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing category mappings:', error)
+    return NextResponse.json(
+      { error: 'Failed to list category mappings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/taxonomy/mappings
+ *
+ * Body: { store, sourceKey: string, sourceSubKey?: string | null, category: string, subCategory?: string | null, note?: string }
+ *
+ * Returns: CategoryMappingRule (201), 400 with details when invalid, 409 when a rule for the source category already exists
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const created = await createCategoryMapping(body)
+    return NextResponse.json(created, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof TaxonomyError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details.length > 0 && { details: error.details }) },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error creating category mapping:', error)
+    return NextResponse.json(
+      { error: 'Failed to create category mapping' },
+      { status: 500 }
+    )
+  }
+}
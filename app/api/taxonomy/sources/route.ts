@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { listSourceCategories } from '@/lib/server/taxonomy'
+
+/**
+ * GET /api/taxonomy/sources
+ *
+ * Source store categories found on products with their product count and
+ * the rule that maps them, unmapped ones first (mapping review).
+ *
+ * Returns: { sources: SourceCategorySummary[] }
+ */
+export async function GET() {
+  try {
+    const sources = await listSourceCategories()
+    return NextResponse.json({ sources }, { status: 200 })
+  } catch (error: any) {
+    console.error('Error listing source categories:', error)
+    return NextResponse.json(
+      { error: 'Failed to list source categories' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,404 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { apiClient } from "@/lib/api-client"
+import { BRAND_ALIAS_LANGS } from "@/lib/brands"
+import { Brand, BrandAliasLang, ProductBrandSummary } from "@/types/product"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Pencil, Plus, Trash2, Wand2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const ALIAS_LABELS: Record<BrandAliasLang, string> = {
+  ko: "Korean Aliases",
+  en: "English Aliases",
+  mn: "Mongolian Aliases",
+}
+
+const ALIAS_PLACEHOLDERS: Record<BrandAliasLang, string> = {
+  ko: "토니모리",
+  en: "Tony Moly, TONYMOLY",
+  mn: "Тони Моли",
+}
+
+const EMPTY_FORM = {
+  name: "",
+  aliases: { ko: "", en: "", mn: "" } as Record<BrandAliasLang, string>,
+  logoUrl: "",
+  domains: "",
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Brand registry: canonical names with their Korean, English and Mongolian
+ * aliases, logo and official-site domains. Stored server-side (API mode only).
+ */
+export default function BrandsPage() {
+  const { toast } = useToast()
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [productBrands, setProductBrands] = useState<ProductBrandSummary[]>([])
+  const [isLoading, setIsLoading] = useState(USE_API)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isNormalizing, setIsNormalizing] = useState(false)
+
+  const loadBrands = useCallback(async () => {
+    try {
+      const [registry, review] = await Promise.all([
+        apiClient.listBrands(),
+        apiClient.listProductBrands(),
+      ])
+      setBrands(registry)
+      setProductBrands(review)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load brands",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (USE_API) loadBrands()
+  }, [loadBrands])
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+  }
+
+  const handleEdit = (brand: Brand) => {
+    setEditingId(brand.id)
+    setForm({
+      name: brand.name,
+      aliases: {
+        ko: brand.aliases.ko.join(", "),
+        en: brand.aliases.en.join(", "),
+        mn: brand.aliases.mn.join(", "),
+      },
+      logoUrl: brand.logoUrl ?? "",
+      domains: brand.domains.join(", "),
+    })
+  }
+
+  const handleAddFromProducts = (name: string) => {
+    setEditingId(null)
+    setForm({ ...EMPTY_FORM, name })
+    window.scrollTo({ top: 0, behavior: "smooth" })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await apiClient.saveBrand(
+        {
+          name: form.name,
+          aliases: {
+            ko: splitList(form.aliases.ko),
+            en: splitList(form.aliases.en),
+            mn: splitList(form.aliases.mn),
+          },
+          logoUrl: form.logoUrl.trim() || undefined,
+          domains: splitList(form.domains),
+        },
+        editingId ?? undefined
+      )
+      toast({
+        title: editingId ? "Brand Updated" : "Brand Added",
+        description: form.name,
+      })
+      resetForm()
+      await loadBrands()
+    } catch (error: any) {
+      const details: string[] = Array.isArray(error.body?.details) ? error.body.details : []
+      toast({
+        title: "Error",
+        description: [error.message || "Failed to save brand", ...details].join("\n"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (brand: Brand) => {
+    try {
+      await apiClient.deleteBrand(brand.id)
+      if (editingId === brand.id) resetForm()
+      await loadBrands()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete brand",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleNormalize = async () => {
+    setIsNormalizing(true)
+    try {
+      const result = await apiClient.normalizeProductBrands()
+      toast({
+        title: "Products Normalized",
+        description: `${result.updated} updated, ${result.matched} matched, ${result.unmatched} unknown`,
+      })
+      await loadBrands()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to normalize product brands",
+        variant: "destructive",
+      })
+    } finally {
+      setIsNormalizing(false)
+    }
+  }
+
+  const unknownCount = productBrands.filter((b) => b.brandId === null).length
+  const renameCount = productBrands.filter((b) => b.canonical !== null && b.canonical !== b.brand).length
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Brands</h1>
+          <p className="text-muted-foreground mt-1">
+            One canonical name per brand, whatever spelling the source uses
+          </p>
+        </div>
+        <Link href="/import">
+          <Button variant="outline">Back to Dashboard</Button>
+        </Link>
+      </div>
+
+      {!USE_API ? (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            The brand registry is stored in the database and is only available in API mode.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingId ? "Edit Brand" : "Add Brand"}</CardTitle>
+              <CardDescription>
+                Products using the name or any alias are saved with the canonical name. Images hosted on the
+                official domains rank first in image search.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Canonical Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="TONYMOLY"
+                    value={form.name}
+                    onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="logoUrl">Logo URL</Label>
+                  <Input
+                    id="logoUrl"
+                    placeholder="https://"
+                    value={form.logoUrl}
+                    onChange={(e) => setForm((prev) => ({ ...prev, logoUrl: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="domains">Official Domains</Label>
+                  <Input
+                    id="domains"
+                    placeholder="tonymoly.com"
+                    value={form.domains}
+                    onChange={(e) => setForm((prev) => ({ ...prev, domains: e.target.value }))}
+                  />
+                </div>
+                {BRAND_ALIAS_LANGS.map((lang) => (
+                  <div key={lang} className="space-y-2">
+                    <Label htmlFor={`aliases-${lang}`}>{ALIAS_LABELS[lang]}</Label>
+                    <Input
+                      id={`aliases-${lang}`}
+                      placeholder={ALIAS_PLACEHOLDERS[lang]}
+                      value={form.aliases[lang]}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, aliases: { ...prev.aliases, [lang]: e.target.value } }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">Separate aliases and domains with commas</p>
+              <div className="flex gap-2 mt-4">
+                <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingId ? "Save Brand" : "Add Brand"}
+                </Button>
+                {editingId && (
+                  <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Registry</CardTitle>
+              <CardDescription>{brands.length} brand{brands.length === 1 ? "" : "s"}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : brands.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No brands yet</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Logo</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Aliases</TableHead>
+                        <TableHead>Domains</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {brands.map((brand) => {
+                        const aliases = BRAND_ALIAS_LANGS.flatMap((lang) => brand.aliases[lang])
+                        return (
+                          <TableRow key={brand.id}>
+                            <TableCell>
+                              {brand.logoUrl ? (
+                                <Image src={brand.logoUrl} alt={brand.name} width={32} height={32} className="h-8 w-8 object-contain" unoptimized />
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="font-medium">{brand.name}</TableCell>
+                            <TableCell className="max-w-[300px] text-sm text-muted-foreground">
+                              {aliases.length > 0 ? aliases.join(", ") : "—"}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {brand.domains.length > 0 ? brand.domains.join(", ") : <span className="text-muted-foreground">—</span>}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                <Button variant="ghost" size="sm" onClick={() => handleEdit(brand)} title="Edit">
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDelete(brand)} title="Delete">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Brand Review</CardTitle>
+                  <CardDescription>
+                    {unknownCount} unknown name{unknownCount === 1 ? "" : "s"}, {renameCount} to rename
+                  </CardDescription>
+                </div>
+                <Button variant="outline" onClick={handleNormalize} disabled={isNormalizing || brands.length === 0}>
+                  {isNormalizing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Wand2 className="mr-2 h-4 w-4" />
+                  )}
+                  Normalize Products
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {productBrands.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No products have a brand yet</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name on Products</TableHead>
+                        <TableHead>Products</TableHead>
+                        <TableHead>Registry Brand</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {productBrands.map((summary) => (
+                        <TableRow key={summary.brand}>
+                          <TableCell className="font-medium">{summary.brand}</TableCell>
+                          <TableCell>{summary.productCount}</TableCell>
+                          <TableCell>
+                            {summary.canonical === null ? (
+                              <Badge variant="destructive">Unknown</Badge>
+                            ) : summary.canonical === summary.brand ? (
+                              <Badge variant="secondary">{summary.canonical}</Badge>
+                            ) : (
+                              <Badge variant="outline">→ {summary.canonical}</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {summary.canonical === null && (
+                              <Button variant="ghost" size="sm" onClick={() => handleAddFromProducts(summary.brand)}>
+                                <Plus className="mr-1 h-4 w-4" />
+                                Add
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { apiClient } from "@/lib/api-client"
+import { GlossaryCheckResult, GlossaryTerm, GlossaryTermMode } from "@/types/product"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Pencil, ShieldCheck, Trash2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const EMPTY_FORM = {
+  source: "",
+  mode: "map" as GlossaryTermMode,
+  target: "",
+  english: "",
+  note: "",
+}
+
+/**
+ * Glossary of recurring terms: protected terms stay verbatim, mapped terms
+ * always get the same Mongolian equivalent. Stored server-side (API mode only).
+ */
+export default function GlossaryPage() {
+  const { toast } = useToast()
+  const [terms, setTerms] = useState<GlossaryTerm[]>([])
+  const [isLoading, setIsLoading] = useState(USE_API)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [checkResults, setCheckResults] = useState<GlossaryCheckResult[] | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+
+  const loadTerms = useCallback(async () => {
+    try {
+      setTerms(await apiClient.listGlossaryTerms())
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load glossary",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (USE_API) loadTerms()
+  }, [loadTerms])
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+  }
+
+  const handleEdit = (term: GlossaryTerm) => {
+    setEditingId(term.id)
+    setForm({
+      source: term.source,
+      mode: term.mode,
+      target: term.target ?? "",
+      english: term.english ?? "",
+      note: term.note ?? "",
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await apiClient.saveGlossaryTerm(
+        {
+          source: form.source,
+          mode: form.mode,
+          target: form.mode === "map" ? form.target : undefined,
+          english: form.english || undefined,
+          note: form.note || undefined,
+        },
+        editingId ?? undefined
+      )
+      toast({
+        title: editingId ? "Term Updated" : "Term Added",
+        description: form.source,
+      })
+      resetForm()
+      await loadTerms()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save glossary term",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (term: GlossaryTerm) => {
+    try {
+      await apiClient.deleteGlossaryTerm(term.id)
+      if (editingId === term.id) resetForm()
+      setTerms((prev) => prev.filter((t) => t.id !== term.id))
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete glossary term",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCheck = async () => {
+    setIsChecking(true)
+    try {
+      setCheckResults(await apiClient.checkGlossary())
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Glossary</h1>
+          <p className="text-muted-foreground mt-1">
+            Keep brand names, product terms and units consistent across translations
+          </p>
+        </div>
+        <Link href="/import">
+          <Button variant="outline">Back to Dashboard</Button>
+        </Link>
+      </div>
+
+      {!USE_API ? (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            The glossary is stored in the database and is only available in API mode.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingId ? "Edit Term" : "Add Term"}</CardTitle>
+              <CardDescription>
+                Protect keeps the term as written (brands, 200ml). Map always translates it to the given Mongolian text.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-5">
+                <div className="space-y-2">
+                  <Label htmlFor="source">Source Term</Label>
+                  <Input
+                    id="source"
+                    placeholder="토너"
+                    value={form.source}
+                    onChange={(e) => setForm((prev) => ({ ...prev, source: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Mode</Label>
+                  <Select
+                    value={form.mode}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, mode: value as GlossaryTermMode }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="map">Map</SelectItem>
+                      <SelectItem value="protect">Protect</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="target">Mongolian</Label>
+                  <Input
+                    id="target"
+                    placeholder={form.mode === "map" ? "тонер" : "Kept as is"}
+                    value={form.mode === "map" ? form.target : ""}
+                    disabled={form.mode !== "map"}
+                    onChange={(e) => setForm((prev) => ({ ...prev, target: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="english">English (image search)</Label>
+                  <Input
+                    id="english"
+                    placeholder="toner"
+                    value={form.english}
+                    onChange={(e) => setForm((prev) => ({ ...prev, english: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="note">Note</Label>
+                  <Input
+                    id="note"
+                    value={form.note}
+                    onChange={(e) => setForm((prev) => ({ ...prev, note: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2 mt-4">
+                <Button onClick={handleSave} disabled={isSaving || !form.source.trim()}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingId ? "Save Term" : "Add Term"}
+                </Button>
+                {editingId && (
+                  <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Terms</CardTitle>
+              <CardDescription>{terms.length} term{terms.length === 1 ? "" : "s"}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : terms.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No glossary terms yet</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Source</TableHead>
+                        <TableHead>Mode</TableHead>
+                        <TableHead>Mongolian</TableHead>
+                        <TableHead>English</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {terms.map((term) => (
+                        <TableRow key={term.id}>
+                          <TableCell className="font-medium">{term.source}</TableCell>
+                          <TableCell>
+                            <Badge variant={term.mode === "map" ? "secondary" : "outline"}>
+                              {term.mode === "map" ? "Map" : "Protect"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{term.mode === "map" ? term.target : <span className="text-muted-foreground">—</span>}</TableCell>
+                          <TableCell>{term.english ?? <span className="text-muted-foreground">—</span>}</TableCell>
+                          <TableCell className="max-w-[200px] truncate text-muted-foreground">{term.note}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => handleEdit(term)} title="Edit">
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(term)} title="Delete">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Check Products</CardTitle>
+                  <CardDescription>Find translated products whose Mongolian text breaks the glossary</CardDescription>
+                </div>
+                <Button variant="outline" onClick={handleCheck} disabled={isChecking || terms.length === 0}>
+                  {isChecking ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                  )}
+                  Run Check
+                </Button>
+              </div>
+            </CardHeader>
+            {checkResults !== null && (
+              <CardContent>
+                {checkResults.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">All translated products follow the glossary</p>
+                ) : (
+                  <div className="divide-y rounded-md border">
+                    {checkResults.map((result) => (
+                      <div key={result.productId} className="px-4 py-3 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Link href={`/import/new/${result.productId}`} className="font-medium hover:underline">
+                            {result.title}
+                          </Link>
+                          <Badge variant="outline">{result.lifecycleStatus}</Badge>
+                        </div>
+                        <ul className="list-disc list-inside text-sm text-destructive">
+                          {result.violations.map((v, i) => (
+                            <li key={i}>
+                              {v.field}: {v.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
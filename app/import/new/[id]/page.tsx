@@ -3,8 +3,11 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { useProductStore } from "@/lib/store"
-import { ProductStatus } from "@/types/product"
+import { Brand, ImageCandidate, ImageCandidateScoreBreakdown, ImageDuplicateWarning, Product, ProductRevision, ProductStatus, TranslatableField } from "@/types/product"
+import { apiClient } from "@/lib/api-client"
+import { findBrand } from "@/lib/brands"
 import { normalizeProduct } from "@/lib/normalizeProduct"
+import { DEFAULT_PRICING_CONFIG, PricingConfig, suggestPriceMnt } from "@/lib/pricing"
 import { getDisplayTitle, getDisplayDescription } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -13,8 +16,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
+import { SourceHistoryTimeline } from "@/components/source-history-timeline"
+import { SourcePolicyPanel } from "@/components/source-policy-panel"
+import { ProductHistoryPanel } from "@/components/product-history-panel"
+import { ProductRevisionsPanel } from "@/components/product-revisions-panel"
+import { AttributeSuggestionsPanel } from "@/components/attribute-suggestions-panel"
+import { ProductCategoryPanel } from "@/components/product-category-panel"
+import { ProductImage } from "@/components/product-image"
 import Link from "next/link"
-import { ArrowLeft, ArrowRight, Save, CheckCircle, Send, X, AlertCircle, Search, Loader2, Image as ImageIcon } from "lucide-react"
+import { ArrowLeft, ArrowRight, Save, CheckCircle, Send, X, AlertCircle, Search, Loader2, Image as ImageIcon, Languages, Wand2, RefreshCw } from "lucide-react"
 import {
   Dialog,
   DialogContent,
@@ -24,6 +34,50 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const SCORE_FACTOR_LABELS: Record<keyof ImageCandidateScoreBreakdown, string> = {
+  resolution: "Resolution",
+  aspectRatio: "Aspect ratio",
+  background: "White background",
+  fileSize: "File size",
+  domainTrust: "Source",
+  textOverlay: "No text overlay",
+}
+
+function formatScoreBreakdown(breakdown: ImageCandidateScoreBreakdown): string {
+  return (Object.keys(SCORE_FACTOR_LABELS) as (keyof ImageCandidateScoreBreakdown)[])
+    .map((factor) => {
+      const value = breakdown[factor]
+      return `${SCORE_FACTOR_LABELS[factor]}: ${value === null ? "n/a" : Math.round(value * 100)}`
+    })
+    .join("\n")
+}
+
+const TRANSLATED_FIELD_LABELS: Record<TranslatableField, string> = {
+  title: "Name",
+  short_description: "Short Description",
+  detailed_description: "Description",
+}
+
+// Editor form values for a (normalized) product
+function getFormData(product: Product) {
+  return {
+    // Auto-fill from title if nameMn is empty (normalized)
+    // This ensures DB products with title but no nameMn are editable
+    nameMn: product.nameMn || product.title || "",
+    // Auto-fill from detailed_description or short_description if descriptionMn is empty (normalized)
+    descriptionMn: product.descriptionMn || product.detailed_description || product.short_description || "",
+    short_description: product.short_description || "",
+    brand: product.brand || "",
+    // Use normalized priceMnt (calculated from sale_price/regular_price if needed)
+    priceMnt: product.priceMnt || 0,
+    shippingWeightKg: product.shippingWeightKg || 0,
+    // Use normalized imagesFinal (extracted from custom_properties.imageUrls if needed)
+    imagesFinal: [...(product.imagesFinal || [])],
+  }
+}
+
 export default function ProductEditorPage() {
   const params = useParams()
   const router = useRouter()
@@ -34,19 +88,28 @@ export default function ProductEditorPage() {
     products,
     currentSearchResults,
     getProduct,
+    loadProduct,
     updateProduct,
     updateProductStatus,
     validateProduct,
+    getPricingConfig,
+    translateProduct,
+    processProductImages,
+    revertProduct,
   } = useProductStore()
 
   // ALL HOOKS MUST BE BEFORE ANY EARLY RETURNS
   const [formData, setFormData] = useState({
     nameMn: "",
     descriptionMn: "",
+    short_description: "",
     brand: "",
     priceMnt: 0,
+    shippingWeightKg: 0,
     imagesFinal: [] as string[],
   })
+  const [pricingConfig, setPricingConfig] = useState<PricingConfig>(DEFAULT_PRICING_CONFIG)
+  const [registryBrands, setRegistryBrands] = useState<Brand[]>([])
 
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
@@ -54,11 +117,19 @@ export default function ProductEditorPage() {
   const [showImageDialog, setShowImageDialog] = useState(false)
   const [newImageUrl, setNewImageUrl] = useState("")
   const [imageSearchQuery, setImageSearchQuery] = useState("")
-  const [imageSearchResults, setImageSearchResults] = useState<string[]>([])
+  const [imageSearchResults, setImageSearchResults] = useState<ImageCandidate[]>([])
   const [isSearchingImages, setIsSearchingImages] = useState(false)
   const [selectedImageUrls, setSelectedImageUrls] = useState<Set<string>>(new Set())
   const [showManualUrlInput, setShowManualUrlInput] = useState(false)
   const [imageCount, setImageCount] = useState<number>(10)
+  // "default" leaves the choice to the server (IMAGE_SEARCH_PROVIDERS)
+  const [imageProvider, setImageProvider] = useState<string>("default")
+  const [isTranslating, setIsTranslating] = useState(false)
+  // Fields kept because a human edited them; non-null opens the overwrite confirmation
+  const [editedFieldsToConfirm, setEditedFieldsToConfirm] = useState<TranslatableField[] | null>(null)
+  const [imageWarnings, setImageWarnings] = useState<ImageDuplicateWarning[]>([])
+  const [isProcessingImages, setIsProcessingImages] = useState(false)
+  const [isLoadingProduct, setIsLoadingProduct] = useState(false)
 
   // Get product and compute navigation context
   const rawProduct = getProduct(productId)
@@ -71,6 +142,21 @@ export default function ProductEditorPage() {
   const hasPrevious = currentIndex > 0
   const hasNext = currentIndex < navigationList.length - 1
 
+  // API mode: the store only holds pages the dashboard loaded, so fetch a
+  // product opened directly (bookmark, history link)
+  const hasProduct = !!rawProduct
+  useEffect(() => {
+    if (!USE_API || hasProduct) return
+    let cancelled = false
+    setIsLoadingProduct(true)
+    loadProduct(productId).finally(() => {
+      if (!cancelled) setIsLoadingProduct(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [productId, hasProduct, loadProduct])
+
   // Track last initialized product ID to prevent re-initialization loop
   const lastInitializedIdRef = useRef<string | null>(null)
 
@@ -90,21 +176,54 @@ export default function ProductEditorPage() {
 
     lastInitializedIdRef.current = product.id
 
-    setFormData({
-      // Auto-fill from title if nameMn is empty (normalized)
-      // This ensures DB products with title but no nameMn are editable
-      nameMn: product.nameMn || product.title || "",
-      // Auto-fill from detailed_description or short_description if descriptionMn is empty (normalized)
-      descriptionMn: product.descriptionMn || product.detailed_description || product.short_description || "",
-      brand: product.brand || "",
-      // Use normalized priceMnt (calculated from sale_price/regular_price if needed)
-      priceMnt: product.priceMnt || 0,
-      // Use normalized imagesFinal (extracted from custom_properties.imageUrls if needed)
-      imagesFinal: [...(product.imagesFinal || [])],
-    })
+    setFormData(getFormData(product))
     setHasUnsavedChanges(false)
   }, [product?.id])
 
+  // Duplicate warnings are computed for the saved imagesFinal, so reload after saves
+  const savedImagesKey = (product?.imagesFinal || []).join("\n")
+  useEffect(() => {
+    if (!USE_API || !product?.id) return
+    let cancelled = false
+    apiClient
+      .getImageDuplicateWarnings(product.id)
+      .then((warnings) => {
+        if (!cancelled) setImageWarnings(warnings)
+      })
+      .catch((error) => console.error("Failed to load image duplicate warnings:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [product?.id, savedImagesKey])
+
+  // Load the stored exchange rate and markup rules once (defaults if unavailable)
+  useEffect(() => {
+    getPricingConfig()
+      .then(setPricingConfig)
+      .catch((error) => console.error("Failed to load pricing config:", error))
+  }, [getPricingConfig])
+
+  // Registry brands for the brand suggestions (API mode only)
+  useEffect(() => {
+    if (!USE_API) return
+    apiClient
+      .listBrands()
+      .then(setRegistryBrands)
+      .catch((error) => console.error("Failed to load brands:", error))
+  }, [])
+
+  // Canonical name the brand will be saved as, when it differs from the input
+  const canonicalBrand = useMemo(() => {
+    const brand = findBrand(formData.brand, registryBrands)
+    return brand && brand.name !== formData.brand.trim() ? brand.name : null
+  }, [formData.brand, registryBrands])
+
+  // Suggested price from the pricing engine, shown next to the manual value
+  const priceSuggestion = useMemo(() => {
+    if (!product) return null
+    return suggestPriceMnt({ ...product, shippingWeightKg: formData.shippingWeightKg }, pricingConfig)
+  }, [product, formData.shippingWeightKg, pricingConfig])
+
   // Handler functions - defined before useCallback
   const handleFieldChange = (field: string, value: any) => {
     setFormData((prev) => ({ ...prev, [field]: value }))
@@ -121,6 +240,134 @@ export default function ProductEditorPage() {
     })
   }, [productId, formData, updateProduct, toast, product])
 
+  // Rehost the saved final images and render their thumbnail/card/zoom variants
+  const handleProcessImages = async () => {
+    if (!product) return
+    if (hasUnsavedChanges) {
+      toast({
+        title: "Unsaved Changes",
+        description: "Save your changes before processing images",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsProcessingImages(true)
+    try {
+      const { ingest, variants } = await processProductImages(productId)
+      // Ingestion rewrites imagesFinal to the rehosted URLs
+      setFormData((prev) => ({ ...prev, imagesFinal: [...(variants.product.imagesFinal || [])] }))
+
+      const failed = ingest.failed.length
+      toast({
+        title: failed > 0 ? "Images Partly Processed" : "Images Processed",
+        description: `${ingest.ingested} downloaded, ${ingest.variantsGenerated} resized${
+          variants.flagged.length > 0 ? `, ${variants.flagged.length} with possible watermarks` : ""
+        }${failed > 0 ? `; ${failed} failed: ${ingest.failed[0].error}` : ""}`,
+        variant: failed > 0 ? "destructive" : undefined,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to process images",
+        variant: "destructive",
+      })
+    } finally {
+      setIsProcessingImages(false)
+    }
+  }
+
+  const handleTranslate = async (overwrite: boolean) => {
+    if (!product) return
+    if (hasUnsavedChanges) {
+      // Translation works on the saved product; unsaved edits would be lost
+      toast({
+        title: "Unsaved Changes",
+        description: "Save your changes before translating",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsTranslating(true)
+    try {
+      const result = await translateProduct(productId, {
+        overwrite,
+        fields: overwrite ? editedFieldsToConfirm ?? undefined : undefined,
+      })
+      const translated = result.product
+
+      setFormData((prev) => ({
+        ...prev,
+        nameMn: result.translated.includes("title") ? translated.title || "" : prev.nameMn,
+        descriptionMn: result.translated.includes("detailed_description")
+          ? translated.detailed_description || ""
+          : prev.descriptionMn,
+        short_description: result.translated.includes("short_description")
+          ? translated.short_description || ""
+          : prev.short_description,
+      }))
+      setEditedFieldsToConfirm(
+        result.requiresConfirmation
+          ? result.skipped.filter((s) => s.reason === "HUMAN_EDIT").map((s) => s.field)
+          : null
+      )
+
+      toast({
+        title: result.translated.length > 0 ? "Translated" : "Nothing Translated",
+        description:
+          result.translated.length > 0
+            ? `${result.translated.map((f) => TRANSLATED_FIELD_LABELS[f]).join(", ")} filled by ${result.provider}${
+                result.cached.length > 0 ? ` (${result.cached.length} from cache)` : ""
+              }`
+            : "Fields are already up to date or have no source text",
+      })
+      if (result.glossaryViolations.length > 0) {
+        toast({
+          title: "Glossary Check",
+          description: result.glossaryViolations.map((v) => v.message).join("; "),
+          variant: "destructive",
+        })
+      }
+    } catch (error: any) {
+      setEditedFieldsToConfirm(null)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to translate product",
+        variant: "destructive",
+      })
+    } finally {
+      setIsTranslating(false)
+    }
+  }
+
+  const handleRevert = async (revision: ProductRevision) => {
+    if (hasUnsavedChanges) {
+      // The revert replaces the saved fields; unsaved edits would be lost
+      toast({
+        title: "Unsaved Changes",
+        description: "Save your changes before reverting",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      const reverted = await revertProduct(productId, revision.id)
+      setFormData(getFormData(normalizeProduct(reverted)))
+      toast({
+        title: "Reverted",
+        description: `Editable fields restored from revision #${revision.revision}`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revert product",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleNavigate = useCallback((targetId: string) => {
     if (hasUnsavedChanges) {
       setPendingNavigation(targetId)
@@ -158,6 +405,18 @@ export default function ProductEditorPage() {
   }, [hasNext, hasPrevious, currentIndex, navigationList, handleSave, handleNavigate, product])
 
   // NOW safe to do early return
+  if (!product && isLoadingProduct) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (!product) {
     return (
       <div className="container mx-auto p-6">
@@ -188,7 +447,8 @@ export default function ProductEditorPage() {
     }
   }
 
-  const handleImageSearch = async () => {
+  // bypassCache: skip cached queries and result pages (e.g. after editing the title)
+  const handleImageSearch = async (options: { bypassCache?: boolean } = {}) => {
     if (!product) return
 
     setIsSearchingImages(true)
@@ -204,16 +464,36 @@ export default function ProductEditorPage() {
       if (query) {
         params.append('q', query)
       }
+      if (imageProvider !== "default") {
+        params.append('provider', imageProvider)
+      }
+      if (options.bypassCache) {
+        params.append('bypassCache', 'true')
+      }
 
       const response = await fetch(`/api/images/suggest?${params.toString()}`)
       
       if (!response.ok) {
         const error = await response.json()
-        throw new Error(error.error || 'Failed to search images')
+        // 429: search quota used up, say when it comes back
+        const resetNote = response.status === 429 && error.resetAt
+          ? ` Try again after ${new Date(error.resetAt).toLocaleString()}.`
+          : ""
+        throw new Error((error.error || 'Failed to search images') + resetNote)
       }
 
       const data = await response.json()
-      setImageSearchResults(data.urls || [])
+      if (data.providerErrors?.length > 0) {
+        toast({
+          title: "Some Image Sources Failed",
+          description: data.providerErrors.map((e: { provider: string; error: string }) => `${e.provider}: ${e.error}`).join("; "),
+          variant: "destructive",
+        })
+      }
+      // Candidates come back ranked; the best few are preselected
+      const candidates: ImageCandidate[] = data.candidates || []
+      setImageSearchResults(candidates)
+      setSelectedImageUrls(new Set(candidates.filter((c) => c.preselected).map((c) => c.url)))
       
       // Update query field with queryEnBase (clean query without negative terms)
       if (data.queryEnBase) {
@@ -294,7 +574,7 @@ export default function ProductEditorPage() {
     handleFieldChange("imagesFinal", newImages)
   }
 
-  const handleMarkReady = () => {
+  const handleMarkReady = async () => {
     const updatedProduct = { ...product, ...formData }
     const validation = validateProduct(updatedProduct)
     if (!validation.isValid) {
@@ -306,16 +586,25 @@ export default function ProductEditorPage() {
       return
     }
 
-    updateProduct(productId, formData)
-    updateProductStatus(productId, "READY")
-    setHasUnsavedChanges(false)
-    toast({
-      title: "Marked as Ready",
-      description: "Product is ready to push",
-    })
+    try {
+      // Save content first: the server validates the stored product on transition
+      await updateProduct(productId, formData)
+      setHasUnsavedChanges(false)
+      await updateProductStatus(productId, "READY")
+      toast({
+        title: "Marked as Ready",
+        description: "Product is ready to push",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Mark as Ready Failed",
+        description: error.message || "Failed to mark product as ready",
+        variant: "destructive",
+      })
+    }
   }
 
-  const handlePush = () => {
+  const handlePush = async () => {
     const updatedProduct = { ...product, ...formData }
     const validation = validateProduct(updatedProduct)
     if (!validation.isValid) {
@@ -327,13 +616,22 @@ export default function ProductEditorPage() {
       return
     }
 
-    updateProduct(productId, formData)
-    updateProductStatus(productId, "PUSHED")
-    setHasUnsavedChanges(false)
-    toast({
-      title: "Pushed",
-      description: "Product has been pushed",
-    })
+    try {
+      await updateProduct(productId, formData)
+      setHasUnsavedChanges(false)
+      const republish = product.lifecycleStatus === "RETIRED"
+      await updateProductStatus(productId, "PUSHED")
+      toast({
+        title: republish ? "Republished" : "Pushed",
+        description: republish ? "Product is back on the storefront" : "Product has been pushed",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Push Failed",
+        description: error.message || "Failed to push product",
+        variant: "destructive",
+      })
+    }
   }
 
   const handleConfirmNavigation = (action: "discard" | "save" | "cancel") => {
@@ -426,8 +724,22 @@ export default function ProductEditorPage() {
         {/* Final (Editable) Column */}
         <Card>
           <CardHeader>
-            <CardTitle>Final (Editable)</CardTitle>
-            <CardDescription>Edit these fields for the final product</CardDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Final (Editable)</CardTitle>
+                <CardDescription>Edit these fields for the final product</CardDescription>
+              </div>
+              {USE_API && (product.lifecycleStatus === "RAW" || product.lifecycleStatus === "DRAFT") && (
+                <Button variant="outline" size="sm" onClick={() => handleTranslate(false)} disabled={isTranslating}>
+                  {isTranslating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Languages className="mr-2 h-4 w-4" />
+                  )}
+                  Translate
+                </Button>
+              )}
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
@@ -464,13 +776,35 @@ export default function ProductEditorPage() {
               )}
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="short_description">Short Description (Mongolian)</Label>
+              <Input
+                id="short_description"
+                value={formData.short_description}
+                onChange={(e) => handleFieldChange("short_description", e.target.value)}
+                className={getFieldError("short_description") ? "border-destructive" : ""}
+              />
+              {getFieldError("short_description") && (
+                <p className="text-sm text-destructive">{getFieldError("short_description")}</p>
+              )}
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="brand">Brand</Label>
               <Input
                 id="brand"
+                list="brand-options"
                 value={formData.brand}
                 onChange={(e) => handleFieldChange("brand", e.target.value)}
               />
+              <datalist id="brand-options">
+                {registryBrands.map((brand) => (
+                  <option key={brand.id} value={brand.name} />
+                ))}
+              </datalist>
+              {canonicalBrand && (
+                <p className="text-sm text-muted-foreground">Saved as {canonicalBrand}</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -489,6 +823,45 @@ export default function ProductEditorPage() {
               {getFieldError("priceMnt") && (
                 <p className="text-sm text-destructive">{getFieldError("priceMnt")}</p>
               )}
+              {priceSuggestion?.priceMnt != null && (
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <span>
+                    Suggested: <span className="font-medium text-foreground">{priceSuggestion.priceMnt.toLocaleString()} MNT</span>
+                    {" "}({priceSuggestion.priceKrw.toLocaleString()} KRW × {priceSuggestion.exchangeRate}
+                    {priceSuggestion.markupMnt !== 0 && `, markup ${priceSuggestion.markupMnt.toLocaleString()}₮`}
+                    {priceSuggestion.fixedFeeMnt !== 0 && `, fee ${priceSuggestion.fixedFeeMnt.toLocaleString()}₮`}
+                    {priceSuggestion.weightSurchargeMnt !== 0 && `, shipping ${priceSuggestion.weightSurchargeMnt.toLocaleString()}₮`}
+                    {priceSuggestion.ruleId && `, rule: ${priceSuggestion.ruleId}`})
+                  </span>
+                  {priceSuggestion.priceMnt !== formData.priceMnt && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleFieldChange("priceMnt", priceSuggestion.priceMnt)}
+                    >
+                      Use suggested
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shippingWeightKg">Shipping Weight (kg)</Label>
+              <Input
+                id="shippingWeightKg"
+                type="number"
+                min={0}
+                step={0.1}
+                value={formData.shippingWeightKg}
+                onChange={(e) =>
+                  handleFieldChange("shippingWeightKg", Number(e.target.value))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Used for the per-kg shipping surcharge (0 = default weight)
+              </p>
             </div>
 
             <div className="space-y-2">
@@ -498,13 +871,29 @@ export default function ProductEditorPage() {
               <div className="space-y-2">
                 {formData.imagesFinal.map((url, index) => (
                   <div key={index} className="flex items-center gap-2">
-                    <img
-                      src={url}
+                    <ProductImage
+                      product={product}
+                      url={url}
+                      variant="thumbnail"
                       alt={`Image ${index + 1}`}
                       className="w-20 h-20 object-cover rounded"
                     />
-                    <div className="flex-1 min-w-0">
+                    <div className="flex-1 min-w-0 space-y-1">
                       <Input value={url} readOnly className="text-xs" />
+                      {imageWarnings
+                        .filter((warning) => warning.url === url)
+                        .map((warning, i) => (
+                          <p key={i} className="flex items-center gap-1 text-xs text-amber-600">
+                            <AlertCircle className="h-3 w-3 shrink-0" />
+                            {warning.message}
+                          </p>
+                        ))}
+                      {product.imageVariants?.find((entry) => entry.url === url)?.overlayRegions?.length ? (
+                        <p className="flex items-center gap-1 text-xs text-amber-600">
+                          <AlertCircle className="h-3 w-3 shrink-0" />
+                          Possible watermark or overlay text in a corner{index === 0 && "; avoid it as the primary image"}
+                        </p>
+                      ) : null}
                     </div>
                     <div className="flex gap-1">
                       <Button
@@ -533,9 +922,21 @@ export default function ProductEditorPage() {
                     </div>
                   </div>
                 ))}
-                <Button variant="outline" onClick={handleImageAdd}>
-                  + Add Image
-                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleImageAdd}>
+                    + Add Image
+                  </Button>
+                  {USE_API && formData.imagesFinal.length > 0 && (
+                    <Button variant="outline" onClick={handleProcessImages} disabled={isProcessingImages}>
+                      {isProcessingImages ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Wand2 className="mr-2 h-4 w-4" />
+                      )}
+                      Process Images
+                    </Button>
+                  )}
+                </div>
               </div>
               {getFieldError("imagesFinal") && (
                 <p className="text-sm text-destructive">
@@ -607,6 +1008,25 @@ export default function ProductEditorPage() {
         </Card>
       </div>
 
+      <ProductCategoryPanel product={product} />
+
+      <AttributeSuggestionsPanel product={product} />
+
+      {(product.lifecycleStatus === "PUSHED" || product.sourceLastCheckedAt) && (
+        <SourceHistoryTimeline
+          productId={product.id}
+          baselinePriceKrw={product.sourceBaselinePriceKrw}
+        />
+      )}
+
+      {product.lifecycleStatus === "PUSHED" && (
+        <SourcePolicyPanel product={product} />
+      )}
+
+      <ProductRevisionsPanel product={product} onRevert={handleRevert} />
+
+      <ProductHistoryPanel product={product} />
+
       {/* Sticky Action Bar */}
       <div className="sticky bottom-0 bg-background border-t p-4 rounded-t-lg shadow-lg">
         <div className="flex items-center justify-between">
@@ -619,11 +1039,48 @@ export default function ProductEditorPage() {
                   ? "bg-blue-100 text-blue-800"
                   : product.lifecycleStatus === "READY"
                   ? "bg-green-100 text-green-800"
+                  : product.lifecycleStatus === "RETIRED"
+                  ? "bg-red-100 text-red-800"
                   : "bg-purple-100 text-purple-800"
               }
             >
               {product.lifecycleStatus}
             </Badge>
+            {product.lifecycleStatus === "RETIRED" ? (
+              <span className="text-sm text-muted-foreground">
+                Retired{product.retiredAt && ` ${new Date(product.retiredAt).toLocaleString()}`}
+                {product.retiredBy && ` by ${product.retiredBy}`}
+                {product.retiredReason && `: ${product.retiredReason}`}
+              </span>
+            ) : product.publishResult && (
+              product.publishResult.ok ? (
+                <span className="text-sm text-muted-foreground">
+                  Published {new Date(product.publishResult.at).toLocaleString()}
+                  {product.pushedBy && ` by ${product.pushedBy}`}
+                  {product.publishResult.url && (
+                    <>
+                      {" · "}
+                      <a href={product.publishResult.url} target="_blank" rel="noopener noreferrer" className="underline">
+                        View
+                      </a>
+                    </>
+                  )}
+                </span>
+              ) : (
+                <span className="text-sm text-destructive">
+                  Publish failed: {product.publishResult.error}
+                </span>
+              )
+            )}
+            {product.isDeleted && (
+              <span className="text-sm text-destructive">
+                In the trash{product.deletedAt && ` since ${new Date(product.deletedAt).toLocaleDateString()}`}
+                {" · "}
+                <Link href="/import/trash" className="underline">
+                  Restore
+                </Link>
+              </span>
+            )}
             {hasUnsavedChanges && (
               <span className="text-sm text-muted-foreground">
                 Unsaved changes
@@ -645,7 +1102,7 @@ export default function ProductEditorPage() {
             </Button>
             <Button onClick={handlePush} disabled={!validation.isValid}>
               <Send className="mr-2 h-4 w-4" />
-              Push
+              {product.lifecycleStatus === "RETIRED" ? "Republish" : "Push"}
             </Button>
           </div>
         </div>
@@ -679,6 +1136,31 @@ export default function ProductEditorPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog
+        open={editedFieldsToConfirm !== null}
+        onOpenChange={(open) => !open && setEditedFieldsToConfirm(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Overwrite Edited Fields?</DialogTitle>
+            <DialogDescription>
+              {editedFieldsToConfirm?.map((f) => TRANSLATED_FIELD_LABELS[f]).join(", ")}{" "}
+              {editedFieldsToConfirm?.length === 1 ? "was" : "were"} edited by hand and kept. Replace{" "}
+              {editedFieldsToConfirm?.length === 1 ? "it" : "them"} with the machine translation?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditedFieldsToConfirm(null)} disabled={isTranslating}>
+              Keep My Edits
+            </Button>
+            <Button variant="destructive" onClick={() => handleTranslate(true)} disabled={isTranslating}>
+              {isTranslating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Overwrite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showImageDialog} onOpenChange={setShowImageDialog}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -704,6 +1186,18 @@ export default function ProductEditorPage() {
                     }}
                     className="flex-1"
                   />
+                  <Select value={imageProvider} onValueChange={setImageProvider}>
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default sources</SelectItem>
+                      <SelectItem value="google">Google</SelectItem>
+                      <SelectItem value="source">Source page</SelectItem>
+                      <SelectItem value="google,source">Google + source page</SelectItem>
+                      <SelectItem value="fixture">Offline fixtures</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <Select value={imageCount.toString()} onValueChange={(v) => setImageCount(parseInt(v, 10))}>
                     <SelectTrigger className="w-[100px]">
                       <SelectValue />
@@ -715,7 +1209,7 @@ export default function ProductEditorPage() {
                     </SelectContent>
                   </Select>
                   <Button
-                    onClick={handleImageSearch}
+                    onClick={() => handleImageSearch()}
                     disabled={isSearchingImages || !product}
                   >
                     {isSearchingImages ? (
@@ -730,6 +1224,15 @@ export default function ProductEditorPage() {
                       </>
                     )}
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleImageSearch({ bypassCache: true })}
+                    disabled={isSearchingImages || !product}
+                    title="Search again without cached results"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
                 </div>
 
                 {/* Search Results Grid */}
@@ -745,7 +1248,7 @@ export default function ProductEditorPage() {
                 {!isSearchingImages && imageSearchResults.length === 0 && imageSearchQuery === "" && (
                   <div className="text-center py-8 text-muted-foreground">
                     <ImageIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>Click "Search" to find images for this product</p>
+                    <p>Click &quot;Search&quot; to find images for this product</p>
                   </div>
                 )}
 
@@ -758,12 +1261,13 @@ export default function ProductEditorPage() {
                 {imageSearchResults.length > 0 && (
                   <>
                     <div className="text-sm text-muted-foreground">
-                      Found {imageSearchResults.length} images. Select the ones you want to add.
+                      Found {imageSearchResults.length} images, best first. Select the ones you want to add.
                     </div>
                     <div className="grid grid-cols-3 gap-4 max-h-[400px] overflow-y-auto">
-                      {imageSearchResults.map((url, index) => (
+                      {imageSearchResults.map(({ url, score, breakdown, domain, providers }, index) => (
                         <div
                           key={index}
+                          title={`${domain} (${providers.join(", ")})\n${formatScoreBreakdown(breakdown)}`}
                           className={`relative cursor-pointer border-2 rounded-lg overflow-hidden transition-all ${
                             selectedImageUrls.has(url)
                               ? "border-primary ring-2 ring-primary"
@@ -785,6 +1289,12 @@ export default function ProductEditorPage() {
                               <CheckCircle className="h-4 w-4" />
                             </div>
                           )}
+                          <Badge
+                            variant="secondary"
+                            className={`absolute bottom-2 left-2 ${score >= 60 ? "text-green-700" : score < 40 ? "text-destructive" : ""}`}
+                          >
+                            {score}
+                          </Badge>
                         </div>
                       ))}
                     </div>
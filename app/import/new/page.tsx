@@ -21,6 +21,7 @@ import Link from "next/link"
 import { Search, Loader2, AlertCircle, Save, Send } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { ProductCardSkeleton } from "@/components/product-card-skeleton"
+import { ProductImage } from "@/components/product-image"
 import { getDisplayTitle } from "@/lib/utils"
 
 export default function ImportNewPage() {
@@ -84,15 +85,23 @@ export default function ImportNewPage() {
     return matchesSearch && matchesStatus
   })
 
-  const handleSaveDraft = (id: string) => {
-    updateProductStatus(id, "DRAFT")
-    toast({
-      title: "Draft Saved",
-      description: "Product saved as draft",
-    })
+  const handleSaveDraft = async (id: string) => {
+    try {
+      await updateProductStatus(id, "DRAFT")
+      toast({
+        title: "Draft Saved",
+        description: "Product saved as draft",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save draft",
+        variant: "destructive",
+      })
+    }
   }
 
-  const handlePush = (id: string) => {
+  const handlePush = async (id: string) => {
     const product = currentSearchResults.find((p) => p.id === id)
     if (!product) return
 
@@ -106,24 +115,40 @@ export default function ImportNewPage() {
       return
     }
 
-    updateProductStatus(id, "PUSHED")
-    toast({
-      title: "Pushed",
-      description: "Product has been pushed",
-    })
+    try {
+      await updateProductStatus(id, "PUSHED")
+      toast({
+        title: "Pushed",
+        description: "Product has been pushed",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Push Failed",
+        description: error.message || "Failed to push product",
+        variant: "destructive",
+      })
+    }
   }
 
-  const handleBulkSaveDraft = () => {
+  const handleBulkSaveDraft = async () => {
     if (selectedIds.size === 0) return
-    updateMultipleProductsStatus(Array.from(selectedIds), "DRAFT")
-    toast({
-      title: "Bulk Draft Saved",
-      description: `${selectedIds.size} products saved as draft`,
-    })
-    setSelectedIds(new Set())
+    try {
+      await updateMultipleProductsStatus(Array.from(selectedIds), "DRAFT")
+      toast({
+        title: "Bulk Draft Saved",
+        description: `${selectedIds.size} products saved as draft`,
+      })
+      setSelectedIds(new Set())
+    } catch (error: any) {
+      toast({
+        title: "Bulk Save Failed",
+        description: error.message || "Failed to save drafts",
+        variant: "destructive",
+      })
+    }
   }
 
-  const handleBulkPush = () => {
+  const handleBulkPush = async () => {
     if (selectedIds.size === 0) return
 
     const productsToPush = currentSearchResults.filter((p) => selectedIds.has(p.id))
@@ -140,12 +165,20 @@ export default function ImportNewPage() {
       return
     }
 
-    updateMultipleProductsStatus(Array.from(selectedIds), "PUSHED")
-    toast({
-      title: "Bulk Pushed",
-      description: `${selectedIds.size} products have been pushed`,
-    })
-    setSelectedIds(new Set())
+    try {
+      await updateMultipleProductsStatus(Array.from(selectedIds), "PUSHED")
+      toast({
+        title: "Bulk Pushed",
+        description: `${selectedIds.size} products have been pushed`,
+      })
+      setSelectedIds(new Set())
+    } catch (error: any) {
+      toast({
+        title: "Bulk Push Failed",
+        description: error.message || "Failed to push products",
+        variant: "destructive",
+      })
+    }
   }
 
   const toggleSelect = (id: string) => {
@@ -176,6 +209,8 @@ export default function ImportNewPage() {
         return "bg-green-100 text-green-800"
       case "PUSHED":
         return "bg-purple-100 text-purple-800"
+      case "RETIRED":
+        return "bg-red-100 text-red-800"
     }
   }
 
@@ -308,6 +343,7 @@ export default function ImportNewPage() {
                 <SelectItem value="DRAFT">DRAFT</SelectItem>
                 <SelectItem value="READY">READY</SelectItem>
                 <SelectItem value="PUSHED">PUSHED</SelectItem>
+                <SelectItem value="RETIRED">RETIRED</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -375,8 +411,10 @@ export default function ImportNewPage() {
                 </CardHeader>
                 <CardContent>
                   {(product.imagesFinal?.length ?? 0) > 0 && (
-                    <img
-                      src={product.imagesFinal?.[0] || ''}
+                    <ProductImage
+                      product={product}
+                      url={product.imagesFinal?.[0] || ''}
+                      variant="card"
                       alt={getDisplayTitle(product) || 'Product'}
                       className="w-full h-48 object-cover rounded-lg mb-4"
                     />
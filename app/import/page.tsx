@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import { useState, useMemo, useEffect, useCallback } from "react"
 import { useProductStore } from "@/lib/store"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -21,106 +21,268 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { RepriceDialog } from "@/components/reprice-dialog"
+import { ApiQuotaCard } from "@/components/api-quota-card"
+import { ProductImage } from "@/components/product-image"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { Package, FileText, CheckCircle, Send, RefreshCw, Eye, EyeOff, AlertTriangle, DollarSign, Loader2 } from "lucide-react"
+import { Package, FileText, CheckCircle, Send, RefreshCw, Eye, EyeOff, AlertTriangle, DollarSign, Loader2, Calculator, ClipboardCheck, CheckCheck, Languages, Tags, Archive, RotateCcw, Trash2 } from "lucide-react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { useToast } from "@/hooks/use-toast"
-import { Product, Store, ProductStatus } from "@/types/product"
-import { getDisplayTitle, matchesLifecycleTab } from "@/lib/utils"
+import { Brand, Product, Store, ProductStatus, ProductListQuery, ProductSortKey, ProductSearchHighlight, ProductStats } from "@/types/product"
+import { getDisplayTitle, matchesLifecycleTab, matchesProductQuery, compareProducts } from "@/lib/utils"
+import { apiClient } from "@/lib/api-client"
+import { findBrand } from "@/lib/brands"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 
-type FlagFilter = "ALL" | "PRICE_CHANGED" | "OUT_OF_STOCK" | "HIDDEN"
+type FlagFilter = "ALL" | "PRICE_CHANGED" | "OUT_OF_STOCK" | "HIDDEN" | "NEEDS_REVIEW"
 type LifecycleTab = "ALL" | ProductStatus
 
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+const PAGE_SIZE = 50
+const SEARCH_LIMIT = 100
+
+const FLAG_QUERY_VALUES: Record<FlagFilter, ProductListQuery["flag"]> = {
+  ALL: undefined,
+  PRICE_CHANGED: "priceChanged",
+  OUT_OF_STOCK: "outOfStock",
+  HIDDEN: "hidden",
+  NEEDS_REVIEW: "needsReview",
+}
+
 function ImportDashboard() {
   const router = useRouter()
   const { toast } = useToast()
   const products = useProductStore((state) => state.products)
   const hasHydrated = useProductStore((state) => state.hasHydrated)
-  const { toggleVisibility, runSourceCheckForPushedProducts, loadProducts, isInitialized } = useProductStore()
+  const {
+    toggleVisibility,
+    runSourceCheckForPushedProducts,
+    acceptSourceBaseline,
+    translateProducts,
+    extractAttributesForProducts,
+    retireProducts,
+    updateMultipleProductsStatus,
+    deleteProducts,
+    cacheProducts,
+  } = useProductStore()
 
   const [searchQuery, setSearchQuery] = useState("")
   const [lifecycleTab, setLifecycleTab] = useState<LifecycleTab>("ALL")
-
-  // Load products from API on mount if using API mode
-  useEffect(() => {
-    if (!isInitialized) {
-      loadProducts()
-    }
-  }, [isInitialized, loadProducts])
   const [flagFilter, setFlagFilter] = useState<FlagFilter>("ALL")
   const [storeFilter, setStoreFilter] = useState<Store | "ALL">("ALL")
+  const [categoryFilter, setCategoryFilter] = useState<string>("ALL")
+  const [brandFilter, setBrandFilter] = useState<string>("ALL")
+  const [sortKey, setSortKey] = useState<ProductSortKey>("flagPriority")
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("")
   const [isChecking, setIsChecking] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [showRepriceDialog, setShowRepriceDialog] = useState(false)
+  const [isTranslating, setIsTranslating] = useState(false)
+  const [isExtractingAttributes, setIsExtractingAttributes] = useState(false)
+  const [showRetireDialog, setShowRetireDialog] = useState(false)
+  const [retireReason, setRetireReason] = useState("")
+  const [isRetiring, setIsRetiring] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [registryBrands, setRegistryBrands] = useState<Brand[]>([])
+
+  // Server-side page and aggregate counts (API mode only)
+  const [serverStats, setServerStats] = useState<ProductStats | null>(null)
+  const [pageItems, setPageItems] = useState<Product[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [pageTotal, setPageTotal] = useState(0)
+  const [isFetchingPage, setIsFetchingPage] = useState(false)
+  // Full-text search hits (API mode with a search query), keyed by product id
+  const [searchHighlights, setSearchHighlights] = useState<Map<string, ProductSearchHighlight[]> | null>(null)
+
+  // Debounce search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearchQuery(searchQuery), 300)
+    return () => clearTimeout(timeoutId)
+  }, [searchQuery])
+
+  const fetchStats = useCallback(async () => {
+    if (!USE_API) return
+    try {
+      setServerStats(await apiClient.getProductStats())
+    } catch (error) {
+      console.error("Failed to load product stats:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStats()
+  }, [fetchStats])
 
   const stats = useMemo(() => {
+    if (USE_API) {
+      return {
+        total: serverStats?.total ?? 0,
+        drafts: serverStats?.byStatus.DRAFT ?? 0,
+        ready: serverStats?.byStatus.READY ?? 0,
+        pushed: serverStats?.byStatus.PUSHED ?? 0,
+      }
+    }
+
     const total = products.length
     const drafts = products.filter((p) => p.lifecycleStatus === "DRAFT").length
     const ready = products.filter((p) => p.lifecycleStatus === "READY").length
     const pushed = products.filter((p) => p.lifecycleStatus === "PUSHED").length
 
     return { total, drafts, ready, pushed }
-  }, [products])
+  }, [products, serverStats])
 
-  // Filter products by lifecycle status tab first, then apply other filters
-  const filteredAndSortedProducts = useMemo(() => {
-    // Step 1: Filter by lifecycle status tab
-    let filtered = products.filter((p) => matchesLifecycleTab(p, lifecycleTab))
-
-    // Step 2: Apply search, flag, and store filters
-    filtered = filtered.filter((p) => {
-      const matchesSearch =
-        searchQuery === "" ||
-        getDisplayTitle(p).toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (p.nameOriginal || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
-        p.brand?.toLowerCase().includes(searchQuery.toLowerCase())
-
-      const matchesFlag =
-        flagFilter === "ALL" ||
-        (flagFilter === "PRICE_CHANGED" && p.sourcePriceChanged) ||
-        (flagFilter === "OUT_OF_STOCK" && p.sourceOutOfStock) ||
-        (flagFilter === "HIDDEN" && p.visibility === "hidden")
-
-      const matchesStore = storeFilter === "ALL" || p.sourceStore === storeFilter
-
-      return matchesSearch && matchesFlag && matchesStore
-    })
+  // Registry brands feed the brand filter (API mode only)
+  useEffect(() => {
+    if (!USE_API) return
+    apiClient
+      .listBrands()
+      .then(setRegistryBrands)
+      .catch((err) => console.error("Failed to load brands:", err))
+  }, [])
+
+  // Category and brand options come from the stats (API mode) or the local
+  // products; brand names the registry knows are listed once under their canonical name
+  const categoryOptions = useMemo(() => {
+    const categories = USE_API ? serverStats?.categories ?? [] : products.map((p) => p.category)
+    return Array.from(new Set(categories.filter(Boolean))).sort()
+  }, [products, serverStats])
+
+  const brandOptions = useMemo(() => {
+    const names = (USE_API ? serverStats?.brands ?? [] : products.map((p) => p.brand))
+      .filter((b): b is string => !!b)
+      .map((b) => findBrand(b, registryBrands)?.name ?? b)
+    return Array.from(new Set([...registryBrands.map((b) => b.name), ...names])).sort()
+  }, [products, serverStats, registryBrands])
+
+  const listQuery = useMemo<ProductListQuery>(() => ({
+    lifecycleStatus: lifecycleTab === "ALL" ? undefined : lifecycleTab,
+    store: storeFilter === "ALL" ? undefined : storeFilter,
+    category: categoryFilter === "ALL" ? undefined : categoryFilter,
+    brand: brandFilter === "ALL" ? undefined : brandFilter,
+    flag: FLAG_QUERY_VALUES[flagFilter],
+    q: debouncedSearchQuery || undefined,
+    sort: sortKey,
+    order: "desc",
+  }), [lifecycleTab, storeFilter, categoryFilter, brandFilter, flagFilter, debouncedSearchQuery, sortKey])
 
-    // Sort: flagged items first (out of stock > price changed > hidden), then by last checked
-    filtered.sort((a, b) => {
-      // Priority: out of stock > price changed > hidden > none
-      const getFlagPriority = (p: Product) => {
-        if (p.sourceOutOfStock) return 3
-        if (p.sourcePriceChanged) return 2
-        if (p.visibility === "hidden") return 1
-        return 0
+  const fetchFirstPage = useCallback(async () => {
+    if (!USE_API) return
+    setIsFetchingPage(true)
+    try {
+      // A search query switches to relevance-ranked full-text search, with
+      // the same filters applied on the server
+      if (listQuery.q) {
+        const response = await apiClient.searchProductsText(listQuery.q, {
+          lifecycleStatus: listQuery.lifecycleStatus,
+          store: listQuery.store,
+          category: listQuery.category,
+          brand: listQuery.brand,
+          flag: listQuery.flag,
+          limit: SEARCH_LIMIT,
+        })
+        const items = response.results.map((r) => r.product)
+        cacheProducts(items)
+        setPageItems(items)
+        setNextCursor(null)
+        setPageTotal(response.total)
+        setSearchHighlights(new Map(response.results.map((r) => [r.product.id, r.highlights])))
+        return
       }
 
-      const priorityDiff = getFlagPriority(b) - getFlagPriority(a)
-      if (priorityDiff !== 0) return priorityDiff
-
-      // Then by last checked (most recent first)
-      const aTime = a.sourceLastCheckedAt
-        ? new Date(a.sourceLastCheckedAt).getTime()
-        : 0
-      const bTime = b.sourceLastCheckedAt
-        ? new Date(b.sourceLastCheckedAt).getTime()
-        : 0
-      return bTime - aTime
-    })
+      const page = await apiClient.getProducts({ ...listQuery, limit: PAGE_SIZE })
+      cacheProducts(page.items)
+      setSearchHighlights(null)
+      setPageItems(page.items)
+      setNextCursor(page.nextCursor)
+      setPageTotal(page.total)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsFetchingPage(false)
+    }
+  }, [listQuery, toast, cacheProducts])
 
-    return filtered
-  }, [products, lifecycleTab, searchQuery, flagFilter, storeFilter])
+  useEffect(() => {
+    fetchFirstPage()
+  }, [fetchFirstPage])
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return
+    setIsFetchingPage(true)
+    try {
+      const page = await apiClient.getProducts({ ...listQuery, limit: PAGE_SIZE, cursor: nextCursor })
+      cacheProducts(page.items)
+      setPageItems((items) => [...items, ...page.items])
+      setNextCursor(page.nextCursor)
+      setPageTotal(page.total)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load more products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsFetchingPage(false)
+    }
+  }
+
+  // After a mutation: reload the current page and the counts, not every product
+  const refreshDashboard = useCallback(async () => {
+    await Promise.all([fetchFirstPage(), fetchStats()])
+  }, [fetchFirstPage, fetchStats])
+
+  // API mode: server page, overlaid with fresher copies from the store (e.g. after toggling visibility)
+  // localStorage mode: same filters and sort applied in memory
+  const filteredAndSortedProducts = useMemo(() => {
+    if (USE_API) {
+      const byId = new Map(products.map((p) => [p.id, p]))
+      return pageItems.map((p) => byId.get(p.id) ?? p)
+    }
+
+    return products
+      .filter((p) => matchesProductQuery(p, listQuery))
+      .sort((a, b) => compareProducts(a, b, listQuery.sort, listQuery.order))
+  }, [products, pageItems, listQuery])
+
+  const selectedIdList = useMemo(() => Array.from(selectedIds), [selectedIds])
+
+  const toggleSelect = (id: string) => {
+    const newSet = new Set(selectedIds)
+    if (newSet.has(id)) {
+      newSet.delete(id)
+    } else {
+      newSet.add(id)
+    }
+    setSelectedIds(newSet)
+  }
+
+  const toggleSelectAll = () => {
+    if (filteredAndSortedProducts.length > 0 && filteredAndSortedProducts.every((p) => selectedIds.has(p.id))) {
+      setSelectedIds(new Set())
+    } else {
+      setSelectedIds(new Set(filteredAndSortedProducts.map((p) => p.id)))
+    }
+  }
 
   // Get products for the current tab (for stats display)
   const currentTabProducts = useMemo(() => {
     return products.filter((p) => matchesLifecycleTab(p, lifecycleTab))
   }, [products, lifecycleTab])
 
-  // Get pushed products count for "Check Source Updates" button
-  const pushedProducts = useMemo(() => {
-    return products.filter((p) => p.lifecycleStatus === "PUSHED")
-  }, [products])
 
   const handleCheckSourceUpdates = async () => {
     setIsChecking(true)
@@ -128,9 +290,18 @@ function ImportDashboard() {
       // Source check only works on PUSHED products
       // It operates on all PUSHED products in the database, not just the current tab
       const result = await runSourceCheckForPushedProducts()
+      // Flags may have changed, so the current page order/filter and the counts may be stale
+      await refreshDashboard()
+      const policyActions = [
+        result.repriced ? `${result.repriced} repriced` : null,
+        result.hidden ? `${result.hidden} hidden` : null,
+        result.queuedForReview ? `${result.queuedForReview} queued for review` : null,
+      ].filter(Boolean)
       toast({
         title: "Source Check Complete",
-        description: `Checked ${result.checked} products: ${result.priceChanged} price changed, ${result.outOfStock} out of stock`,
+        description:
+          `Checked ${result.checked} products: ${result.priceChanged} price changed, ${result.outOfStock} out of stock` +
+          (policyActions.length > 0 ? ` (${policyActions.join(", ")})` : ""),
       })
     } catch (error) {
       toast({
@@ -149,6 +320,139 @@ function ImportDashboard() {
     return `${lifecycleTab} Products`
   }
 
+  const handleAcceptBaseline = async (product: Product) => {
+    try {
+      await acceptSourceBaseline(product.id)
+      await refreshDashboard()
+      toast({
+        title: "Baseline Updated",
+        description: `New source baseline: ${product.sourceLastCheckedPriceKrw?.toLocaleString()} KRW`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept new baseline",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Bulk machine translation never overwrites human edits; those are reported only
+  const handleTranslateSelected = async () => {
+    setIsTranslating(true)
+    try {
+      const { results, errors } = await translateProducts(selectedIdList)
+      await refreshDashboard()
+      const translated = results.filter((r) => r.translated.length > 0).length
+      const kept = results.filter((r) => r.requiresConfirmation).length
+      toast({
+        title: "Translation Complete",
+        description: `${translated} translated${kept > 0 ? `, ${kept} with edited fields kept` : ""}${
+          errors.length > 0 ? `, ${errors.length} skipped (not RAW/DRAFT or failed)` : ""
+        }`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to translate products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsTranslating(false)
+    }
+  }
+
+  // Rule-based only; proposals wait for review in the editor of each RAW product
+  const handleExtractAttributesSelected = async () => {
+    setIsExtractingAttributes(true)
+    try {
+      const { results, errors } = await extractAttributesForProducts(selectedIdList)
+      await refreshDashboard()
+      const found = results.filter((r) => r.suggestions.attributes.length > 0).length
+      toast({
+        title: "Attributes Extracted",
+        description: `${found} of ${results.length} with suggestions to review${
+          errors.length > 0 ? `, ${errors.length} skipped (not RAW)` : ""
+        }`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to extract attributes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExtractingAttributes(false)
+    }
+  }
+
+  // Retiring unpublishes from the storefront first; every product needs the same reason
+  const handleRetireSelected = async () => {
+    setIsRetiring(true)
+    try {
+      await retireProducts(selectedIdList, retireReason)
+      toast({
+        title: "Products Retired",
+        description: `${selectedIdList.length} product${selectedIdList.length > 1 ? "s" : ""} taken off the storefront`,
+      })
+      setShowRetireDialog(false)
+      setRetireReason("")
+      setSelectedIds(new Set())
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to retire products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRetiring(false)
+      await refreshDashboard()
+    }
+  }
+
+  const handleRepublishSelected = async () => {
+    setIsRetiring(true)
+    try {
+      await updateMultipleProductsStatus(selectedIdList, "PUSHED")
+      toast({
+        title: "Products Republished",
+        description: `${selectedIdList.length} product${selectedIdList.length > 1 ? "s" : ""} back on the storefront`,
+      })
+      setSelectedIds(new Set())
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to republish products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRetiring(false)
+      await refreshDashboard()
+    }
+  }
+
+  // Deleted products go to the trash and can be restored there
+  const handleDeleteSelected = async () => {
+    setIsDeleting(true)
+    try {
+      await deleteProducts(selectedIdList)
+      toast({
+        title: "Moved to Trash",
+        description: `${selectedIdList.length} product${selectedIdList.length > 1 ? "s" : ""} can be restored from the trash`,
+      })
+      setSelectedIds(new Set())
+      await refreshDashboard()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
   const handleToggleVisibility = async (id: string) => {
     const product = products.find((p) => p.id === id)
     // Determine next visibility state BEFORE toggle
@@ -203,9 +507,23 @@ function ImportDashboard() {
             Manage and import products from various stores
           </p>
         </div>
-        <Link href="/import/new">
-          <Button size="lg">Import Products</Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/import/glossary">
+            <Button size="lg" variant="outline">Glossary</Button>
+          </Link>
+          <Link href="/import/taxonomy">
+            <Button size="lg" variant="outline">Categories</Button>
+          </Link>
+          <Link href="/import/brands">
+            <Button size="lg" variant="outline">Brands</Button>
+          </Link>
+          <Link href="/import/trash">
+            <Button size="lg" variant="outline">Trash</Button>
+          </Link>
+          <Link href="/import/new">
+            <Button size="lg">Import Products</Button>
+          </Link>
+        </div>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -254,6 +572,8 @@ function ImportDashboard() {
         </Card>
       </div>
 
+      <ApiQuotaCard />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -262,6 +582,8 @@ function ImportDashboard() {
               <CardDescription>
                 {lifecycleTab === "PUSHED" 
                   ? "Manage pushed products and monitor source changes"
+                  : lifecycleTab === "RETIRED"
+                  ? "Products taken off the storefront; republish to list them again"
                   : lifecycleTab === "ALL"
                   ? "View and manage all products"
                   : `View and manage ${lifecycleTab.toLowerCase()} products`}
@@ -271,7 +593,7 @@ function ImportDashboard() {
               <TooltipTrigger asChild>
                 <Button
                   onClick={handleCheckSourceUpdates}
-                  disabled={isChecking || pushedProducts.length === 0 || lifecycleTab !== "PUSHED"}
+                  disabled={isChecking || stats.pushed === 0 || lifecycleTab !== "PUSHED"}
                   variant="outline"
                 >
                   {isChecking ? (
@@ -294,7 +616,7 @@ function ImportDashboard() {
           </div>
         </CardHeader>
         <CardContent>
-          {products.length === 0 ? (
+          {(USE_API ? serverStats?.total === 0 : products.length === 0) ? (
             <div className="text-center py-8 text-muted-foreground">
               <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>No products in database yet</p>
@@ -306,15 +628,16 @@ function ImportDashboard() {
           ) : (
             <>
               <Tabs value={lifecycleTab} onValueChange={(value) => setLifecycleTab(value as LifecycleTab)} className="w-full">
-                <TabsList className="grid w-full grid-cols-5 mb-4">
+                <TabsList className="grid w-full grid-cols-6 mb-4">
                   <TabsTrigger value="ALL">All</TabsTrigger>
                   <TabsTrigger value="RAW">RAW</TabsTrigger>
                   <TabsTrigger value="DRAFT">DRAFT</TabsTrigger>
                   <TabsTrigger value="READY">READY</TabsTrigger>
                   <TabsTrigger value="PUSHED">PUSHED</TabsTrigger>
+                  <TabsTrigger value="RETIRED">RETIRED</TabsTrigger>
                 </TabsList>
                 <TabsContent value={lifecycleTab} className="mt-0">
-                  <div className="flex flex-col sm:flex-row gap-4 mb-4">
+                  <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4 mb-4">
                     <Input
                       placeholder="Search by name or brand..."
                       value={searchQuery}
@@ -329,6 +652,7 @@ function ImportDashboard() {
                         <SelectItem value="ALL">All Flags</SelectItem>
                         <SelectItem value="PRICE_CHANGED">Price Changed</SelectItem>
                         <SelectItem value="OUT_OF_STOCK">Out of Stock</SelectItem>
+                        <SelectItem value="NEEDS_REVIEW">Needs Review</SelectItem>
                         <SelectItem value="HIDDEN">Hidden</SelectItem>
                       </SelectContent>
                     </Select>
@@ -346,11 +670,44 @@ function ImportDashboard() {
                         <SelectItem value="auction">Auction</SelectItem>
                       </SelectContent>
                     </Select>
+                    <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Filter by category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ALL">All Categories</SelectItem>
+                        {categoryOptions.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={brandFilter} onValueChange={setBrandFilter}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Filter by brand" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ALL">All Brands</SelectItem>
+                        {brandOptions.map((brand) => (
+                          <SelectItem key={brand} value={brand}>{brand}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={sortKey} onValueChange={(value) => setSortKey(value as ProductSortKey)}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Sort by" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="flagPriority">Flagged first</SelectItem>
+                        <SelectItem value="createdAt">Newest</SelectItem>
+                        <SelectItem value="price">Price (high to low)</SelectItem>
+                        <SelectItem value="sourceLastCheckedAt">Recently checked</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
 
                   {filteredAndSortedProducts.length > 0 && (
                     <div className="text-sm text-muted-foreground mb-2">
-                      Showing {filteredAndSortedProducts.length} of {currentTabProducts.length} products
+                      Showing {filteredAndSortedProducts.length} of {USE_API ? pageTotal : currentTabProducts.length} products
                       {lifecycleTab === "PUSHED" && (() => {
                         const mostRecentCheck = filteredAndSortedProducts
                           .map((p) => p.sourceLastCheckedAt)
@@ -368,10 +725,85 @@ function ImportDashboard() {
                     </div>
                   )}
 
+                  {selectedIds.size > 0 && (
+                    <div className="flex items-center justify-between rounded-md bg-accent px-4 py-2 mb-2">
+                      <span className="text-sm font-medium">
+                        {selectedIds.size} item{selectedIds.size > 1 ? "s" : ""} selected
+                      </span>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setShowRepriceDialog(true)}>
+                          <Calculator className="mr-2 h-4 w-4" />
+                          Reprice
+                        </Button>
+                        {USE_API && (
+                          <Button variant="outline" size="sm" onClick={handleTranslateSelected} disabled={isTranslating}>
+                            {isTranslating ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Languages className="mr-2 h-4 w-4" />
+                            )}
+                            Translate
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleExtractAttributesSelected}
+                          disabled={isExtractingAttributes}
+                        >
+                          {isExtractingAttributes ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Tags className="mr-2 h-4 w-4" />
+                          )}
+                          Extract Attributes
+                        </Button>
+                        {lifecycleTab === "PUSHED" && (
+                          <Button variant="outline" size="sm" onClick={() => setShowRetireDialog(true)} disabled={isRetiring}>
+                            <Archive className="mr-2 h-4 w-4" />
+                            Retire
+                          </Button>
+                        )}
+                        {lifecycleTab === "RETIRED" && (
+                          <Button variant="outline" size="sm" onClick={handleRepublishSelected} disabled={isRetiring}>
+                            {isRetiring ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                            )}
+                            Republish
+                          </Button>
+                        )}
+                        {USE_API && lifecycleTab !== "PUSHED" && (
+                          <Button variant="outline" size="sm" onClick={handleDeleteSelected} disabled={isDeleting}>
+                            {isDeleting ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="mr-2 h-4 w-4" />
+                            )}
+                            Delete
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                          Clear
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="rounded-md border">
                   <Table>
                     <TableHeader>
                       <TableRow>
+                        <TableHead className="w-[40px]">
+                          <Checkbox
+                            checked={
+                              filteredAndSortedProducts.length > 0 &&
+                              filteredAndSortedProducts.every((p) => selectedIds.has(p.id))
+                            }
+                            onCheckedChange={toggleSelectAll}
+                          />
+                        </TableHead>
                         <TableHead className="w-[60px]">Image</TableHead>
                         <TableHead>Product</TableHead>
                         <TableHead>Store / Category</TableHead>
@@ -383,17 +815,25 @@ function ImportDashboard() {
                     <TableBody>
                       {filteredAndSortedProducts.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                             No products match your filters
                           </TableCell>
                         </TableRow>
                       ) : (
                         filteredAndSortedProducts.map((product) => (
                             <TableRow key={product.id}>
+                              <TableCell>
+                                <Checkbox
+                                  checked={selectedIds.has(product.id)}
+                                  onCheckedChange={() => toggleSelect(product.id)}
+                                />
+                              </TableCell>
                               <TableCell>
                                 {(product.imagesFinal?.length ?? 0) > 0 ? (
-                                  <img
-                                    src={product.imagesFinal?.[0] || ''}
+                                  <ProductImage
+                                    product={product}
+                                    url={product.imagesFinal?.[0] || ''}
+                                    variant="thumbnail"
                                     alt={getDisplayTitle(product) || 'Product'}
                                     className="w-12 h-12 object-cover rounded"
                                   />
@@ -409,6 +849,21 @@ function ImportDashboard() {
                                   {product.brand && (
                                     <p className="text-sm text-muted-foreground">{product.brand}</p>
                                   )}
+                                  {product.lifecycleStatus === "RETIRED" && product.retiredReason && (
+                                    <p className="text-xs text-muted-foreground">
+                                      Retired{product.retiredAt ? ` ${new Date(product.retiredAt).toLocaleDateString()}` : ""}: {product.retiredReason}
+                                    </p>
+                                  )}
+                                  {searchHighlights?.get(product.id)?.slice(0, 2).map((highlight) => (
+                                    <p
+                                      key={highlight.field}
+                                      className="text-xs text-muted-foreground [&_mark]:bg-yellow-200 [&_mark]:text-foreground"
+                                    >
+                                      <span className="mr-1">{highlight.field}:</span>
+                                      {/* Snippets are HTML-escaped by the server; only <mark> is markup */}
+                                      <span dangerouslySetInnerHTML={{ __html: highlight.snippet }} />
+                                    </p>
+                                  ))}
                                 </div>
                               </TableCell>
                               <TableCell>
@@ -462,6 +917,24 @@ function ImportDashboard() {
                                       </p>
                                     </TooltipContent>
                                   </Tooltip>
+                                  {product.sourceReviewStatus === "pending" && (
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Badge variant="outline" className="text-xs border-blue-500 text-blue-700">
+                                          <ClipboardCheck className="h-3 w-3 mr-1" />
+                                          Needs Review
+                                        </Badge>
+                                      </TooltipTrigger>
+                                      <TooltipContent>
+                                        <p>
+                                          Queued by the source policy:{" "}
+                                          {(product.sourceReviewReasons ?? [])
+                                            .map((r) => (r === "priceChanged" ? "price change" : "out of stock"))
+                                            .join(", ")}
+                                        </p>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  )}
                                   <Tooltip>
                                     <TooltipTrigger asChild>
                                       <Badge 
@@ -481,6 +954,16 @@ function ImportDashboard() {
                               </TableCell>
                               <TableCell className="text-right">
                                 <div className="flex items-center justify-end gap-2">
+                                  {product.sourcePriceChanged && product.sourceLastCheckedPriceKrw && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleAcceptBaseline(product)}
+                                      title={`Accept ${product.sourceLastCheckedPriceKrw.toLocaleString()} KRW as new baseline`}
+                                    >
+                                      <CheckCheck className="h-4 w-4" />
+                                    </Button>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -508,12 +991,60 @@ function ImportDashboard() {
                       </TableBody>
                     </Table>
                   </div>
+                  {USE_API && nextCursor && (
+                    <div className="flex justify-center mt-4">
+                      <Button variant="outline" onClick={handleLoadMore} disabled={isFetchingPage}>
+                        {isFetchingPage ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Loading...
+                          </>
+                        ) : (
+                          "Load More"
+                        )}
+                      </Button>
+                    </div>
+                  )}
                 </TabsContent>
               </Tabs>
             </>
           )}
         </CardContent>
       </Card>
+
+      <RepriceDialog
+        open={showRepriceDialog}
+        onOpenChange={setShowRepriceDialog}
+        productIds={selectedIdList}
+        onApplied={() => refreshDashboard()}
+      />
+
+      <Dialog open={showRetireDialog} onOpenChange={setShowRetireDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Retire Products</DialogTitle>
+            <DialogDescription>
+              {selectedIds.size} product{selectedIds.size > 1 ? "s" : ""} will be unpublished from the storefront,
+              hidden and left out of source checks. They can be republished from the Retired tab.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="Reason (e.g. discontinued by the brand)"
+            value={retireReason}
+            onChange={(e) => setRetireReason(e.target.value)}
+            maxLength={500}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRetireDialog(false)} disabled={isRetiring}>
+              Cancel
+            </Button>
+            <Button onClick={handleRetireSelected} disabled={isRetiring || retireReason.trim() === ""}>
+              {isRetiring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Retire
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,601 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { apiClient } from "@/lib/api-client"
+import { formatSourceCategory } from "@/lib/taxonomy"
+import { CategoryMappingRule, SourceCategorySummary, Store, TaxonomyCategory } from "@/types/product"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Pencil, Play, Trash2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const STORES: Store[] = ["gmarket", "oliveyoung", "auction"]
+
+// Select items cannot have an empty value
+const NONE = "__none__"
+
+const EMPTY_CATEGORY_FORM = {
+  slug: "",
+  name: "",
+  nameMn: "",
+  parentSlug: NONE,
+  sort: "0",
+}
+
+const EMPTY_RULE_FORM = {
+  store: "gmarket" as Store,
+  sourceKey: "",
+  sourceSubKey: "",
+  category: "",
+  subCategory: NONE,
+  note: "",
+}
+
+/**
+ * Storefront category tree and the rules mapping each store's source
+ * categories into it. Stored server-side (API mode only).
+ */
+export default function TaxonomyPage() {
+  const { toast } = useToast()
+  const [categories, setCategories] = useState<TaxonomyCategory[]>([])
+  const [rules, setRules] = useState<CategoryMappingRule[]>([])
+  const [sources, setSources] = useState<SourceCategorySummary[]>([])
+  const [isLoading, setIsLoading] = useState(USE_API)
+  const [categoryForm, setCategoryForm] = useState(EMPTY_CATEGORY_FORM)
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null)
+  const [ruleForm, setRuleForm] = useState(EMPTY_RULE_FORM)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const loadTaxonomy = useCallback(async () => {
+    try {
+      const [nextCategories, nextRules, nextSources] = await Promise.all([
+        apiClient.listTaxonomyCategories(),
+        apiClient.listCategoryMappings(),
+        apiClient.listSourceCategories(),
+      ])
+      setCategories(nextCategories)
+      setRules(nextRules)
+      setSources(nextSources)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load taxonomy",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (USE_API) loadTaxonomy()
+  }, [loadTaxonomy])
+
+  const topLevel = categories.filter((c) => c.parentSlug === null)
+  const categoryName = (slug: string | null) => categories.find((c) => c.slug === slug)?.name ?? slug
+
+  const resetCategoryForm = () => {
+    setCategoryForm(EMPTY_CATEGORY_FORM)
+    setEditingCategoryId(null)
+  }
+
+  const resetRuleForm = () => {
+    setRuleForm(EMPTY_RULE_FORM)
+    setEditingRuleId(null)
+  }
+
+  const handleEditCategory = (category: TaxonomyCategory) => {
+    setEditingCategoryId(category.id)
+    setCategoryForm({
+      slug: category.slug,
+      name: category.name,
+      nameMn: category.nameMn ?? "",
+      parentSlug: category.parentSlug ?? NONE,
+      sort: String(category.sort),
+    })
+  }
+
+  const handleEditRule = (rule: CategoryMappingRule) => {
+    setEditingRuleId(rule.id)
+    setRuleForm({
+      store: rule.store,
+      sourceKey: rule.sourceKey,
+      sourceSubKey: rule.sourceSubKey ?? "",
+      category: rule.category,
+      subCategory: rule.subCategory ?? NONE,
+      note: rule.note ?? "",
+    })
+  }
+
+  // Start a rule for an unmapped source category, or edit the one covering it
+  const handleMapSource = (source: SourceCategorySummary) => {
+    const rule = rules.find((r) => r.id === source.ruleId)
+    if (rule && rule.sourceSubKey === source.subKey) {
+      handleEditRule(rule)
+      return
+    }
+    setEditingRuleId(null)
+    setRuleForm({
+      ...EMPTY_RULE_FORM,
+      store: source.store,
+      sourceKey: source.key,
+      sourceSubKey: source.subKey ?? "",
+      category: source.category ?? "",
+      subCategory: source.subCategory ?? NONE,
+    })
+  }
+
+  const handleSaveCategory = async () => {
+    setIsSaving(true)
+    try {
+      await apiClient.saveTaxonomyCategory(
+        {
+          slug: categoryForm.slug,
+          name: categoryForm.name,
+          nameMn: categoryForm.nameMn || undefined,
+          parentSlug: categoryForm.parentSlug === NONE ? null : categoryForm.parentSlug,
+          sort: Number(categoryForm.sort) || 0,
+        },
+        editingCategoryId ?? undefined
+      )
+      toast({
+        title: editingCategoryId ? "Category Updated" : "Category Added",
+        description: categoryForm.name,
+      })
+      resetCategoryForm()
+      await loadTaxonomy()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save category",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSaveRule = async () => {
+    setIsSaving(true)
+    try {
+      await apiClient.saveCategoryMapping(
+        {
+          store: ruleForm.store,
+          sourceKey: ruleForm.sourceKey,
+          sourceSubKey: ruleForm.sourceSubKey || null,
+          category: ruleForm.category,
+          subCategory: ruleForm.subCategory === NONE ? null : ruleForm.subCategory,
+          note: ruleForm.note || undefined,
+        },
+        editingRuleId ?? undefined
+      )
+      toast({
+        title: editingRuleId ? "Rule Updated" : "Rule Added",
+        description: "Apply the rules to update existing products",
+      })
+      resetRuleForm()
+      await loadTaxonomy()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save mapping rule",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteCategory = async (category: TaxonomyCategory) => {
+    try {
+      await apiClient.deleteTaxonomyCategory(category.id)
+      if (editingCategoryId === category.id) resetCategoryForm()
+      setCategories((prev) => prev.filter((c) => c.id !== category.id))
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete category",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDeleteRule = async (rule: CategoryMappingRule) => {
+    try {
+      await apiClient.deleteCategoryMapping(rule.id)
+      if (editingRuleId === rule.id) resetRuleForm()
+      await loadTaxonomy()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete mapping rule",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleApply = async () => {
+    setIsApplying(true)
+    try {
+      const result = await apiClient.applyCategoryMappings()
+      toast({
+        title: "Rules Applied",
+        description: `${result.updated} updated, ${result.matched - result.updated - result.manual} already mapped${
+          result.manual > 0 ? `, ${result.manual} set by hand kept` : ""
+        }, ${result.unmapped} unmapped`,
+      })
+      await loadTaxonomy()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply mapping rules",
+        variant: "destructive",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const unmappedCount = sources.filter((s) => s.ruleId === null).length
+  const ruleChildren = categories.filter((c) => c.parentSlug === ruleForm.category)
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Categories</h1>
+          <p className="text-muted-foreground mt-1">
+            Storefront categories and how each store&apos;s categories map into them
+          </p>
+        </div>
+        <Link href="/import">
+          <Button variant="outline">Back to Dashboard</Button>
+        </Link>
+      </div>
+
+      {!USE_API ? (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            The category taxonomy is stored in the database and is only available in API mode.
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Mapping Review</CardTitle>
+                  <CardDescription>
+                    {sources.length} source categor{sources.length === 1 ? "y" : "ies"} on products, {unmappedCount} unmapped
+                  </CardDescription>
+                </div>
+                <Button variant="outline" onClick={handleApply} disabled={isApplying || rules.length === 0}>
+                  {isApplying ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Play className="mr-2 h-4 w-4" />
+                  )}
+                  Apply Rules
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {sources.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No products with a source category</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Source Category</TableHead>
+                        <TableHead className="text-right">Products</TableHead>
+                        <TableHead>Storefront Category</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sources.map((source) => (
+                        <TableRow key={formatSourceCategory(source)}>
+                          <TableCell className="font-medium">{formatSourceCategory(source)}</TableCell>
+                          <TableCell className="text-right">{source.productCount}</TableCell>
+                          <TableCell>
+                            {source.ruleId === null ? (
+                              <Badge variant="destructive">Unmapped</Badge>
+                            ) : (
+                              [categoryName(source.category), categoryName(source.subCategory)].filter(Boolean).join(" / ")
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleMapSource(source)}>
+                              {source.ruleId === null ? "Map" : "Edit"}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingRuleId ? "Edit Mapping Rule" : "Add Mapping Rule"}</CardTitle>
+              <CardDescription>
+                Leave the sub-key empty to map every sub-category of the source listing. Rules for a specific sub-key win.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-6">
+                <div className="space-y-2">
+                  <Label>Store</Label>
+                  <Select
+                    value={ruleForm.store}
+                    onValueChange={(value) => setRuleForm((prev) => ({ ...prev, store: value as Store }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STORES.map((store) => (
+                        <SelectItem key={store} value={store}>{store}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sourceKey">Source Key</Label>
+                  <Input
+                    id="sourceKey"
+                    placeholder="best_electronics_all"
+                    value={ruleForm.sourceKey}
+                    onChange={(e) => setRuleForm((prev) => ({ ...prev, sourceKey: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sourceSubKey">Source Sub-key</Label>
+                  <Input
+                    id="sourceSubKey"
+                    placeholder="Any"
+                    value={ruleForm.sourceSubKey}
+                    onChange={(e) => setRuleForm((prev) => ({ ...prev, sourceSubKey: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={ruleForm.category || undefined}
+                    onValueChange={(value) => setRuleForm((prev) => ({ ...prev, category: value, subCategory: NONE }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {topLevel.map((c) => (
+                        <SelectItem key={c.slug} value={c.slug}>{c.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Sub-category</Label>
+                  <Select
+                    value={ruleForm.subCategory}
+                    onValueChange={(value) => setRuleForm((prev) => ({ ...prev, subCategory: value }))}
+                    disabled={ruleChildren.length === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>None</SelectItem>
+                      {ruleChildren.map((c) => (
+                        <SelectItem key={c.slug} value={c.slug}>{c.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleNote">Note</Label>
+                  <Input
+                    id="ruleNote"
+                    value={ruleForm.note}
+                    onChange={(e) => setRuleForm((prev) => ({ ...prev, note: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2 mt-4">
+                <Button onClick={handleSaveRule} disabled={isSaving || !ruleForm.sourceKey.trim() || !ruleForm.category}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingRuleId ? "Save Rule" : "Add Rule"}
+                </Button>
+                {editingRuleId && (
+                  <Button variant="outline" onClick={resetRuleForm} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+
+              {rules.length > 0 && (
+                <div className="rounded-md border mt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Source</TableHead>
+                        <TableHead>Storefront Category</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map((rule) => (
+                        <TableRow key={rule.id}>
+                          <TableCell className="font-medium">
+                            {formatSourceCategory({ store: rule.store, key: rule.sourceKey, subKey: rule.sourceSubKey })}
+                            {rule.sourceSubKey === null && <span className="text-muted-foreground"> / *</span>}
+                          </TableCell>
+                          <TableCell>
+                            {[categoryName(rule.category), categoryName(rule.subCategory)].filter(Boolean).join(" / ")}
+                          </TableCell>
+                          <TableCell className="max-w-[200px] truncate text-muted-foreground">{rule.note}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => handleEditRule(rule)} title="Edit">
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)} title="Delete">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingCategoryId ? "Edit Category" : "Add Category"}</CardTitle>
+              <CardDescription>
+                Two levels: top-level categories and their sub-categories. Products store the slug, so it cannot change later.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-5">
+                <div className="space-y-2">
+                  <Label htmlFor="slug">Slug</Label>
+                  <Input
+                    id="slug"
+                    placeholder="skincare-set"
+                    value={categoryForm.slug}
+                    disabled={editingCategoryId !== null}
+                    onChange={(e) => setCategoryForm((prev) => ({ ...prev, slug: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="Skincare Sets"
+                    value={categoryForm.name}
+                    onChange={(e) => setCategoryForm((prev) => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="nameMn">Mongolian</Label>
+                  <Input
+                    id="nameMn"
+                    value={categoryForm.nameMn}
+                    onChange={(e) => setCategoryForm((prev) => ({ ...prev, nameMn: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Parent</Label>
+                  <Select
+                    value={categoryForm.parentSlug}
+                    onValueChange={(value) => setCategoryForm((prev) => ({ ...prev, parentSlug: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>None (top-level)</SelectItem>
+                      {topLevel
+                        .filter((c) => c.slug !== categoryForm.slug)
+                        .map((c) => (
+                          <SelectItem key={c.slug} value={c.slug}>{c.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sort">Sort</Label>
+                  <Input
+                    id="sort"
+                    type="number"
+                    value={categoryForm.sort}
+                    onChange={(e) => setCategoryForm((prev) => ({ ...prev, sort: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2 mt-4">
+                <Button onClick={handleSaveCategory} disabled={isSaving || !categoryForm.slug.trim() || !categoryForm.name.trim()}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingCategoryId ? "Save Category" : "Add Category"}
+                </Button>
+                {editingCategoryId && (
+                  <Button variant="outline" onClick={resetCategoryForm} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+
+              {categories.length === 0 ? (
+                <p className="text-sm text-muted-foreground mt-6">No storefront categories yet</p>
+              ) : (
+                <div className="rounded-md border mt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Slug</TableHead>
+                        <TableHead>Mongolian</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {categories.map((category) => (
+                        <TableRow key={category.id}>
+                          <TableCell className={category.parentSlug ? "pl-8" : "font-medium"}>{category.name}</TableCell>
+                          <TableCell className="font-mono text-xs">{category.slug}</TableCell>
+                          <TableCell>{category.nameMn ?? <span className="text-muted-foreground">—</span>}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => handleEditCategory(category)} title="Edit">
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDeleteCategory(category)} title="Delete">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
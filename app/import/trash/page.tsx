@@ -0,0 +1,337 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { apiClient } from "@/lib/api-client"
+import { useProductStore } from "@/lib/store"
+import { getDisplayTitle } from "@/lib/utils"
+import { Product, TrashSummary } from "@/types/product"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, RotateCcw, Trash2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+const PAGE_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// "selected" purges the checked products now, "expired" those past the retention period
+type PurgeTarget = "selected" | "expired"
+
+function getPurgeDate(product: Product, retentionDays: number): Date | null {
+  return product.deletedAt ? new Date(new Date(product.deletedAt).getTime() + retentionDays * DAY_MS) : null
+}
+
+/**
+ * Trash: deleted products, restorable until they are purged after the
+ * retention period. Stored server-side (API mode only).
+ */
+export default function TrashPage() {
+  const { toast } = useToast()
+  const restoreProducts = useProductStore((state) => state.restoreProducts)
+  const [products, setProducts] = useState<Product[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [summary, setSummary] = useState<TrashSummary | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(USE_API)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [isPurging, setIsPurging] = useState(false)
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null)
+
+  const loadTrash = useCallback(async (cursor?: string) => {
+    try {
+      const [page, trashSummary] = await Promise.all([
+        apiClient.getProducts({ deleted: true, sort: "deletedAt", order: "desc", limit: PAGE_SIZE, cursor }),
+        apiClient.getTrashSummary(),
+      ])
+      setProducts((items) => (cursor ? [...items, ...page.items] : page.items))
+      setNextCursor(page.nextCursor)
+      setSummary(trashSummary)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load trash",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (USE_API) loadTrash()
+  }, [loadTrash])
+
+  const toggleSelect = (id: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelectedIds(next)
+  }
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      products.length > 0 && products.every((p) => selectedIds.has(p.id))
+        ? new Set()
+        : new Set(products.map((p) => p.id))
+    )
+  }
+
+  const handleRestore = async (ids: string[]) => {
+    setIsRestoring(true)
+    try {
+      await restoreProducts(ids)
+      toast({
+        title: "Restored",
+        description: `${ids.length} product${ids.length > 1 ? "s" : ""} back on the dashboard`,
+      })
+      setSelectedIds(new Set())
+      await loadTrash()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore products",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handlePurge = async () => {
+    if (!purgeTarget) return
+    setIsPurging(true)
+    try {
+      const result = await apiClient.purgeTrash(purgeTarget === "selected" ? Array.from(selectedIds) : undefined)
+      toast({
+        title: "Trash Purged",
+        description: `${result.purged} product${result.purged === 1 ? "" : "s"} and ${result.imagesDeleted} image record${
+          result.imagesDeleted === 1 ? "" : "s"
+        } permanently deleted`,
+      })
+      setPurgeTarget(null)
+      setSelectedIds(new Set())
+      await loadTrash()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to purge trash",
+        variant: "destructive",
+      })
+    } finally {
+      setIsPurging(false)
+    }
+  }
+
+  const purgeCount = purgeTarget === "selected" ? selectedIds.size : summary?.expired ?? 0
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground mt-1">
+            Deleted products can be restored until they are purged
+          </p>
+        </div>
+        <Link href="/import">
+          <Button variant="outline">Back to Dashboard</Button>
+        </Link>
+      </div>
+
+      {!USE_API ? (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            The trash is stored in the database and is only available in API mode.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Deleted Products</CardTitle>
+                <CardDescription>
+                  {summary
+                    ? `${summary.total} in the trash. Products are purged ${summary.retentionDays} days after deletion, with their image records.`
+                    : "Products are purged after the retention period, with their image records."}
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setPurgeTarget("expired")}
+                disabled={!summary || summary.expired === 0 || isPurging}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Purge Expired ({summary?.expired ?? 0})
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selectedIds.size > 0 && (
+              <div className="flex items-center justify-between rounded-md bg-accent px-4 py-2 mb-2">
+                <span className="text-sm font-medium">
+                  {selectedIds.size} item{selectedIds.size > 1 ? "s" : ""} selected
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(Array.from(selectedIds))}
+                    disabled={isRestoring}
+                  >
+                    {isRestoring ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    Restore
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPurgeTarget("selected")} disabled={isPurging}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Forever
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                    Clear
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]">
+                        <Checkbox
+                          checked={products.length > 0 && products.every((p) => selectedIds.has(p.id))}
+                          onCheckedChange={toggleSelectAll}
+                        />
+                      </TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Purged On</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {products.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          The trash is empty
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      products.map((product) => {
+                        const purgeDate = summary ? getPurgeDate(product, summary.retentionDays) : null
+                        return (
+                          <TableRow key={product.id}>
+                            <TableCell>
+                              <Checkbox
+                                checked={selectedIds.has(product.id)}
+                                onCheckedChange={() => toggleSelect(product.id)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <p className="font-medium">{getDisplayTitle(product) || product.nameOriginal || "Untitled"}</p>
+                              {product.brand && <p className="text-sm text-muted-foreground">{product.brand}</p>}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{product.lifecycleStatus}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {product.deletedAt ? new Date(product.deletedAt).toLocaleString() : "—"}
+                              {product.deletedBy && (
+                                <p className="text-xs text-muted-foreground">by {product.deletedBy}</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {purgeDate ? (
+                                <span className={purgeDate.getTime() <= Date.now() ? "text-destructive" : undefined}>
+                                  {purgeDate.toLocaleDateString()}
+                                </span>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRestore([product.id])}
+                                disabled={isRestoring}
+                                title="Restore"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {nextCursor && (
+              <div className="flex justify-center mt-4">
+                <Button variant="outline" onClick={() => loadTrash(nextCursor)}>
+                  Load More
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Forever</DialogTitle>
+            <DialogDescription>
+              {purgeCount} product{purgeCount === 1 ? "" : "s"} and {purgeCount === 1 ? "its" : "their"} image
+              records will be permanently deleted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPurgeTarget(null)} disabled={isPurging}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handlePurge} disabled={isPurging}>
+              {isPurging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Forever
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
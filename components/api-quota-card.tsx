@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { apiClient } from "@/lib/api-client"
+import { ApiQuotaProvider, ApiQuotaStatus } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Gauge } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const PROVIDER_LABELS: Record<ApiQuotaProvider, string> = {
+  "google-cse": "Google image search",
+  gemini: "Gemini",
+}
+
+/**
+ * Remaining daily quota of the external APIs used by image search and
+ * translation. Usage is only tracked in API mode.
+ */
+export function ApiQuotaCard() {
+  const [quotas, setQuotas] = useState<ApiQuotaStatus[]>([])
+
+  useEffect(() => {
+    if (!USE_API) return
+
+    let cancelled = false
+    apiClient
+      .getApiQuotaStatus()
+      .then((result) => {
+        if (!cancelled) setQuotas(result)
+      })
+      .catch((err) => console.error("Failed to load API quota:", err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!USE_API || quotas.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle className="text-sm font-medium">External API Quota</CardTitle>
+          <CardDescription className="text-xs">
+            Resets {new Date(quotas[0].resetAt).toLocaleString()}
+          </CardDescription>
+        </div>
+        <Gauge className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        {quotas.map((quota) => {
+          const usedShare = quota.dailyBudget > 0 ? Math.min(1, quota.used / quota.dailyBudget) : 1
+          return (
+            <div key={quota.provider} className="space-y-1">
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="font-medium">{PROVIDER_LABELS[quota.provider]}</span>
+                <span className={quota.remaining === 0 ? "text-destructive" : "text-muted-foreground"}>
+                  {quota.remaining} of {quota.dailyBudget} left
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-muted">
+                <div
+                  className={`h-2 rounded-full ${usedShare >= 0.9 ? "bg-destructive" : "bg-primary"}`}
+                  style={{ width: `${usedShare * 100}%` }}
+                />
+              </div>
+              {(quota.failures > 0 || quota.rejected > 0) && (
+                <p className="text-xs text-muted-foreground">
+                  {quota.failures} failed, {quota.rejected} refused over budget
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
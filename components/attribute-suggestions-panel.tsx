@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useProductStore } from "@/lib/store"
+import { ExtractedAttribute, Product, ProductAttributeTarget } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import { Check, Loader2, Tags, X } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const TARGET_LABELS: Record<ProductAttributeTarget, string> = {
+  sizes: "Sizes",
+  colors: "Colors",
+  custom_specifications: "Specifications",
+}
+
+interface AttributeSuggestionsPanelProps {
+  product: Product
+}
+
+/**
+ * Current sizes, colors and specifications, plus attributes proposed from the
+ * source title (lib/attributes) for acceptance. Gemini assistance is only
+ * available in API mode.
+ */
+export function AttributeSuggestionsPanel({ product }: AttributeSuggestionsPanelProps) {
+  const { toast } = useToast()
+  const extractProductAttributes = useProductStore((state) => state.extractProductAttributes)
+  const applyProductAttributes = useProductStore((state) => state.applyProductAttributes)
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+  const [useLlm, setUseLlm] = useState(false)
+  const [isExtracting, setIsExtracting] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const suggestions = product.attributeSuggestions
+  const specifications = Object.entries(product.custom_specifications ?? {})
+
+  // Rule proposals start selected; Gemini's have to be picked explicitly
+  useEffect(() => {
+    setSelectedKeys(new Set((suggestions?.attributes ?? []).filter((a) => a.source === "rule").map((a) => a.key)))
+  }, [suggestions?.extractedAt, suggestions?.attributes])
+
+  const handleExtract = async () => {
+    setIsExtracting(true)
+    try {
+      const result = await extractProductAttributes(product.id, { useLlm })
+      if (result.suggestions.llmError) {
+        toast({
+          title: "Gemini Unavailable",
+          description: `Showing rule-based attributes only: ${result.suggestions.llmError}`,
+          variant: "destructive",
+        })
+      } else if (result.suggestions.attributes.length === 0) {
+        toast({ title: "No Attributes Found", description: "Nothing recognizable in the source title" })
+      }
+    } catch (error: any) {
+      toast({
+        title: "Extraction Failed",
+        description: error.message || "Failed to extract attributes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExtracting(false)
+    }
+  }
+
+  const handleApply = async (keys: string[]) => {
+    setIsApplying(true)
+    try {
+      const result = await applyProductAttributes(product.id, keys)
+      toast({
+        title: keys.length > 0 ? "Attributes Applied" : "Suggestions Dismissed",
+        description: keys.length > 0 ? result.applied.map((a) => `${a.label}: ${a.value}`).join(", ") : undefined,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply attributes",
+        variant: "destructive",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const toggleKey = (key: string, checked: boolean) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(key)
+      else next.delete(key)
+      return next
+    })
+  }
+
+  const renderSuggestion = (attribute: ExtractedAttribute) => (
+    <label key={attribute.key} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+      <Checkbox
+        checked={selectedKeys.has(attribute.key)}
+        onCheckedChange={(checked) => toggleKey(attribute.key, checked === true)}
+      />
+      <span className="w-40 shrink-0 text-muted-foreground">
+        {TARGET_LABELS[attribute.target]}
+        {attribute.target === "custom_specifications" && ` • ${attribute.label}`}
+      </span>
+      <span className="font-medium">{attribute.value}</span>
+      <span className="truncate text-xs text-muted-foreground">from “{attribute.match}”</span>
+      {attribute.source === "llm" && (
+        <Badge variant="outline" className="ml-auto text-xs">Gemini</Badge>
+      )}
+    </label>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Attributes</CardTitle>
+            <CardDescription>Sizes, colors and specifications shown on the storefront</CardDescription>
+          </div>
+          <div className="flex items-center gap-3">
+            {USE_API && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={useLlm} onCheckedChange={(checked) => setUseLlm(checked === true)} />
+                Ask Gemini
+              </label>
+            )}
+            <Button variant="outline" size="sm" onClick={handleExtract} disabled={isExtracting}>
+              {isExtracting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Tags className="mr-2 h-4 w-4" />
+              )}
+              Extract from Title
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 text-sm md:grid-cols-3">
+          <div>
+            <p className="text-muted-foreground">Sizes</p>
+            <p>{product.sizes?.length ? product.sizes.join(", ") : "—"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Colors</p>
+            <p>{product.colors?.length ? product.colors.join(", ") : "—"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Specifications</p>
+            {specifications.length > 0 ? (
+              specifications.map(([label, value]) => (
+                <p key={label}>{label}: {value}</p>
+              ))
+            ) : (
+              <p>—</p>
+            )}
+          </div>
+        </div>
+
+        {suggestions && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Suggested from “{suggestions.sourceText}”
+            </p>
+            {suggestions.attributes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No attributes found</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {suggestions.attributes.map(renderSuggestion)}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleApply([])} disabled={isApplying}>
+                <X className="mr-2 h-4 w-4" />
+                Dismiss
+              </Button>
+              {suggestions.attributes.length > 0 && (
+                <Button
+                  size="sm"
+                  onClick={() => handleApply(Array.from(selectedKeys))}
+                  disabled={isApplying || selectedKeys.size === 0}
+                >
+                  {isApplying ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Check className="mr-2 h-4 w-4" />
+                  )}
+                  Accept Selected ({selectedKeys.size})
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { apiClient } from "@/lib/api-client"
+import { useProductStore } from "@/lib/store"
+import { formatSourceCategory, getProductSourceCategory } from "@/lib/taxonomy"
+import { Product, TaxonomyCategory } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { FolderTree, Loader2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+// Select items cannot have an empty value
+const NO_SUB_CATEGORY = "__none__"
+
+interface ProductCategoryPanelProps {
+  product: Product
+}
+
+/**
+ * Storefront category and sub-category from the taxonomy. Picking one by hand
+ * stops mapping rules from changing it. The taxonomy is only available in API mode.
+ */
+export function ProductCategoryPanel({ product }: ProductCategoryPanelProps) {
+  const { toast } = useToast()
+  const assignProductCategory = useProductStore((state) => state.assignProductCategory)
+  const [categories, setCategories] = useState<TaxonomyCategory[]>([])
+  const [category, setCategory] = useState("")
+  const [subCategory, setSubCategory] = useState(NO_SUB_CATEGORY)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!USE_API) return
+
+    let cancelled = false
+    apiClient
+      .listTaxonomyCategories()
+      .then((result) => {
+        if (!cancelled) setCategories(result)
+      })
+      .catch((err) => console.error("Failed to load categories:", err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    setCategory(product.category ?? "")
+    setSubCategory(product.subCategory || NO_SUB_CATEGORY)
+  }, [product.category, product.subCategory])
+
+  if (!USE_API) return null
+
+  const topLevel = categories.filter((c) => c.parentSlug === null)
+  const children = categories.filter((c) => c.parentSlug === category)
+  const isKnown = topLevel.some((c) => c.slug === category)
+  const selectedSub = subCategory === NO_SUB_CATEGORY ? null : subCategory
+  const isChanged =
+    isKnown && (category !== product.category || selectedSub !== (product.subCategory || null))
+  const assignment = product.categoryAssignment
+  const source = formatSourceCategory(getProductSourceCategory(product))
+
+  const handleCategoryChange = (value: string) => {
+    setCategory(value)
+    setSubCategory(NO_SUB_CATEGORY)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await assignProductCategory(product.id, category, selectedSub)
+      toast({
+        title: "Category Saved",
+        description: [category, selectedSub].filter(Boolean).join(" / "),
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save category",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Storefront Category</CardTitle>
+            <CardDescription>
+              {source ? `Source: ${source}` : "No source category"}
+            </CardDescription>
+          </div>
+          {assignment?.method === "manual" ? (
+            <Badge variant="secondary">Set by hand</Badge>
+          ) : assignment?.method === "rule" ? (
+            <Badge variant="outline">Mapped by rule</Badge>
+          ) : (
+            <Badge variant="destructive">Unmapped</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No storefront categories yet.{" "}
+            <Link href="/import/taxonomy" className="underline">
+              Set up the taxonomy
+            </Link>
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={isKnown ? category : undefined} onValueChange={handleCategoryChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder={product.category ? `${product.category} (not in taxonomy)` : "Select category"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {topLevel.map((c) => (
+                    <SelectItem key={c.slug} value={c.slug}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Sub-category</Label>
+              <Select value={subCategory} onValueChange={setSubCategory} disabled={!isKnown || children.length === 0}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SUB_CATEGORY}>None</SelectItem>
+                  {children.map((c) => (
+                    <SelectItem key={c.slug} value={c.slug}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSave} disabled={!isChanged || isSaving}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FolderTree className="mr-2 h-4 w-4" />
+              )}
+              Save Category
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
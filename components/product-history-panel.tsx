@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { apiClient } from "@/lib/api-client"
+import { AuditAction, AuditEvent, AuditSource, Product } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Loader2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+const MAX_VALUE_LENGTH = 60
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Edited",
+  statusChange: "Status changed",
+  publish: "Published",
+  publishFailed: "Publish failed",
+  retire: "Retired",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Purged",
+  reprice: "Repriced",
+  acceptBaseline: "Baseline accepted",
+  sourcePolicy: "Source policy",
+  revert: "Reverted",
+}
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  ui: "editor",
+  bulk: "bulk action",
+  import: "import",
+  script: "script",
+  policy: "source policy",
+  system: "system",
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "—"
+  const text = typeof value === "string" ? value : JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text
+}
+
+interface ProductHistoryPanelProps {
+  product: Product
+}
+
+/**
+ * Who changed what on the product, newest first. The audit log is stored
+ * server-side, so the panel only shows in API mode.
+ */
+export function ProductHistoryPanel({ product }: ProductHistoryPanelProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Reload after every saved change
+  useEffect(() => {
+    if (!USE_API) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    apiClient
+      .getProductHistory(product.id)
+      .then((result) => {
+        if (!cancelled) setEvents(result)
+      })
+      .catch((err) => console.error("Failed to load product history:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [product.id, product.updatedAt])
+
+  if (!USE_API) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>Edits, status changes and automatic updates, newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && events.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded</p>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto divide-y rounded-md border">
+            {events.map((event) => (
+              <div key={event.id} className="space-y-1 px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Badge
+                      variant={event.action === "publishFailed" ? "destructive" : "outline"}
+                      className="text-xs"
+                    >
+                      {ACTION_LABELS[event.action] ?? event.action}
+                    </Badge>
+                    <span className="truncate">
+                      {event.actor}
+                      <span className="text-muted-foreground"> via {SOURCE_LABELS[event.source] ?? event.source}</span>
+                    </span>
+                  </div>
+                  <span className="shrink-0 text-muted-foreground">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {event.note && <p className="text-xs text-muted-foreground">{event.note}</p>}
+                {event.changes.length > 0 && (
+                  <ul className="space-y-0.5 text-xs">
+                    {event.changes.map((change) => (
+                      <li key={change.field} className="truncate">
+                        <span className="font-medium">{change.field}</span>:{" "}
+                        <span className="text-muted-foreground">{formatValue(change.before)}</span> →{" "}
+                        {formatValue(change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
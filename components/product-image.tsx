@@ -0,0 +1,42 @@
+import Image from "next/image"
+import { IMAGE_VARIANT_SIZES, ImageVariantFile, ImageVariantName, Product } from "@/types/product"
+
+/**
+ * Stored variant of an imagesFinal entry, if it was generated
+ */
+export function getImageVariant(
+  product: Pick<Product, "imageVariants">,
+  url: string,
+  variant: ImageVariantName
+): ImageVariantFile | undefined {
+  return product.imageVariants?.find((entry) => entry.url === url)?.variants[variant]
+}
+
+interface ProductImageProps {
+  product: Pick<Product, "imageVariants">
+  url: string
+  variant: ImageVariantName
+  alt: string
+  className?: string
+}
+
+/**
+ * Product image using the requested size variant (WebP with JPEG fallback).
+ * Falls back to the original URL for images without variants. Variants are
+ * already sized and sources live on other hosts, so Next.js does not resize.
+ */
+export function ProductImage({ product, url, variant, alt, className }: ProductImageProps) {
+  const file = getImageVariant(product, url, variant)
+  const size = file?.size ?? IMAGE_VARIANT_SIZES[variant]
+
+  if (!file) {
+    return <Image src={url} alt={alt} width={size} height={size} className={className} unoptimized />
+  }
+
+  return (
+    <picture className="contents">
+      <source type="image/webp" srcSet={file.webp} />
+      <Image src={file.jpeg} alt={alt} width={size} height={size} className={className} unoptimized />
+    </picture>
+  )
+}
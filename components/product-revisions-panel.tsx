@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { apiClient } from "@/lib/api-client"
+import { diffRevisionFields, REVISION_FIELD_LABELS } from "@/lib/revisions"
+import { Product, ProductRevision } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, RotateCcw } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+function formatRevisionLabel(revision: ProductRevision, isCurrent: boolean): string {
+  const by = revision.actor ? ` by ${revision.actor}` : " (before first recorded change)"
+  return `#${revision.revision}${isCurrent ? " (current)" : ""} · ${new Date(revision.createdAt).toLocaleString()}${by}`
+}
+
+function RevisionValue({ value }: { value: any }) {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-muted-foreground">—</span>
+  }
+  if (Array.isArray(value)) {
+    return (
+      <ul className="space-y-0.5">
+        {value.map((item, index) => (
+          <li key={index} className="break-all">{String(item)}</li>
+        ))}
+      </ul>
+    )
+  }
+  if (typeof value === "number") {
+    return <span>{value.toLocaleString()}</span>
+  }
+  return (
+    <p className="max-h-32 overflow-y-auto whitespace-pre-wrap break-words">
+      {typeof value === "string" ? value : JSON.stringify(value)}
+    </p>
+  )
+}
+
+interface ProductRevisionsPanelProps {
+  product: Product
+  // Reverts the product to the revision; the editor syncs its form afterwards
+  onRevert: (revision: ProductRevision) => Promise<void>
+}
+
+/**
+ * Side-by-side comparison of two revisions of the editable fields, with
+ * revert to the older one. Revisions are recorded server-side (API mode only).
+ */
+export function ProductRevisionsPanel({ product, onRevert }: ProductRevisionsPanelProps) {
+  const [revisions, setRevisions] = useState<ProductRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isReverting, setIsReverting] = useState(false)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+
+  // Reload after every saved change; compare the two newest revisions by default
+  useEffect(() => {
+    if (!USE_API) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    apiClient
+      .getProductRevisions(product.id)
+      .then((result) => {
+        if (cancelled) return
+        setRevisions(result)
+        setToId(result[0]?.id ?? null)
+        setFromId(result[1]?.id ?? null)
+      })
+      .catch((err) => console.error("Failed to load product revisions:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [product.id, product.updatedAt])
+
+  if (!USE_API) return null
+
+  const from = revisions.find((r) => r.id === fromId) ?? null
+  const to = revisions.find((r) => r.id === toId) ?? null
+  const changedFields = from && to ? diffRevisionFields(from.fields, to.fields) : []
+  const currentId = revisions[0]?.id
+
+  const handleRevert = async () => {
+    if (!from) return
+    setIsReverting(true)
+    try {
+      await onRevert(from)
+    } finally {
+      setIsReverting(false)
+    }
+  }
+
+  const renderRevisionSelect = (value: string | null, onChange: (id: string) => void) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.id} value={revision.id}>
+            {formatRevisionLabel(revision, revision.id === currentId)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revisions</CardTitle>
+        <CardDescription>
+          Snapshots of the names, descriptions, brand, prices, final images and category after each change
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && revisions.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading revisions...
+          </div>
+        ) : revisions.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            {revisions.length === 0 ? "No revisions recorded" : "Only one revision recorded; nothing to compare yet"}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                {renderRevisionSelect(fromId, setFromId)}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRevert}
+                  disabled={!from || from.id === currentId || isReverting}
+                >
+                  {isReverting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Revert to {from ? `#${from.revision}` : "Revision"}
+                </Button>
+              </div>
+              <div>{renderRevisionSelect(toId, setToId)}</div>
+            </div>
+
+            {!from || !to ? null : changedFields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No differences between these revisions</p>
+            ) : (
+              <div className="divide-y rounded-md border text-sm">
+                {changedFields.map((field) => (
+                  <div key={field} className="px-3 py-2">
+                    <p className="mb-1 text-xs font-medium text-muted-foreground">{REVISION_FIELD_LABELS[field]}</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="rounded bg-red-50 px-2 py-1">
+                        <RevisionValue value={from.fields[field]} />
+                      </div>
+                      <div className="rounded bg-green-50 px-2 py-1">
+                        <RevisionValue value={to.fields[field]} />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useProductStore } from "@/lib/store"
+import { RepriceResult } from "@/lib/pricing"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2 } from "lucide-react"
+
+interface RepriceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  productIds: string[]
+  onApplied?: (result: RepriceResult) => void
+}
+
+/**
+ * Bulk reprice: previews old → new priceMnt for the selection, then applies it.
+ */
+export function RepriceDialog({ open, onOpenChange, productIds, onApplied }: RepriceDialogProps) {
+  const { toast } = useToast()
+  const repriceProducts = useProductStore((state) => state.repriceProducts)
+  const [preview, setPreview] = useState<RepriceResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  // Recompute the preview every time the dialog opens
+  useEffect(() => {
+    if (!open || productIds.length === 0) return
+
+    let cancelled = false
+    setPreview(null)
+    setIsLoading(true)
+
+    repriceProducts(productIds, false)
+      .then((result) => {
+        if (!cancelled) setPreview(result)
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to preview prices",
+            variant: "destructive",
+          })
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, productIds, repriceProducts, toast])
+
+  const handleApply = async () => {
+    setIsApplying(true)
+    try {
+      const result = await repriceProducts(productIds, true)
+      toast({
+        title: "Prices Updated",
+        description: `${result.changed} of ${result.items.length} products repriced`,
+      })
+      onApplied?.(result)
+      onOpenChange(false)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply prices",
+        variant: "destructive",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Reprice {productIds.length} product{productIds.length > 1 ? "s" : ""}</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `Exchange rate ${preview.exchangeRate.rate} MNT/KRW (effective ${new Date(preview.exchangeRate.effectiveFrom).toLocaleDateString()}). ${preview.changed} price${preview.changed === 1 ? "" : "s"} will change.`
+              : "Computing suggested prices..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : preview && (
+          <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Diff</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="max-w-[240px] truncate">{item.title || item.id}</TableCell>
+                    <TableCell className="text-muted-foreground">{item.ruleId ?? "—"}</TableCell>
+                    <TableCell className="text-right">{item.currentPriceMnt.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {item.suggestedPriceMnt === null ? (
+                        <span className="text-muted-foreground">No KRW price</span>
+                      ) : (
+                        item.suggestedPriceMnt.toLocaleString()
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right ${
+                        item.diffMnt > 0 ? "text-red-600" : item.diffMnt < 0 ? "text-green-600" : "text-muted-foreground"
+                      }`}
+                    >
+                      {item.diffMnt > 0 ? "+" : ""}{item.diffMnt.toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isLoading || isApplying || !preview || preview.changed === 0}>
+            {isApplying ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              "Apply New Prices"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
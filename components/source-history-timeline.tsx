@@ -0,0 +1,143 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { apiClient } from "@/lib/api-client"
+import { SourceCheckRecord } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Loader2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+interface SourceHistoryTimelineProps {
+  productId: string
+  baselinePriceKrw?: number
+  days?: number
+}
+
+/**
+ * Price/stock timeline built from the persisted source checks of a product.
+ * Only available in API mode (localStorage mode has no check history).
+ */
+export function SourceHistoryTimeline({ productId, baselinePriceKrw, days = 30 }: SourceHistoryTimelineProps) {
+  const [checks, setChecks] = useState<SourceCheckRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!USE_API) return
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    apiClient
+      .getSourceHistory(productId, days)
+      .then((result) => {
+        if (!cancelled) setChecks(result)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || "Failed to load source history")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [productId, days])
+
+  if (!USE_API) return null
+
+  // Oldest first for the chart, newest first for the list
+  const priced = checks.filter((c) => c.priceKrw !== null).slice().reverse()
+  const prices = priced.map((c) => c.priceKrw as number)
+  const minPrice = Math.min(...prices, baselinePriceKrw ?? Infinity)
+  const maxPrice = Math.max(...prices, baselinePriceKrw ?? -Infinity)
+  const range = maxPrice - minPrice || 1
+
+  const chartWidth = 600
+  const chartHeight = 80
+  const toX = (i: number) => (priced.length > 1 ? (i / (priced.length - 1)) * chartWidth : chartWidth / 2)
+  const toY = (price: number) => chartHeight - ((price - minPrice) / range) * (chartHeight - 8) - 4
+  const points = priced.map((c, i) => `${toX(i)},${toY(c.priceKrw as number)}`).join(" ")
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Source History</CardTitle>
+        <CardDescription>Price and stock from source checks in the last {days} days</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : checks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No source checks recorded yet</p>
+        ) : (
+          <>
+            {priced.length > 0 && (
+              <svg
+                viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+                className="w-full h-20"
+                preserveAspectRatio="none"
+              >
+                {baselinePriceKrw !== undefined && (
+                  <line
+                    x1={0}
+                    x2={chartWidth}
+                    y1={toY(baselinePriceKrw)}
+                    y2={toY(baselinePriceKrw)}
+                    className="stroke-muted-foreground"
+                    strokeDasharray="4 4"
+                    strokeWidth={1}
+                  />
+                )}
+                <polyline points={points} fill="none" className="stroke-primary" strokeWidth={2} />
+                {priced.map((c, i) => (
+                  <circle
+                    key={c.id}
+                    cx={toX(i)}
+                    cy={toY(c.priceKrw as number)}
+                    r={3}
+                    className={c.outOfStock ? "fill-destructive" : "fill-primary"}
+                  />
+                ))}
+              </svg>
+            )}
+            <div className="max-h-[240px] overflow-y-auto divide-y rounded-md border">
+              {checks.map((check) => (
+                <div key={check.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="text-muted-foreground">
+                    {new Date(check.checkedAt).toLocaleString()}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {check.priceKrw !== null && (
+                      <span className={check.priceChanged ? "font-medium text-orange-700" : ""}>
+                        {check.priceKrw.toLocaleString()} KRW
+                      </span>
+                    )}
+                    {check.error ? (
+                      <Badge variant="outline" className="text-xs" title={check.error}>
+                        Failed{check.httpStatus ? ` (${check.httpStatus})` : ""}
+                      </Badge>
+                    ) : check.outOfStock ? (
+                      <Badge variant="destructive" className="text-xs">Out of Stock</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">In Stock</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,147 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { apiClient } from "@/lib/api-client"
+import { useProductStore } from "@/lib/store"
+import { Product, SourcePolicyAuditRecord } from "@/types/product"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { CheckCheck, Loader2 } from "lucide-react"
+
+const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
+
+const ACTION_LABELS: Record<SourcePolicyAuditRecord["action"], string> = {
+  reprice: "Repriced",
+  hide: "Hidden",
+  unhide: "Unhidden",
+  queueReview: "Queued for review",
+  acceptBaseline: "Baseline accepted",
+}
+
+interface SourcePolicyPanelProps {
+  product: Product
+}
+
+/**
+ * Review state, "accept new baseline" action and the audit trail of automatic
+ * changes made by the source policy. The audit trail is only kept in API mode.
+ */
+export function SourcePolicyPanel({ product }: SourcePolicyPanelProps) {
+  const { toast } = useToast()
+  const acceptSourceBaseline = useProductStore((state) => state.acceptSourceBaseline)
+  const [audits, setAudits] = useState<SourcePolicyAuditRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isAccepting, setIsAccepting] = useState(false)
+
+  // Reload when the baseline changes (e.g. after accepting it)
+  useEffect(() => {
+    if (!USE_API) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    apiClient
+      .getPolicyAudit(product.id)
+      .then((result) => {
+        if (!cancelled) setAudits(result)
+      })
+      .catch((err) => console.error("Failed to load policy audit:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [product.id, product.sourceBaselinePriceKrw])
+
+  const handleAcceptBaseline = async () => {
+    setIsAccepting(true)
+    try {
+      await acceptSourceBaseline(product.id)
+      toast({
+        title: "Baseline Updated",
+        description: `New source baseline: ${product.sourceLastCheckedPriceKrw?.toLocaleString()} KRW`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept new baseline",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAccepting(false)
+    }
+  }
+
+  const canAccept = !!product.sourcePriceChanged && !!product.sourceLastCheckedPriceKrw
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Source Policy</CardTitle>
+            <CardDescription>
+              Baseline {product.sourceBaselinePriceKrw?.toLocaleString() ?? "—"} KRW
+              {product.sourceLastCheckedPriceKrw !== undefined &&
+                ` • last checked ${product.sourceLastCheckedPriceKrw.toLocaleString()} KRW`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {product.sourceReviewStatus === "pending" && (
+              <Badge variant="outline" className="border-blue-500 text-blue-700">Needs Review</Badge>
+            )}
+            {canAccept && (
+              <Button variant="outline" size="sm" onClick={handleAcceptBaseline} disabled={isAccepting}>
+                {isAccepting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCheck className="mr-2 h-4 w-4" />
+                )}
+                Accept New Baseline
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      {USE_API && (
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading audit trail...
+            </div>
+          ) : audits.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No automatic changes recorded</p>
+          ) : (
+            <div className="max-h-[240px] overflow-y-auto divide-y rounded-md border">
+              {audits.map((audit) => (
+                <div key={audit.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={audit.actor === "user" ? "secondary" : "outline"} className="text-xs">
+                        {ACTION_LABELS[audit.action] ?? audit.action}
+                      </Badge>
+                      {audit.action === "reprice" && (
+                        <span>
+                          {audit.before.priceMnt?.toLocaleString() ?? "—"} → {audit.after.priceMnt?.toLocaleString()} MNT
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{audit.reason}</p>
+                  </div>
+                  <span className="shrink-0 text-muted-foreground">
+                    {new Date(audit.createdAt).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
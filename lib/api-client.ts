@@ -1,29 +1,163 @@
-import { Product, ProductStatus, DraftChanges } from '@/types/product'
+import {
+  Product,
+  ProductStatus,
+  DraftChanges,
+  ProductListQuery,
+  ProductPage,
+  ProductStats,
+  ProductSearchFilters,
+  ProductSearchResponse,
+  SourceCheckRecord,
+  SourcePolicyAuditRecord,
+  ProductTranslateResult,
+  TranslatableField,
+  GlossaryTerm,
+  GlossaryTermMode,
+  GlossaryCheckResult,
+  ImageDuplicateWarning,
+  SharedImageReportItem,
+  ProductImageIngestResult,
+  ProductImageVariantsResult,
+  ApiQuotaStatus,
+  ProductAttributeExtractResult,
+  ProductAttributeApplyResult,
+  Store,
+  TaxonomyCategory,
+  CategoryMappingRule,
+  SourceCategorySummary,
+  CategoryMappingApplyResult,
+  Brand,
+  BrandAliasLang,
+  ProductBrandSummary,
+  BrandNormalizeResult,
+  TrashSummary,
+  TrashPurgeResult,
+  AuditEvent,
+  ProductRevision,
+} from '@/types/product'
 import { normalizeProduct } from './normalizeProduct'
+import { PricingConfig, RepriceResult } from './pricing'
 
 const API_BASE = '/api'
 
+/**
+ * Error for non-2xx API responses. Keeps the parsed JSON body so callers can
+ * show structured details (e.g. failed validation rules on a 409).
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly body: any
+
+  constructor(message: string, status: number, body: any) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+async function toApiError(res: Response, fallback: string): Promise<ApiError> {
+  const body = await res.json().catch(() => null)
+
+  // Lifecycle rejections list the failed rules per product
+  if (Array.isArray(body?.failures) && body.failures.length > 0) {
+    const messages = body.failures.flatMap((f: any) =>
+      (f.failedRules || []).map((r: any) => r.message)
+    )
+    return new ApiError(`${body.error}: ${messages.join(', ')}`, res.status, body)
+  }
+
+  // Settings/glossary validation lists its problems in details
+  if (body?.error && Array.isArray(body?.details) && body.details.length > 0) {
+    return new ApiError(`${body.error}: ${body.details.join(', ')}`, res.status, body)
+  }
+
+  // External API quota used up (429) reports when it resets
+  if (res.status === 429 && body?.error && body?.resetAt) {
+    return new ApiError(`${body.error}. Try again after ${new Date(body.resetAt).toLocaleString()}.`, res.status, body)
+  }
+
+  return new ApiError(body?.error || `${fallback}: ${res.statusText}`, res.status, body)
+}
+
 export class ApiClient {
-  async getProducts(filters?: {
-    lifecycleStatus?: ProductStatus
-    store?: string
-    visibility?: string
-  }): Promise<Product[]> {
+  async getProducts(query: ProductListQuery = {}): Promise<ProductPage> {
     const params = new URLSearchParams()
-    if (filters?.lifecycleStatus) params.append('lifecycleStatus', filters.lifecycleStatus)
-    if (filters?.store) params.append('store', filters.store)
-    if (filters?.visibility) params.append('visibility', filters.visibility)
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, String(value))
+      }
+    }
 
     const url = `${API_BASE}/products${params.toString() ? `?${params.toString()}` : ''}`
     const res = await fetch(url)
     
     if (!res.ok) {
-      throw new Error(`Failed to fetch products: ${res.statusText}`)
+      throw await toApiError(res, 'Failed to fetch products')
     }
     
-    const products = await res.json()
+    const page = await res.json()
     // Normalize all products to ensure UI compatibility
-    return Array.isArray(products) ? products.map(normalizeProduct) : []
+    return {
+      items: Array.isArray(page?.items) ? page.items.map(normalizeProduct) : [],
+      nextCursor: page?.nextCursor ?? null,
+      total: page?.total ?? 0,
+    }
+  }
+
+  // Follow nextCursor until every matching product is loaded
+  async getAllProducts(
+    query: Omit<ProductListQuery, 'cursor' | 'limit'> = {}
+  ): Promise<Product[]> {
+    const products: Product[] = []
+    let cursor: string | undefined
+
+    do {
+      const page = await this.getProducts({ ...query, limit: 200, cursor })
+      products.push(...page.items)
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+
+    return products
+  }
+
+  // Dashboard counts and filter options without loading the products
+  async getProductStats(): Promise<ProductStats> {
+    const res = await fetch(`${API_BASE}/products/stats`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load product stats')
+    }
+
+    return res.json()
+  }
+
+  // Full-text search (partial Korean/Mongolian fragments), ranked by relevance
+  async searchProductsText(
+    q: string,
+    filters: ProductSearchFilters & { limit?: number } = {}
+  ): Promise<ProductSearchResponse> {
+    const params = new URLSearchParams({ q })
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, String(value))
+      }
+    }
+
+    const res = await fetch(`${API_BASE}/products/search?${params.toString()}`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to search products')
+    }
+
+    const data = await res.json()
+    return {
+      query: data?.query ?? q,
+      total: data?.total ?? 0,
+      results: Array.isArray(data?.results)
+        ? data.results.map((r: any) => ({ ...r, product: normalizeProduct(r.product) }))
+        : [],
+    }
   }
 
   async getProduct(id: string): Promise<Product> {
@@ -51,7 +185,7 @@ export class ApiClient {
     })
     
     if (!res.ok) {
-      throw new Error(`Failed to update product: ${res.statusText}`)
+      throw await toApiError(res, 'Failed to update product')
     }
     
     const product = await res.json()
@@ -77,7 +211,7 @@ export class ApiClient {
     })
     
     if (!res.ok) {
-      throw new Error(`Failed to update bulk status: ${res.statusText}`)
+      throw await toApiError(res, 'Failed to update bulk status')
     }
     
     const products = await res.json()
@@ -85,6 +219,85 @@ export class ApiClient {
     return Array.isArray(products) ? products.map(normalizeProduct) : []
   }
 
+  async retireProducts(ids: string[], retiredReason: string): Promise<Product[]> {
+    const res = await fetch(`${API_BASE}/products/bulk-status`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ids, lifecycleStatus: 'RETIRED', retiredReason }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to retire products')
+    }
+
+    const products = await res.json()
+    return Array.isArray(products) ? products.map(normalizeProduct) : []
+  }
+
+  // Move products to the trash (listed with getProducts({ deleted: true }))
+  async deleteProducts(ids: string[]): Promise<Product[]> {
+    const res = await fetch(`${API_BASE}/products/bulk-delete`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ids }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to delete products')
+    }
+
+    const products = await res.json()
+    return Array.isArray(products) ? products.map(normalizeProduct) : []
+  }
+
+  async restoreProducts(ids: string[]): Promise<Product[]> {
+    const res = await fetch(`${API_BASE}/products/bulk-restore`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ids }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to restore products')
+    }
+
+    const products = await res.json()
+    return Array.isArray(products) ? products.map(normalizeProduct) : []
+  }
+
+  async getTrashSummary(): Promise<TrashSummary> {
+    const res = await fetch(`${API_BASE}/products/trash`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load trash')
+    }
+
+    return res.json()
+  }
+
+  // Without ids, purges products past the retention period
+  async purgeTrash(ids?: string[]): Promise<TrashPurgeResult> {
+    const res = await fetch(`${API_BASE}/products/trash/purge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(ids ? { ids } : {}),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to purge trash')
+    }
+
+    return res.json()
+  }
+
   async searchProducts(
     store: string,
     category: string,
@@ -107,7 +320,7 @@ export class ApiClient {
     
     // Return all products (client will filter by store/category)
     // Or return the created product IDs and fetch them
-    const products = await this.getProducts({
+    const products = await this.getAllProducts({
       store,
     })
     
@@ -125,9 +338,558 @@ export class ApiClient {
     return normalizeProduct(updated)
   }
 
-  async runSourceCheck(): Promise<{ checked: number; priceChanged: number; outOfStock: number }> {
-    // Not yet implemented in API
-    throw new Error('Source check not yet implemented via API')
+  async runSourceCheck(ids?: string[]): Promise<{
+    checked: number
+    priceChanged: number
+    outOfStock: number
+    failed: number
+    repriced: number
+    hidden: number
+    queuedForReview: number
+  }> {
+    const res = await fetch(`${API_BASE}/source-check`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(ids ? { ids } : {}),
+    })
+
+    if (!res.ok) {
+      throw new Error(`Failed to run source check: ${res.statusText}`)
+    }
+
+    return res.json()
+  }
+
+  async getSourceHistory(id: string, days = 30): Promise<SourceCheckRecord[]> {
+    const res = await fetch(`${API_BASE}/products/${id}/source-history?days=${days}`)
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch source history: ${res.statusText}`)
+    }
+
+    const checks = await res.json()
+    return Array.isArray(checks) ? checks : []
+  }
+
+  async getPricingConfig(): Promise<PricingConfig> {
+    const res = await fetch(`${API_BASE}/pricing`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load pricing config')
+    }
+
+    return res.json()
+  }
+
+  // apply=false returns the diff only; apply=true persists the new prices
+  async repriceProducts(ids: string[], apply = false): Promise<RepriceResult> {
+    const res = await fetch(`${API_BASE}/pricing/reprice`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ids, apply }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to reprice products')
+    }
+
+    return res.json()
+  }
+
+  async acceptSourceBaseline(id: string): Promise<Product> {
+    const res = await fetch(`${API_BASE}/products/${id}/accept-baseline`, {
+      method: 'POST',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to accept source baseline')
+    }
+
+    const product = await res.json()
+    return normalizeProduct(product)
+  }
+
+  async getPolicyAudit(id: string): Promise<SourcePolicyAuditRecord[]> {
+    const res = await fetch(`${API_BASE}/products/${id}/policy-audit`)
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch policy audit: ${res.statusText}`)
+    }
+
+    const audits = await res.json()
+    return Array.isArray(audits) ? audits : []
+  }
+
+  async getProductHistory(id: string): Promise<AuditEvent[]> {
+    const res = await fetch(`${API_BASE}/products/${id}/history`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to fetch product history')
+    }
+
+    const events = await res.json()
+    return Array.isArray(events) ? events : []
+  }
+
+  async getProductRevisions(id: string): Promise<ProductRevision[]> {
+    const res = await fetch(`${API_BASE}/products/${id}/revisions`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to fetch product revisions')
+    }
+
+    const revisions = await res.json()
+    return Array.isArray(revisions) ? revisions : []
+  }
+
+  async revertProduct(id: string, revisionId: string): Promise<Product> {
+    const res = await fetch(`${API_BASE}/products/${id}/revert`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ revisionId }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to revert product')
+    }
+
+    const product = await res.json()
+    return normalizeProduct(product)
+  }
+
+  async translateProduct(
+    id: string,
+    options: { fields?: TranslatableField[]; overwrite?: boolean } = {}
+  ): Promise<ProductTranslateResult> {
+    const res = await fetch(`${API_BASE}/products/${id}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to translate product')
+    }
+
+    const result = await res.json()
+    return { ...result, product: normalizeProduct(result.product) }
+  }
+
+  async translateProducts(
+    ids: string[],
+    options: { fields?: TranslatableField[]; overwrite?: boolean } = {}
+  ): Promise<{
+    results: ProductTranslateResult[]
+    errors: { id: string; code: string; error: string }[]
+  }> {
+    const results: ProductTranslateResult[] = []
+    const errors: { id: string; code: string; error: string }[] = []
+
+    // The endpoint accepts at most 50 ids per request
+    for (let i = 0; i < ids.length; i += 50) {
+      const res = await fetch(`${API_BASE}/products/bulk-translate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: ids.slice(i, i + 50), ...options }),
+      })
+
+      if (!res.ok) {
+        throw await toApiError(res, 'Failed to translate products')
+      }
+
+      const data = await res.json()
+      if (Array.isArray(data?.results)) {
+        results.push(...data.results.map((r: any) => ({ ...r, product: normalizeProduct(r.product) })))
+      }
+      if (Array.isArray(data?.errors)) {
+        errors.push(...data.errors)
+      }
+    }
+
+    return { results, errors }
+  }
+
+  async extractProductAttributes(id: string, useLlm = false): Promise<ProductAttributeExtractResult> {
+    const res = await fetch(`${API_BASE}/products/${id}/attributes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ useLlm }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to extract product attributes')
+    }
+
+    const result = await res.json()
+    return { ...result, product: normalizeProduct(result.product) }
+  }
+
+  async applyProductAttributes(id: string, accept: string[]): Promise<ProductAttributeApplyResult> {
+    const res = await fetch(`${API_BASE}/products/${id}/attributes/apply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accept }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to apply product attributes')
+    }
+
+    const result = await res.json()
+    return { ...result, product: normalizeProduct(result.product) }
+  }
+
+  async extractAttributesForProducts(
+    ids: string[],
+    useLlm = false
+  ): Promise<{
+    results: ProductAttributeExtractResult[]
+    errors: { id: string; code: string; error: string }[]
+  }> {
+    const results: ProductAttributeExtractResult[] = []
+    const errors: { id: string; code: string; error: string }[] = []
+
+    // The endpoint accepts at most 50 ids per request
+    for (let i = 0; i < ids.length; i += 50) {
+      const res = await fetch(`${API_BASE}/products/bulk-extract-attributes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: ids.slice(i, i + 50), useLlm }),
+      })
+
+      if (!res.ok) {
+        throw await toApiError(res, 'Failed to extract attributes')
+      }
+
+      const data = await res.json()
+      if (Array.isArray(data?.results)) {
+        results.push(...data.results.map((r: any) => ({ ...r, product: normalizeProduct(r.product) })))
+      }
+      if (Array.isArray(data?.errors)) {
+        errors.push(...data.errors)
+      }
+    }
+
+    return { results, errors }
+  }
+
+  async listGlossaryTerms(): Promise<GlossaryTerm[]> {
+    const res = await fetch(`${API_BASE}/glossary`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load glossary')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.terms) ? data.terms : []
+  }
+
+  async saveGlossaryTerm(
+    term: { source: string; mode: GlossaryTermMode; target?: string; english?: string; note?: string },
+    id?: string
+  ): Promise<GlossaryTerm> {
+    const res = await fetch(id ? `${API_BASE}/glossary/${id}` : `${API_BASE}/glossary`, {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(term),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to save glossary term')
+    }
+
+    return res.json()
+  }
+
+  async deleteGlossaryTerm(id: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/glossary/${id}`, {
+      method: 'DELETE',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to delete glossary term')
+    }
+  }
+
+  async checkGlossary(): Promise<GlossaryCheckResult[]> {
+    const res = await fetch(`${API_BASE}/glossary/check`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to check glossary')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.results) ? data.results : []
+  }
+
+  async listTaxonomyCategories(): Promise<TaxonomyCategory[]> {
+    const res = await fetch(`${API_BASE}/taxonomy/categories`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load categories')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.categories) ? data.categories : []
+  }
+
+  async saveTaxonomyCategory(
+    category: { slug: string; name: string; nameMn?: string; parentSlug?: string | null; sort?: number },
+    id?: string
+  ): Promise<TaxonomyCategory> {
+    const res = await fetch(id ? `${API_BASE}/taxonomy/categories/${id}` : `${API_BASE}/taxonomy/categories`, {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(category),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to save category')
+    }
+
+    return res.json()
+  }
+
+  async deleteTaxonomyCategory(id: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/taxonomy/categories/${id}`, {
+      method: 'DELETE',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to delete category')
+    }
+  }
+
+  async listCategoryMappings(): Promise<CategoryMappingRule[]> {
+    const res = await fetch(`${API_BASE}/taxonomy/mappings`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load mapping rules')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.mappings) ? data.mappings : []
+  }
+
+  async saveCategoryMapping(
+    rule: {
+      store: Store
+      sourceKey: string
+      sourceSubKey?: string | null
+      category: string
+      subCategory?: string | null
+      note?: string
+    },
+    id?: string
+  ): Promise<CategoryMappingRule> {
+    const res = await fetch(id ? `${API_BASE}/taxonomy/mappings/${id}` : `${API_BASE}/taxonomy/mappings`, {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(rule),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to save mapping rule')
+    }
+
+    return res.json()
+  }
+
+  async deleteCategoryMapping(id: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/taxonomy/mappings/${id}`, {
+      method: 'DELETE',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to delete mapping rule')
+    }
+  }
+
+  async listSourceCategories(): Promise<SourceCategorySummary[]> {
+    const res = await fetch(`${API_BASE}/taxonomy/sources`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load source categories')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.sources) ? data.sources : []
+  }
+
+  async applyCategoryMappings(store?: Store): Promise<CategoryMappingApplyResult> {
+    const res = await fetch(`${API_BASE}/taxonomy/apply`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ store }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to apply mapping rules')
+    }
+
+    return res.json()
+  }
+
+  async assignProductCategory(id: string, category: string, subCategory: string | null): Promise<Product> {
+    const res = await fetch(`${API_BASE}/products/${id}/category`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ category, subCategory }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to assign category')
+    }
+
+    const product = await res.json()
+    return normalizeProduct(product)
+  }
+
+  async listBrands(): Promise<Brand[]> {
+    const res = await fetch(`${API_BASE}/brands`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load brands')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.brands) ? data.brands : []
+  }
+
+  async saveBrand(
+    brand: { name: string; aliases: Record<BrandAliasLang, string[]>; logoUrl?: string; domains: string[] },
+    id?: string
+  ): Promise<Brand> {
+    const res = await fetch(id ? `${API_BASE}/brands/${id}` : `${API_BASE}/brands`, {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(brand),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to save brand')
+    }
+
+    return res.json()
+  }
+
+  async deleteBrand(id: string): Promise<void> {
+    const res = await fetch(`${API_BASE}/brands/${id}`, {
+      method: 'DELETE',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to delete brand')
+    }
+  }
+
+  async listProductBrands(): Promise<ProductBrandSummary[]> {
+    const res = await fetch(`${API_BASE}/brands/products`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load product brands')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.brands) ? data.brands : []
+  }
+
+  async normalizeProductBrands(): Promise<BrandNormalizeResult> {
+    const res = await fetch(`${API_BASE}/brands/normalize`, {
+      method: 'POST',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to normalize product brands')
+    }
+
+    return res.json()
+  }
+
+  async ingestProductImages(id: string): Promise<ProductImageIngestResult> {
+    const res = await fetch(`${API_BASE}/products/${id}/images/ingest`, {
+      method: 'POST',
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to ingest product images')
+    }
+
+    return res.json()
+  }
+
+  async generateImageVariants(id: string, force = false): Promise<ProductImageVariantsResult> {
+    const res = await fetch(`${API_BASE}/products/${id}/images/variants`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ force }),
+    })
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to generate image variants')
+    }
+
+    const data = await res.json()
+    return { ...data, product: normalizeProduct(data.product) }
+  }
+
+  async getImageDuplicateWarnings(id: string): Promise<ImageDuplicateWarning[]> {
+    const res = await fetch(`${API_BASE}/products/${id}/images/duplicates`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to check image duplicates')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.warnings) ? data.warnings : []
+  }
+
+  async getSharedImages(params: { minProducts?: number; limit?: number } = {}): Promise<SharedImageReportItem[]> {
+    const query = new URLSearchParams()
+    if (params.minProducts) query.set('minProducts', String(params.minProducts))
+    if (params.limit) query.set('limit', String(params.limit))
+
+    const res = await fetch(`${API_BASE}/images/shared?${query.toString()}`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load shared images')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.items) ? data.items : []
+  }
+
+  async getApiQuotaStatus(): Promise<ApiQuotaStatus[]> {
+    const res = await fetch(`${API_BASE}/admin/quota`)
+
+    if (!res.ok) {
+      throw await toApiError(res, 'Failed to load API quota')
+    }
+
+    const data = await res.json()
+    return Array.isArray(data?.providers) ? data.providers : []
   }
 
   async seedDatabase(): Promise<{ insertedCount: number }> {
@@ -0,0 +1,269 @@
+/**
+ * Product attribute extraction from source titles
+ *
+ * Korean store titles carry the information we otherwise re-enter by hand:
+ * "아누아 어성초 토너 250ml 2개 세트", "라벨테이프 4mm~36mm", "갤럭시핏3 실버".
+ * Deterministic rules turn them into proposals for `sizes`, `colors` and
+ * `custom_specifications`; nothing is written until a proposal is accepted.
+ *
+ * Pure functions shared by the editor (localStorage mode) and the server,
+ * which can add Gemini proposals on top (see lib/server/attributes.ts).
+ */
+
+import { ExtractedAttribute, Product, ProductAttributeKind, ProductAttributeTarget } from '../../types/product'
+
+export const ATTRIBUTE_KINDS: readonly ProductAttributeKind[] = [
+  'volume', 'weight', 'length', 'dimensions', 'capacity', 'count', 'pack', 'size', 'color',
+]
+
+// Where an accepted attribute goes: selectable variants, colors, or a named specification
+export const ATTRIBUTE_TARGETS: Record<ProductAttributeKind, ProductAttributeTarget> = {
+  volume: 'sizes',
+  weight: 'sizes',
+  length: 'sizes',
+  size: 'sizes',
+  color: 'colors',
+  dimensions: 'custom_specifications',
+  capacity: 'custom_specifications',
+  count: 'custom_specifications',
+  pack: 'custom_specifications',
+}
+
+export const ATTRIBUTE_LABELS: Record<ProductAttributeKind, string> = {
+  volume: 'Volume',
+  weight: 'Weight',
+  length: 'Length',
+  dimensions: 'Dimensions',
+  capacity: 'Capacity',
+  count: 'Count',
+  pack: 'Pack',
+  size: 'Size',
+  color: 'Color',
+}
+
+// Numbers: 250, 1.5, 1,000
+const NUM = '(\\d+(?:[.,]\\d+)*)'
+// Start of a token: not glued to a preceding letter or digit (RTX5070, B760M)
+const START = '(^|[^A-Za-z0-9.])'
+
+const UNIT_KINDS: Record<string, ProductAttributeKind> = {
+  ml: 'volume', l: 'volume',
+  mg: 'weight', g: 'weight', kg: 'weight',
+  mm: 'length', cm: 'length', m: 'length',
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+  ml: 'ml', ML: 'ml', mL: 'ml', Ml: 'ml', L: 'l', 리터: 'l',
+  mg: 'mg', g: 'g', 그램: 'g', kg: 'kg', KG: 'kg', Kg: 'kg', 킬로: 'kg',
+  mm: 'mm', 미리: 'mm', cm: 'cm', 센치: 'cm', m: 'm',
+}
+const MEASURE_UNITS = 'ml|ML|mL|Ml|L|리터|mg|kg|KG|Kg|킬로|g|그램|mm|미리|cm|센치|m'
+
+const COUNT_UNITS: Record<string, string> = {
+  개입: 'pcs', 개: 'pcs', 입: 'pcs', 구: 'pcs', 정: 'pcs', 캡슐: 'pcs', 포: 'pcs',
+  매: 'sheets', 장: 'sheets',
+  롤: 'rolls',
+}
+
+const COLORS: Record<string, string> = {
+  블랙: 'Black', 검정: 'Black', 화이트: 'White', 흰색: 'White', 실버: 'Silver', 그레이: 'Gray',
+  회색: 'Gray', 골드: 'Gold', 로즈골드: 'Rose Gold', 블루: 'Blue', 네이비: 'Navy', 레드: 'Red',
+  빨강: 'Red', 핑크: 'Pink', 그린: 'Green', 민트: 'Mint', 베이지: 'Beige', 브라운: 'Brown',
+  퍼플: 'Purple', 바이올렛: 'Violet', 라벤더: 'Lavender', 옐로우: 'Yellow', 노랑: 'Yellow',
+  오렌지: 'Orange', 아이보리: 'Ivory', 크림: 'Cream', 카키: 'Khaki', 차콜: 'Charcoal',
+  black: 'Black', white: 'White', silver: 'Silver', gray: 'Gray', grey: 'Gray', gold: 'Gold',
+  blue: 'Blue', navy: 'Navy', red: 'Red', pink: 'Pink', green: 'Green', mint: 'Mint',
+  beige: 'Beige', brown: 'Brown', purple: 'Purple', yellow: 'Yellow', orange: 'Orange', ivory: 'Ivory',
+}
+
+const CLOTHING_SIZE = '(?:XS|S|M|L|XL|XXL|2XL|3XL|4XL|FREE)'
+
+function parseNumber(value: string): string {
+  // "1,000" → "1000", "1,5" → "1.5"
+  return /^\d{1,3}(,\d{3})+$/.test(value) ? value.replace(/,/g, '') : value.replace(',', '.')
+}
+
+function normalizeUnit(unit: string): string {
+  return UNIT_ALIASES[unit] ?? unit.toLowerCase()
+}
+
+function formatMeasure(value: string, unit: string): string {
+  return `${parseNumber(value)}${unit === 'l' ? 'L' : unit}`
+}
+
+export function buildAttribute(
+  kind: ProductAttributeKind,
+  value: string,
+  match: string,
+  source: ExtractedAttribute['source'] = 'rule',
+  label = ATTRIBUTE_LABELS[kind]
+): ExtractedAttribute {
+  return {
+    key: `${kind}:${value.toLowerCase()}`,
+    kind,
+    target: ATTRIBUTE_TARGETS[kind],
+    label,
+    value,
+    match: match.trim(),
+    source,
+  }
+}
+
+interface Rule {
+  pattern: RegExp
+  // Attributes for one match; the match is blanked out so later rules skip it
+  build(match: RegExpExecArray): ExtractedAttribute[]
+}
+
+const RULES: Rule[] = [
+  // Ranges: 4mm~36mm, 100-200ml
+  {
+    pattern: new RegExp(`${START}${NUM}\\s*(${MEASURE_UNITS})?\\s*[~～\\-–]\\s*${NUM}\\s*(${MEASURE_UNITS})(?![A-Za-z])`, 'g'),
+    build: (m) => {
+      const unit = normalizeUnit(m[5])
+      const kind = UNIT_KINDS[unit]
+      return [buildAttribute(kind, `${parseNumber(m[2])}~${formatMeasure(m[4], unit)}`, m[0], 'rule', `${ATTRIBUTE_LABELS[kind]} range`)]
+    },
+  },
+  // Dimensions: 30x40cm, 20*30*10 mm
+  {
+    pattern: new RegExp(`${START}${NUM}\\s*[x×X*]\\s*${NUM}(?:\\s*[x×X*]\\s*${NUM})?\\s*(mm|cm|m)(?![A-Za-z])`, 'g'),
+    build: (m) => {
+      const sides = [m[2], m[3], m[4]].filter(Boolean).map(parseNumber)
+      return [buildAttribute('dimensions', `${sides.join('×')}${m[5]}`, m[0])]
+    },
+  },
+  // Volume, weight, length: 250ml, 1.5L, 1000mg, 500g, 2kg, 10m
+  {
+    pattern: new RegExp(`${START}${NUM}\\s*(${MEASURE_UNITS})(?![A-Za-z])`, 'g'),
+    build: (m) => {
+      const unit = normalizeUnit(m[3])
+      return [buildAttribute(UNIT_KINDS[unit], formatMeasure(m[2], unit), m[0])]
+    },
+  },
+  // Storage capacity: 16GB, 1TB
+  {
+    pattern: new RegExp(`${START}${NUM}\\s*(GB|TB|MB|기가|테라)(?![A-Za-z])`, 'g'),
+    build: (m) => {
+      const unit = m[3] === '기가' ? 'GB' : m[3] === '테라' ? 'TB' : m[3]
+      return [buildAttribute('capacity', `${parseNumber(m[2])}${unit}`, m[0])]
+    },
+  },
+  // Bundles: 1+1, 2+1
+  {
+    pattern: new RegExp(`${START}(\\d)\\s*\\+\\s*(\\d)(?![\\d.])`, 'g'),
+    build: (m) => [buildAttribute('pack', `${m[2]}+${m[3]}`, m[0])],
+  },
+  // Counts: 30개입, 100매, 2개 (but not 3개월), 10롤
+  {
+    pattern: new RegExp(`${START}${NUM}\\s*(개입|개|입|구|정|캡슐|포|매|장|롤)(?=$|[^가-힣]|세트|팩|씩|묶음|박스)`, 'g'),
+    build: (m) => [buildAttribute('count', `${parseNumber(m[2])} ${COUNT_UNITS[m[3]]}`, m[0])],
+  },
+  // Packs: 3세트, 2팩, 2 pack, x2
+  {
+    pattern: new RegExp(`${START}(?:(\\d+)\\s*(세트|set|SET|Set|팩|pack|Pack|PACK|묶음|박스|box|BOX)|[x×X*]\\s*(\\d{1,3}))(?![\\dA-Za-z가-힣.])`, 'g'),
+    build: (m) => {
+      if (m[4]) return [buildAttribute('pack', `${m[4]}-pack`, m[0])]
+      const unit = m[3].toLowerCase()
+      if (unit === '세트' || unit === 'set') return [buildAttribute('pack', `Set of ${m[2]}`, m[0])]
+      if (unit === '박스' || unit === 'box') return [buildAttribute('pack', `${m[2]} boxes`, m[0])]
+      return [buildAttribute('pack', `${m[2]}-pack`, m[0])]
+    },
+  },
+  // Clothing sizes, only as lists (S/M/L) so single letters in model names are left alone
+  {
+    pattern: new RegExp(`(^|[^A-Za-z0-9])(${CLOTHING_SIZE}(?:\\s*/\\s*${CLOTHING_SIZE})+)(?![A-Za-z0-9])`, 'g'),
+    build: (m) => m[2].split('/').map((size) => buildAttribute('size', size.trim(), m[0])),
+  },
+  {
+    pattern: /(^|[^가-힣])(프리사이즈|프리 사이즈)/g,
+    build: (m) => [buildAttribute('size', 'Free size', m[0])],
+  },
+  // Colors as whole words: 실버, 블랙, Silver
+  {
+    pattern: new RegExp(
+      `(^|[^가-힣A-Za-z])(${Object.keys(COLORS).sort((a, b) => b.length - a.length).join('|')})(?![가-힣A-Za-z])`,
+      'gi'
+    ),
+    build: (m) => [buildAttribute('color', COLORS[m[2]] ?? COLORS[m[2].toLowerCase()], m[0])],
+  },
+]
+
+/**
+ * Attribute proposals found in a title by the deterministic rules
+ *
+ * Each piece of text is used by at most one rule (ranges before single
+ * values, so "4mm~36mm" is not also proposed as 36mm). Duplicates are dropped.
+ */
+export function extractAttributesFromText(text: string): ExtractedAttribute[] {
+  let remaining = (text || '').normalize('NFKC')
+  const found = new Map<string, ExtractedAttribute>()
+
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0
+    const matches: RegExpExecArray[] = []
+    let match: RegExpExecArray | null
+    while ((match = rule.pattern.exec(remaining)) !== null) {
+      matches.push(match)
+      if (match[0] === '') rule.pattern.lastIndex++
+    }
+
+    for (const m of matches) {
+      // Group 1 of every rule is the character before the token
+      const start = m.index + m[1].length
+      const end = m.index + m[0].length
+      for (const attribute of rule.build(m)) {
+        if (!found.has(attribute.key)) found.set(attribute.key, { ...attribute, match: remaining.slice(start, end).trim() })
+      }
+      // Blank the token (same length keeps later indexes valid)
+      remaining = remaining.slice(0, start) + ' '.repeat(end - start) + remaining.slice(end)
+    }
+  }
+
+  return Array.from(found.values())
+}
+
+/**
+ * Title the attributes are extracted from: the original Korean title, even
+ * after the title field was translated
+ */
+export function getAttributeSourceText(product: Product): string {
+  return (
+    product.translationMeta?.title?.sourceText ||
+    product.nameOriginal ||
+    product.title ||
+    product.nameMn ||
+    ''
+  )
+}
+
+/**
+ * Product fields with the accepted attributes merged in
+ *
+ * Sizes and colors are appended without duplicates; specifications are set
+ * by label (several values for one label are joined).
+ */
+export function applyAttributesToProduct(
+  product: Pick<Product, 'sizes' | 'colors' | 'custom_specifications'>,
+  attributes: ExtractedAttribute[]
+): Pick<Product, 'sizes' | 'colors' | 'custom_specifications'> {
+  const sizes = [...(product.sizes ?? [])]
+  const colors = [...(product.colors ?? [])]
+  const specifications: Record<string, string> = { ...(product.custom_specifications ?? {}) }
+  const acceptedSpecs = new Map<string, string[]>()
+
+  for (const attribute of attributes) {
+    if (attribute.target === 'sizes') {
+      if (!sizes.some((s) => s.toLowerCase() === attribute.value.toLowerCase())) sizes.push(attribute.value)
+    } else if (attribute.target === 'colors') {
+      if (!colors.some((c) => c.toLowerCase() === attribute.value.toLowerCase())) colors.push(attribute.value)
+    } else {
+      acceptedSpecs.set(attribute.label, [...(acceptedSpecs.get(attribute.label) ?? []), attribute.value])
+    }
+  }
+  acceptedSpecs.forEach((values, label) => {
+    specifications[label] = values.join(', ')
+  })
+
+  return { sizes, colors, custom_specifications: specifications }
+}
@@ -0,0 +1,57 @@
+/**
+ * Brand name matching shared by the editor and the server
+ *
+ * The same brand arrives as "EPSON", "Epson", "엡손", "TONYMOLY" or
+ * "Tony Moly". Names are compared on a key that ignores case, spacing and
+ * punctuation, against the canonical name and every alias of a registry
+ * brand (see lib/server/brands.ts).
+ */
+
+import { Brand, BrandAliasLang } from '../../types/product'
+
+export const BRAND_ALIAS_LANGS: readonly BrandAliasLang[] = ['ko', 'en', 'mn']
+
+/**
+ * Comparison key: "Tony Moly", "TONY-MOLY" and "tonymoly" share one
+ */
+export function normalizeBrandKey(name: string): string {
+  return (name || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\-_.,·'’"&+()/\\]/g, '')
+}
+
+/**
+ * Every key a brand is known by (canonical name and aliases)
+ */
+export function getBrandKeys(brand: Pick<Brand, 'name' | 'aliases'>): string[] {
+  const names = [brand.name, ...BRAND_ALIAS_LANGS.flatMap((lang) => brand.aliases?.[lang] ?? [])]
+  return Array.from(new Set(names.map(normalizeBrandKey).filter(Boolean)))
+}
+
+/**
+ * Registry brand a product brand name refers to
+ */
+export function findBrand<T extends Pick<Brand, 'name' | 'aliases'>>(name: string | undefined, brands: T[]): T | null {
+  const key = normalizeBrandKey(name ?? '')
+  if (!key) return null
+  return brands.find((brand) => getBrandKeys(brand).includes(key)) ?? null
+}
+
+/**
+ * Names a brand is written with in Latin letters (canonical and English aliases)
+ */
+export function getLatinBrandNames(brand: Pick<Brand, 'name' | 'aliases'>): string[] {
+  return [brand.name, ...(brand.aliases?.en ?? [])].filter((name) => /[a-z0-9]/i.test(name))
+}
+
+/**
+ * Whether a text mentions any of the names, ignoring case and spacing
+ */
+export function textMentionsBrand(text: string, names: string[]): boolean {
+  const haystack = normalizeBrandKey(text)
+  return names.some((name) => {
+    const key = normalizeBrandKey(name)
+    return key.length > 0 && haystack.includes(key)
+  })
+}
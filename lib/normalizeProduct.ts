@@ -1,4 +1,5 @@
 import { Product } from '@/types/product'
+import { DEFAULT_EXCHANGE_RATE } from './pricing'
 
 /**
  * Normalizes a product from the database to ensure all required fields exist
@@ -21,7 +22,8 @@ export function normalizeProduct(p: any): Product {
 
   // Calculate priceMnt if missing or zero
   // Derive from KRW prices if priceMnt is 0 or missing
-  const rate = 2.6
+  // (display fallback only - the pricing engine computes suggested prices)
+  const rate = DEFAULT_EXCHANGE_RATE
   let priceMnt = p.priceMnt
   if (typeof priceMnt === 'number' && priceMnt > 0) {
     // Keep existing priceMnt
@@ -0,0 +1,245 @@
+/**
+ * KRW → MNT pricing engine
+ *
+ * Pure functions shared by the editor (suggested price), the API (bulk
+ * reprice) and `normalizeProduct` (fallback rate). The exchange rate and the
+ * settings are stored server-side (see lib/server/pricing.ts); the defaults
+ * below apply until they are configured.
+ *
+ * suggested = round(priceKrw × rate × (1 + percent/100) + fixedFeeMnt + weightKg × perKgMnt)
+ */
+
+import { Product, Store } from '../../types/product'
+
+// Fallback KRW → MNT rate when no exchange rate has been stored yet
+export const DEFAULT_EXCHANGE_RATE = 2.6
+
+export interface ExchangeRate {
+  id?: string
+  rate: number            // MNT per 1 KRW
+  effectiveFrom: string   // ISO date; the latest rate effective at a given time wins
+  note?: string
+  createdAt?: string
+}
+
+/**
+ * Markup applied on top of the converted price
+ *
+ * `store` and `category` narrow where the rule applies; the most specific
+ * matching rule wins (store + category > category > store > catch-all).
+ */
+export interface MarkupRule {
+  id: string
+  store?: Store
+  category?: string
+  percent: number         // Markup on the converted price, e.g. 20 = +20%
+  fixedFeeMnt: number     // Flat fee per item
+  perKgMnt: number        // Shipping surcharge per kg of shipping weight
+}
+
+export type RoundingMode = 'nearest' | 'up' | 'down'
+
+export interface RoundingPolicy {
+  mode: RoundingMode
+  step: number            // e.g. 100 = round to the nearest 100₮
+}
+
+export interface PricingSettings {
+  rules: MarkupRule[]
+  rounding: RoundingPolicy
+  defaultWeightKg: number // Used when a product has no shippingWeightKg
+}
+
+export interface PricingConfig extends PricingSettings {
+  exchangeRate: ExchangeRate
+}
+
+export interface PriceSuggestion {
+  priceMnt: number | null   // null when the product has no KRW price
+  priceKrw: number
+  exchangeRate: number
+  ruleId: string | null
+  baseMnt: number
+  markupMnt: number
+  fixedFeeMnt: number
+  weightSurchargeMnt: number
+  weightKg: number
+}
+
+export interface RepriceItem {
+  id: string
+  title: string
+  currentPriceMnt: number
+  suggestedPriceMnt: number | null
+  diffMnt: number
+  ruleId: string | null
+}
+
+export interface RepriceResult {
+  exchangeRate: ExchangeRate
+  items: RepriceItem[]
+  changed: number
+  applied: boolean
+}
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  rules: [{ id: 'default', percent: 0, fixedFeeMnt: 0, perKgMnt: 0 }],
+  rounding: { mode: 'nearest', step: 100 },
+  defaultWeightKg: 0,
+}
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  ...DEFAULT_PRICING_SETTINGS,
+  exchangeRate: { rate: DEFAULT_EXCHANGE_RATE, effectiveFrom: new Date(0).toISOString() },
+}
+
+/**
+ * Source price in KRW: import tool price, import metadata, then storefront KRW prices
+ */
+export function getSourcePriceKrw(product: any): number {
+  const candidates = [
+    product.priceKrw,
+    product.importMeta?.source?.price,
+    product.sale_price,
+    product.regular_price,
+  ]
+  for (const value of candidates) {
+    if (typeof value === 'number' && value > 0) return value
+  }
+  return 0
+}
+
+function getRuleSpecificity(rule: MarkupRule, product: Pick<Product, 'sourceStore' | 'category'>): number {
+  if (rule.store && rule.store !== product.sourceStore) return -1
+  if (rule.category && rule.category.toLowerCase() !== (product.category || '').toLowerCase()) return -1
+  return (rule.category ? 2 : 0) + (rule.store ? 1 : 0)
+}
+
+/**
+ * Most specific rule for a product (first one wins on ties), or null
+ */
+export function findMarkupRule(
+  rules: MarkupRule[],
+  product: Pick<Product, 'sourceStore' | 'category'>
+): MarkupRule | null {
+  let best: MarkupRule | null = null
+  let bestSpecificity = -1
+  for (const rule of rules) {
+    const specificity = getRuleSpecificity(rule, product)
+    if (specificity > bestSpecificity) {
+      best = rule
+      bestSpecificity = specificity
+    }
+  }
+  return best
+}
+
+export function roundPrice(value: number, policy: RoundingPolicy): number {
+  const step = policy.step > 0 ? policy.step : 1
+  const units = value / step
+  const rounded = policy.mode === 'up'
+    ? Math.ceil(units)
+    : policy.mode === 'down'
+    ? Math.floor(units)
+    : Math.round(units)
+  return rounded * step
+}
+
+/**
+ * Suggested priceMnt for a product under the given config
+ */
+export function suggestPriceMnt(product: any, config: PricingConfig): PriceSuggestion {
+  const priceKrw = getSourcePriceKrw(product)
+  const rate = config.exchangeRate.rate
+  const rule = findMarkupRule(config.rules, product)
+  const weightKg = typeof product.shippingWeightKg === 'number' && product.shippingWeightKg > 0
+    ? product.shippingWeightKg
+    : config.defaultWeightKg
+
+  const baseMnt = priceKrw * rate
+  const markupMnt = rule ? baseMnt * (rule.percent / 100) : 0
+  const fixedFeeMnt = rule?.fixedFeeMnt ?? 0
+  const weightSurchargeMnt = rule ? weightKg * rule.perKgMnt : 0
+
+  return {
+    priceMnt: priceKrw > 0
+      ? roundPrice(baseMnt + markupMnt + fixedFeeMnt + weightSurchargeMnt, config.rounding)
+      : null,
+    priceKrw,
+    exchangeRate: rate,
+    ruleId: rule?.id ?? null,
+    baseMnt: Math.round(baseMnt),
+    markupMnt: Math.round(markupMnt),
+    fixedFeeMnt,
+    weightSurchargeMnt: Math.round(weightSurchargeMnt),
+    weightKg,
+  }
+}
+
+/**
+ * Reprice diff for a set of products (nothing is persisted here)
+ */
+export function buildRepriceItems(products: any[], config: PricingConfig): RepriceItem[] {
+  return products.map((product) => {
+    const suggestion = suggestPriceMnt(product, config)
+    const currentPriceMnt = typeof product.priceMnt === 'number' ? product.priceMnt : 0
+    return {
+      id: product.id ?? product._id?.toString(),
+      title: product.title || product.nameMn || product.nameOriginal || '',
+      currentPriceMnt,
+      suggestedPriceMnt: suggestion.priceMnt,
+      diffMnt: suggestion.priceMnt === null ? 0 : suggestion.priceMnt - currentPriceMnt,
+      ruleId: suggestion.ruleId,
+    }
+  })
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * Validate pricing settings from an API body
+ *
+ * @returns list of problems (empty when valid)
+ */
+export function validatePricingSettings(settings: any): string[] {
+  const errors: string[] = []
+  if (!settings || typeof settings !== 'object') {
+    return ['Pricing settings must be an object']
+  }
+
+  if (!Array.isArray(settings.rules)) {
+    errors.push('rules must be an array')
+  } else {
+    const ids = new Set<string>()
+    settings.rules.forEach((rule: any, index: number) => {
+      const label = `rules[${index}]`
+      if (!rule || typeof rule.id !== 'string' || rule.id.trim() === '') {
+        errors.push(`${label}.id is required`)
+      } else if (ids.has(rule.id)) {
+        errors.push(`${label}.id "${rule.id}" is duplicated`)
+      } else {
+        ids.add(rule.id)
+      }
+      if (typeof rule?.percent !== 'number' || !Number.isFinite(rule.percent) || rule.percent < -100) {
+        errors.push(`${label}.percent must be a number ≥ -100`)
+      }
+      if (!isNonNegativeNumber(rule?.fixedFeeMnt)) errors.push(`${label}.fixedFeeMnt must be ≥ 0`)
+      if (!isNonNegativeNumber(rule?.perKgMnt)) errors.push(`${label}.perKgMnt must be ≥ 0`)
+    })
+  }
+
+  const rounding = settings.rounding
+  if (!rounding || !['nearest', 'up', 'down'].includes(rounding.mode)) {
+    errors.push('rounding.mode must be one of: nearest, up, down')
+  }
+  if (!rounding || typeof rounding.step !== 'number' || !(rounding.step > 0)) {
+    errors.push('rounding.step must be greater than 0')
+  }
+  if (!isNonNegativeNumber(settings.defaultWeightKg)) {
+    errors.push('defaultWeightKg must be ≥ 0')
+  }
+
+  return errors
+}
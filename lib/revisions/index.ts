@@ -0,0 +1,62 @@
+/**
+ * Product revision helpers shared by the editor and the server
+ *
+ * A revision is a snapshot of the editable content fields (names,
+ * descriptions, brand, prices, final images, category) taken after a change;
+ * the editor compares two of them and can revert to one (see
+ * lib/server/revisions.ts).
+ */
+
+import { RevisionField } from '../../types/product'
+
+export const REVISION_FIELDS: readonly RevisionField[] = [
+  'title',
+  'nameMn',
+  'descriptionMn',
+  'short_description',
+  'detailed_description',
+  'brand',
+  'priceKrw',
+  'priceMnt',
+  'imagesFinal',
+  'category',
+  'subCategory',
+]
+
+// Fields holding lists (empty rather than null when unset)
+export const REVISION_ARRAY_FIELDS: readonly RevisionField[] = ['imagesFinal']
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  nameMn: 'Name (MN)',
+  descriptionMn: 'Description (MN)',
+  short_description: 'Short Description',
+  detailed_description: 'Detailed Description',
+  brand: 'Brand',
+  priceKrw: 'Price (KRW)',
+  priceMnt: 'Price (MNT)',
+  imagesFinal: 'Final Images',
+  category: 'Category',
+  subCategory: 'Sub-category',
+}
+
+/**
+ * The revision fields of a product; unset fields are null
+ */
+export function pickRevisionFields(product: Record<string, any>): Record<RevisionField, any> {
+  const fields = {} as Record<RevisionField, any>
+  for (const field of REVISION_FIELDS) {
+    fields[field] = product[field] ?? null
+  }
+  return fields
+}
+
+/**
+ * Revision fields whose values differ between two snapshots
+ */
+export function diffRevisionFields(
+  a: Partial<Record<RevisionField, any>>,
+  b: Partial<Record<RevisionField, any>>
+): RevisionField[] {
+  return REVISION_FIELDS.filter((field) => JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null))
+}
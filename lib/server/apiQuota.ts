@@ -0,0 +1,240 @@
+/**
+ * Usage ledger and rate limits for paid external APIs
+ *
+ * Google Custom Search allows 100 free queries a day and Gemini has its own
+ * per-minute and per-day limits. Every outgoing request goes through
+ * `withApiQuota`, which:
+ * - takes a token from an in-memory token bucket (per process), waiting
+ *   briefly when the next token is close, rejecting otherwise
+ * - counts the request in `api_usage` (one document per provider and UTC day)
+ *   and rejects it once the daily budget is spent
+ *
+ * Rejections throw QuotaExceededError, which routes turn into a 429 with the
+ * reset time. Ledger errors are logged and the request proceeds.
+ */
+
+import { getMongoDb } from '../mongodb'
+import { ApiQuotaProvider, ApiQuotaStatus } from '@/types/product'
+
+const COLLECTION = 'api_usage'
+
+export const API_QUOTA_PROVIDERS: ApiQuotaProvider[] = ['google-cse', 'gemini']
+
+interface ApiQuotaConfig {
+  dailyBudget: number
+  ratePerMinute: number
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return value > 0 ? value : fallback
+}
+
+export const API_QUOTA_CONFIG: Record<ApiQuotaProvider, ApiQuotaConfig> = {
+  'google-cse': {
+    dailyBudget: readLimit('GOOGLE_CSE_DAILY_BUDGET', 100),
+    ratePerMinute: readLimit('GOOGLE_CSE_RATE_PER_MINUTE', 60),
+  },
+  gemini: {
+    dailyBudget: readLimit('GEMINI_DAILY_BUDGET', 1500),
+    ratePerMinute: readLimit('GEMINI_RATE_PER_MINUTE', 15),
+  },
+}
+
+// Requests wait for a token up to this long before being rejected
+const MAX_RATE_WAIT_MS = 10_000
+
+export type QuotaExceededCode = 'DAILY_BUDGET_EXCEEDED' | 'RATE_LIMITED'
+
+/**
+ * Thrown when a request would exceed a provider's rate or daily budget
+ */
+export class QuotaExceededError extends Error {
+  readonly code: QuotaExceededCode
+  readonly provider: ApiQuotaProvider
+  readonly resetAt: Date
+
+  constructor(code: QuotaExceededCode, provider: ApiQuotaProvider, resetAt: Date, message: string) {
+    super(message)
+    this.name = 'QuotaExceededError'
+    this.code = code
+    this.provider = provider
+    this.resetAt = resetAt
+  }
+
+  get status(): number {
+    return 429
+  }
+
+  // Seconds until the request may be retried (for the Retry-After header)
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000))
+  }
+}
+
+interface ApiUsageDoc {
+  _id: string
+  provider: ApiQuotaProvider
+  day: string
+  requests: number
+  failures: number
+  rejected: number
+  updatedAt: Date
+}
+
+function getUsageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function getNextDayStart(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+}
+
+// ----- Token bucket -----
+
+interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+const buckets = new Map<ApiQuotaProvider, TokenBucket>()
+
+function refillBucket(provider: ApiQuotaProvider, now: number): TokenBucket {
+  const { ratePerMinute } = API_QUOTA_CONFIG[provider]
+  const bucket = buckets.get(provider) ?? { tokens: ratePerMinute, updatedAt: now }
+  bucket.tokens = Math.min(ratePerMinute, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * ratePerMinute)
+  bucket.updatedAt = now
+  buckets.set(provider, bucket)
+  return bucket
+}
+
+/**
+ * Reserve one token, rejecting when it is more than MAX_RATE_WAIT_MS away
+ *
+ * @returns how long to wait before using it
+ */
+function takeToken(provider: ApiQuotaProvider): number {
+  const { ratePerMinute } = API_QUOTA_CONFIG[provider]
+  const bucket = refillBucket(provider, Date.now())
+
+  // Reserve the token now (the balance may go negative) so concurrent callers queue up
+  const waitMs = bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) / ratePerMinute) * 60_000
+  if (waitMs > MAX_RATE_WAIT_MS) {
+    throw new QuotaExceededError(
+      'RATE_LIMITED',
+      provider,
+      new Date(Date.now() + waitMs),
+      `${provider} rate limit reached (${ratePerMinute} requests per minute)`
+    )
+  }
+  bucket.tokens -= 1
+  return waitMs
+}
+
+// Give back a token whose request was not made
+function returnToken(provider: ApiQuotaProvider): void {
+  const bucket = refillBucket(provider, Date.now())
+  bucket.tokens = Math.min(API_QUOTA_CONFIG[provider].ratePerMinute, bucket.tokens + 1)
+}
+
+// ----- Daily ledger -----
+
+async function getUsageCollection() {
+  const db = await getMongoDb()
+  return db.collection<ApiUsageDoc>(COLLECTION)
+}
+
+async function countUsage(provider: ApiQuotaProvider, field: 'requests' | 'failures' | 'rejected', amount = 1) {
+  const collection = await getUsageCollection()
+  const day = getUsageDay()
+  return collection.findOneAndUpdate(
+    { _id: `${provider}:${day}` },
+    { $inc: { [field]: amount }, $set: { updatedAt: new Date() }, $setOnInsert: { provider, day } },
+    { upsert: true, returnDocument: 'after' }
+  )
+}
+
+/**
+ * Count one request against today's budget, or throw when it is spent
+ */
+async function reserveDailyBudget(provider: ApiQuotaProvider): Promise<void> {
+  const { dailyBudget } = API_QUOTA_CONFIG[provider]
+
+  let usage: ApiUsageDoc | null
+  try {
+    usage = await countUsage(provider, 'requests')
+  } catch (error: any) {
+    console.warn(`API usage ledger unavailable (${provider}):`, error?.message ?? error)
+    return
+  }
+
+  if (usage && usage.requests > dailyBudget) {
+    try {
+      await countUsage(provider, 'requests', -1)
+      await countUsage(provider, 'rejected')
+    } catch (error: any) {
+      console.warn(`API usage ledger update failed (${provider}):`, error?.message ?? error)
+    }
+    throw new QuotaExceededError(
+      'DAILY_BUDGET_EXCEEDED',
+      provider,
+      getNextDayStart(),
+      `${provider} daily budget of ${dailyBudget} requests is used up`
+    )
+  }
+}
+
+/**
+ * Run one external API request under the provider's rate limit and daily budget
+ *
+ * Failed requests still count against the budget (the provider bills them
+ * too) and are also counted as failures. A request the daily budget rejects
+ * gives its rate-limit token back.
+ */
+export async function withApiQuota<T>(provider: ApiQuotaProvider, request: () => Promise<T>): Promise<T> {
+  const waitMs = takeToken(provider)
+  try {
+    await reserveDailyBudget(provider)
+  } catch (error) {
+    returnToken(provider)
+    throw error
+  }
+  if (waitMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, waitMs))
+  }
+
+  try {
+    return await request()
+  } catch (error) {
+    countUsage(provider, 'failures').catch(() => {})
+    throw error
+  }
+}
+
+/**
+ * Today's usage and remaining budget per provider
+ */
+export async function getApiQuotaStatus(): Promise<ApiQuotaStatus[]> {
+  const collection = await getUsageCollection()
+  const day = getUsageDay()
+  const docs = await collection.find({ day }).toArray()
+  const now = Date.now()
+
+  return API_QUOTA_PROVIDERS.map((provider) => {
+    const { dailyBudget, ratePerMinute } = API_QUOTA_CONFIG[provider]
+    const usage = docs.find((doc) => doc.provider === provider)
+    const used = usage?.requests ?? 0
+    return {
+      provider,
+      day,
+      used,
+      failures: usage?.failures ?? 0,
+      rejected: usage?.rejected ?? 0,
+      dailyBudget,
+      remaining: Math.max(0, dailyBudget - used),
+      resetAt: getNextDayStart().toISOString(),
+      ratePerMinute,
+      availableTokens: Math.max(0, Math.floor(refillBucket(provider, now).tokens)),
+    }
+  })
+}
@@ -0,0 +1,280 @@
+/**
+ * Attribute proposals for products (server side)
+ *
+ * Runs the deterministic title rules (lib/attributes) and, when asked, lets
+ * Gemini propose what the rules missed. Proposals are stored on the product
+ * as `attributeSuggestions` until the editor accepts some of them into
+ * `sizes`, `colors` and `custom_specifications`; accepting clears the set.
+ *
+ * Bulk runs only process RAW products (nobody has reviewed them yet).
+ */
+
+import {
+  ExtractedAttribute,
+  ProductAttributeApplyResult,
+  ProductAttributeExtractResult,
+  ProductAttributeKind,
+  ProductAttributeSuggestions,
+} from '@/types/product'
+import {
+  applyAttributesToProduct,
+  ATTRIBUTE_KINDS,
+  buildAttribute,
+  extractAttributesFromText,
+  getAttributeSourceText,
+} from '../attributes'
+import { getMongoDb } from '../mongodb'
+import { QuotaExceededError } from './apiQuota'
+import { extractJson, generateGeminiContent, getGeminiConfig } from './gemini'
+import { getProductById, updateProductById } from './products'
+import { AuditContext, SYSTEM_AUDIT_CONTEXT } from './audit'
+
+// Upper bound on what Gemini may add to one product
+const MAX_LLM_ATTRIBUTES = 10
+
+export type AttributeErrorCode = 'NOT_FOUND' | 'INVALID_STATUS' | 'NO_SUGGESTIONS' | 'UNKNOWN_ATTRIBUTE'
+
+/**
+ * Thrown for expected attribute extraction failures; routes map `status` to the response code
+ */
+export class AttributeError extends Error {
+  readonly code: AttributeErrorCode
+
+  constructor(code: AttributeErrorCode, message: string) {
+    super(message)
+    this.name = 'AttributeError'
+    this.code = code
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'INVALID_STATUS':
+      case 'NO_SUGGESTIONS':
+        return 409
+      default:
+        return 400
+    }
+  }
+}
+
+export interface ExtractAttributesOptions {
+  useLlm?: boolean      // Ask Gemini for attributes the rules missed
+  rawOnly?: boolean     // Refuse products that left RAW (bulk runs)
+  context?: AuditContext
+}
+
+/**
+ * Attributes Gemini finds in the title beyond the ones the rules found
+ *
+ * Only known kinds are kept, and every value must be quoted from the title
+ * (`match`), so the model cannot invent specifications.
+ */
+async function extractAttributesWithGemini(
+  title: string,
+  known: ExtractedAttribute[],
+  context: { brand?: string; category?: string }
+): Promise<ExtractedAttribute[]> {
+  const config = getGeminiConfig()
+  if (!config) {
+    throw new Error('Gemini is not configured (set GEMINI_API_KEY)')
+  }
+
+  const prompt = `Extract product attributes from this Korean e-commerce title.
+
+Title: "${title}"
+${context.brand ? `Brand: "${context.brand}"\n` : ''}${context.category ? `Category: "${context.category}"\n` : ''}
+Already found (do not repeat): ${known.length > 0 ? known.map((a) => `${a.kind}=${a.value}`).join(', ') : 'none'}
+
+Attribute kinds: ${ATTRIBUTE_KINDS.join(', ')}
+- volume/weight/length: one value with unit, e.g. "250ml", "500g", "10m"
+- dimensions: "30×40cm"; capacity: storage like "16GB"
+- count: number of items with English unit, e.g. "30 pcs", "100 sheets"
+- pack: bundle, e.g. "Set of 2", "3-pack", "1+1"
+- size: apparel or bed size, e.g. "M", "Single"
+- color: English color name, e.g. "Silver"
+
+Requirements:
+- Only attributes of the product being sold, not promotions, free gifts or model numbers
+- "match" must be the exact text from the title the value was read from
+- Return an empty list when nothing else is present`
+
+  const textContent = await generateGeminiContent(prompt, {
+    apiKey: config.apiKey,
+    model: config.model,
+    systemInstruction: 'Return ONLY valid JSON. No markdown, no explanations.',
+    generationConfig: {
+      temperature: 0,
+      responseMimeType: 'application/json',
+      responseJsonSchema: {
+        type: 'object',
+        properties: {
+          attributes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                kind: { type: 'string', enum: [...ATTRIBUTE_KINDS] },
+                value: { type: 'string' },
+                match: { type: 'string' },
+              },
+              required: ['kind', 'value', 'match'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['attributes'],
+        additionalProperties: false,
+      },
+    },
+  })
+
+  const parsed = extractJson(textContent)
+  const items: any[] = Array.isArray(parsed?.attributes) ? parsed.attributes : []
+  const normalizedTitle = title.normalize('NFKC').toLowerCase()
+
+  return items
+    .filter((item) =>
+      ATTRIBUTE_KINDS.includes(item?.kind) &&
+      typeof item.value === 'string' && item.value.trim() !== '' &&
+      typeof item.match === 'string' && normalizedTitle.includes(item.match.normalize('NFKC').trim().toLowerCase())
+    )
+    .slice(0, MAX_LLM_ATTRIBUTES)
+    .map((item) => buildAttribute(item.kind as ProductAttributeKind, item.value.trim(), item.match, 'llm'))
+}
+
+/**
+ * Propose attributes for a product and store them for review
+ */
+export async function extractProductAttributes(
+  idOrSlug: string,
+  options: ExtractAttributesOptions = {}
+): Promise<ProductAttributeExtractResult> {
+  const product = await getProductById(idOrSlug)
+  if (!product) {
+    throw new AttributeError('NOT_FOUND', `Product not found: ${idOrSlug}`)
+  }
+
+  const status = product.lifecycleStatus ?? 'RAW'
+  if (options.rawOnly && status !== 'RAW') {
+    throw new AttributeError('INVALID_STATUS', `Only RAW products are processed in bulk (product is ${status})`)
+  }
+
+  const sourceText = getAttributeSourceText(product)
+  const attributes = extractAttributesFromText(sourceText)
+  const suggestions: ProductAttributeSuggestions = {
+    attributes,
+    sourceText,
+    method: 'rules',
+    extractedAt: new Date().toISOString(),
+  }
+
+  if (options.useLlm && sourceText) {
+    suggestions.method = 'rules+llm'
+    try {
+      const extra = await extractAttributesWithGemini(sourceText, attributes, {
+        brand: product.brand,
+        category: product.category,
+      })
+      const keys = new Set(attributes.map((a) => a.key))
+      attributes.push(...extra.filter((a) => !keys.has(a.key)))
+    } catch (error: any) {
+      // Rule results stand on their own; an exhausted quota stops bulk runs
+      if (error instanceof QuotaExceededError) throw error
+      suggestions.llmError = error?.message ?? String(error)
+    }
+  }
+
+  const updated = await updateProductById(product.id, { attributeSuggestions: suggestions }, options.context)
+  return { productId: updated.id, suggestions, product: updated }
+}
+
+/**
+ * Accept some of the stored proposals into the product fields
+ *
+ * The whole suggestion set is cleared afterwards: proposals left out were
+ * reviewed and rejected. An empty `keys` list just dismisses them.
+ */
+export async function applyProductAttributes(
+  idOrSlug: string,
+  keys: string[],
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<ProductAttributeApplyResult> {
+  const product = await getProductById(idOrSlug)
+  if (!product) {
+    throw new AttributeError('NOT_FOUND', `Product not found: ${idOrSlug}`)
+  }
+
+  const suggested = product.attributeSuggestions?.attributes
+  if (!suggested) {
+    throw new AttributeError('NO_SUGGESTIONS', `Product has no attribute suggestions: ${idOrSlug}`)
+  }
+
+  const unknown = keys.filter((key) => !suggested.some((a) => a.key === key))
+  if (unknown.length > 0) {
+    throw new AttributeError('UNKNOWN_ATTRIBUTE', `Unknown attribute suggestions: ${unknown.join(', ')}`)
+  }
+
+  const applied = suggested.filter((a) => keys.includes(a.key))
+  const updated = await updateProductById(product.id, {
+    ...applyAttributesToProduct(product, applied),
+    attributeSuggestions: null,
+  }, context)
+  return { productId: updated.id, applied, product: updated }
+}
+
+/**
+ * Propose attributes for several RAW products
+ *
+ * Products that cannot be processed are reported instead of failing the run;
+ * an exhausted Gemini quota stops it (the rest are reported as skipped).
+ */
+export async function extractAttributesForProducts(
+  ids: string[],
+  options: Omit<ExtractAttributesOptions, 'rawOnly'> = {}
+): Promise<{
+  results: ProductAttributeExtractResult[]
+  errors: { id: string; code: string; error: string }[]
+}> {
+  const results: ProductAttributeExtractResult[] = []
+  const errors: { id: string; code: string; error: string }[] = []
+
+  for (const [index, id] of ids.entries()) {
+    try {
+      results.push(await extractProductAttributes(id, { ...options, rawOnly: true }))
+    } catch (error: any) {
+      if (error instanceof QuotaExceededError) {
+        if (results.length === 0) throw error
+        for (const skipped of ids.slice(index)) {
+          errors.push({ id: skipped, code: error.code, error: error.message })
+        }
+        break
+      }
+      if (error instanceof AttributeError) {
+        errors.push({ id, code: error.code, error: error.message })
+      } else {
+        throw error
+      }
+    }
+  }
+
+  return { results, errors }
+}
+
+/**
+ * RAW products without attribute suggestions yet (oldest first)
+ */
+export async function findRawProductsWithoutAttributeSuggestions(limit = 100): Promise<string[]> {
+  const db = await getMongoDb()
+  const docs = await db
+    .collection('products')
+    .find(
+      { lifecycleStatus: 'RAW', attributeSuggestions: { $exists: false }, isDeleted: { $ne: true } },
+      { projection: { _id: 1 } }
+    )
+    .sort({ _id: 1 })
+    .limit(limit)
+    .toArray()
+  return docs.map((doc) => doc._id.toString())
+}
@@ -0,0 +1,122 @@
+/**
+ * Product audit log
+ *
+ * Every write to a product records who did it (`actor`), from where
+ * (`source`: editor, bulk action, import route or script, source policy) and
+ * the before/after values of the fields that changed, in `audit_events`.
+ * The diff covers the import tool's whitelisted fields (see
+ * `diffProductFields` in ./products). Events outlive purged products.
+ *
+ * Events that come with the product before and after the write also record
+ * a revision snapshot of the editable fields (see ./revisions).
+ *
+ * A failed audit write is logged and does not fail the product write, which
+ * has already happened by then.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { AuditAction, AuditEvent, AuditFieldChange, AuditSource } from '@/types/product'
+import { recordRevisions, RevisionEntry } from './revisions'
+
+const COLLECTION = 'audit_events'
+
+/**
+ * Who is writing and from where; passed down by routes and scripts
+ */
+export interface AuditContext {
+  actor: string
+  source: AuditSource
+}
+
+// Writes that do not say where they come from (background jobs, internal helpers)
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = { actor: 'system', source: 'system' }
+
+export interface AuditEventDraft {
+  productId: string | ObjectId
+  action: AuditAction
+  changes: AuditFieldChange[]
+  note?: string
+  // Product documents around the write, for the revision snapshot
+  snapshot?: { before: Record<string, any>; after: Record<string, any> }
+}
+
+let indexesEnsured = false
+
+async function getAuditCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection(COLLECTION)
+  if (!indexesEnsured) {
+    await collection.createIndex({ productId: 1, createdAt: -1 }, { name: 'productId_1_createdAt_-1' })
+    indexesEnsured = true
+  }
+  return collection
+}
+
+function docToAuditEvent(doc: any): AuditEvent {
+  return {
+    id: doc._id.toString(),
+    productId: doc.productId.toString(),
+    action: doc.action,
+    actor: doc.actor,
+    source: doc.source,
+    changes: doc.changes ?? [],
+    ...(doc.note && { note: doc.note }),
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+  }
+}
+
+/**
+ * Record events; updates that changed nothing are skipped
+ */
+export async function recordAuditEvents(
+  context: AuditContext,
+  events: AuditEventDraft[],
+  createdAt: Date = new Date()
+): Promise<void> {
+  const recorded = events.filter((event) => event.changes.length > 0 || event.action !== 'update')
+  const docs = recorded.map((event) => ({
+    productId: typeof event.productId === 'string' ? new ObjectId(event.productId) : event.productId,
+    action: event.action,
+    actor: context.actor,
+    source: context.source,
+    changes: event.changes,
+    ...(event.note && { note: event.note }),
+    createdAt,
+  }))
+  if (docs.length === 0) return
+
+  try {
+    const collection = await getAuditCollection()
+    const result = await collection.insertMany(docs, { ordered: false })
+
+    const revisions: RevisionEntry[] = recorded.flatMap((event, index) =>
+      event.snapshot
+        ? [
+            {
+              productId: docs[index].productId,
+              auditEventId: result.insertedIds[index],
+              action: event.action,
+              ...event.snapshot,
+            },
+          ]
+        : []
+    )
+    await recordRevisions(context, revisions, createdAt)
+  } catch (error: any) {
+    console.error(`Failed to record ${docs.length} audit events:`, error?.message ?? error)
+  }
+}
+
+/**
+ * Audit events of a product, newest first
+ */
+export async function listAuditEvents(productId: string, limit = 100): Promise<AuditEvent[]> {
+  const collection = await getAuditCollection()
+  const docs = await collection
+    .find({ productId: new ObjectId(productId) })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit)
+    .toArray()
+  return docs.map(docToAuditEvent)
+}
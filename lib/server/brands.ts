@@ -0,0 +1,412 @@
+/**
+ * Brand registry
+ *
+ * One document per brand in `brands` with its canonical name, aliases in
+ * Korean, English and Mongolian, logo and official-site domains. `keys` holds
+ * the normalized canonical name and aliases (lib/brands) under a unique
+ * index, so two brands can never claim the same name.
+ *
+ * Product writes (editor, import script) replace `brand` with the canonical
+ * name and set `brandId`; names the registry does not know are kept as they
+ * are. Image search ranks pictures hosted on the official domains first.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { BRAND_ALIAS_LANGS, findBrand, getBrandKeys, normalizeBrandKey } from '../brands'
+import { buildSearchNgrams, SEARCH_FIELDS } from './search'
+import { diffProductFields } from './products'
+import { AuditContext, recordAuditEvents, SYSTEM_AUDIT_CONTEXT } from './audit'
+import { Brand, BrandAliasLang, BrandNormalizeResult, ProductBrandSummary } from '@/types/product'
+
+export interface BrandInput {
+  name: string
+  aliases?: Partial<Record<BrandAliasLang, string[]>>
+  logoUrl?: string
+  domains?: string[]
+}
+
+export type BrandErrorCode = 'INVALID' | 'DUPLICATE' | 'NOT_FOUND'
+
+/**
+ * Thrown for rejected brand writes; routes map `status` to the response code
+ */
+export class BrandError extends Error {
+  readonly code: BrandErrorCode
+  readonly details: string[]
+
+  constructor(code: BrandErrorCode, message: string, details: string[] = []) {
+    super(message)
+    this.name = 'BrandError'
+    this.code = code
+    this.details = details
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'DUPLICATE':
+        return 409
+      default:
+        return 400
+    }
+  }
+}
+
+const COLLECTION = 'brands'
+const DOMAIN_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/
+
+/**
+ * "https://www.TonyMoly.com/shop" → "tonymoly.com"
+ */
+export function normalizeBrandDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '')
+}
+
+/**
+ * Validate a brand from an API body
+ *
+ * @returns list of problems (empty when valid)
+ */
+export function validateBrandInput(input: any): string[] {
+  const errors: string[] = []
+  if (typeof input?.name !== 'string' || input.name.trim() === '') {
+    errors.push('name must be a non-empty string')
+  } else if (input.name.trim().length > 100) {
+    errors.push('name must be at most 100 characters')
+  }
+  if (input?.aliases !== undefined && input.aliases !== null) {
+    for (const lang of BRAND_ALIAS_LANGS) {
+      const list = input.aliases[lang]
+      if (list !== undefined && (!Array.isArray(list) || list.some((alias: any) => typeof alias !== 'string'))) {
+        errors.push(`aliases.${lang} must be an array of strings`)
+      }
+    }
+  }
+  if (input?.logoUrl !== undefined && input.logoUrl !== null && input.logoUrl !== '') {
+    if (typeof input.logoUrl !== 'string' || !/^https?:\/\//i.test(input.logoUrl)) {
+      errors.push('logoUrl must be an http(s) URL')
+    }
+  }
+  if (input?.domains !== undefined && input.domains !== null) {
+    if (!Array.isArray(input.domains) || input.domains.some((domain: any) => typeof domain !== 'string')) {
+      errors.push('domains must be an array of strings')
+    } else {
+      for (const domain of input.domains) {
+        if (!DOMAIN_PATTERN.test(normalizeBrandDomain(domain))) {
+          errors.push(`Not a domain: ${domain}`)
+        }
+      }
+    }
+  }
+  return errors
+}
+
+function uniqueTrimmed(values: string[] | undefined): string[] {
+  return Array.from(new Set((values ?? []).map((value) => value.trim()).filter(Boolean)))
+}
+
+function inputToFields(input: BrandInput) {
+  const aliases = Object.fromEntries(
+    BRAND_ALIAS_LANGS.map((lang) => [lang, uniqueTrimmed(input.aliases?.[lang])])
+  ) as Record<BrandAliasLang, string[]>
+  const fields = {
+    name: input.name.trim(),
+    aliases,
+    logoUrl: input.logoUrl?.trim() || undefined,
+    domains: uniqueTrimmed(input.domains?.map(normalizeBrandDomain)),
+  }
+  return { ...fields, keys: getBrandKeys(fields) }
+}
+
+function docToBrand(doc: any): Brand {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    aliases: {
+      ko: doc.aliases?.ko ?? [],
+      en: doc.aliases?.en ?? [],
+      mn: doc.aliases?.mn ?? [],
+    },
+    logoUrl: doc.logoUrl || undefined,
+    domains: doc.domains ?? [],
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+    updatedAt: doc.updatedAt instanceof Date ? doc.updatedAt.toISOString() : doc.updatedAt,
+  }
+}
+
+function assertValid(input: BrandInput) {
+  const errors = validateBrandInput(input)
+  if (errors.length > 0) {
+    throw new BrandError('INVALID', 'Invalid brand', errors)
+  }
+}
+
+/**
+ * Name of the brand already holding one of the keys (for a readable 409)
+ */
+async function findKeyOwner(keys: string[], exceptId?: ObjectId): Promise<string | null> {
+  const db = await getMongoDb()
+  const owner = await db.collection(COLLECTION).findOne({
+    keys: { $in: keys },
+    ...(exceptId && { _id: { $ne: exceptId } }),
+  })
+  return owner?.name ?? null
+}
+
+async function getBrandsCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection(COLLECTION)
+  await collection.createIndex({ keys: 1 }, { unique: true, name: 'keys_1' })
+  return collection
+}
+
+/**
+ * All brands, alphabetical by canonical name
+ */
+export async function listBrands(): Promise<Brand[]> {
+  const db = await getMongoDb()
+  const docs = await db.collection(COLLECTION).find({}).collation({ locale: 'en' }).sort({ name: 1 }).toArray()
+  return docs.map(docToBrand)
+}
+
+export async function createBrand(input: BrandInput): Promise<Brand> {
+  assertValid(input)
+  const collection = await getBrandsCollection()
+  const now = new Date()
+  const doc = { ...inputToFields(input), createdAt: now, updatedAt: now }
+
+  try {
+    const result = await collection.insertOne(doc)
+    return docToBrand({ ...doc, _id: result.insertedId })
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      const owner = await findKeyOwner(doc.keys)
+      throw new BrandError('DUPLICATE', `A name or alias is already used by ${owner ?? 'another brand'}`)
+    }
+    throw error
+  }
+}
+
+export async function updateBrand(id: string, input: BrandInput): Promise<Brand> {
+  assertValid(input)
+  if (!ObjectId.isValid(id)) {
+    throw new BrandError('NOT_FOUND', `Brand not found: ${id}`)
+  }
+  const _id = new ObjectId(id)
+  const collection = await getBrandsCollection()
+  const fields = inputToFields(input)
+
+  try {
+    const updated = await collection.findOneAndUpdate(
+      { _id },
+      { $set: { ...fields, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    )
+    if (!updated) {
+      throw new BrandError('NOT_FOUND', `Brand not found: ${id}`)
+    }
+    return docToBrand(updated)
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      const owner = await findKeyOwner(fields.keys, _id)
+      throw new BrandError('DUPLICATE', `A name or alias is already used by ${owner ?? 'another brand'}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Delete a brand; products keep their brand name but lose `brandId`
+ */
+export async function deleteBrand(id: string, context: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<void> {
+  if (!ObjectId.isValid(id)) {
+    throw new BrandError('NOT_FOUND', `Brand not found: ${id}`)
+  }
+  const db = await getMongoDb()
+  const result = await db.collection(COLLECTION).deleteOne({ _id: new ObjectId(id) })
+  if (result.deletedCount === 0) {
+    throw new BrandError('NOT_FOUND', `Brand not found: ${id}`)
+  }
+
+  const products = await db.collection('products').find({ brandId: id }).toArray()
+  if (products.length === 0) return
+  const now = new Date()
+  await db
+    .collection('products')
+    .updateMany({ _id: { $in: products.map((doc) => doc._id) } }, { $set: { brandId: null, updatedAt: now } })
+  await recordAuditEvents(
+    context,
+    products.map((doc) => ({
+      productId: doc._id,
+      action: 'update' as const,
+      changes: diffProductFields(doc, { ...doc, brandId: null }),
+      note: 'Brand removed from the registry',
+    })),
+    now
+  )
+}
+
+/**
+ * Registry brand for a product brand name, or null
+ *
+ * Registry errors are logged and treated as no match, so product writes
+ * and image search keep working without it.
+ */
+export async function resolveBrand(name: string | undefined): Promise<Brand | null> {
+  const key = normalizeBrandKey(name ?? '')
+  if (!key) return null
+  try {
+    const db = await getMongoDb()
+    const doc = await db.collection(COLLECTION).findOne({ keys: key })
+    return doc ? docToBrand(doc) : null
+  } catch (error: any) {
+    console.warn('Brand registry unavailable:', error?.message ?? error)
+    return null
+  }
+}
+
+/**
+ * `brand` / `brandId` fields for a product brand name
+ *
+ * Known names become the canonical name; others are kept with no `brandId`.
+ */
+export function normalizeBrandFields(
+  name: string | undefined,
+  brand: Brand | null
+): { brand?: string; brandId: string | null } {
+  return brand ? { brand: brand.name, brandId: brand.id } : { brand: name, brandId: null }
+}
+
+/**
+ * Normalize product brands in bulk (used by the import script)
+ *
+ * @returns a function giving the `brand` / `brandId` fields for a name
+ */
+export async function loadBrandNormalizer(): Promise<(name: string | undefined) => { brand?: string; brandId: string | null }> {
+  const brands = await listBrands()
+  return (name) => normalizeBrandFields(name, findBrand(name, brands))
+}
+
+/**
+ * Rewrite existing products to the canonical brand names (and rebuild their
+ * search n-grams, since `brand` is searchable)
+ */
+export async function normalizeProductBrands(
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<BrandNormalizeResult> {
+  const db = await getMongoDb()
+  const brands = await listBrands()
+  const products = await db
+    .collection('products')
+    .find(
+      { brand: { $nin: [null, ''] }, isDeleted: { $ne: true } },
+      { projection: Object.fromEntries([...SEARCH_FIELDS, 'brandId'].map((field) => [field, 1])) }
+    )
+    .toArray()
+
+  const result: BrandNormalizeResult = { matched: 0, updated: 0, unmatched: 0 }
+  const now = new Date()
+  const changes = new Map<string, { brand?: string; brandId: string | null; searchNgrams?: string[] }>()
+
+  for (const doc of products) {
+    const brand = findBrand(doc.brand, brands)
+    if (!brand) {
+      result.unmatched++
+      if (doc.brandId) changes.set(doc._id.toString(), { brandId: null })
+      continue
+    }
+    result.matched++
+    if (doc.brand === brand.name && doc.brandId === brand.id) continue
+    changes.set(doc._id.toString(), {
+      brand: brand.name,
+      brandId: brand.id,
+      searchNgrams: buildSearchNgrams({ ...doc, brand: brand.name }),
+    })
+  }
+
+  if (changes.size > 0) {
+    // Full documents of the changed products, for the audit diff and revisions
+    const before = await db
+      .collection('products')
+      .find({ _id: { $in: Array.from(changes.keys(), (id) => new ObjectId(id)) } })
+      .toArray()
+    const writeResult = await db.collection('products').bulkWrite(
+      before.map((doc) => ({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: { ...changes.get(doc._id.toString()), updatedAt: now } },
+        },
+      })),
+      { ordered: false }
+    )
+    result.updated = writeResult.modifiedCount
+
+    await recordAuditEvents(
+      context,
+      before.map((doc) => {
+        const after = { ...doc, ...changes.get(doc._id.toString()) }
+        return {
+          productId: doc._id,
+          action: 'update' as const,
+          changes: diffProductFields(doc, after),
+          note: 'Brand normalized to the registry name',
+          snapshot: { before: doc, after },
+        }
+      }),
+      now
+    )
+  }
+  return result
+}
+
+/**
+ * Brand names found on products, with the registry brand each matches
+ * (brand review); unknown names first
+ */
+export async function listProductBrands(): Promise<ProductBrandSummary[]> {
+  const db = await getMongoDb()
+  const [brands, groups] = await Promise.all([
+    listBrands(),
+    db
+      .collection('products')
+      .aggregate([
+        { $match: { brand: { $nin: [null, ''] }, isDeleted: { $ne: true } } },
+        { $group: { _id: '$brand', productCount: { $sum: 1 } } },
+      ])
+      .toArray(),
+  ])
+
+  return groups
+    .map((group): ProductBrandSummary => {
+      const brand = findBrand(group._id, brands)
+      return {
+        brand: group._id,
+        productCount: group.productCount,
+        brandId: brand?.id ?? null,
+        canonical: brand?.name ?? null,
+      }
+    })
+    .sort(
+      (a, b) =>
+        Number(a.brandId !== null) - Number(b.brandId !== null) ||
+        b.productCount - a.productCount ||
+        a.brand.localeCompare(b.brand)
+    )
+}
+
+/**
+ * Every way a brand filter value may be written on products
+ * (the value itself plus, for a registry brand, its canonical name and aliases)
+ */
+export async function getBrandFilterNames(name: string): Promise<string[]> {
+  const brand = await resolveBrand(name)
+  if (!brand) return [name]
+  return Array.from(new Set([name, brand.name, ...BRAND_ALIAS_LANGS.flatMap((lang) => brand.aliases[lang])]))
+}
@@ -0,0 +1,154 @@
+/**
+ * Shared Gemini (Google Generative Language API) helpers
+ *
+ * Used by the image query builder and the translation provider. Every
+ * request counts against the Gemini quota (see apiQuota.ts).
+ */
+
+import { withApiQuota } from './apiQuota'
+
+export interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string
+      }>
+    }
+  }>
+  error?: {
+    message?: string
+    code?: number
+  }
+}
+
+export interface GeminiRequestOptions {
+  apiKey: string
+  model: string
+  systemInstruction?: string
+  generationConfig?: Record<string, any>
+}
+
+/**
+ * Gemini credentials from the environment, or null when not configured
+ */
+export function getGeminiConfig(): { apiKey: string; model: string } | null {
+  const apiKey = process.env.GEMINI_API_KEY
+  if (!apiKey) return null
+  return { apiKey, model: process.env.GEMINI_MODEL || 'gemini-2.0-flash' }
+}
+
+/**
+ * Send a single-prompt generateContent request and return the first candidate's text
+ *
+ * @throws QuotaExceededError when the Gemini rate or daily budget is exhausted
+ * @throws Error on HTTP errors, API errors or an empty response
+ */
+export async function generateGeminiContent(
+  prompt: string,
+  options: GeminiRequestOptions
+): Promise<string> {
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${options.model}:generateContent?key=${options.apiKey}`
+
+  const response = await withApiQuota('gemini', () => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents: [
+        {
+          parts: [
+            {
+              text: prompt,
+            },
+          ],
+        },
+      ],
+      ...(options.systemInstruction && {
+        systemInstruction: {
+          parts: [
+            {
+              text: options.systemInstruction,
+            },
+          ],
+        },
+      }),
+      generationConfig: options.generationConfig,
+    }),
+  }))
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Gemini API error: ${response.status} ${response.statusText} - ${errorText}`)
+  }
+
+  const data: GeminiResponse = await response.json()
+
+  // Handle API errors
+  if (data.error) {
+    throw new Error(`Gemini API error: ${data.error.code} - ${data.error.message || 'Unknown error'}`)
+  }
+
+  const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text
+
+  if (!textContent) {
+    throw new Error('Gemini API returned empty response')
+  }
+
+  return textContent
+}
+
+/**
+ * Robust JSON extractor that handles various response formats
+ *
+ * Tries multiple strategies to extract JSON from text that may contain
+ * markdown, explanations, or other wrapper text.
+ */
+export function extractJson(text: string): any | null {
+  if (!text || typeof text !== 'string') return null
+
+  const trimmed = text.trim()
+
+  // Strategy 1: Direct JSON.parse
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    // Continue to next strategy
+  }
+
+  // Strategy 2: Extract from markdown code fences ```json ... ```
+  const jsonFenceMatch = trimmed.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i)
+  if (jsonFenceMatch) {
+    try {
+      return JSON.parse(jsonFenceMatch[1])
+    } catch {
+      // Continue to next strategy
+    }
+  }
+
+  // Strategy 3: Find first '{' and last '}' and parse
+  const firstBrace = trimmed.indexOf('{')
+  const lastBrace = trimmed.lastIndexOf('}')
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    try {
+      const jsonCandidate = trimmed.slice(firstBrace, lastBrace + 1)
+      return JSON.parse(jsonCandidate)
+    } catch {
+      // Continue to next strategy
+    }
+  }
+
+  // Strategy 4: Find first '[' and last ']' (for array responses, though we expect object)
+  const firstBracket = trimmed.indexOf('[')
+  const lastBracket = trimmed.lastIndexOf(']')
+  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
+    try {
+      const jsonCandidate = trimmed.slice(firstBracket, lastBracket + 1)
+      return JSON.parse(jsonCandidate)
+    } catch {
+      // All strategies failed
+    }
+  }
+
+  return null
+}
@@ -5,9 +5,16 @@
  * (title, brand, etc.) into a clean English query optimized for Google Images search.
  */
 
+import { GlossaryTerm } from '@/types/product'
+import { extractJson, generateGeminiContent } from './gemini'
+import { findGlossaryTerms, listGlossaryTerms, maskGlossaryTerms, restoreGlossaryTerms } from './glossary'
+import { QueryCacheOutcome, withQueryCache } from './queryCache'
+import { textMentionsBrand } from '../brands'
+
 interface BuildQueryInput {
   title?: string
   brand?: string
+  brandAliases?: string[] // Other Latin spellings from the brand registry (query validation only)
   store?: string
   category?: string
 }
@@ -17,75 +24,7 @@ interface BuildQueryResult {
   queryEnFinal: string // Query with negative terms (for search)
   reason?: string
   method: 'gemini' | 'fallback' | 'gemini-translate'
-}
-
-interface GeminiResponse {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        text?: string
-      }>
-    }
-  }>
-  error?: {
-    message?: string
-    code?: number
-  }
-}
-
-/**
- * Robust JSON extractor that handles various response formats
- * 
- * Tries multiple strategies to extract JSON from text that may contain
- * markdown, explanations, or other wrapper text.
- */
-function extractJson(text: string): any | null {
-  if (!text || typeof text !== 'string') return null
-
-  const trimmed = text.trim()
-
-  // Strategy 1: Direct JSON.parse
-  try {
-    return JSON.parse(trimmed)
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 2: Extract from markdown code fences ```json ... ```
-  const jsonFenceMatch = trimmed.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i)
-  if (jsonFenceMatch) {
-    try {
-      return JSON.parse(jsonFenceMatch[1])
-    } catch {
-      // Continue to next strategy
-    }
-  }
-
-  // Strategy 3: Find first '{' and last '}' and parse
-  const firstBrace = trimmed.indexOf('{')
-  const lastBrace = trimmed.lastIndexOf('}')
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    try {
-      const jsonCandidate = trimmed.slice(firstBrace, lastBrace + 1)
-      return JSON.parse(jsonCandidate)
-    } catch {
-      // Continue to next strategy
-    }
-  }
-
-  // Strategy 4: Find first '[' and last ']' (for array responses, though we expect object)
-  const firstBracket = trimmed.indexOf('[')
-  const lastBracket = trimmed.lastIndexOf(']')
-  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-    try {
-      const jsonCandidate = trimmed.slice(firstBracket, lastBracket + 1)
-      return JSON.parse(jsonCandidate)
-    } catch {
-      // All strategies failed
-    }
-  }
-
-  return null
+  cache?: QueryCacheOutcome
 }
 
 /**
@@ -100,8 +39,10 @@ function containsNonLatinScript(text: string): boolean {
 
 /**
  * Check if a query is bad/invalid (too short, generic words, etc.)
+ *
+ * @param brandNames - Brand and its registry aliases; any of them counts as a mention
  */
-function isBadQuery(q: string, brand?: string): boolean {
+function isBadQuery(q: string, brandNames: string[] = []): boolean {
   if (!q || typeof q !== 'string') return true
   
   const trimmed = q.trim().toLowerCase()
@@ -118,9 +59,9 @@ function isBadQuery(q: string, brand?: string): boolean {
   if (letterNumberCount < 5) return true
   
   // If brand exists but query doesn't contain brand or product keywords
-  if (brand && brand.trim().length > 0) {
-    const brandLower = brand.toLowerCase()
-    const hasBrand = trimmed.includes(brandLower)
+  if (brandNames.some((name) => name.trim().length > 0)) {
+    // "Tony Moly" and "TONYMOLY" count as the same brand
+    const hasBrand = textMentionsBrand(trimmed, brandNames)
     // Check if it has product-like keywords (common product words)
     const productKeywords = ['ml', 'g', 'oz', 'pack', 'set', 'toner', 'serum', 'cream', 'lotion', 'product', 'item']
     const hasProductKeywords = productKeywords.some(kw => trimmed.includes(kw))
@@ -132,16 +73,36 @@ function isBadQuery(q: string, brand?: string): boolean {
   return false
 }
 
+/**
+ * Glossary terms for query building; image search works without a database
+ */
+async function loadGlossary(): Promise<GlossaryTerm[]> {
+  try {
+    return await listGlossaryTerms()
+  } catch {
+    return []
+  }
+}
+
 /**
  * Clean title by removing promotional text, brackets, etc.
+ *
+ * Glossary terms with an English form are replaced by it; other protected
+ * terms (brand names, 200ml) are kept verbatim instead of being stripped.
  */
-function cleanTitle(title: string): string {
+function cleanTitle(title: string, glossary: GlossaryTerm[] = []): string {
   if (!title) return ''
   
   let cleaned = title.trim()
   
   // Remove bracketed content: [1월 올영픽/리뉴얼], (기획), etc.
   cleaned = cleaned.replace(/\[[^\]]*\]/g, '').replace(/\([^)]*\)/g, '')
+
+  // Shield glossary terms from the promo and punctuation cleanup below
+  const masked = maskGlossaryTerms(cleaned, glossary, (term, matched) =>
+    term.english ?? (term.mode === 'protect' ? matched : null)
+  )
+  cleaned = masked.text
   
   // Remove common Korean promotional terms
   const koreanPromos = ['올영픽', '리뉴얼', '기획', '더블', '세트', '증정', '1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월']
@@ -150,9 +111,12 @@ function cleanTitle(title: string): string {
   }
   
   // Remove extra punctuation and whitespace
-  cleaned = cleaned.replace(/[^\w\s\-\.\/]/g, ' ').replace(/\s+/g, ' ').trim()
+  cleaned = cleaned.replace(/[^\w\s\-\.\/]/g, ' ')
+
+  // Space out placeholders so adjacent terms ("아누아토너") stay separate words
+  cleaned = restoreGlossaryTerms(cleaned.replace(/(__G\d+__)/g, ' $1 '), masked.replacements).text
   
-  return cleaned
+  return cleaned.replace(/\s+/g, ' ').trim()
 }
 
 /**
@@ -209,44 +173,20 @@ async function translateToEnglish(
   geminiModel: string
 ): Promise<string> {
   try {
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${geminiApiKey}`
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: `Convert this product title (KR/MN/RU/mixed) into a short English Google Images query for product photos. Reply with ONE LINE only, no explanations.
+    const translated = await generateGeminiContent(
+      `Convert this product title (KR/MN/RU/mixed) into a short English Google Images query for product photos. Reply with ONE LINE only, no explanations.
 
 Product: ${text}`,
-              },
-            ],
-          },
-        ],
+      {
+        apiKey: geminiApiKey,
+        model: geminiModel,
         generationConfig: {
           temperature: 0,
           maxOutputTokens: 40,
         },
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`Translation API error: ${response.status}`)
-    }
-
-    const data: GeminiResponse = await response.json()
-
-    if (data.error) {
-      throw new Error(`Translation API error: ${data.error.message || 'Unknown error'}`)
-    }
-
-    const translated = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim()
-    return translated || ''
+      }
+    )
+    return translated.trim()
   } catch (error) {
     // If translation fails, return empty to trigger final fallback
     return ''
@@ -257,14 +197,38 @@ Product: ${text}`,
  * Build an English image search query from product information
  * 
  * Uses Gemini API if available, otherwise falls back to simple concatenation.
+ * Gemini queries are cached (namespace imageQuery) on the normalized title,
+ * brand, store and category; fallbacks are not, so they get retried.
  * 
  * @param input - Product information (title, brand, store, category)
+ * @param options - bypassCache: ask Gemini even when a cached query exists
  * @returns English query optimized for image search
  */
 export async function buildEnglishImageQuery(
+  input: BuildQueryInput,
+  options: { bypassCache?: boolean } = {}
+): Promise<BuildQueryResult> {
+  const { value, outcome } = await withQueryCache(
+    'imageQuery',
+    {
+      title: input.title || '',
+      brand: input.brand || '',
+      store: input.store || '',
+      category: input.category || '',
+      model: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+    },
+    () => generateEnglishImageQuery(input),
+    { bypass: options.bypassCache, shouldStore: (result) => result.method !== 'fallback' }
+  )
+  return { ...value, cache: outcome }
+}
+
+async function generateEnglishImageQuery(
   input: BuildQueryInput
 ): Promise<BuildQueryResult> {
   const { title, brand, store, category } = input
+  const brandNames = [brand, ...(input.brandAliases ?? [])].filter((name): name is string => !!name)
+  const glossary = await loadGlossary()
 
   // Check if image search is enabled and Gemini API key is available
   const imageSearchEnabled = process.env.IMAGE_SEARCH_ENABLED === 'true'
@@ -273,7 +237,7 @@ export async function buildEnglishImageQuery(
 
   // Fallback if Gemini is not available
   if (!imageSearchEnabled || !geminiApiKey) {
-    const cleanedTitle = cleanTitle(title || '')
+    const cleanedTitle = cleanTitle(title || '', glossary)
     const fallbackQueryBase = [brand, cleanedTitle].filter(Boolean).join(' ').trim() || 'product'
     const negativeTerms = '-json -schema -code -programming -api -database -tutorial -diagram -screenshot'
     const fallbackQueryFinal = `${fallbackQueryBase} ${negativeTerms}`.trim()
@@ -301,6 +265,10 @@ export async function buildEnglishImageQuery(
     if (category) {
       promptParts.push(`Category: "${category}"`)
     }
+    const glossaryHints = findGlossaryTerms(title || '', glossary).filter((t) => t.english)
+    if (glossaryHints.length > 0) {
+      promptParts.push(`Glossary (use these English terms): ${glossaryHints.map((t) => `"${t.source}" → "${t.english}"`).join(', ')}`)
+    }
 
     const prompt = `Convert the following product information into a SHORT, clean English query for Google Images product photo search.
 
@@ -323,72 +291,33 @@ Example transformations:
 - "SK-II Facial Treatment Essence 230ml Authentic Original" → "sk2 facial treatment essence 230ml"
 - "Laneige Water Bank Hyaluronic Serum 50ml 2-Pack Set" → "laneige water bank hyaluronic serum 50ml"`
 
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${geminiApiKey}`
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt,
-              },
-            ],
-          },
-        ],
-        systemInstruction: {
-          parts: [
-            {
-              text: 'Return ONLY valid JSON. No markdown, no explanations. Output must be valid JSON object with queryEn and optional reason fields.',
+    // Extract JSON response from Gemini
+    const textContent = await generateGeminiContent(prompt, {
+      apiKey: geminiApiKey,
+      model: geminiModel,
+      systemInstruction: 'Return ONLY valid JSON. No markdown, no explanations. Output must be valid JSON object with queryEn and optional reason fields.',
+      generationConfig: {
+        temperature: 0,
+        maxOutputTokens: 80, // Reduced for shorter queries (5-12 words)
+        responseMimeType: 'application/json',
+        responseJsonSchema: {
+          type: 'object',
+          properties: {
+            queryEn: {
+              type: 'string',
+              description: 'English search query for Google Images',
             },
-          ],
-        },
-        generationConfig: {
-          temperature: 0,
-          maxOutputTokens: 80, // Reduced for shorter queries (5-12 words)
-          responseMimeType: 'application/json',
-          responseJsonSchema: {
-            type: 'object',
-            properties: {
-              queryEn: {
-                type: 'string',
-                description: 'English search query for Google Images',
-              },
-              reason: {
-                type: 'string',
-                description: 'Brief explanation of query optimization',
-              },
+            reason: {
+              type: 'string',
+              description: 'Brief explanation of query optimization',
             },
-            required: ['queryEn'],
-            additionalProperties: false,
           },
+          required: ['queryEn'],
+          additionalProperties: false,
         },
-      }),
+      },
     })
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`Gemini API error: ${response.status} ${response.statusText} - ${errorText}`)
-    }
-
-    const data: GeminiResponse = await response.json()
-
-    // Handle API errors
-    if (data.error) {
-      throw new Error(`Gemini API error: ${data.error.code} - ${data.error.message || 'Unknown error'}`)
-    }
-
-    // Extract JSON response from Gemini
-    const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text
-
-    if (!textContent) {
-      throw new Error('Gemini API returned empty response')
-    }
-
     // Try to extract and parse JSON using robust extractor
     const parsed = extractJson(textContent)
 
@@ -430,12 +359,12 @@ Example transformations:
     }
 
     // Validate query - if bad, try second Gemini call or deterministic fallback
-    if (!queryEnBase || queryEnBase.trim().length === 0 || isBadQuery(queryEnBase, brand)) {
+    if (!queryEnBase || queryEnBase.trim().length === 0 || isBadQuery(queryEnBase, brandNames)) {
       // Try second Gemini call (cheap, one-line output)
       if (geminiApiKey && title) {
         try {
           const secondCallResult = await translateToEnglish(title, geminiApiKey, geminiModel)
-          if (secondCallResult && secondCallResult.trim().length > 0 && !isBadQuery(secondCallResult, brand)) {
+          if (secondCallResult && secondCallResult.trim().length > 0 && !isBadQuery(secondCallResult, brandNames)) {
             queryEnBase = secondCallResult.trim()
             reason = 'Second Gemini call (one-line)'
           }
@@ -445,8 +374,8 @@ Example transformations:
       }
       
       // If still bad or no second call, use deterministic fallback
-      if (!queryEnBase || isBadQuery(queryEnBase, brand)) {
-        const cleanedTitle = cleanTitle(title || '')
+      if (!queryEnBase || isBadQuery(queryEnBase, brandNames)) {
+        const cleanedTitle = cleanTitle(title || '', glossary)
         queryEnBase = [brand, cleanedTitle].filter(Boolean).join(' ').trim() || 'product'
         reason = 'Deterministic fallback'
       }
@@ -463,10 +392,10 @@ Example transformations:
     const queryEnFinal = `${queryEnBase} ${negativeTerms}`.trim()
 
     // Determine method
-    const fallbackQuery = [brand, cleanTitle(title || '')].filter(Boolean).join(' ').trim() || 'product'
-    const method = parsed && typeof parsed.queryEn === 'string' && !isBadQuery(queryEnBase, brand)
+    const fallbackQuery = [brand, cleanTitle(title || '', glossary)].filter(Boolean).join(' ').trim() || 'product'
+    const method = parsed && typeof parsed.queryEn === 'string' && !isBadQuery(queryEnBase, brandNames)
       ? 'gemini' 
-      : (queryEnBase !== fallbackQuery && !isBadQuery(queryEnBase, brand) ? 'gemini-translate' : 'fallback')
+      : (queryEnBase !== fallbackQuery && !isBadQuery(queryEnBase, brandNames) ? 'gemini-translate' : 'fallback')
 
     return {
       queryEnBase,
@@ -476,7 +405,7 @@ Example transformations:
     }
   } catch (error: any) {
     // On any error, fall back to simple concatenation
-    const cleanedTitle = cleanTitle(title || '')
+    const cleanedTitle = cleanTitle(title || '', glossary)
     const fallbackQueryBase = [brand, cleanedTitle].filter(Boolean).join(' ').trim() || 'product'
     const negativeTerms = '-json -schema -code -programming -api -database -tutorial -diagram -screenshot'
     const fallbackQueryFinal = `${fallbackQueryBase} ${negativeTerms}`.trim()
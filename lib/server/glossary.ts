@@ -0,0 +1,325 @@
+/**
+ * Translation glossary
+ *
+ * Recurring terms (토너, 세럼, brand names, 200ml) must come out the same way
+ * in every product. Each term in `glossary_terms` either:
+ * - protect: stays verbatim in the Mongolian text
+ * - map: is always rendered as its fixed Mongolian `target`
+ *
+ * Enforcement masks matched terms with placeholders (`__G0__`) before text goes
+ * to the translator or through `cleanTitle`, and restores them afterwards, so
+ * the output cannot drift. The checker reports products whose Mongolian text
+ * does not follow the glossary (e.g. edited by hand or translated before the
+ * term was added).
+ *
+ * Cached image search queries are built with the glossary, so every change
+ * purges them.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { purgeQueryCache } from './queryCache'
+import { GlossaryTerm, GlossaryTermMode } from '@/types/product'
+
+export interface GlossaryTermInput {
+  source: string
+  mode: GlossaryTermMode
+  target?: string
+  english?: string
+  note?: string
+}
+
+export interface MaskedText {
+  text: string
+  replacements: string[] // __G{i}__ restores to replacements[i]
+}
+
+export type GlossaryErrorCode = 'INVALID' | 'DUPLICATE' | 'NOT_FOUND'
+
+/**
+ * Thrown for rejected glossary writes; routes map `status` to the response code
+ */
+export class GlossaryError extends Error {
+  readonly code: GlossaryErrorCode
+  readonly details: string[]
+
+  constructor(code: GlossaryErrorCode, message: string, details: string[] = []) {
+    super(message)
+    this.name = 'GlossaryError'
+    this.code = code
+    this.details = details
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'DUPLICATE':
+        return 409
+      default:
+        return 400
+    }
+  }
+}
+
+const COLLECTION = 'glossary_terms'
+const PLACEHOLDER_PATTERN = /__G(\d+)__/g
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * One alternation over all sources, longest first so "토너패드" wins over "토너"
+ */
+function buildTermPattern(terms: GlossaryTerm[]): RegExp | null {
+  const sources = terms
+    .map((t) => t.source.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+  if (sources.length === 0) return null
+  return new RegExp(sources.map(escapeRegExp).join('|'), 'gi')
+}
+
+function findTerm(terms: GlossaryTerm[], matched: string): GlossaryTerm | undefined {
+  const key = matched.toLowerCase()
+  return terms.find((t) => t.source.trim().toLowerCase() === key)
+}
+
+/**
+ * Glossary terms occurring in a text
+ */
+export function findGlossaryTerms(text: string, terms: GlossaryTerm[]): GlossaryTerm[] {
+  const pattern = buildTermPattern(terms)
+  if (!text || !pattern) return []
+
+  const found = new Map<string, GlossaryTerm>()
+  for (const match of text.matchAll(pattern)) {
+    const term = findTerm(terms, match[0])
+    if (term) found.set(term.id, term)
+  }
+  return Array.from(found.values())
+}
+
+/**
+ * Replace glossary terms with placeholders
+ *
+ * @param render - What a placeholder restores to; null leaves the term in the text
+ */
+export function maskGlossaryTerms(
+  text: string,
+  terms: GlossaryTerm[],
+  render: (term: GlossaryTerm, matched: string) => string | null
+): MaskedText {
+  const pattern = buildTermPattern(terms)
+  if (!text || !pattern) return { text, replacements: [] }
+
+  const replacements: string[] = []
+  const masked = text.replace(pattern, (matched) => {
+    const term = findTerm(terms, matched)
+    const value = term ? render(term, matched) : null
+    if (value === null) return matched
+
+    let index = replacements.indexOf(value)
+    if (index === -1) {
+      index = replacements.length
+      replacements.push(value)
+    }
+    return `__G${index}__`
+  })
+
+  return { text: masked, replacements }
+}
+
+/**
+ * Put the rendered terms back in place of their placeholders
+ *
+ * @returns restored text and the terms whose placeholder was lost
+ */
+export function restoreGlossaryTerms(
+  text: string,
+  replacements: string[]
+): { text: string; missing: string[] } {
+  const seen = new Set<number>()
+  const restored = text.replace(PLACEHOLDER_PATTERN, (placeholder, index) => {
+    const i = Number(index)
+    if (i >= replacements.length) return placeholder
+    seen.add(i)
+    return replacements[i]
+  })
+  return {
+    text: restored,
+    missing: replacements.filter((_, i) => !seen.has(i)),
+  }
+}
+
+/**
+ * Render used for Mongolian output: fixed target for map terms, verbatim otherwise
+ */
+export function renderForTranslation(term: GlossaryTerm, matched: string): string {
+  return term.mode === 'map' && term.target ? term.target : matched
+}
+
+/**
+ * Glossary rules a translation breaks
+ *
+ * Every term found in the source text must appear in the Mongolian text as
+ * its target (map) or unchanged (protect).
+ */
+export function findTermViolations(
+  sourceText: string,
+  translatedText: string,
+  terms: GlossaryTerm[]
+): { term: string; expected: string; message: string }[] {
+  const haystack = (translatedText || '').toLowerCase()
+  return findGlossaryTerms(sourceText, terms).flatMap((term) => {
+    const expected = term.mode === 'map' && term.target ? term.target : term.source
+    if (haystack.includes(expected.toLowerCase())) return []
+    return [{
+      term: term.source,
+      expected,
+      message: term.mode === 'map'
+        ? `"${term.source}" must be translated as "${expected}"`
+        : `"${term.source}" must be kept unchanged`,
+    }]
+  })
+}
+
+/**
+ * Validate a glossary term from an API body
+ *
+ * @returns list of problems (empty when valid)
+ */
+export function validateGlossaryTermInput(input: any): string[] {
+  const errors: string[] = []
+  if (typeof input?.source !== 'string' || input.source.trim() === '') {
+    errors.push('source must be a non-empty string')
+  } else if (input.source.trim().length > 100) {
+    errors.push('source must be at most 100 characters')
+  }
+  if (!['protect', 'map'].includes(input?.mode)) {
+    errors.push('mode must be one of: protect, map')
+  }
+  if (input?.mode === 'map' && (typeof input?.target !== 'string' || input.target.trim() === '')) {
+    errors.push('target is required for map terms')
+  }
+  for (const field of ['target', 'english', 'note']) {
+    if (input?.[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+      errors.push(`${field} must be a string`)
+    }
+  }
+  return errors
+}
+
+function docToGlossaryTerm(doc: any): GlossaryTerm {
+  return {
+    id: doc._id.toString(),
+    source: doc.source,
+    mode: doc.mode,
+    target: doc.target || undefined,
+    english: doc.english || undefined,
+    note: doc.note || undefined,
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+    updatedAt: doc.updatedAt instanceof Date ? doc.updatedAt.toISOString() : doc.updatedAt,
+  }
+}
+
+function inputToFields(input: GlossaryTermInput) {
+  const source = input.source.trim()
+  return {
+    source,
+    sourceKey: source.toLowerCase(), // Unique, terms match case-insensitively
+    mode: input.mode,
+    target: input.mode === 'map' ? input.target?.trim() : undefined,
+    english: input.english?.trim() || undefined,
+    note: input.note?.trim() || undefined,
+  }
+}
+
+function assertValid(input: GlossaryTermInput) {
+  const errors = validateGlossaryTermInput(input)
+  if (errors.length > 0) {
+    throw new GlossaryError('INVALID', 'Invalid glossary term', errors)
+  }
+}
+
+async function getGlossaryCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection(COLLECTION)
+  await collection.createIndex({ sourceKey: 1 }, { unique: true, name: 'sourceKey_1' })
+  return collection
+}
+
+/**
+ * All glossary terms, alphabetical by source
+ */
+export async function listGlossaryTerms(): Promise<GlossaryTerm[]> {
+  const db = await getMongoDb()
+  const docs = await db.collection(COLLECTION).find({}).sort({ sourceKey: 1 }).toArray()
+  return docs.map(docToGlossaryTerm)
+}
+
+// Image search queries built with the old glossary; purge failures are not fatal
+async function purgeCachedImageQueries() {
+  try {
+    await purgeQueryCache({ namespace: 'imageQuery' })
+  } catch (error: any) {
+    console.warn('Failed to purge cached image queries:', error?.message ?? error)
+  }
+}
+
+export async function createGlossaryTerm(input: GlossaryTermInput): Promise<GlossaryTerm> {
+  assertValid(input)
+  const collection = await getGlossaryCollection()
+  const now = new Date()
+  const doc = { ...inputToFields(input), createdAt: now, updatedAt: now }
+
+  try {
+    const result = await collection.insertOne(doc)
+    await purgeCachedImageQueries()
+    return docToGlossaryTerm({ ...doc, _id: result.insertedId })
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new GlossaryError('DUPLICATE', `Glossary term already exists: ${doc.source}`)
+    }
+    throw error
+  }
+}
+
+export async function updateGlossaryTerm(id: string, input: GlossaryTermInput): Promise<GlossaryTerm> {
+  assertValid(input)
+  if (!ObjectId.isValid(id)) {
+    throw new GlossaryError('NOT_FOUND', `Glossary term not found: ${id}`)
+  }
+  const collection = await getGlossaryCollection()
+
+  try {
+    const updated = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { ...inputToFields(input), updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    )
+    if (!updated) {
+      throw new GlossaryError('NOT_FOUND', `Glossary term not found: ${id}`)
+    }
+    await purgeCachedImageQueries()
+    return docToGlossaryTerm(updated)
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new GlossaryError('DUPLICATE', `Glossary term already exists: ${input.source.trim()}`)
+    }
+    throw error
+  }
+}
+
+export async function deleteGlossaryTerm(id: string): Promise<void> {
+  if (!ObjectId.isValid(id)) {
+    throw new GlossaryError('NOT_FOUND', `Glossary term not found: ${id}`)
+  }
+  const db = await getMongoDb()
+  const result = await db.collection(COLLECTION).deleteOne({ _id: new ObjectId(id) })
+  if (result.deletedCount === 0) {
+    throw new GlossaryError('NOT_FOUND', `Glossary term not found: ${id}`)
+  }
+  await purgeCachedImageQueries()
+}
@@ -1,9 +1,15 @@
 /**
  * Google Custom Search API helper for image search
  * 
- * Searches Google Images using Custom Search API and returns image URLs.
+ * Searches Google Images using Custom Search API and returns image URLs
+ * (searchImages) or URLs with the metadata Google reports (searchImageResults).
+ * Used through the `google` provider of ./imageSearch. Every request counts
+ * against the Custom Search quota (see ./apiQuota).
  */
 
+import { withApiQuota } from './apiQuota'
+import type { ImageSearchResult } from './imageSearch'
+
 interface SearchImagesOptions {
   query: string
   num?: number // Max 10 per request
@@ -14,9 +20,13 @@ interface SearchImagesOptions {
 interface GoogleSearchResponse {
   items?: Array<{
     link?: string
+    mime?: string
     image?: {
       thumbnailLink?: string
       contextLink?: string
+      width?: number
+      height?: number
+      byteSize?: number
     }
   }>
   error?: {
@@ -31,12 +41,24 @@ interface GoogleSearchResponse {
  * @param options - Search options
  * @returns Array of image URLs (http/https only)
  */
-export async function searchImages({
+export async function searchImages(options: SearchImagesOptions): Promise<string[]> {
+  const results = await searchImageResults(options)
+  return results.map((result) => result.url)
+}
+
+/**
+ * Search images using Google Custom Search API, keeping per-image metadata
+ * 
+ * @param options - Search options
+ * @returns Results with http/https URLs only
+ * @throws QuotaExceededError when the Custom Search rate or daily budget is exhausted
+ */
+export async function searchImageResults({
   query,
   num = 10,
   start = 1,
   rights,
-}: SearchImagesOptions): Promise<string[]> {
+}: SearchImagesOptions): Promise<ImageSearchResult[]> {
   const apiKey = process.env.GOOGLE_CLOUD_API_KEY
   const cx = process.env.CUSTOM_SEARCH_ENGINE_ID
 
@@ -69,6 +91,13 @@ export async function searchImages({
 
   const url = `https://www.googleapis.com/customsearch/v1?${params.toString()}`
 
+  return withApiQuota('google-cse', () => fetchSearchResults(url))
+}
+
+/**
+ * Send one Custom Search request and extract the image results
+ */
+async function fetchSearchResults(url: string): Promise<ImageSearchResult[]> {
   // Use AbortController for timeout
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), 10000) // 10s timeout
@@ -96,7 +125,7 @@ export async function searchImages({
     }
 
     // Extract image URLs
-    const imageUrls: string[] = []
+    const results: ImageSearchResult[] = []
 
     if (data.items && Array.isArray(data.items)) {
       for (const item of data.items) {
@@ -106,13 +135,21 @@ export async function searchImages({
         if (imageUrl && typeof imageUrl === 'string') {
           // Only accept http/https URLs
           if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
-            imageUrls.push(imageUrl)
+            results.push({
+              url: imageUrl,
+              thumbnailUrl: item.image?.thumbnailLink,
+              contextUrl: item.image?.contextLink,
+              width: item.image?.width,
+              height: item.image?.height,
+              bytes: item.image?.byteSize,
+              mime: item.mime,
+            })
           }
         }
       }
     }
 
-    return imageUrls
+    return results
   } catch (error: any) {
     clearTimeout(timeoutId)
 
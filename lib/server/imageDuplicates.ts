@@ -0,0 +1,183 @@
+/**
+ * Perceptual-hash duplicate detection for product images
+ *
+ * Every ingested image gets a 64-bit difference hash (`phash`, 16 hex chars):
+ * the image is flattened onto white, reduced to 9×8 grayscale and each bit
+ * records whether a pixel is brighter than its right neighbour. Re-encoded or
+ * resized copies of the same picture land within a few bits of each other.
+ *
+ * Two kinds of suspicious images are reported:
+ * - shared: the same picture (phash, or file_id before ingestion) attached to
+ *   many products — typically placeholder listing images leaking in
+ * - near duplicates: two entries of one product's imagesFinal that show the
+ *   same picture
+ */
+
+import sharp from 'sharp'
+import { getMongoDb } from '../mongodb'
+import { ImageDuplicateWarning, SharedImageReportItem } from '@/types/product'
+import { getProductById } from './products'
+
+// Hamming distance at or below which two hashes are the same picture
+export const NEAR_DUPLICATE_DISTANCE = 6
+
+// An image attached to this many products is flagged as shared
+export const SHARED_IMAGE_MIN_PRODUCTS = Number(process.env.SHARED_IMAGE_MIN_PRODUCTS) || 3
+
+/**
+ * 64-bit difference hash of an image as 16 hex characters
+ */
+export async function computePerceptualHash(body: Buffer): Promise<string> {
+  const pixels = await sharp(body)
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  // Pack 4 comparisons per hex digit, row by row
+  let hex = ''
+  for (let i = 0; i < 64; i += 4) {
+    let nibble = 0
+    for (let bit = i; bit < i + 4; bit++) {
+      const offset = Math.floor(bit / 8) * 9 + (bit % 8)
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0)
+    }
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let count = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff > 0) {
+      count += diff & 1
+      diff >>= 1
+    }
+  }
+  return count
+}
+
+/**
+ * Images attached to at least `minProducts` products, most shared first
+ *
+ * Ingested images are grouped by phash; images not ingested yet by file_id.
+ */
+export async function findSharedImages(options: {
+  minProducts?: number
+  limit?: number
+} = {}): Promise<SharedImageReportItem[]> {
+  const minProducts = options.minProducts ?? SHARED_IMAGE_MIN_PRODUCTS
+  const limit = options.limit ?? 100
+  const db = await getMongoDb()
+  const images = db.collection('images')
+
+  const groupBy = async (kind: SharedImageReportItem['kind'], field: string, match: any) => {
+    const groups = await images
+      .aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: `$${field}`,
+            productIds: { $addToSet: '$productId' },
+            urls: { $addToSet: '$url' },
+            originalUrls: { $addToSet: '$originalUrl' },
+          },
+        },
+        { $addFields: { productCount: { $size: '$productIds' } } },
+        { $match: { productCount: { $gte: minProducts } } },
+        { $sort: { productCount: -1 } },
+        { $limit: limit },
+      ])
+      .toArray()
+
+    return groups.map((group): SharedImageReportItem => ({
+      kind,
+      key: String(group._id),
+      productCount: group.productCount,
+      productIds: group.productIds.slice(0, 50).map((id: any) => id.toString()),
+      sampleUrl: group.urls[0],
+      originalUrls: group.originalUrls.filter(Boolean).slice(0, 10),
+    }))
+  }
+
+  const [byHash, byFileId] = await Promise.all([
+    groupBy('phash', 'phash', { phash: { $exists: true } }),
+    groupBy('file_id', 'file_id', { phash: { $exists: false }, file_id: { $exists: true } }),
+  ])
+
+  return [...byHash, ...byFileId]
+    .sort((a, b) => b.productCount - a.productCount)
+    .slice(0, limit)
+}
+
+/**
+ * Duplicate warnings for a product's imagesFinal, for the editor
+ */
+export async function getImageDuplicateWarnings(idOrSlug: string): Promise<ImageDuplicateWarning[]> {
+  const product: any = await getProductById(idOrSlug)
+  if (!product) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+
+  const finalUrls: string[] = Array.isArray(product.imagesFinal) ? product.imagesFinal : []
+  if (finalUrls.length === 0) return []
+
+  const db = await getMongoDb()
+  const images = db.collection('images')
+  const docs = await images
+    .find({ $or: [{ url: { $in: finalUrls } }, { originalUrl: { $in: finalUrls } }] })
+    .toArray()
+
+  // Prefer this product's own document for a URL
+  const docByUrl = new Map<string, any>()
+  for (const doc of docs) {
+    for (const url of [doc.url, doc.originalUrl]) {
+      if (!url) continue
+      const current = docByUrl.get(url)
+      if (!current || doc.productId.toString() === product.id) docByUrl.set(url, doc)
+    }
+  }
+
+  const warnings: ImageDuplicateWarning[] = []
+
+  for (const url of finalUrls) {
+    const doc = docByUrl.get(url)
+    const filter = doc?.phash ? { phash: doc.phash } : doc?.file_id ? { file_id: doc.file_id } : null
+    if (!filter) continue
+
+    const productIds = await images.distinct('productId', filter)
+    const otherProducts = productIds.filter((id: any) => id.toString() !== product.id).length
+    if (otherProducts + 1 >= SHARED_IMAGE_MIN_PRODUCTS) {
+      warnings.push({
+        url,
+        kind: 'shared',
+        productCount: otherProducts + 1,
+        message: `Used by ${otherProducts} other product${otherProducts === 1 ? '' : 's'}, possibly a placeholder image`,
+      })
+    }
+  }
+
+  const hashed = finalUrls
+    .map((url) => ({ url, phash: docByUrl.get(url)?.phash as string | undefined }))
+    .filter((entry): entry is { url: string; phash: string } => !!entry.phash)
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      const distance = hammingDistance(hashed[i].phash, hashed[j].phash)
+      if (distance <= NEAR_DUPLICATE_DISTANCE) {
+        warnings.push({
+          url: hashed[j].url,
+          kind: 'nearDuplicate',
+          otherUrl: hashed[i].url,
+          distance,
+          message: `Near-duplicate of image ${finalUrls.indexOf(hashed[i].url) + 1} (distance ${distance})`,
+        })
+      }
+    }
+  }
+
+  return warnings
+}
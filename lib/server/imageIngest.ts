@@ -0,0 +1,613 @@
+/**
+ * Image ingestion: download source images and rehost them
+ *
+ * `imagesFinal` and the `images` collection start out with hotlinked URLs
+ * (gdimg.gmarket.co.kr, images.samsung.com, ...) which break or get rate
+ * limited. Ingestion downloads each URL, checks content-type and size, sniffs
+ * the real format and dimensions, and stores the bytes in the storage backend
+ * under a content hash key (identical files are stored once).
+ *
+ * The `images` documents get the rehosted `url` plus `originalUrl`, width,
+ * height, sha256, perceptual hash (see imageDuplicates.ts) and storage key;
+ * `imagesFinal` is rewritten to rehosted URLs and their size variants are
+ * generated (see imageVariants.ts).
+ * A URL that fails keeps pointing at the source and is retried by later runs
+ * with a growing delay, up to IMAGE_INGEST_MAX_ATTEMPTS (default 5) times.
+ */
+
+import { createHash } from 'crypto'
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { ProductImageIngestResult, ProductImageRecord } from '@/types/product'
+import { computePerceptualHash } from './imageDuplicates'
+import { generateProductImageVariants } from './imageVariants'
+import { getProductById, updateProductById } from './products'
+import { AuditContext, SYSTEM_AUDIT_CONTEXT } from './audit'
+import { getStorageBackend, StorageBackend } from './storage'
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif'
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+}
+
+const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  gif: 'gif',
+}
+
+export const MAX_IMAGE_BYTES = Number(process.env.IMAGE_MAX_BYTES) || 10 * 1024 * 1024
+const FETCH_TIMEOUT_MS = 15000
+const MAX_REDIRECTS = 5
+
+// Failed downloads are retried after 1h, 2h, 4h, ... until they give up
+const MAX_INGEST_ATTEMPTS = Number(process.env.IMAGE_INGEST_MAX_ATTEMPTS) || 5
+const INGEST_RETRY_BASE_MS = 60 * 60 * 1000
+
+export interface IngestedImage {
+  originalUrl: string
+  url: string // Rehosted URL
+  storageKey: string
+  storageBackend: string
+  contentType: string
+  bytes: number
+  width: number
+  height: number
+  sha256: string
+  phash: string
+}
+
+export type ImageIngestErrorCode =
+  | 'INVALID_URL'
+  | 'BLOCKED_HOST'
+  | 'FETCH_FAILED'
+  | 'UNSUPPORTED_TYPE'
+  | 'TOO_LARGE'
+  | 'INVALID_IMAGE'
+
+export class ImageIngestError extends Error {
+  readonly code: ImageIngestErrorCode
+
+  constructor(code: ImageIngestErrorCode, message: string) {
+    super(message)
+    this.name = 'ImageIngestError'
+    this.code = code
+  }
+}
+
+/**
+ * Format and pixel size from the file header (JPEG, PNG, GIF, WebP)
+ *
+ * @returns null when the bytes are not a supported image
+ */
+export function readImageInfo(buf: Buffer): { format: ImageFormat; width: number; height: number } | null {
+  if (buf.length < 12) return null
+
+  // PNG: signature, then the IHDR chunk
+  if (buf.readUInt32BE(0) === 0x89504e47 && buf.length >= 24) {
+    return { format: 'png', width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) }
+  }
+
+  // GIF87a / GIF89a: logical screen size, little endian
+  if (buf.toString('ascii', 0, 3) === 'GIF') {
+    return { format: 'gif', width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) }
+  }
+
+  // WebP: RIFF container with a VP8 / VP8L / VP8X chunk
+  if (buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP' && buf.length >= 30) {
+    const chunk = buf.toString('ascii', 12, 16)
+    if (chunk === 'VP8 ') {
+      return { format: 'webp', width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff }
+    }
+    if (chunk === 'VP8L') {
+      const bits = buf.readUInt32LE(21)
+      return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (chunk === 'VP8X') {
+      return { format: 'webp', width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 }
+    }
+    return null
+  }
+
+  // JPEG: walk the segments up to the first start-of-frame marker
+  if (buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return null
+      const marker = buf[offset + 1]
+      // Padding bytes and markers without a length field
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        offset += 2
+        continue
+      }
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { format: 'jpeg', height: buf.readUInt16BE(offset + 5), width: buf.readUInt16BE(offset + 7) }
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2)
+    }
+    return null
+  }
+
+  return null
+}
+
+async function readBodyWithLimit(response: Response, limit: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Buffer[] = []
+  let total = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > limit) {
+      await reader.cancel()
+      throw new ImageIngestError('TOO_LARGE', `Image exceeds ${limit} bytes`)
+    }
+    chunks.push(Buffer.from(value))
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not a
+ * public internet host (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isBlockedAddress(address: string): boolean {
+  let ip = address.toLowerCase()
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) ip = mapped[1]
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number)
+    return (
+      a === 0 ||                           // "this" network
+      a === 10 ||                          // private
+      a === 127 ||                         // loopback
+      (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+      (a === 169 && b === 254) ||          // link-local (cloud metadata)
+      (a === 172 && b >= 16 && b <= 31) || // private
+      (a === 192 && b === 168) ||          // private
+      a >= 224                             // multicast and reserved
+    )
+  }
+
+  if (isIP(ip) === 6) {
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) ||       // unique local fc00::/7
+      /^fe[89ab]/.test(ip) ||    // link-local fe80::/10
+      /^ff/.test(ip) ||          // multicast
+      /^::ffff:/.test(ip)        // mapped IPv4 in hex form
+    )
+  }
+
+  return true
+}
+
+/**
+ * Reject URLs that are not http(s) or whose host resolves to a blocked address
+ */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageIngestError('INVALID_URL', `Unsupported image URL protocol: ${url.protocol}`)
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+  if (isIP(host)) {
+    addresses = [host]
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((entry) => entry.address)
+    } catch (error: any) {
+      throw new ImageIngestError('FETCH_FAILED', `Could not resolve ${host}: ${error?.code ?? error?.message ?? error}`)
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new ImageIngestError('BLOCKED_HOST', `Refusing to fetch from non-public host: ${host}`)
+  }
+}
+
+/**
+ * Download an image, enforcing content-type and MAX_IMAGE_BYTES
+ *
+ * Only public hosts are fetched: the host is resolved and checked before the
+ * request and again for every redirect, which is followed by hand.
+ */
+export async function downloadImage(url: string): Promise<{ body: Buffer; contentType: string }> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new ImageIngestError('INVALID_URL', `Invalid image URL: ${url}`)
+  }
+
+  // Use AbortController for timeout
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+
+  try {
+    let response: Response
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(parsed)
+      response = await fetch(parsed, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: {
+          'Accept': 'image/avif,image/webp,image/png,image/jpeg,image/*;q=0.8',
+          'User-Agent': 'Mozilla/5.0 (compatible; ProductImportTool/0.1)',
+          // Korean CDNs reject requests without a same-site referer
+          'Referer': `${parsed.origin}/`,
+        },
+      })
+
+      const location = response.headers.get('location')
+      if (response.status < 300 || response.status >= 400 || !location) break
+      if (redirects >= MAX_REDIRECTS) {
+        throw new ImageIngestError('FETCH_FAILED', `Too many redirects for ${url}`)
+      }
+      await response.body?.cancel()
+      try {
+        parsed = new URL(location, parsed)
+      } catch {
+        throw new ImageIngestError('INVALID_URL', `Invalid redirect location: ${location}`)
+      }
+    }
+
+    if (!response.ok) {
+      throw new ImageIngestError('FETCH_FAILED', `HTTP ${response.status} for ${url}`)
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase()
+    if (!contentType.startsWith('image/')) {
+      throw new ImageIngestError('UNSUPPORTED_TYPE', `Not an image (content-type: ${contentType || 'none'})`)
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'))
+    if (declaredLength > MAX_IMAGE_BYTES) {
+      throw new ImageIngestError('TOO_LARGE', `Image exceeds ${MAX_IMAGE_BYTES} bytes (${declaredLength})`)
+    }
+
+    const body = await readBodyWithLimit(response, MAX_IMAGE_BYTES)
+    return { body, contentType }
+  } catch (error: any) {
+    if (error instanceof ImageIngestError) throw error
+    if (error?.name === 'AbortError') {
+      throw new ImageIngestError('FETCH_FAILED', `Timed out after ${FETCH_TIMEOUT_MS}ms: ${url}`)
+    }
+    throw new ImageIngestError('FETCH_FAILED', error?.message ?? String(error))
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Download one URL and store it (skipped when the same bytes are already stored)
+ */
+export async function ingestImage(
+  url: string,
+  storage: StorageBackend = getStorageBackend()
+): Promise<IngestedImage> {
+  const { body } = await downloadImage(url)
+
+  // The declared content-type is often wrong (image/jpg, image/x-png); trust the bytes
+  const info = readImageInfo(body)
+  if (!info || info.width === 0 || info.height === 0) {
+    throw new ImageIngestError('INVALID_IMAGE', `Unsupported or corrupt image data: ${url}`)
+  }
+
+  const sha256 = createHash('sha256').update(body).digest('hex')
+  const storageKey = `images/${sha256.slice(0, 2)}/${sha256}.${IMAGE_EXTENSIONS[info.format]}`
+  const contentType = IMAGE_CONTENT_TYPES[info.format]
+
+  let phash: string
+  try {
+    phash = await computePerceptualHash(body)
+  } catch (error: any) {
+    throw new ImageIngestError('INVALID_IMAGE', `Could not decode image: ${error?.message ?? String(error)}`)
+  }
+
+  if (!(await storage.headObject(storageKey))) {
+    await storage.putObject(storageKey, body, contentType)
+  }
+
+  return {
+    originalUrl: url,
+    url: storage.getPublicUrl(storageKey),
+    storageKey,
+    storageBackend: storage.name,
+    contentType,
+    bytes: body.length,
+    width: info.width,
+    height: info.height,
+    sha256,
+    phash,
+  }
+}
+
+export function isRehostedUrl(url: string, storage: StorageBackend = getStorageBackend()): boolean {
+  return url.startsWith(storage.getPublicUrl(''))
+}
+
+function docToImageRecord(doc: any): ProductImageRecord {
+  return {
+    id: doc._id.toString(),
+    productId: doc.productId.toString(),
+    file_id: doc.file_id,
+    url: doc.url,
+    provider: doc.provider,
+    sort: doc.sort ?? 0,
+    originalUrl: doc.originalUrl,
+    storageKey: doc.storageKey,
+    contentType: doc.contentType,
+    bytes: doc.bytes,
+    width: doc.width,
+    height: doc.height,
+    sha256: doc.sha256,
+    phash: doc.phash,
+    ingestStatus: doc.ingestStatus,
+    ingestError: doc.ingestError ?? undefined,
+    ingestAttempts: doc.ingestAttempts ?? undefined,
+    ingestedAt: doc.ingestedAt instanceof Date ? doc.ingestedAt.toISOString() : doc.ingestedAt,
+    variants: doc.variants,
+    variantsGeneratedAt: doc.variantsGeneratedAt instanceof Date
+      ? doc.variantsGeneratedAt.toISOString()
+      : doc.variantsGeneratedAt,
+  }
+}
+
+/**
+ * Images of a product ordered by sort
+ */
+export async function listProductImages(productId: string): Promise<ProductImageRecord[]> {
+  const db = await getMongoDb()
+  const docs = await db
+    .collection('images')
+    .find({ productId: new ObjectId(productId) })
+    .sort({ sort: 1 })
+    .toArray()
+  return docs.map(docToImageRecord)
+}
+
+/**
+ * Rehost every hotlinked image of a product (images documents and imagesFinal)
+ */
+export async function ingestProductImages(
+  idOrSlug: string,
+  options: { storage?: StorageBackend; context?: AuditContext } = {}
+): Promise<ProductImageIngestResult> {
+  const storage = options.storage ?? getStorageBackend()
+  const context = options.context ?? SYSTEM_AUDIT_CONTEXT
+  const product: any = await getProductById(idOrSlug)
+  if (!product) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+
+  const db = await getMongoDb()
+  const imagesCollection = db.collection('images')
+  const productObjectId = new ObjectId(product.id)
+  const imageDocs = await imagesCollection.find({ productId: productObjectId }).sort({ sort: 1 }).toArray()
+
+  const finalUrls: string[] = Array.isArray(product.imagesFinal) && product.imagesFinal.length > 0
+    ? product.imagesFinal
+    : Array.isArray(product.custom_properties?.imageUrls) ? product.custom_properties.imageUrls : []
+
+  const pendingUrls = new Set<string>()
+  for (const doc of imageDocs) {
+    if (doc.url && !isRehostedUrl(doc.url, storage)) pendingUrls.add(doc.url)
+  }
+  for (const url of finalUrls) {
+    if (url && !isRehostedUrl(url, storage)) pendingUrls.add(url)
+  }
+
+  const result: ProductImageIngestResult = {
+    productId: product.id,
+    ingested: 0,
+    reused: 0,
+    failed: [],
+    variantsGenerated: 0,
+    images: [],
+  }
+  const ingested = new Map<string, IngestedImage>()
+  const failures = new Map<string, string>()
+
+  // Sequential on purpose: be gentle with the source CDNs
+  for (const url of Array.from(pendingUrls)) {
+    // Same source URL already rehosted for another product
+    const existing = await imagesCollection.findOne({ originalUrl: url, ingestStatus: 'done' })
+    if (existing?.storageKey && existing.phash && (await storage.headObject(existing.storageKey))) {
+      ingested.set(url, {
+        originalUrl: url,
+        url: storage.getPublicUrl(existing.storageKey),
+        storageKey: existing.storageKey,
+        storageBackend: storage.name,
+        contentType: existing.contentType,
+        bytes: existing.bytes,
+        width: existing.width,
+        height: existing.height,
+        sha256: existing.sha256,
+        phash: existing.phash,
+      })
+      result.reused++
+      continue
+    }
+
+    try {
+      ingested.set(url, await ingestImage(url, storage))
+      result.ingested++
+    } catch (error: any) {
+      const message = error instanceof ImageIngestError ? `${error.code}: ${error.message}` : error?.message ?? String(error)
+      failures.set(url, message)
+      result.failed.push({ url, error: message })
+    }
+  }
+
+  const now = new Date()
+  const imageUpdates: any[] = []
+
+  for (const doc of imageDocs) {
+    const image = ingested.get(doc.url)
+    const error = failures.get(doc.url)
+    if (image) {
+      const { originalUrl, ...meta } = image
+      imageUpdates.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: {
+            $set: { ...meta, originalUrl, ingestStatus: 'done', ingestedAt: now },
+            $unset: { ingestError: '', ingestAttempts: '', ingestRetryAt: '' },
+          },
+        },
+      })
+    } else if (error) {
+      const attempts = (doc.ingestAttempts ?? 0) + 1
+      imageUpdates.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: {
+            $set: {
+              originalUrl: doc.url,
+              ingestStatus: 'failed',
+              ingestError: error,
+              ingestedAt: now,
+              ingestAttempts: attempts,
+              ingestRetryAt: new Date(now.getTime() + INGEST_RETRY_BASE_MS * 2 ** (attempts - 1)),
+            },
+          },
+        },
+      })
+    }
+  }
+
+  // Final images added in the editor have no images document yet
+  const knownUrls = new Set(imageDocs.flatMap((doc) => [doc.url, doc.originalUrl].filter(Boolean)))
+  finalUrls.forEach((url, index) => {
+    const image = ingested.get(url)
+    if (!image || knownUrls.has(url)) return
+    const { originalUrl, ...meta } = image
+    imageUpdates.push({
+      insertOne: {
+        document: {
+          productId: productObjectId,
+          file_id: `ing_${image.sha256.slice(0, 16)}`,
+          provider: 'editor',
+          sort: 100 + index,
+          ...meta,
+          originalUrl,
+          ingestStatus: 'done',
+          ingestedAt: now,
+        },
+      },
+    })
+  })
+
+  // Images rehosted before perceptual hashing existed
+  for (const doc of imageDocs) {
+    if (doc.ingestStatus !== 'done' || doc.phash || doc.phashError || !doc.storageKey) continue
+    const object = await storage.getObject(doc.storageKey)
+    let update: Record<string, string>
+    try {
+      if (!object) throw new Error('stored file is missing')
+      update = { phash: await computePerceptualHash(object.body) }
+    } catch (error: any) {
+      // Not retried: the stored bytes will not change
+      console.warn(`Could not hash stored image ${doc.storageKey}:`, error?.message ?? error)
+      update = { phashError: error?.message ?? String(error) }
+    }
+    imageUpdates.push({ updateOne: { filter: { _id: doc._id }, update: { $set: update } } })
+  }
+
+  if (imageUpdates.length > 0) {
+    await imagesCollection.bulkWrite(imageUpdates)
+  }
+
+  const rehostedFinal = finalUrls.map((url) => ingested.get(url)?.url ?? url)
+  if (rehostedFinal.some((url, i) => url !== finalUrls[i])) {
+    await updateProductById(product.id, { imagesFinal: rehostedFinal }, context)
+  }
+
+  const variants = await generateProductImageVariants(product.id, { storage, context })
+  result.variantsGenerated = variants.generated
+  for (const failure of variants.failed) {
+    result.failed.push({ url: failure.url, error: `VARIANTS_FAILED: ${failure.error}` })
+  }
+
+  result.images = await listProductImages(product.id)
+  return result
+}
+
+/**
+ * Products that still have hotlinked or unhashed images, or failed ones due
+ * for a retry, oldest first
+ *
+ * Images of products that no longer exist are skipped (and logged), as are
+ * products in the trash.
+ */
+export async function findProductsWithPendingImages(limit = 100): Promise<string[]> {
+  const db = await getMongoDb()
+  const now = new Date()
+  const cursor = db.collection('images').aggregate([
+    {
+      $match: {
+        $or: [
+          { ingestStatus: { $exists: false } },
+          {
+            ingestStatus: 'failed',
+            ingestAttempts: { $not: { $gte: MAX_INGEST_ATTEMPTS } },
+            ingestRetryAt: { $not: { $gt: now } },
+          },
+          { ingestStatus: 'done', phash: { $exists: false }, phashError: { $exists: false } },
+        ],
+      },
+    },
+    { $group: { _id: '$productId' } },
+    { $sort: { _id: 1 } },
+    {
+      $lookup: {
+        from: 'products',
+        localField: '_id',
+        foreignField: '_id',
+        pipeline: [{ $project: { isDeleted: 1 } }],
+        as: 'product',
+      },
+    },
+  ])
+
+  const productIds: string[] = []
+  const orphans: string[] = []
+  for await (const doc of cursor) {
+    const product = doc.product[0]
+    if (!product) {
+      orphans.push(doc._id.toString())
+    } else if (!product.isDeleted) {
+      productIds.push(doc._id.toString())
+      if (productIds.length >= limit) break
+    }
+  }
+  await cursor.close()
+
+  if (orphans.length > 0) {
+    console.warn(`Skipping images of ${orphans.length} missing products: ${orphans.slice(0, 10).join(', ')}`)
+  }
+  return productIds
+}
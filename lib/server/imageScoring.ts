@@ -0,0 +1,242 @@
+/**
+ * Quality scoring for suggested product images
+ *
+ * Each search result is scored on six factors (0–1 each):
+ * - resolution, aspect ratio, file size: from the metadata the search API reports
+ * - domain trust: official brand site > retailer > unknown > marketplace > social
+ * - background whiteness, text overlay density: measured on the image pixels
+ *   (the search thumbnail when available, it is small and always reachable)
+ *
+ * Unmeasurable factors count as neutral (0.5). The weighted sum becomes a
+ * 0–100 score; the best few candidates above IMAGE_PRESELECT_MIN_SCORE are
+ * marked for preselection in the editor's image picker.
+ */
+
+import sharp from 'sharp'
+import { ImageCandidate, ImageCandidateScoreBreakdown } from '@/types/product'
+import { downloadImage } from './imageIngest'
+
+export interface ImageScoringInput {
+  url: string
+  thumbnailUrl?: string
+  contextUrl?: string
+  width?: number
+  height?: number
+  bytes?: number
+  providers?: string[]
+}
+
+export const IMAGE_SCORE_WEIGHTS: Record<keyof ImageCandidateScoreBreakdown, number> = {
+  resolution: 0.25,
+  aspectRatio: 0.1,
+  background: 0.2,
+  fileSize: 0.1,
+  domainTrust: 0.2,
+  textOverlay: 0.15,
+}
+
+export const IMAGE_PRESELECT_COUNT = 3
+export const IMAGE_PRESELECT_MIN_SCORE = 60
+
+// Pixel analysis downloads run in small batches
+const ANALYSIS_CONCURRENCY = 4
+
+// Matched against host labels (gdimg.gmarket.co.kr → gdimg, gmarket, co, kr)
+const MARKETPLACE_HOSTS = [
+  'gmarket', 'auction', '11st', 'coupang', 'coupangcdn', 'amazon', 'media-amazon', 'ssl-images-amazon',
+  'ebay', 'ebayimg', 'aliexpress', 'alicdn', 'taobao', 'tmall', 'temu', 'shopee', 'lazada', 'rakuten',
+  'etsy', 'etsystatic', 'wish', 'qoo10',
+]
+const RETAILER_HOSTS = [
+  'oliveyoung', 'sephora', 'ulta', 'yesstyle', 'stylevana', 'ssg', 'lotteon', 'walmart', 'target',
+  'bestbuy', 'costco', 'boots', 'lookfantastic',
+]
+const SOCIAL_HOSTS = [
+  'pinterest', 'pinimg', 'instagram', 'cdninstagram', 'fbcdn', 'facebook', 'tiktok', 'twimg', 'reddit',
+  'redd', 'tistory', 'blogspot', 'pstatic', 'ytimg', 'youtube',
+]
+
+// Extra official domains (comma-separated), e.g. images.samsung.com,innisfree.com
+const TRUSTED_DOMAINS = (process.env.IMAGE_TRUSTED_DOMAINS || '')
+  .split(',')
+  .map((domain) => domain.trim().toLowerCase())
+  .filter(Boolean)
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+export function getImageDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return ''
+  }
+}
+
+export function scoreResolution(width?: number, height?: number): number | null {
+  if (!width || !height) return null
+  // 300px short side is barely usable for a card, 1000px is enough for zoom
+  return clamp01((Math.min(width, height) - 300) / 700)
+}
+
+export function scoreAspectRatio(width?: number, height?: number): number | null {
+  if (!width || !height) return null
+  // Square is ideal; 2:1 and beyond would be mostly padding
+  return clamp01((Math.min(width, height) / Math.max(width, height) - 0.5) / 0.4)
+}
+
+export function scoreFileSize(bytes?: number): number | null {
+  if (!bytes) return null
+  // Tiny files are overcompressed thumbnails; huge ones slow everything down
+  if (bytes < 50_000) return clamp01((bytes - 10_000) / 40_000)
+  if (bytes > 5 * 1024 * 1024) return 0.7
+  return 1
+}
+
+/**
+ * Trust in where the image is hosted
+ *
+ * Official: host is one of the brand's registry domains, IMAGE_TRUSTED_DOMAINS,
+ * or matches the brand name. The brand is only used when it is written in
+ * Latin letters (Korean brand names never appear in host names).
+ */
+export function scoreDomainTrust(domain: string, brand?: string, officialDomains: string[] = []): number | null {
+  if (!domain) return null
+
+  const trusted = [...officialDomains, ...TRUSTED_DOMAINS]
+  if (trusted.some((official) => domain === official || domain.endsWith(`.${official}`))) return 1
+
+  const labels = domain.split('.')
+  const brandToken = (brand || '').toLowerCase().replace(/[^a-z0-9]/g, '')
+  if (brandToken.length >= 3 && labels.some((label) => label.replace(/-/g, '') === brandToken)) return 1
+
+  if (labels.some((label) => SOCIAL_HOSTS.includes(label))) return 0.1
+  if (labels.some((label) => MARKETPLACE_HOSTS.includes(label))) return 0.3
+  if (labels.some((label) => RETAILER_HOSTS.includes(label))) return 0.7
+  return 0.5
+}
+
+/**
+ * Background whiteness and text overlay density, measured on the pixels
+ *
+ * background: share of near-white pixels in the outer 10% frame.
+ * textOverlay: text and graphics produce dense hard edges, unlike product
+ * photos; the score drops as the share of high-contrast neighbour pairs grows.
+ */
+export async function analyzeImagePixels(
+  body: Buffer
+): Promise<Pick<ImageCandidateScoreBreakdown, 'background' | 'textOverlay'>> {
+  const { data, info } = await sharp(body)
+    .flatten({ background: '#ffffff' })
+    .resize(128, 128, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const { width, height, channels } = info
+  const frame = Math.max(1, Math.round(width * 0.1))
+  let borderPixels = 0
+  let whitePixels = 0
+  let edges = 0
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * channels
+      const r = data[i]
+      const g = data[i + 1] ?? r
+      const b = data[i + 2] ?? r
+
+      if (x < frame || x >= width - frame || y < frame || y >= height - frame) {
+        borderPixels++
+        if (Math.min(r, g, b) >= 235 && Math.max(r, g, b) - Math.min(r, g, b) <= 12) whitePixels++
+      }
+
+      if (x < width - 1) {
+        const j = i + channels
+        const luma = (r + g + b) / 3
+        const next = (data[j] + (data[j + 1] ?? data[j]) + (data[j + 2] ?? data[j])) / 3
+        if (Math.abs(luma - next) > 60) edges++
+      }
+    }
+  }
+
+  const edgeDensity = edges / ((width - 1) * height)
+  return {
+    background: clamp01(whitePixels / borderPixels / 0.8),
+    textOverlay: clamp01(1 - (edgeDensity - 0.02) / 0.06),
+  }
+}
+
+export function computeImageScore(breakdown: ImageCandidateScoreBreakdown): number {
+  let score = 0
+  for (const factor of Object.keys(IMAGE_SCORE_WEIGHTS) as (keyof ImageCandidateScoreBreakdown)[]) {
+    score += IMAGE_SCORE_WEIGHTS[factor] * (breakdown[factor] ?? 0.5)
+  }
+  return Math.round(score * 100)
+}
+
+async function scoreCandidate(
+  input: ImageScoringInput,
+  brand?: string,
+  officialDomains?: string[]
+): Promise<ImageCandidate> {
+  const domain = getImageDomain(input.contextUrl || input.url)
+  const breakdown: ImageCandidateScoreBreakdown = {
+    resolution: scoreResolution(input.width, input.height),
+    aspectRatio: scoreAspectRatio(input.width, input.height),
+    background: null,
+    fileSize: scoreFileSize(input.bytes),
+    domainTrust: scoreDomainTrust(domain, brand, officialDomains),
+    textOverlay: null,
+  }
+
+  try {
+    const { body } = await downloadImage(input.thumbnailUrl || input.url)
+    Object.assign(breakdown, await analyzeImagePixels(body))
+  } catch (error: any) {
+    // Unreachable or undecodable: leave the pixel factors neutral
+    console.warn(`Image analysis failed for ${input.url}:`, error?.message ?? error)
+  }
+
+  return {
+    url: input.url,
+    thumbnailUrl: input.thumbnailUrl,
+    contextUrl: input.contextUrl,
+    domain,
+    width: input.width,
+    height: input.height,
+    bytes: input.bytes,
+    providers: input.providers ?? [],
+    score: computeImageScore(breakdown),
+    breakdown,
+    preselected: false,
+  }
+}
+
+/**
+ * Score search results and sort them best first
+ *
+ * @param options - brand and its official domains (brand registry) for domain trust
+ */
+export async function scoreImageCandidates(
+  inputs: ImageScoringInput[],
+  options: { brand?: string; officialDomains?: string[] } = {}
+): Promise<ImageCandidate[]> {
+  const candidates: ImageCandidate[] = []
+  for (let i = 0; i < inputs.length; i += ANALYSIS_CONCURRENCY) {
+    const batch = inputs.slice(i, i + ANALYSIS_CONCURRENCY)
+    candidates.push(...(await Promise.all(batch.map((input) => scoreCandidate(input, options.brand, options.officialDomains)))))
+  }
+
+  // Stable: equal scores keep the search order
+  const ranked = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate)
+
+  ranked.forEach((candidate, index) => {
+    candidate.preselected = index < IMAGE_PRESELECT_COUNT && candidate.score >= IMAGE_PRESELECT_MIN_SCORE
+  })
+  return ranked
+}
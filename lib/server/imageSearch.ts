@@ -0,0 +1,362 @@
+/**
+ * Image search providers
+ *
+ * `/api/images/suggest` asks one or more providers for candidate images and
+ * merges their results (deduplicated by URL) before scoring:
+ * - google: Google Custom Search (./googleImageSearch), needs API keys and quota
+ * - source: gallery images scraped from the product's own sourceUrl
+ * - fixture: deterministic results without network or keys, for offline
+ *   development (IMAGE_SEARCH_FIXTURE_FILE overrides the built-in set)
+ *
+ * Default providers come from IMAGE_SEARCH_PROVIDERS (default: google).
+ */
+
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { Product } from '@/types/product'
+import { QuotaExceededError } from './apiQuota'
+import { searchImageResults } from './googleImageSearch'
+import { withQueryCache } from './queryCache'
+import { fetchSourceHtml } from './sourceCheck'
+
+export interface ImageSearchResult {
+  url: string
+  thumbnailUrl?: string
+  contextUrl?: string
+  width?: number
+  height?: number
+  bytes?: number
+  mime?: string
+}
+
+export interface ImageSearchRequest {
+  query: string            // English query (with negative terms)
+  count: number
+  start: number            // 1-based
+  product?: Product | null // For providers that work from the product itself
+  bypassCache?: boolean    // Skip cached result pages (they are still refreshed)
+}
+
+export interface ImageSearchProvider {
+  name: string
+  search(request: ImageSearchRequest): Promise<ImageSearchResult[]>
+}
+
+// Merged result: which providers returned the URL
+export interface MergedImageSearchResult extends ImageSearchResult {
+  providers: string[]
+}
+
+export type ImageSearchErrorCode = 'UNKNOWN_PROVIDER' | 'NOT_CONFIGURED' | 'PROVIDER_FAILED'
+
+export class ImageSearchError extends Error {
+  readonly code: ImageSearchErrorCode
+
+  constructor(code: ImageSearchErrorCode, message: string) {
+    super(message)
+    this.name = 'ImageSearchError'
+    this.code = code
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'UNKNOWN_PROVIDER':
+        return 400
+      case 'NOT_CONFIGURED':
+        return 503
+      default:
+        return 502
+    }
+  }
+}
+
+// Icons, sprites and UI chrome found on every storefront page
+const IGNORED_IMAGE_PATTERN = /(icon|logo|sprite|blank|spacer|btn_|badge|banner|loading|placeholder)/i
+const MIN_GALLERY_IMAGE_SIZE = 200
+
+function resolveUrl(src: string, pageUrl: string): string | null {
+  try {
+    const url = new URL(src.trim().replace(/&amp;/g, '&'), pageUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']+)["']`, 'i'))
+  return match?.[1]
+}
+
+/**
+ * Product gallery images of a source page, best sources first: Open Graph,
+ * schema.org (JSON-LD) and then `<img>` tags that look like product photos
+ */
+export function extractGalleryImages(html: string, pageUrl: string): string[] {
+  const found: string[] = []
+
+  const metaPattern = /<meta[^>]+(?:property|name)=["'](?:og:image|twitter:image)["'][^>]*>/gi
+  for (const tag of Array.from(html.matchAll(metaPattern), (m) => m[0])) {
+    const content = getAttribute(tag, 'content')
+    if (content) found.push(content)
+  }
+
+  const jsonLdPattern = /"image"\s*:\s*(\[[^\]]*\]|"[^"]+")/g
+  for (const match of Array.from(html.matchAll(jsonLdPattern))) {
+    try {
+      const value = JSON.parse(match[1])
+      found.push(...(Array.isArray(value) ? value : [value]).filter((v: unknown): v is string => typeof v === 'string'))
+    } catch {
+      // Not valid JSON (e.g. inside a script string); skip
+    }
+  }
+
+  for (const tag of Array.from(html.matchAll(/<img\b[^>]*>/gi), (m) => m[0])) {
+    const src =
+      getAttribute(tag, 'data-zoom-image') ||
+      getAttribute(tag, 'data-original') ||
+      getAttribute(tag, 'data-src') ||
+      getAttribute(tag, 'src')
+    if (!src) continue
+
+    const width = Number(getAttribute(tag, 'width'))
+    const height = Number(getAttribute(tag, 'height'))
+    if ((width && width < MIN_GALLERY_IMAGE_SIZE) || (height && height < MIN_GALLERY_IMAGE_SIZE)) continue
+    found.push(src)
+  }
+
+  const urls: string[] = []
+  const seen = new Set<string>()
+  for (const src of found) {
+    const url = resolveUrl(src, pageUrl)
+    if (!url || seen.has(url)) continue
+    if (IGNORED_IMAGE_PATTERN.test(url) || /\.(svg|gif)(\?|$)/i.test(url)) continue
+    seen.add(url)
+    urls.push(url)
+  }
+  return urls
+}
+
+/**
+ * Larger renditions of known CDN thumbnails (gdimg.gmarket.co.kr/<id>/still/100 → 600)
+ */
+function upgradeThumbnailUrl(url: string): string {
+  if (/gdimg\.gmarket\.co\.kr\//i.test(url)) {
+    return url.replace(/\/still\/\d+/, '/still/600')
+  }
+  return url
+}
+
+// Google returns at most 10 results per request
+const GOOGLE_PAGE_SIZE = 10
+
+/**
+ * One full Google results page, cached (namespace imageSearch) on query,
+ * start and rights. Always requests full pages so any count can reuse them.
+ */
+async function fetchGooglePage(query: string, start: number, bypassCache?: boolean): Promise<ImageSearchResult[]> {
+  const rights = process.env.IMAGE_SEARCH_RIGHTS || ''
+  const { value } = await withQueryCache(
+    'imageSearch',
+    { query, start, rights },
+    () => searchImageResults({ query, num: GOOGLE_PAGE_SIZE, start, rights: rights || undefined }),
+    { bypass: bypassCache }
+  )
+  return value
+}
+
+export const googleImageSearchProvider: ImageSearchProvider = {
+  name: 'google',
+  async search({ query, count, start, bypassCache }) {
+    if (!process.env.GOOGLE_CLOUD_API_KEY || !process.env.CUSTOM_SEARCH_ENGINE_ID) {
+      throw new ImageSearchError(
+        'NOT_CONFIGURED',
+        'Google Custom Search API credentials not configured. Set GOOGLE_CLOUD_API_KEY and CUSTOM_SEARCH_ENGINE_ID.'
+      )
+    }
+
+    const results: ImageSearchResult[] = []
+    const seenUrls = new Set<string>()
+    let currentStart = start
+
+    while (results.length < count) {
+      const page = await fetchGooglePage(query, currentStart, bypassCache)
+
+      for (const result of page) {
+        if (seenUrls.has(result.url)) continue
+        seenUrls.add(result.url)
+        results.push(result)
+        if (results.length >= count) break
+      }
+
+      // Short page: reached the end
+      if (page.length < GOOGLE_PAGE_SIZE) break
+      currentStart += GOOGLE_PAGE_SIZE
+    }
+
+    return results
+  },
+}
+
+export const sourcePageImageProvider: ImageSearchProvider = {
+  name: 'source',
+  async search({ count, start, product }) {
+    if (!product?.sourceUrl) return []
+
+    const { status, html } = await fetchSourceHtml(product.sourceUrl)
+    if (!html) {
+      throw new ImageSearchError('PROVIDER_FAILED', `Source page returned HTTP ${status}`)
+    }
+
+    const urls = Array.from(new Set(extractGalleryImages(html, product.sourceUrl).map(upgradeThumbnailUrl)))
+    return urls
+      .slice(start - 1, start - 1 + count)
+      .map((url) => ({ url, contextUrl: product.sourceUrl }))
+  },
+}
+
+// Built-in offline results (same photos as lib/fake-data.ts)
+const FIXTURE_RESULTS: ImageSearchResult[] = [
+  'photo-1556228578-0d85b1a4d571',
+  'photo-1571875257727-256c39da42af',
+  'photo-1612817288484-6f916006741a',
+  'photo-1620916566398-39f1143ab7be',
+  'photo-1556228720-195a672e8a03',
+].map((id, i) => ({
+  url: `https://images.unsplash.com/${id}?w=1000`,
+  thumbnailUrl: `https://images.unsplash.com/${id}?w=200`,
+  contextUrl: `https://unsplash.com/photos/${id}`,
+  width: 1000,
+  height: [1000, 1250, 667, 1000, 1500][i],
+  bytes: 120_000 + i * 15_000,
+  mime: 'image/jpeg',
+}))
+
+function loadFixtureResults(): ImageSearchResult[] {
+  const file = process.env.IMAGE_SEARCH_FIXTURE_FILE
+  if (!file) return FIXTURE_RESULTS
+
+  try {
+    const data = JSON.parse(readFileSync(resolve(process.cwd(), file), 'utf-8'))
+    const results = Array.isArray(data) ? data : data?.results
+    if (!Array.isArray(results)) throw new Error('expected an array of results')
+    return results.filter((r: any) => typeof r?.url === 'string')
+  } catch (error: any) {
+    throw new ImageSearchError('NOT_CONFIGURED', `Invalid IMAGE_SEARCH_FIXTURE_FILE ${file}: ${error?.message ?? error}`)
+  }
+}
+
+export const fixtureImageSearchProvider: ImageSearchProvider = {
+  name: 'fixture',
+  async search({ query, count, start }) {
+    const results = loadFixtureResults()
+    if (results.length === 0) return []
+
+    // Rotate by a hash of the query so different queries give different orders
+    let hash = 0
+    for (const char of query) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+    const offset = hash % results.length
+    const rotated = [...results.slice(offset), ...results.slice(0, offset)]
+    return rotated.slice(start - 1, start - 1 + count)
+  },
+}
+
+export const IMAGE_SEARCH_PROVIDERS: Record<string, ImageSearchProvider> = {
+  google: googleImageSearchProvider,
+  source: sourcePageImageProvider,
+  fixture: fixtureImageSearchProvider,
+}
+
+/**
+ * Providers by name; `names` is a comma-separated list or array, defaulting
+ * to IMAGE_SEARCH_PROVIDERS (env) and then google
+ */
+export function getImageSearchProviders(names?: string | string[] | null): ImageSearchProvider[] {
+  const list = (Array.isArray(names) ? names : (names || process.env.IMAGE_SEARCH_PROVIDERS || 'google').split(','))
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+
+  const providers: ImageSearchProvider[] = []
+  for (const name of Array.from(new Set(list))) {
+    const provider = IMAGE_SEARCH_PROVIDERS[name]
+    if (!provider) {
+      throw new ImageSearchError(
+        'UNKNOWN_PROVIDER',
+        `Unknown image search provider: ${name} (available: ${Object.keys(IMAGE_SEARCH_PROVIDERS).join(', ')})`
+      )
+    }
+    providers.push(provider)
+  }
+  if (providers.length === 0) {
+    throw new ImageSearchError('UNKNOWN_PROVIDER', 'No image search provider given')
+  }
+  return providers
+}
+
+// Same image regardless of fragment, trailing slash or scheme/host case; the
+// path and query stay case-sensitive since CDNs treat them that way
+function dedupeKey(url: string): string {
+  const trimmed = url.replace(/#.*$/, '').replace(/\/+$/, '')
+  return trimmed.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, (origin) => origin.toLowerCase())
+}
+
+/**
+ * Query every provider and merge the results
+ *
+ * Results are interleaved (first of each provider, then second, ...) so no
+ * provider crowds out the others before scoring; duplicates keep the first
+ * result's fields, fill in missing metadata and list every provider. A failing
+ * provider is reported in `errors`; the search only fails when all of them do,
+ * with the QuotaExceededError if any provider ran out of quota.
+ */
+export async function searchImagesWithProviders(
+  providers: ImageSearchProvider[],
+  request: ImageSearchRequest
+): Promise<{ results: MergedImageSearchResult[]; errors: { provider: string; error: string }[] }> {
+  const settled = await Promise.allSettled(providers.map((provider) => provider.search(request)))
+
+  const errors: { provider: string; error: string }[] = []
+  const lists: { provider: string; results: ImageSearchResult[] }[] = []
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      lists.push({ provider: providers[i].name, results: outcome.value })
+    } else {
+      errors.push({ provider: providers[i].name, error: outcome.reason?.message ?? String(outcome.reason) })
+    }
+  })
+
+  if (lists.length === 0) {
+    const reasons = settled.map((outcome) => (outcome as PromiseRejectedResult).reason)
+    // An exhausted quota is worth retrying later (429), so it wins over other failures
+    const quotaError = reasons.find((reason) => reason instanceof QuotaExceededError)
+    if (quotaError) throw quotaError
+    const only = reasons.length === 1 ? reasons[0] : null
+    throw only instanceof ImageSearchError
+      ? only
+      : new ImageSearchError('PROVIDER_FAILED', errors.map((e) => `${e.provider}: ${e.error}`).join('; '))
+  }
+
+  const merged = new Map<string, MergedImageSearchResult>()
+  const longest = Math.max(...lists.map((list) => list.results.length))
+  for (let i = 0; i < longest; i++) {
+    for (const { provider, results } of lists) {
+      const result = results[i]
+      if (!result) continue
+
+      const key = dedupeKey(result.url)
+      const existing = merged.get(key)
+      if (!existing) {
+        merged.set(key, { ...result, providers: [provider] })
+        continue
+      }
+      for (const field of ['thumbnailUrl', 'contextUrl', 'width', 'height', 'bytes', 'mime'] as const) {
+        if (existing[field] === undefined && result[field] !== undefined) {
+          Object.assign(existing, { [field]: result[field] })
+        }
+      }
+      if (!existing.providers.includes(provider)) existing.providers.push(provider)
+    }
+  }
+
+  return { results: Array.from(merged.values()).slice(0, request.count), errors }
+}
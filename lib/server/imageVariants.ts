@@ -0,0 +1,258 @@
+/**
+ * Image variants: standard sizes of rehosted product images
+ *
+ * Every rehosted `imagesFinal` entry gets three square variants (thumbnail,
+ * card, zoom), each as WebP and JPEG. The source is auto-rotated, flattened
+ * onto white, trimmed of its near-white border and padded back to a white
+ * square, so products line up in grids whatever the source aspect ratio.
+ * Sources are never enlarged: a 500px image yields a 500px zoom variant.
+ *
+ * Variants are stored next to the original under
+ * `variants/<sha256[0:2]>/<sha256>/<name>.<ext>`, recorded on the `images`
+ * documents and copied to `product.imageVariants` for the UI.
+ *
+ * Each source is also checked for overlaid text in its corners (shop
+ * watermarks and logos). Flagged images are shown as warnings in the editor
+ * and moved off the primary slot when a clean image is available.
+ */
+
+import sharp from 'sharp'
+import { getMongoDb } from '../mongodb'
+import {
+  IMAGE_VARIANT_SIZES,
+  ImageOverlayRegion,
+  ImageVariantName,
+  ImageVariantSet,
+  Product,
+  ProductImageVariantEntry,
+  ProductImageVariantsResult,
+} from '@/types/product'
+import { getProductById, updateProductById } from './products'
+import type { AuditContext } from './audit'
+import { getStorageBackend, StorageBackend } from './storage'
+
+const WHITE = '#ffffff'
+const TRIM_THRESHOLD = 10
+const WEBP_QUALITY = 82
+const JPEG_QUALITY = 85
+
+// Overlay text check: the source is scaled to a square grid and each corner
+// (a quarter of the width, a sixth of the height) is scanned for sharp edges
+const OVERLAY_GRID = 256
+const OVERLAY_EDGE_STEP = 40      // Grey-level jump between neighbours counted as an edge
+const OVERLAY_MIN_DENSITY = 0.02  // Share of edge pixels in a flagged corner
+const OVERLAY_MIN_RATIO = 3       // ... and how much busier than the whole image it must be
+
+/**
+ * Decoded source pixels: rotated, flattened and trimmed
+ */
+async function prepareSource(body: Buffer) {
+  // Separate passes: within one pipeline sharp trims before flattening
+  const flat = await sharp(body).rotate().flatten({ background: WHITE }).raw().toBuffer({ resolveWithObject: true })
+  const raw = { width: flat.info.width, height: flat.info.height, channels: flat.info.channels }
+  try {
+    return await sharp(flat.data, { raw })
+      .trim({ background: WHITE, threshold: TRIM_THRESHOLD })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+  } catch {
+    // trim fails on blank images; keep them as they are
+    return flat
+  }
+}
+
+/**
+ * Corners of an image that look like they carry overlaid text
+ *
+ * Text on a plain background shows up as dense sharp edges in a corner that
+ * the rest of the image does not have, so busy photos are not flagged. Runs
+ * on the untrimmed source, since watermarks sit in the corners of the frame.
+ */
+export async function detectOverlayText(body: Buffer): Promise<ImageOverlayRegion[]> {
+  const { data } = await sharp(body)
+    .rotate()
+    .flatten({ background: WHITE })
+    .greyscale()
+    .resize(OVERLAY_GRID, OVERLAY_GRID, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const edgeDensity = (left: number, top: number, width: number, height: number) => {
+    let edges = 0
+    for (let y = top; y < top + height; y++) {
+      for (let x = left; x < left + width - 1; x++) {
+        if (Math.abs(data[y * OVERLAY_GRID + x + 1] - data[y * OVERLAY_GRID + x]) >= OVERLAY_EDGE_STEP) edges++
+      }
+    }
+    return edges / (width * height)
+  }
+
+  const overall = edgeDensity(0, 0, OVERLAY_GRID, OVERLAY_GRID)
+  const width = Math.round(OVERLAY_GRID / 4)
+  const height = Math.round(OVERLAY_GRID / 6)
+  const corners: Record<ImageOverlayRegion, [number, number]> = {
+    topLeft: [0, 0],
+    topRight: [OVERLAY_GRID - width, 0],
+    bottomLeft: [0, OVERLAY_GRID - height],
+    bottomRight: [OVERLAY_GRID - width, OVERLAY_GRID - height],
+  }
+
+  return (Object.keys(corners) as ImageOverlayRegion[]).filter((region) => {
+    const density = edgeDensity(...corners[region], width, height)
+    return density >= OVERLAY_MIN_DENSITY && density >= overall * OVERLAY_MIN_RATIO
+  })
+}
+
+/**
+ * Render all variants of an image and store them
+ */
+export async function generateImageVariants(
+  source: { sha256: string; body: Buffer },
+  storage: StorageBackend = getStorageBackend()
+): Promise<ImageVariantSet> {
+  const { data, info } = await prepareSource(source.body)
+  const raw = { width: info.width, height: info.height, channels: info.channels }
+  const prefix = `variants/${source.sha256.slice(0, 2)}/${source.sha256}`
+
+  const variants = {} as ImageVariantSet
+  for (const name of Object.keys(IMAGE_VARIANT_SIZES) as ImageVariantName[]) {
+    const size = Math.min(IMAGE_VARIANT_SIZES[name], Math.max(info.width, info.height))
+    const resized = sharp(data, { raw }).resize(size, size, { fit: 'contain', background: WHITE })
+
+    const webp = await resized.clone().webp({ quality: WEBP_QUALITY }).toBuffer()
+    const jpeg = await resized.clone().jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer()
+
+    await storage.putObject(`${prefix}/${name}.webp`, webp, 'image/webp')
+    await storage.putObject(`${prefix}/${name}.jpg`, jpeg, 'image/jpeg')
+
+    variants[name] = {
+      size,
+      webp: storage.getPublicUrl(`${prefix}/${name}.webp`),
+      jpeg: storage.getPublicUrl(`${prefix}/${name}.jpg`),
+    }
+  }
+  return variants
+}
+
+/**
+ * Generate missing variants for a product's rehosted imagesFinal entries
+ *
+ * Entries still pointing at the source are reported as pending: run image
+ * ingestion first. With `force`, existing variants are rendered again.
+ *
+ * When the primary image is checked in this run and has overlay text, the
+ * first clean image takes its place; later manual reorders are left alone.
+ */
+export async function generateProductImageVariants(
+  idOrSlug: string,
+  options: { force?: boolean; storage?: StorageBackend; context?: AuditContext } = {}
+): Promise<ProductImageVariantsResult> {
+  const storage = options.storage ?? getStorageBackend()
+  const product: Product | null = await getProductById(idOrSlug)
+  if (!product) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+
+  const finalUrls = Array.from(new Set(product.imagesFinal ?? []))
+  const db = await getMongoDb()
+  const images = db.collection('images')
+  const docs = await images.find({ url: { $in: finalUrls }, ingestStatus: 'done' }).toArray()
+
+  // Prefer this product's own document for a URL
+  const docByUrl = new Map<string, any>()
+  for (const doc of docs) {
+    if (!docByUrl.has(doc.url) || doc.productId.toString() === product.id) docByUrl.set(doc.url, doc)
+  }
+
+  const result: Omit<ProductImageVariantsResult, 'product'> = {
+    productId: product.id,
+    generated: 0,
+    skipped: 0,
+    pending: [],
+    flagged: [],
+    failed: [],
+  }
+  const entries: ProductImageVariantEntry[] = []
+  const checked = new Set<string>()
+
+  for (const url of finalUrls) {
+    const doc = docByUrl.get(url)
+    if (!doc?.storageKey || !doc.sha256) {
+      result.pending.push(url)
+      continue
+    }
+    // Documents rendered before the overlay check are rendered again
+    if (doc.variants && doc.overlayRegions && !options.force) {
+      entries.push({ url, variants: doc.variants, overlayRegions: doc.overlayRegions })
+      result.skipped++
+      continue
+    }
+
+    try {
+      const object = await storage.getObject(doc.storageKey)
+      if (!object) {
+        throw new Error(`Stored file missing: ${doc.storageKey}`)
+      }
+      const variants = await generateImageVariants({ sha256: doc.sha256, body: object.body }, storage)
+      const overlayRegions = await detectOverlayText(object.body)
+      // Variants depend only on the file, so every document of it gets them
+      await images.updateMany(
+        { storageKey: doc.storageKey },
+        { $set: { variants, overlayRegions, variantsGeneratedAt: new Date() } }
+      )
+      entries.push({ url, variants, overlayRegions })
+      checked.add(url)
+      result.generated++
+    } catch (error: any) {
+      result.failed.push({ url, error: error?.message ?? String(error) })
+    }
+  }
+
+  const flagged = new Set(entries.filter((entry) => entry.overlayRegions?.length).map((entry) => entry.url))
+  result.flagged = Array.from(flagged)
+
+  const patch: Partial<Product> = {}
+  if (JSON.stringify(entries) !== JSON.stringify(product.imageVariants ?? [])) {
+    patch.imageVariants = entries
+  }
+
+  // Keep watermarked images off the primary slot
+  const imagesFinal = product.imagesFinal ?? []
+  if (flagged.has(imagesFinal[0]) && checked.has(imagesFinal[0])) {
+    const clean = imagesFinal.find((url) => !flagged.has(url) && entries.some((entry) => entry.url === url))
+    if (clean) {
+      patch.imagesFinal = [clean, ...imagesFinal.filter((url) => url !== clean)]
+    }
+  }
+
+  let updated = product
+  if (Object.keys(patch).length > 0) {
+    updated = await updateProductById(product.id, patch, options.context, {
+      ...(patch.imagesFinal && { note: 'Primary image has overlay text; moved a clean image first' }),
+    })
+  }
+
+  return { ...result, product: updated }
+}
+
+/**
+ * Products with final images but no recorded variants (e.g. ingested before
+ * variants existed), oldest first
+ */
+export async function findProductsMissingImageVariants(limit = 100): Promise<string[]> {
+  const db = await getMongoDb()
+  const docs = await db
+    .collection('products')
+    .find(
+      {
+        'imagesFinal.0': { $exists: true },
+        isDeleted: { $ne: true },
+        $or: [{ imageVariants: { $exists: false } }, { imageVariants: { $size: 0 } }],
+      },
+      { projection: { _id: 1 } }
+    )
+    .sort({ _id: 1 })
+    .limit(limit)
+    .toArray()
+  return docs.map((doc) => doc._id.toString())
+}
@@ -0,0 +1,144 @@
+/**
+ * Server-side lifecycle state machine
+ *
+ * Enforces the import tool lifecycle (RAW → DRAFT → READY → PUSHED) for every
+ * write that changes `lifecycleStatus`. Transitions into READY or PUSHED are
+ * gated by validation, so a PATCH cannot skip the checks the editor runs.
+ * A PUSHED product can be retired (taken off the storefront) and republished.
+ *
+ * See docs/STATE_MACHINE.md for the transition matrix.
+ */
+
+import { READY_VALIDATION_CONFIG, validateProduct } from '../validation'
+import { ProductStatus, ValidationResult } from '@/types/product'
+
+export const LIFECYCLE_STATUSES: ProductStatus[] = ['RAW', 'DRAFT', 'READY', 'PUSHED', 'RETIRED']
+
+// Allowed target states per source state (staying in the same state is always allowed)
+export const LIFECYCLE_TRANSITIONS: Record<ProductStatus, ProductStatus[]> = {
+  RAW: ['DRAFT', 'READY', 'PUSHED'],
+  DRAFT: ['READY', 'PUSHED'],
+  READY: ['DRAFT', 'PUSHED'],
+  PUSHED: ['RETIRED'],
+  RETIRED: ['PUSHED'],  // Republish
+}
+
+// Target states that require the product to pass validation
+const VALIDATED_STATUSES = new Set<ProductStatus>(['READY', 'PUSHED'])
+
+export type LifecycleFailureReason = 'ILLEGAL_TRANSITION' | 'VALIDATION_FAILED'
+
+export interface LifecycleTransitionFailure {
+  id: string
+  from: ProductStatus
+  to: ProductStatus
+  reason: LifecycleFailureReason
+  failedRules: ValidationResult['errors']
+}
+
+/**
+ * Thrown when one or more products cannot move to the requested lifecycle state.
+ * API routes map this to a 409 response with `toResponseBody()`.
+ */
+export class LifecycleTransitionError extends Error {
+  readonly failures: LifecycleTransitionFailure[]
+
+  constructor(failures: LifecycleTransitionFailure[]) {
+    super(
+      failures.length === 1
+        ? `Cannot move product ${failures[0].id} from ${failures[0].from} to ${failures[0].to}`
+        : `Cannot change lifecycle status of ${failures.length} products`
+    )
+    this.name = 'LifecycleTransitionError'
+    this.failures = failures
+  }
+
+  toResponseBody() {
+    return {
+      error: this.message,
+      code: 'LIFECYCLE_TRANSITION_REJECTED',
+      failures: this.failures,
+    }
+  }
+}
+
+export function isLifecycleStatus(value: unknown): value is ProductStatus {
+  return typeof value === 'string' && (LIFECYCLE_STATUSES as string[]).includes(value)
+}
+
+export function isTransitionAllowed(from: ProductStatus, to: ProductStatus): boolean {
+  if (from === to) return true
+  return LIFECYCLE_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Validate a product document before it enters READY or PUSHED
+ */
+export function validateForLifecycle(doc: any): ValidationResult {
+  return validateProduct(doc, READY_VALIDATION_CONFIG)
+}
+
+/**
+ * Check whether a product document may move to `to`
+ *
+ * @param doc - Product document with pending changes already applied
+ * @param from - Lifecycle status currently stored in the database
+ * @returns null when allowed, otherwise the failure to report
+ */
+export function checkLifecycleTransition(
+  id: string,
+  doc: any,
+  from: ProductStatus,
+  to: ProductStatus
+): LifecycleTransitionFailure | null {
+  if (!isTransitionAllowed(from, to)) {
+    const allowed = LIFECYCLE_TRANSITIONS[from] ?? []
+    return {
+      id,
+      from,
+      to,
+      reason: 'ILLEGAL_TRANSITION',
+      failedRules: [
+        {
+          field: 'lifecycleStatus',
+          message: allowed.length > 0
+            ? `Cannot move from ${from} to ${to} (allowed: ${allowed.join(', ')})`
+            : `Cannot move from ${from} to ${to} (${from} is final)`,
+        },
+      ],
+    }
+  }
+
+  if (from !== to && VALIDATED_STATUSES.has(to)) {
+    const validation = validateForLifecycle(doc)
+    if (!validation.isValid) {
+      return { id, from, to, reason: 'VALIDATION_FAILED', failedRules: validation.errors }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Source change detection fields to initialize when a product enters PUSHED
+ *
+ * Mirrors the client store: the baseline is only set once, from the price
+ * stored before the push. Without one the baseline is left unset and the
+ * first source check takes it, instead of a 0 baseline flagging every check
+ * as a price change.
+ */
+export function getPushInitFields(doc: any): Record<string, any> {
+  if (doc.sourceBaselinePriceKrw) return {}
+
+  const baselinePriceKrw = doc.priceKrw ?? doc.importMeta?.source?.price ?? null
+  return {
+    ...(baselinePriceKrw !== null && {
+      sourceBaselinePriceKrw: baselinePriceKrw,
+      sourceLastCheckedPriceKrw: baselinePriceKrw,
+    }),
+    sourceLastCheckedInStock: true,
+    sourceLastCheckedAt: new Date().toISOString(),
+    sourcePriceChanged: false,
+    sourceOutOfStock: false,
+  }
+}
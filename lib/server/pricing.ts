@@ -0,0 +1,123 @@
+/**
+ * Stored pricing configuration
+ *
+ * - exchange_rates: KRW → MNT rate history; the latest rate whose
+ *   effectiveFrom is not in the future is the current one
+ * - pricing_settings: single document with markup rules, rounding and the
+ *   default shipping weight
+ *
+ * The calculation itself lives in lib/pricing so the editor can run it too.
+ */
+
+import { getMongoDb } from '../mongodb'
+import {
+  DEFAULT_EXCHANGE_RATE,
+  DEFAULT_PRICING_SETTINGS,
+  ExchangeRate,
+  PricingConfig,
+  PricingSettings,
+} from '../pricing'
+
+const SETTINGS_ID = 'default'
+
+type PricingSettingsDoc = Partial<PricingSettings> & { _id: string; updatedAt?: Date }
+
+function docToExchangeRate(doc: any): ExchangeRate {
+  return {
+    id: doc._id.toString(),
+    rate: doc.rate,
+    effectiveFrom: doc.effectiveFrom instanceof Date ? doc.effectiveFrom.toISOString() : doc.effectiveFrom,
+    note: doc.note,
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+  }
+}
+
+/**
+ * Exchange rate history, newest effectiveFrom first
+ */
+export async function listExchangeRates(limit = 50): Promise<ExchangeRate[]> {
+  const db = await getMongoDb()
+  const docs = await db
+    .collection('exchange_rates')
+    .find({})
+    .sort({ effectiveFrom: -1, createdAt: -1 })
+    .limit(limit)
+    .toArray()
+  return docs.map(docToExchangeRate)
+}
+
+/**
+ * Rate in effect at `at` (default: now); falls back to DEFAULT_EXCHANGE_RATE
+ */
+export async function getEffectiveExchangeRate(at: Date = new Date()): Promise<ExchangeRate> {
+  const db = await getMongoDb()
+  const doc = await db
+    .collection('exchange_rates')
+    .find({ effectiveFrom: { $lte: at } })
+    .sort({ effectiveFrom: -1, createdAt: -1 })
+    .limit(1)
+    .next()
+
+  return doc
+    ? docToExchangeRate(doc)
+    : { rate: DEFAULT_EXCHANGE_RATE, effectiveFrom: new Date(0).toISOString() }
+}
+
+export async function addExchangeRate(input: {
+  rate: number
+  effectiveFrom?: Date
+  note?: string
+}): Promise<ExchangeRate> {
+  const db = await getMongoDb()
+  const doc = {
+    base: 'KRW',
+    quote: 'MNT',
+    rate: input.rate,
+    effectiveFrom: input.effectiveFrom ?? new Date(),
+    note: input.note,
+    createdAt: new Date(),
+  }
+  const result = await db.collection('exchange_rates').insertOne(doc)
+  return docToExchangeRate({ ...doc, _id: result.insertedId })
+}
+
+export async function getPricingSettings(): Promise<PricingSettings> {
+  const db = await getMongoDb()
+  const doc = await db.collection<PricingSettingsDoc>('pricing_settings').findOne({ _id: SETTINGS_ID })
+  if (!doc) return DEFAULT_PRICING_SETTINGS
+
+  return {
+    rules: doc.rules ?? DEFAULT_PRICING_SETTINGS.rules,
+    rounding: doc.rounding ?? DEFAULT_PRICING_SETTINGS.rounding,
+    defaultWeightKg: doc.defaultWeightKg ?? DEFAULT_PRICING_SETTINGS.defaultWeightKg,
+  }
+}
+
+/**
+ * Replace the pricing settings (callers validate with validatePricingSettings)
+ */
+export async function savePricingSettings(settings: PricingSettings): Promise<PricingSettings> {
+  const db = await getMongoDb()
+  const value: PricingSettings = {
+    rules: settings.rules,
+    rounding: settings.rounding,
+    defaultWeightKg: settings.defaultWeightKg,
+  }
+  await db.collection<PricingSettingsDoc>('pricing_settings').updateOne(
+    { _id: SETTINGS_ID },
+    { $set: { ...value, updatedAt: new Date() } },
+    { upsert: true }
+  )
+  return value
+}
+
+/**
+ * Current exchange rate plus settings, as used by suggestPriceMnt
+ */
+export async function getPricingConfig(at: Date = new Date()): Promise<PricingConfig> {
+  const [exchangeRate, settings] = await Promise.all([
+    getEffectiveExchangeRate(at),
+    getPricingSettings(),
+  ])
+  return { ...settings, exchangeRate }
+}
@@ -1,10 +1,41 @@
 import { ObjectId } from 'mongodb'
 import { getMongoDb } from '../mongodb'
-import { Product, ProductStatus } from '@/types/product'
+import {
+  AuditAction,
+  AuditFieldChange,
+  Product,
+  ProductListQuery,
+  ProductPage,
+  ProductSearchFilters,
+  ProductSearchResponse,
+  ProductSortKey,
+  ProductStats,
+  ProductStatus,
+} from '@/types/product'
+import {
+  checkLifecycleTransition,
+  getPushInitFields,
+  isLifecycleStatus,
+  LifecycleTransitionError,
+  LifecycleTransitionFailure,
+} from './lifecycle'
+import { affectsSearchIndex, buildSearchNgrams, searchProducts } from './search'
+import { getPricingConfig } from './pricing'
+import { PolicyAuditDraft, recordPolicyAudits } from './sourcePolicy'
+import { buildRepriceItems, RepriceResult } from '../pricing'
+import { getBrandFilterNames, normalizeBrandFields, resolveBrand } from './brands'
+import { AuditContext, AuditEventDraft, recordAuditEvents, SYSTEM_AUDIT_CONTEXT } from './audit'
+import { getProductRevision, RevisionError } from './revisions'
+import { TrashError } from './trash'
+import { refreshStorefrontFields } from './publisher'
+import { diffRevisionFields, pickRevisionFields, REVISION_ARRAY_FIELDS } from '../revisions'
+import { DRAFT_VALIDATION_CONFIG, validateProduct } from '../validation'
+import { getProductSourceCategory } from '../taxonomy'
 
 // Convert MongoDB document (with _id) to Product (with id as string)
+// Internal search index fields are never returned
 function docToProduct(doc: any): Product {
-  const { _id, ...rest } = doc
+  const { _id, searchNgrams, ...rest } = doc
   return {
     ...rest,
     id: _id.toString(),
@@ -15,7 +46,7 @@ function docToProduct(doc: any): Product {
 // Preserves original id field for slug-based lookups
 function productToDoc(product: Partial<Product>): any {
   const { id, ...rest } = product
-  const doc: any = { ...rest }
+  const doc: any = { ...rest, searchNgrams: buildSearchNgrams(rest) }
   if (id) {
     // Try to use as ObjectId if valid
     try {
@@ -58,7 +89,8 @@ export async function listProducts(filters?: {
   const db = await getMongoDb()
   const collection = db.collection('products')
 
-  const query: any = {}
+  // Products in the trash are left out
+  const query: any = { isDeleted: { $ne: true } }
   if (filters?.lifecycleStatus) {
     query.lifecycleStatus = filters.lifecycleStatus
   }
@@ -73,6 +105,224 @@ export async function listProducts(filters?: {
   return docs.map(docToProduct)
 }
 
+const DEFAULT_PAGE_LIMIT = 50
+const MAX_PAGE_LIMIT = 200
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Sort value per key; dates are converted because createdAt/sourceLastCheckedAt
+// are stored as ISO strings by some writers and as Dates by others
+function buildSortValueExpression(sort: ProductSortKey): any {
+  switch (sort) {
+    case 'createdAt':
+      return { $convert: { input: '$createdAt', to: 'date', onError: new Date(0), onNull: new Date(0) } }
+    case 'sourceLastCheckedAt':
+      return { $convert: { input: '$sourceLastCheckedAt', to: 'date', onError: new Date(0), onNull: new Date(0) } }
+    case 'deletedAt':
+      return { $convert: { input: '$deletedAt', to: 'date', onError: new Date(0), onNull: new Date(0) } }
+    case 'price':
+      return { $convert: { input: '$priceMnt', to: 'double', onError: 0, onNull: 0 } }
+    case 'flagPriority':
+    default:
+      // Same priority as the dashboard: out of stock > price changed > hidden > none
+      return {
+        $switch: {
+          branches: [
+            { case: { $eq: ['$sourceOutOfStock', true] }, then: 3 },
+            { case: { $eq: ['$sourcePriceChanged', true] }, then: 2 },
+            { case: { $eq: ['$visibility', 'hidden'] }, then: 1 },
+          ],
+          default: 0,
+        },
+      }
+  }
+}
+
+// Cursor = sort key and order it was issued for, last item's sort value + _id,
+// base64url-encoded JSON
+function encodeCursor(sort: ProductSortKey, direction: 1 | -1, value: any, id: ObjectId): string {
+  const payload = value instanceof Date
+    ? { s: sort, o: direction, t: 'date', v: value.toISOString(), id: id.toString() }
+    : { s: sort, o: direction, t: 'number', v: value, id: id.toString() }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+function decodeCursor(cursor: string): { sort: ProductSortKey; direction: 1 | -1; value: any; id: ObjectId } | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    if (!isObjectIdLike(payload.id) || typeof payload.s !== 'string' || (payload.o !== 1 && payload.o !== -1)) {
+      return null
+    }
+    const value = payload.t === 'date' ? new Date(payload.v) : Number(payload.v)
+    return { sort: payload.s, direction: payload.o, value, id: new ObjectId(payload.id) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * @param brandNames - Names matching the brand filter (registry aliases); defaults to the filter value
+ */
+function buildListQuery(filters: ProductListQuery, brandNames?: string[]): any {
+  // The trash is only listed when asked for
+  const query: any = { isDeleted: filters.deleted ? true : { $ne: true } }
+  if (filters.lifecycleStatus) {
+    query.lifecycleStatus = filters.lifecycleStatus
+  }
+  if (filters.store) {
+    query.sourceStore = filters.store
+  }
+  if (filters.visibility) {
+    query.visibility = filters.visibility
+  }
+  if (filters.category) {
+    query.category = filters.category
+  }
+  if (filters.brand) {
+    const names = brandNames ?? [filters.brand]
+    query.brand = { $in: names.map((name) => new RegExp(`^${escapeRegex(name.trim())}$`, 'i')) }
+  }
+  if (filters.flag === 'priceChanged') {
+    query.sourcePriceChanged = true
+  } else if (filters.flag === 'outOfStock') {
+    query.sourceOutOfStock = true
+  } else if (filters.flag === 'hidden') {
+    query.visibility = 'hidden'
+  } else if (filters.flag === 'needsReview') {
+    query.sourceReviewStatus = 'pending'
+  }
+  if (filters.q && filters.q.trim()) {
+    const pattern = { $regex: escapeRegex(filters.q.trim()), $options: 'i' }
+    query.$or = [
+      { title: pattern },
+      { nameMn: pattern },
+      { nameOriginal: pattern },
+      { brand: pattern },
+      { sourceProductId: pattern },
+    ]
+  }
+  return query
+}
+
+/**
+ * List products with filters, sorting and cursor pagination
+ *
+ * Sorting is by a single key with _id as tie-breaker, so the cursor stays
+ * stable when many products share the same sort value.
+ */
+export async function listProductsPage(filters: ProductListQuery = {}): Promise<ProductPage> {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+
+  const sort: ProductSortKey = filters.sort ?? 'flagPriority'
+  const direction = filters.order === 'asc' ? 1 : -1
+  const limit = Math.min(Math.max(1, filters.limit ?? DEFAULT_PAGE_LIMIT), MAX_PAGE_LIMIT)
+
+  const brandNames = filters.brand ? await getBrandFilterNames(filters.brand.trim()) : undefined
+  const query = buildListQuery(filters, brandNames)
+  const pipeline: any[] = [
+    { $match: query },
+    { $addFields: { _sortValue: buildSortValueExpression(sort) } },
+  ]
+
+  const cursor = filters.cursor ? decodeCursor(filters.cursor) : null
+  if (filters.cursor && !cursor) {
+    throw new Error('Invalid cursor')
+  }
+  // A cursor only makes sense for the sort it was issued for
+  if (cursor && (cursor.sort !== sort || cursor.direction !== direction)) {
+    throw new Error('Invalid cursor: it was issued for a different sort or order')
+  }
+  if (cursor) {
+    const op = direction === 1 ? '$gt' : '$lt'
+    pipeline.push({
+      $match: {
+        $or: [
+          { _sortValue: { [op]: cursor.value } },
+          { _sortValue: cursor.value, _id: { [op]: cursor.id } },
+        ],
+      },
+    })
+  }
+
+  pipeline.push(
+    { $sort: { _sortValue: direction, _id: direction } },
+    { $limit: limit + 1 }
+  )
+
+  const [docs, total] = await Promise.all([
+    collection.aggregate(pipeline).toArray(),
+    collection.countDocuments(query),
+  ])
+
+  const hasMore = docs.length > limit
+  const pageDocs = hasMore ? docs.slice(0, limit) : docs
+  const last = pageDocs[pageDocs.length - 1]
+
+  return {
+    items: pageDocs.map(({ _sortValue, ...doc }) => docToProduct(doc)),
+    nextCursor: hasMore && last ? encodeCursor(sort, direction, last._sortValue, last._id) : null,
+    total,
+  }
+}
+
+/**
+ * Counts per lifecycle status plus the categories and brands in use, for the
+ * dashboard cards and filter options (products in the trash are left out)
+ */
+export async function getProductStats(): Promise<ProductStats> {
+  const db = await getMongoDb()
+  const [facets] = await db
+    .collection('products')
+    .aggregate([
+      { $match: { isDeleted: { $ne: true } } },
+      {
+        $facet: {
+          byStatus: [{ $group: { _id: { $ifNull: ['$lifecycleStatus', 'RAW'] }, count: { $sum: 1 } } }],
+          categories: [{ $match: { category: { $nin: [null, ''] } } }, { $group: { _id: '$category' } }],
+          brands: [{ $match: { brand: { $nin: [null, ''] } } }, { $group: { _id: '$brand' } }],
+        },
+      },
+    ])
+    .toArray()
+
+  const byStatus: Record<ProductStatus, number> = { RAW: 0, DRAFT: 0, READY: 0, PUSHED: 0, RETIRED: 0 }
+  let total = 0
+  for (const { _id: status, count } of facets?.byStatus ?? []) {
+    total += count
+    if (isLifecycleStatus(status)) byStatus[status] = count
+  }
+
+  return {
+    total,
+    byStatus,
+    categories: (facets?.categories ?? []).map((group: any) => String(group._id)).sort(),
+    brands: (facets?.brands ?? []).map((group: any) => String(group._id)).sort(),
+  }
+}
+
+/**
+ * Full-text search over nameOriginal, title, brand, sourceProductId and tags
+ *
+ * Uses the n-gram index from ./search, so partial Korean and Mongolian
+ * fragments match. Results are ranked by relevance, not by listing sort; the
+ * filters are the same as for listProductsPage (brand also matches aliases).
+ */
+export async function searchProductsText(
+  q: string,
+  filters: ProductSearchFilters & { limit?: number } = {}
+): Promise<ProductSearchResponse> {
+  const { limit, ...listFilters } = filters
+  const brandNames = listFilters.brand ? await getBrandFilterNames(listFilters.brand.trim()) : undefined
+  return searchProducts(q, {
+    filter: buildListQuery(listFilters, brandNames),
+    limit,
+    docToProduct,
+  })
+}
+
 export async function getProductById(idOrSlug: string): Promise<Product | null> {
   const db = await getMongoDb()
   const collection = db.collection('products')
@@ -95,8 +345,10 @@ const ALLOWED_UPDATE_FIELDS = new Set([
   'detailed_description', // Detailed description
   'category',            // Product category
   'subCategory',         // Sub-category
+  'categoryAssignment',  // How category/subCategory were set (mapping rule or by hand)
   'tags',                // Product tags
   'brand',               // Brand name
+  'brandId',             // Registry brand (set from brand, see ./brands)
   'colors',              // Available colors
   'sizes',               // Available sizes
   'video_url',           // Product video URL
@@ -107,6 +359,9 @@ const ALLOWED_UPDATE_FIELDS = new Set([
   'sourceUrl',           // Source product URL
   'sourceProductId',     // Source product ID
   'importMeta',         // Import metadata
+  'translationMeta',     // Machine translation record per field (source/output)
+  'imageVariants',       // Resized copies of imagesFinal entries
+  'attributeSuggestions', // Attribute proposals from the source title, pending review
   'lifecycleStatus',     // Import tool lifecycle: RAW → DRAFT → READY → PUSHED
   'visibility',          // Visibility: public | hidden
   // Source change detection fields
@@ -123,11 +378,39 @@ const ALLOWED_UPDATE_FIELDS = new Set([
   // Price fields (import-tool can set initial prices)
   'priceKrw',            // Price in KRW
   'priceMnt',            // Price in MNT
-  // Soft delete fields
-  'isDeleted',           // Soft delete flag
-  'deletedAt',           // Deletion timestamp
+  'shippingWeightKg',    // Shipping weight used by pricing surcharges
+  // Soft delete fields (isDeleted, deletedAt, deletedBy) are only written by ./trash
 ])
 
+// Fields outside the whitelist that the import tool's own workflows change
+// (retire, trash, source policy); audited along with the whitelist
+const AUDITED_WORKFLOW_FIELDS = ['retiredReason', 'isDeleted', 'sourceReviewStatus']
+
+function toAuditValue(value: any): any {
+  if (value === undefined) return null
+  return value instanceof Date ? value.toISOString() : value
+}
+
+/**
+ * Audited fields that differ between two versions of a product
+ * (whitelisted fields plus retire/trash/review state)
+ */
+export function diffProductFields(before: Record<string, any>, after: Record<string, any>): AuditFieldChange[] {
+  const changes: AuditFieldChange[] = []
+  for (const field of [...Array.from(ALLOWED_UPDATE_FIELDS), ...AUDITED_WORKFLOW_FIELDS]) {
+    const from = toAuditValue(before[field])
+    const to = toAuditValue(after[field])
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, before: from, after: to })
+    }
+  }
+  return changes
+}
+
+function getUpdateAction(before: Record<string, any>, after: Record<string, any>): AuditEventDraft['action'] {
+  return (before.lifecycleStatus ?? 'RAW') !== after.lifecycleStatus ? 'statusChange' : 'update'
+}
+
 // Blocked fields that storefront (ecommerce) manages
 // Import-tool MUST NOT modify these fields
 const BLOCKED_STOREFRONT_FIELDS = new Set([
@@ -144,9 +427,59 @@ const BLOCKED_STOREFRONT_FIELDS = new Set([
   'slug',                // Product slug (managed separately)
 ])
 
+/**
+ * The `$set` for a patch: whitelisted fields only (blocked storefront fields
+ * are dropped), brands resolved against the registry and the search index
+ * rebuilt when searchable fields change. Leaves `updatedAt` to the caller.
+ */
+export async function buildProductChanges(
+  current: Record<string, any>,
+  patch: Partial<Product>
+): Promise<Record<string, any>> {
+  // Whitelist allowed fields only (silently ignore blocked fields)
+  // Only include fields that are defined (not undefined)
+  const safeChanges: Record<string, any> = {}
+  for (const [key, value] of Object.entries(patch)) {
+    if (ALLOWED_UPDATE_FIELDS.has(key) && value !== undefined) {
+      safeChanges[key] = value
+    }
+    // Blocked fields are silently ignored (not added to safeChanges)
+  }
+
+  // Never update id, _id, or slug (these are managed separately)
+  delete safeChanges.id
+  delete safeChanges._id
+  delete safeChanges.slug
+
+  // Brands are stored under their canonical registry name
+  if (safeChanges.brand !== undefined) {
+    const brand = safeChanges.brand ? await resolveBrand(safeChanges.brand) : null
+    Object.assign(safeChanges, normalizeBrandFields(safeChanges.brand, brand))
+  }
+
+  // A manual visibility change takes over from the source policy
+  if (safeChanges.visibility !== undefined) {
+    safeChanges.sourceHiddenByPolicy = false
+  }
+
+  // Keep the n-gram search index in sync with searchable fields
+  if (affectsSearchIndex(safeChanges)) {
+    safeChanges.searchNgrams = buildSearchNgrams({ ...current, ...safeChanges })
+  }
+
+  return safeChanges
+}
+
+/**
+ * Update whitelisted fields of a product (the audit log records the diff)
+ *
+ * @param audit - Action and note to record instead of `update`/`statusChange`
+ */
 export async function updateProductById(
   idOrSlug: string,
-  patch: Partial<Product>
+  patch: Partial<Product>,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  audit: { action?: AuditAction; note?: string } = {}
 ): Promise<Product> {
   const db = await getMongoDb()
   const collection = db.collection('products')
@@ -161,20 +494,31 @@ export async function updateProductById(
     }
   }
 
-  // Whitelist allowed fields only (silently ignore blocked fields)
-  // Only include fields that are defined (not undefined)
-  const safeChanges: any = {}
-  for (const [key, value] of Object.entries(patch)) {
-    if (ALLOWED_UPDATE_FIELDS.has(key) && value !== undefined) {
-      safeChanges[key] = value
-    }
-    // Blocked fields are silently ignored (not added to safeChanges)
+  // Current version, for the state machine and the audit diff
+  const current = await collection.findOne(selector)
+  if (!current) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+  if (current.isDeleted) {
+    throw new TrashError('CONFLICT', `Product ${current._id.toString()} is in the trash; restore it first`)
   }
 
-  // Never update id, _id, or slug (these are managed separately)
-  delete safeChanges.id
-  delete safeChanges._id
-  delete safeChanges.slug
+  const safeChanges = await buildProductChanges(current, patch)
+
+  // Enforce the lifecycle state machine (throws LifecycleTransitionError)
+  if (safeChanges.lifecycleStatus !== undefined) {
+    const from: ProductStatus = isLifecycleStatus(current.lifecycleStatus) ? current.lifecycleStatus : 'RAW'
+    const to: ProductStatus = safeChanges.lifecycleStatus
+    const failure = checkLifecycleTransition(current._id.toString(), { ...current, ...safeChanges }, from, to)
+    if (failure) {
+      throw new LifecycleTransitionError([failure])
+    }
+
+    // Explicit source fields in the patch win over the push defaults
+    if (to === 'PUSHED' && from !== 'PUSHED') {
+      Object.assign(safeChanges, { ...getPushInitFields(current), ...safeChanges })
+    }
+  }
 
   // Always set updatedAt on update (but don't allow it in patch body)
   safeChanges.updatedAt = new Date()
@@ -188,7 +532,7 @@ export async function updateProductById(
   }
 
   const result = await collection.findOneAndUpdate(
-    selector,
+    { _id: current._id },
     { $set: safeChanges },
     { returnDocument: 'after' }
   )
@@ -197,12 +541,22 @@ export async function updateProductById(
     throw new Error(`Product not found: ${idOrSlug}`)
   }
 
+  await recordAuditEvents(context, [
+    {
+      productId: result._id,
+      action: audit.action ?? getUpdateAction(current, result),
+      changes: diffProductFields(current, result),
+      note: audit.note,
+      snapshot: { before: current, after: result },
+    },
+  ])
   return docToProduct(result)
 }
 
 export async function updateManyStatus(
   ids: string[],
-  lifecycleStatus: ProductStatus
+  lifecycleStatus: ProductStatus,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
 ): Promise<Product[]> {
   const db = await getMongoDb()
   const collection = db.collection('products')
@@ -217,18 +571,274 @@ export async function updateManyStatus(
     return []
   }
 
-  // Use $or to match any of the selectors
-  await collection.updateMany(
-    { $or: selectors },
-    { $set: { lifecycleStatus } }  // Update lifecycleStatus, not status
+  // Check every product before writing anything (all or nothing)
+  const currentDocs = await collection.find({ $or: selectors }).toArray()
+  const trashed = currentDocs.filter((doc) => doc.isDeleted).map((doc) => doc._id.toString())
+  if (trashed.length > 0) {
+    throw new TrashError('CONFLICT', 'Restore products from the trash before changing them', trashed)
+  }
+  const failures: LifecycleTransitionFailure[] = []
+  for (const doc of currentDocs) {
+    const from: ProductStatus = isLifecycleStatus(doc.lifecycleStatus) ? doc.lifecycleStatus : 'RAW'
+    const failure = checkLifecycleTransition(doc._id.toString(), doc, from, lifecycleStatus)
+    if (failure) {
+      failures.push(failure)
+    }
+  }
+  if (failures.length > 0) {
+    throw new LifecycleTransitionError(failures)
+  }
+
+  if (currentDocs.length === 0) {
+    return []
+  }
+
+  // Per-document updates so PUSHED can initialize each product's own baseline
+  const now = new Date()
+  await collection.bulkWrite(
+    currentDocs.map((doc) => ({
+      updateOne: {
+        filter: { _id: doc._id },
+        update: {
+          $set: {
+            ...(lifecycleStatus === 'PUSHED' && doc.lifecycleStatus !== 'PUSHED' ? getPushInitFields(doc) : {}),
+            lifecycleStatus,  // Update lifecycleStatus, not status
+            updatedAt: now,
+          },
+        },
+      },
+    }))
   )
 
   // Fetch updated documents
   const docs = await collection.find({ $or: selectors }).toArray()
+  const before = new Map(currentDocs.map((doc) => [doc._id.toString(), doc]))
+  await recordAuditEvents(
+    context,
+    docs.map((doc) => {
+      const previous = before.get(doc._id.toString()) ?? {}
+      return { productId: doc._id, action: getUpdateAction(previous, doc), changes: diffProductFields(previous, doc) }
+    }),
+    now
+  )
   return docs.map(docToProduct)
 }
 
-export async function createProduct(product: Omit<Product, 'id'>): Promise<Product> {
+/**
+ * Recompute priceMnt for a selection of products
+ *
+ * Without `apply` this is a preview: the diff is returned and nothing is
+ * written. With `apply`, only products whose price actually changes are
+ * updated (priceMnt plus the pricing inputs used, in `pricingMeta`); PUSHED
+ * ones get their storefront price refreshed through the publisher.
+ */
+export async function repriceProducts(
+  ids: string[],
+  options: { apply?: boolean; context?: AuditContext } = {}
+): Promise<RepriceResult> {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+
+  const config = await getPricingConfig()
+  const selectors = ids.map(buildProductSelector)
+  const docs = selectors.length > 0 ? await collection.find({ $or: selectors }).toArray() : []
+
+  const items = buildRepriceItems(docs.map(docToProduct), config)
+  const changedItems = items.filter((item) => item.suggestedPriceMnt !== null && item.diffMnt !== 0)
+
+  if (options.apply && changedItems.length > 0) {
+    const now = new Date()
+    await collection.bulkWrite(
+      changedItems.map((item) => ({
+        updateOne: {
+          filter: { _id: new ObjectId(item.id) },
+          update: {
+            $set: {
+              priceMnt: item.suggestedPriceMnt,
+              pricingMeta: {
+                exchangeRate: config.exchangeRate.rate,
+                exchangeRateId: config.exchangeRate.id ?? null,
+                ruleId: item.ruleId,
+                repricedAt: now,
+              },
+              updatedAt: now,
+            },
+          },
+        },
+      }))
+    )
+    const docsById = new Map(docs.map((doc) => [doc._id.toString(), doc]))
+    await recordAuditEvents(
+      options.context ?? SYSTEM_AUDIT_CONTEXT,
+      changedItems.map((item) => {
+        const before = docsById.get(item.id) ?? {}
+        return {
+          productId: item.id,
+          action: 'reprice',
+          changes: [{ field: 'priceMnt', before: item.currentPriceMnt, after: item.suggestedPriceMnt }],
+          snapshot: { before, after: { ...before, priceMnt: item.suggestedPriceMnt } },
+        }
+      }),
+      now
+    )
+
+    // Live products keep their old storefront price until it is sent again
+    for (const item of changedItems) {
+      if (docsById.get(item.id)?.lifecycleStatus === 'PUSHED') {
+        await refreshStorefrontFields(item.id, options.context)
+      }
+    }
+  }
+
+  return {
+    exchangeRate: config.exchangeRate,
+    items,
+    changed: changedItems.length,
+    applied: !!options.apply,
+  }
+}
+
+/**
+ * Accept the last checked source price as the new baseline
+ *
+ * Clears the price-changed flag and the price part of a pending review, and
+ * moves priceKrw along so the pricing engine uses the new source price.
+ */
+export async function acceptSourceBaseline(
+  idOrSlug: string,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product> {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+
+  const current = await collection.findOne(buildProductSelector(idOrSlug))
+  if (!current) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+
+  const newBaseline = current.sourceLastCheckedPriceKrw
+  if (typeof newBaseline !== 'number' || newBaseline <= 0) {
+    throw new Error('Product has no checked source price to accept')
+  }
+
+  const reviewReasons: string[] = (current.sourceReviewReasons ?? []).filter((r: string) => r !== 'priceChanged')
+  const now = new Date()
+  const changes: Record<string, any> = {
+    sourceBaselinePriceKrw: newBaseline,
+    priceKrw: newBaseline,
+    sourcePriceChanged: false,
+    sourceReviewReasons: reviewReasons,
+    sourceReviewStatus: reviewReasons.length > 0 ? 'pending' : null,
+    updatedAt: now,
+  }
+
+  const audit: PolicyAuditDraft = {
+    action: 'acceptBaseline',
+    actor: 'user',
+    reason: `Accepted ${newBaseline.toLocaleString()} KRW as new source baseline`,
+    before: {
+      sourceBaselinePriceKrw: current.sourceBaselinePriceKrw ?? null,
+      priceKrw: current.priceKrw ?? null,
+    },
+    after: { sourceBaselinePriceKrw: newBaseline, priceKrw: newBaseline },
+  }
+
+  const result = await collection.findOneAndUpdate(
+    { _id: current._id },
+    { $set: changes },
+    { returnDocument: 'after' }
+  )
+  if (!result) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+
+  await recordPolicyAudits(current._id, [audit], now)
+  await recordAuditEvents(
+    context,
+    [
+      {
+        productId: current._id,
+        action: 'acceptBaseline',
+        changes: diffProductFields(current, result),
+        snapshot: { before: current, after: result },
+      },
+    ],
+    now
+  )
+  return docToProduct(result)
+}
+
+/**
+ * Set the editable fields (see lib/revisions) back to a revision
+ *
+ * Only the fields that differ are written, through `updateProductById` and its
+ * whitelist, after the field checks PATCH applies; the revert is audited and
+ * becomes the newest revision. A category brought back counts as picked by
+ * hand, so mapping rules leave it alone.
+ *
+ * @throws RevisionError (NOT_FOUND) for an unknown product or revision,
+ *   (CONFLICT) for products in the trash, (INVALID) when a reverted value
+ *   fails validation
+ */
+export async function revertProductToRevision(
+  idOrSlug: string,
+  revisionId: string,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product> {
+  const product = await getProductById(idOrSlug)
+  if (!product) {
+    throw new RevisionError('NOT_FOUND', `Product not found: ${idOrSlug}`)
+  }
+  if (product.isDeleted) {
+    throw new RevisionError('CONFLICT', 'Restore the product from the trash before reverting it')
+  }
+
+  const revision = await getProductRevision(product.id, revisionId)
+  if (!revision) {
+    throw new RevisionError('NOT_FOUND', `Revision not found: ${revisionId}`)
+  }
+
+  const fields = diffRevisionFields(pickRevisionFields(product), revision.fields)
+  if (fields.length === 0) {
+    return product
+  }
+
+  // Fields unset at the revision come back empty; lists stay lists
+  const patch: Record<string, any> = {}
+  for (const field of fields) {
+    patch[field] = revision.fields[field] ?? (REVISION_ARRAY_FIELDS.includes(field) ? [] : null)
+  }
+
+  const validation = validateProduct(patch, DRAFT_VALIDATION_CONFIG, {
+    onlyFields: Object.keys(patch),
+    normalize: false,
+  })
+  if (!validation.isValid) {
+    throw new RevisionError(
+      'INVALID',
+      `Revision ${revision.revision} has invalid fields: ${validation.errors.map((e) => e.message).join('; ')}`,
+      validation.errors
+    )
+  }
+
+  if (fields.includes('category') || fields.includes('subCategory')) {
+    patch.categoryAssignment = {
+      method: 'manual',
+      source: getProductSourceCategory(product),
+      assignedAt: new Date().toISOString(),
+    }
+  }
+
+  return updateProductById(product.id, patch, context, {
+    action: 'revert',
+    note: `Reverted to revision ${revision.revision}`,
+  })
+}
+
+export async function createProduct(
+  product: Omit<Product, 'id'>,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product> {
   const db = await getMongoDb()
   const collection = db.collection('products')
 
@@ -239,10 +849,16 @@ export async function createProduct(product: Omit<Product, 'id'>): Promise<Produ
     throw new Error('Failed to create product')
   }
 
+  await recordAuditEvents(context, [
+    { productId: doc._id, action: 'create', changes: diffProductFields({}, doc), snapshot: { before: {}, after: doc } },
+  ])
   return docToProduct(doc)
 }
 
-export async function createManyProducts(products: Omit<Product, 'id'>[]): Promise<Product[]> {
+export async function createManyProducts(
+  products: Omit<Product, 'id'>[],
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product[]> {
   const db = await getMongoDb()
   const collection = db.collection('products')
 
@@ -252,6 +868,15 @@ export async function createManyProducts(products: Omit<Product, 'id'>[]): Promi
   const insertedIds = Object.values(result.insertedIds)
   const insertedDocs = await collection.find({ _id: { $in: insertedIds } }).toArray()
   
+  await recordAuditEvents(
+    context,
+    insertedDocs.map((doc) => ({
+      productId: doc._id,
+      action: 'create',
+      changes: diffProductFields({}, doc),
+      snapshot: { before: {}, after: doc },
+    }))
+  )
   return insertedDocs.map(docToProduct)
 }
 
@@ -0,0 +1,596 @@
+/**
+ * Storefront publisher
+ *
+ * "Push" moves a product to PUSHED and publishes it through an adapter,
+ * selected by STOREFRONT_PUBLISHER (default: mongo):
+ * - mongo: the storefront reads the shared `products` collection; the
+ *   storefront-facing fields are written on the product and read back
+ * - webhook: the product is POSTed to STOREFRONT_WEBHOOK_URL (HMAC-signed
+ *   with STOREFRONT_WEBHOOK_SECRET when set)
+ *
+ * The import tool only writes the storefront fields listed in
+ * StorefrontPublishFields; stock, sale_price, ratings and the rest stay with
+ * the storefront. When the adapter fails, the lifecycle status and source
+ * baseline are rolled back and the failure is kept in `publishResult`.
+ *
+ * Retiring unpublishes a PUSHED product (e.g. discontinued at the source),
+ * hides it and records why; source checks skip RETIRED products. Publishing
+ * a RETIRED product again makes it public and clears the retirement.
+ */
+
+import { createHmac } from 'crypto'
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { Product, ProductStatus, PublishResult, StorefrontStatus } from '@/types/product'
+import {
+  checkLifecycleTransition,
+  getPushInitFields,
+  isLifecycleStatus,
+  LifecycleTransitionError,
+  LifecycleTransitionFailure,
+} from './lifecycle'
+import { buildProductChanges, diffProductFields, getProductById } from './products'
+import { AuditContext, recordAuditEvents, SYSTEM_AUDIT_CONTEXT } from './audit'
+
+/**
+ * Storefront-managed fields the publisher sets (the explicit contract)
+ */
+export interface StorefrontPublishFields {
+  status: StorefrontStatus
+  regular_price: number
+}
+
+export interface PublishOutcome {
+  externalId?: string
+  url?: string
+}
+
+export interface StorefrontPublisher {
+  name: string
+  publish(product: Product, fields: StorefrontPublishFields): Promise<PublishOutcome>
+  // Take the product off the storefront
+  unpublish(product: Product): Promise<void>
+}
+
+export type PublishErrorCode = 'INVALID' | 'NOT_CONFIGURED' | 'CONFLICT' | 'PUBLISH_FAILED'
+
+/**
+ * Thrown when a product could not be published; `product` is the product
+ * after the rollback (with the failed `publishResult`)
+ */
+export class PublishError extends Error {
+  readonly code: PublishErrorCode
+  product?: Product
+
+  constructor(code: PublishErrorCode, message: string) {
+    super(message)
+    this.name = 'PublishError'
+    this.code = code
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'INVALID':
+        return 400
+      case 'NOT_CONFIGURED':
+        return 503
+      case 'CONFLICT':
+        return 409
+      default:
+        return 502
+    }
+  }
+}
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000
+const MAX_RETIRE_REASON_LENGTH = 500
+
+// Storefront status of a product that is no longer listed
+const UNPUBLISHED_STATUS: StorefrontStatus = 'Draft'
+
+export function buildStorefrontFields(product: Product): StorefrontPublishFields {
+  return {
+    status: 'Active',
+    regular_price: product.priceMnt ?? 0,
+  }
+}
+
+/**
+ * Product content sent to the webhook (the storefront keeps its own copy)
+ */
+export function buildStorefrontPayload(product: Product) {
+  return {
+    id: product.id,
+    slug: product.slug,
+    title: product.title || product.nameMn || '',
+    short_description: product.short_description || '',
+    detailed_description: product.detailed_description || product.descriptionMn || '',
+    images: product.imagesFinal ?? [],
+    brand: product.brand ?? null,
+    brandId: product.brandId ?? null,
+    category: product.category,
+    subCategory: product.subCategory ?? null,
+    sizes: product.sizes ?? [],
+    colors: product.colors ?? [],
+    custom_specifications: product.custom_specifications ?? null,
+    visibility: product.visibility,
+  }
+}
+
+/**
+ * Live product page from STOREFRONT_PRODUCT_URL ("{slug}" and "{id}" are replaced)
+ */
+export function getStorefrontProductUrl(product: Pick<Product, 'id' | 'slug'>): string | undefined {
+  const template = process.env.STOREFRONT_PRODUCT_URL
+  if (!template) return undefined
+  return template.replace('{slug}', encodeURIComponent(product.slug || product.id)).replace('{id}', product.id)
+}
+
+/**
+ * $set / $unset that put `fields` back to their values in `previous`
+ * (fields that did not exist are removed)
+ */
+function buildRestoreUpdate(previous: Record<string, any> | null | undefined, keys: string[], extra: Record<string, any> = {}) {
+  const restore: Record<string, any> = { ...extra }
+  const unset: Record<string, ''> = {}
+  for (const key of keys) {
+    if (previous?.[key] === undefined) {
+      unset[key] = ''
+    } else {
+      restore[key] = previous[key]
+    }
+  }
+  return { $set: restore, ...(Object.keys(unset).length > 0 && { $unset: unset }) }
+}
+
+/**
+ * Write storefront fields on the shared product and read them back
+ */
+async function writeStorefrontFields(productId: string, fields: Partial<StorefrontPublishFields>) {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+  const _id = new ObjectId(productId)
+  const keys = Object.keys(fields)
+  const projection = Object.fromEntries(keys.map((key) => [key, 1]))
+
+  const previous = await collection.findOne({ _id }, { projection })
+  await collection.updateOne({ _id }, { $set: fields })
+
+  // Read back what the storefront will see
+  const live = await collection.findOne({ _id }, { projection })
+  if (keys.some((key) => live?.[key] !== (fields as any)[key])) {
+    await collection.updateOne({ _id }, buildRestoreUpdate(previous, keys))
+    throw new PublishError('PUBLISH_FAILED', 'Storefront fields did not persist')
+  }
+}
+
+export const mongoStorefrontPublisher: StorefrontPublisher = {
+  name: 'mongo',
+  async publish(product, fields) {
+    await writeStorefrontFields(product.id, fields)
+    return { externalId: product.id, url: getStorefrontProductUrl(product) }
+  },
+  async unpublish(product) {
+    await writeStorefrontFields(product.id, { status: UNPUBLISHED_STATUS })
+  },
+}
+
+/**
+ * POST an event to the storefront webhook
+ *
+ * @returns the parsed response body (null when not JSON)
+ */
+async function postStorefrontWebhook(payload: Record<string, any>): Promise<any> {
+  const url = process.env.STOREFRONT_WEBHOOK_URL
+  if (!url) {
+    throw new PublishError('NOT_CONFIGURED', 'STOREFRONT_WEBHOOK_URL is not set')
+  }
+
+  const body = JSON.stringify(payload)
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  const secret = process.env.STOREFRONT_WEBHOOK_SECRET
+  if (secret) {
+    headers['X-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+  }
+
+  const controller = new AbortController()
+  const timeoutMs = Number(process.env.STOREFRONT_WEBHOOK_TIMEOUT_MS) || DEFAULT_WEBHOOK_TIMEOUT_MS
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  let res: Response
+  try {
+    res = await fetch(url, { method: 'POST', headers, body, signal: controller.signal })
+  } catch (error: any) {
+    throw new PublishError(
+      'PUBLISH_FAILED',
+      error?.name === 'AbortError'
+        ? `Storefront webhook timed out after ${timeoutMs}ms`
+        : `Storefront webhook unreachable: ${error?.message ?? error}`
+    )
+  } finally {
+    clearTimeout(timeoutId)
+  }
+
+  const data = await res.json().catch(() => null)
+  if (!res.ok) {
+    throw new PublishError('PUBLISH_FAILED', data?.error || `Storefront webhook returned HTTP ${res.status}`)
+  }
+  return data
+}
+
+export const webhookStorefrontPublisher: StorefrontPublisher = {
+  name: 'webhook',
+  async publish(product, fields) {
+    const data = await postStorefrontWebhook({ event: 'product.publish', fields, product: buildStorefrontPayload(product) })
+    // The storefront may accept the request but refuse to list the product
+    if (data?.live === false) {
+      throw new PublishError('PUBLISH_FAILED', data?.error || 'Storefront did not put the product live')
+    }
+
+    return {
+      externalId: data?.externalId ?? data?.id ?? undefined,
+      url: data?.url ?? getStorefrontProductUrl(product),
+    }
+  },
+  async unpublish(product) {
+    await postStorefrontWebhook({ event: 'product.unpublish', product: { id: product.id, slug: product.slug } })
+  },
+}
+
+export const STOREFRONT_PUBLISHERS: Record<string, StorefrontPublisher> = {
+  mongo: mongoStorefrontPublisher,
+  webhook: webhookStorefrontPublisher,
+}
+
+export function getStorefrontPublisher(): StorefrontPublisher {
+  const name = (process.env.STOREFRONT_PUBLISHER || 'mongo').trim().toLowerCase()
+  const publisher = STOREFRONT_PUBLISHERS[name]
+  if (!publisher) {
+    throw new PublishError(
+      'NOT_CONFIGURED',
+      `Unknown STOREFRONT_PUBLISHER: ${name} (available: ${Object.keys(STOREFRONT_PUBLISHERS).join(', ')})`
+    )
+  }
+  return publisher
+}
+
+function getCurrentStatus(product: Product): ProductStatus {
+  return isLifecycleStatus(product.lifecycleStatus) ? product.lifecycleStatus : 'RAW'
+}
+
+/**
+ * Publish one product and move it to PUSHED
+ *
+ * Already PUSHED products are published again (storefront fields refreshed);
+ * RETIRED products are republished and made public.
+ *
+ * @param options.fields - Edits to publish with the product; validated with it
+ *   and saved only once the adapter succeeds
+ * @throws LifecycleTransitionError when the product may not be pushed
+ * @throws PublishError when the product is in the trash or the adapter fails (after rolling back)
+ */
+export async function publishProduct(
+  idOrSlug: string,
+  options: { fields?: Partial<Product>; context?: AuditContext } = {}
+): Promise<Product> {
+  const context = options.context ?? SYSTEM_AUDIT_CONTEXT
+  const publisher = getStorefrontPublisher()
+  const product = await getProductById(idOrSlug)
+  if (!product) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+  if (product.isDeleted) {
+    throw new PublishError('CONFLICT', `Product ${product.id} is in the trash; restore it first`)
+  }
+
+  const { lifecycleStatus, ...fields } = options.fields ?? {}
+  const changes = await buildProductChanges(product, fields)
+  const edited = { ...product, ...changes }
+
+  const from = getCurrentStatus(product)
+  const failure = checkLifecycleTransition(product.id, edited, from, 'PUSHED')
+  if (failure) {
+    throw new LifecycleTransitionError([failure])
+  }
+
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+  const _id = new ObjectId(product.id)
+
+  // Move to PUSHED only if nobody changed the status meanwhile
+  const initFields: Record<string, any> =
+    from === 'PUSHED'
+      ? {}
+      : {
+          ...getPushInitFields(edited),
+          ...(from === 'RETIRED' && {
+            visibility: 'public',
+            sourceHiddenByPolicy: false,
+            retiredAt: null,
+            retiredBy: null,
+            retiredReason: null,
+          }),
+        }
+  const claimed = await collection.findOneAndUpdate(
+    { _id, lifecycleStatus: product.lifecycleStatus ?? null },
+    { $set: { ...initFields, lifecycleStatus: 'PUSHED', updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  )
+  if (!claimed) {
+    throw new PublishError('CONFLICT', `Product ${product.id} changed while publishing; try again`)
+  }
+
+  const pushed = { ...edited, ...initFields, lifecycleStatus: 'PUSHED' as ProductStatus }
+  try {
+    const outcome = await publisher.publish(pushed, buildStorefrontFields(pushed))
+    const now = new Date().toISOString()
+    const publishResult: PublishResult = {
+      ok: true,
+      adapter: publisher.name,
+      at: now,
+      ...(outcome.externalId && { externalId: outcome.externalId }),
+      ...(outcome.url && { url: outcome.url }),
+    }
+    await collection.updateOne(
+      { _id },
+      { $set: { ...changes, pushedAt: now, pushedBy: context.actor, publishResult, updatedAt: new Date() } }
+    )
+  } catch (error: any) {
+    const publishError =
+      error instanceof PublishError ? error : new PublishError('PUBLISH_FAILED', error?.message ?? String(error))
+
+    // Restore the lifecycle status and whatever the push initialized
+    const publishResult: PublishResult = {
+      ok: false,
+      adapter: publisher.name,
+      at: new Date().toISOString(),
+      error: publishError.message,
+      rolledBackTo: from,
+    }
+    await collection.updateOne(
+      { _id },
+      buildRestoreUpdate(product, Object.keys(initFields), {
+        lifecycleStatus: from,
+        publishResult,
+        updatedAt: new Date(),
+      })
+    )
+
+    publishError.product = (await getProductById(product.id)) ?? undefined
+    await recordAuditEvents(context, [
+      { productId: product.id, action: 'publishFailed', changes: [], note: publishError.message },
+    ])
+    throw publishError
+  }
+
+  const published = (await getProductById(product.id)) as Product
+  await recordAuditEvents(context, [
+    {
+      productId: product.id,
+      action: 'publish',
+      changes: diffProductFields(product, published),
+      ...(Object.keys(changes).length > 0 && { snapshot: { before: product, after: published } }),
+    },
+  ])
+  return published
+}
+
+/**
+ * Send the storefront fields of a PUSHED product again, after a change made
+ * outside a publish (source policy or bulk reprice) touched them
+ *
+ * No lifecycle checks or rollback: the change is already saved. A failure is
+ * kept in `publishResult` and the audit log so the product can be pushed
+ * again by hand.
+ *
+ * @returns the publish result, or null when the product is not PUSHED
+ */
+export async function refreshStorefrontFields(
+  idOrSlug: string,
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<PublishResult | null> {
+  const product = await getProductById(idOrSlug)
+  if (!product || product.lifecycleStatus !== 'PUSHED') return null
+
+  let publishResult: PublishResult
+  try {
+    const publisher = getStorefrontPublisher()
+    const outcome = await publisher.publish(product, buildStorefrontFields(product))
+    publishResult = {
+      ok: true,
+      adapter: publisher.name,
+      at: new Date().toISOString(),
+      ...(outcome.externalId && { externalId: outcome.externalId }),
+      ...(outcome.url && { url: outcome.url }),
+    }
+  } catch (error: any) {
+    publishResult = {
+      ok: false,
+      adapter: product.publishResult?.adapter ?? (process.env.STOREFRONT_PUBLISHER || 'mongo'),
+      at: new Date().toISOString(),
+      error: error?.message ?? String(error),
+    }
+    await recordAuditEvents(context, [
+      { productId: product.id, action: 'publishFailed', changes: [], note: `Storefront refresh: ${publishResult.error}` },
+    ])
+  }
+
+  const db = await getMongoDb()
+  await db.collection('products').updateOne({ _id: new ObjectId(product.id) }, { $set: { publishResult } })
+  return publishResult
+}
+
+/**
+ * Retire a PUSHED product: unpublish it from the storefront, hide it and
+ * record the reason. Source checks skip RETIRED products.
+ *
+ * The status is claimed before unpublishing, so a concurrent retire or
+ * republish cannot interleave with the adapter call; when the adapter fails,
+ * the product is put back as it was.
+ *
+ * @param options.fields - Edits to save with the retirement, only once the
+ *   adapter succeeds
+ * @throws LifecycleTransitionError when the product is not PUSHED (or RETIRED)
+ * @throws PublishError when the reason is missing or the adapter fails
+ */
+export async function retireProduct(
+  idOrSlug: string,
+  options: { reason: string; fields?: Partial<Product>; context?: AuditContext }
+): Promise<Product> {
+  const context = options.context ?? SYSTEM_AUDIT_CONTEXT
+  const reason = typeof options.reason === 'string' ? options.reason.trim() : ''
+  if (!reason) {
+    throw new PublishError('INVALID', 'A reason is required to retire a product')
+  }
+  if (reason.length > MAX_RETIRE_REASON_LENGTH) {
+    throw new PublishError('INVALID', `reason must be at most ${MAX_RETIRE_REASON_LENGTH} characters`)
+  }
+
+  const publisher = getStorefrontPublisher()
+  const product = await getProductById(idOrSlug)
+  if (!product) {
+    throw new Error(`Product not found: ${idOrSlug}`)
+  }
+
+  const { lifecycleStatus, ...fields } = options.fields ?? {}
+  const changes = await buildProductChanges(product, fields)
+
+  const failure = checkLifecycleTransition(product.id, { ...product, ...changes }, getCurrentStatus(product), 'RETIRED')
+  if (failure) {
+    throw new LifecycleTransitionError([failure])
+  }
+
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+  const _id = new ObjectId(product.id)
+
+  // Move to RETIRED only if nobody changed the status meanwhile
+  const retireFields = {
+    lifecycleStatus: 'RETIRED',
+    visibility: 'hidden',
+    sourceHiddenByPolicy: false,
+    retiredAt: new Date().toISOString(),
+    retiredBy: context.actor,
+    retiredReason: reason,
+  }
+  const claimed = await collection.findOneAndUpdate(
+    { _id, lifecycleStatus: product.lifecycleStatus },
+    { $set: { ...retireFields, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  )
+  if (!claimed) {
+    throw new PublishError('CONFLICT', `Product ${product.id} changed while retiring; try again`)
+  }
+
+  try {
+    await publisher.unpublish(product)
+  } catch (error: any) {
+    // Still on the storefront: restore the status and what retiring changed
+    await collection.updateOne(
+      { _id },
+      buildRestoreUpdate(product, Object.keys(retireFields), { updatedAt: new Date() })
+    )
+    throw error instanceof PublishError ? error : new PublishError('PUBLISH_FAILED', error?.message ?? String(error))
+  }
+
+  // Retiring decides visibility; the other edits are saved now that it succeeded
+  for (const field of Object.keys(retireFields)) delete changes[field]
+  if (Object.keys(changes).length > 0) {
+    await collection.updateOne({ _id }, { $set: { ...changes, updatedAt: new Date() } })
+  }
+
+  const retired = (await getProductById(product.id)) as Product
+  await recordAuditEvents(context, [
+    {
+      productId: product.id,
+      action: 'retire',
+      changes: diffProductFields(product, retired),
+      ...(Object.keys(changes).length > 0 && { snapshot: { before: product, after: retired } }),
+    },
+  ])
+  return retired
+}
+
+export interface PublishProductsResult {
+  products: Product[]
+  errors: { id: string; code: string; error: string }[]
+}
+
+/**
+ * Apply `action` to several products after checking that every one of them
+ * may move to `to` (all or nothing, like other bulk status changes). Adapter
+ * failures are then reported per product and affect only that product.
+ */
+async function runBulkPublisherAction(
+  ids: string[],
+  to: ProductStatus,
+  action: (id: string) => Promise<Product>
+): Promise<PublishProductsResult> {
+  const result: PublishProductsResult = { products: [], errors: [] }
+  const found: Product[] = []
+  const failures: LifecycleTransitionFailure[] = []
+
+  for (const id of Array.from(new Set(ids))) {
+    const product = await getProductById(id)
+    if (!product) {
+      result.errors.push({ id, code: 'NOT_FOUND', error: `Product not found: ${id}` })
+      continue
+    }
+    const failure = checkLifecycleTransition(product.id, product, getCurrentStatus(product), to)
+    if (failure) {
+      failures.push(failure)
+    }
+    found.push(product)
+  }
+  if (failures.length > 0) {
+    throw new LifecycleTransitionError(failures)
+  }
+
+  for (const product of found) {
+    try {
+      result.products.push(await action(product.id))
+    } catch (error: any) {
+      if (error instanceof PublishError) {
+        result.errors.push({ id: product.id, code: error.code, error: error.message })
+        if (error.product) result.products.push(error.product)
+        continue
+      }
+      // Changed by someone else since the check above
+      if (error instanceof LifecycleTransitionError) {
+        result.errors.push({ id: product.id, code: 'LIFECYCLE_TRANSITION_REJECTED', error: error.message })
+        continue
+      }
+      throw error
+    }
+  }
+
+  return result
+}
+
+/**
+ * Publish several products
+ *
+ * @throws LifecycleTransitionError when any product may not be pushed
+ */
+export async function publishProducts(
+  ids: string[],
+  options: { context?: AuditContext } = {}
+): Promise<PublishProductsResult> {
+  return runBulkPublisherAction(ids, 'PUSHED', (id) => publishProduct(id, options))
+}
+
+/**
+ * Retire several products with the same reason
+ *
+ * @throws LifecycleTransitionError when any product is not PUSHED
+ * @throws PublishError when the reason is missing
+ */
+export async function retireProducts(
+  ids: string[],
+  options: { reason: string; context?: AuditContext }
+): Promise<PublishProductsResult> {
+  if (typeof options.reason !== 'string' || !options.reason.trim()) {
+    throw new PublishError('INVALID', 'A reason is required to retire a product')
+  }
+  return runBulkPublisherAction(ids, 'RETIRED', (id) => retireProduct(id, options))
+}
@@ -0,0 +1,197 @@
+/**
+ * Cache for external lookups behind the image panel
+ *
+ * Opening the editor's image panel builds an English query with Gemini and
+ * fetches Google CSE pages; both burn quota and take seconds. Results are kept
+ * in the `query_cache` collection per namespace:
+ * - imageQuery: Gemini query, keyed on normalized title, brand, store, category
+ * - imageSearch: one Google results page, keyed on query, start and rights
+ *
+ * Entries expire after a per-namespace TTL (a TTL index removes them; reads
+ * also check `expiresAt`). Hits and misses are counted per namespace in
+ * `query_cache_stats`. Cache errors never fail the lookup itself.
+ */
+
+import { createHash } from 'crypto'
+import { getMongoDb } from '../mongodb'
+import { QueryCacheNamespace, QueryCacheStats } from '@/types/product'
+
+const COLLECTION = 'query_cache'
+const STATS_COLLECTION = 'query_cache_stats'
+
+export const QUERY_CACHE_NAMESPACES: QueryCacheNamespace[] = ['imageQuery', 'imageSearch']
+
+const HOUR = 60 * 60
+
+export const QUERY_CACHE_TTL_SECONDS: Record<QueryCacheNamespace, number> = {
+  imageQuery: (Number(process.env.IMAGE_QUERY_CACHE_TTL_HOURS) || 30 * 24) * HOUR,
+  imageSearch: (Number(process.env.IMAGE_SEARCH_CACHE_TTL_HOURS) || 7 * 24) * HOUR,
+}
+
+// hit: served from the cache; miss: computed and stored; bypass: computed, cache not read
+export type QueryCacheOutcome = 'hit' | 'miss' | 'bypass'
+
+interface QueryCacheEntry {
+  _id: string
+  namespace: QueryCacheNamespace
+  keyParts: Record<string, unknown>
+  value: unknown
+  hits: number
+  createdAt: Date
+  expiresAt: Date
+}
+
+/**
+ * Normalize a key part: Unicode NFKC, trimmed, lowercase, single spaces
+ */
+export function normalizeCacheKeyPart(value: unknown): unknown {
+  if (typeof value !== 'string') return value ?? null
+  return value.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function normalizeKeyParts(parts: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {}
+  for (const key of Object.keys(parts).sort()) {
+    normalized[key] = normalizeCacheKeyPart(parts[key])
+  }
+  return normalized
+}
+
+function getCacheKey(namespace: QueryCacheNamespace, parts: Record<string, unknown>): string {
+  return createHash('sha256').update(`${namespace}\u0000${JSON.stringify(parts)}`).digest('hex')
+}
+
+let indexesEnsured = false
+
+async function getCacheCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection<QueryCacheEntry>(COLLECTION)
+  if (!indexesEnsured) {
+    await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'expiresAt_ttl' })
+    await collection.createIndex({ namespace: 1 }, { name: 'namespace_1' })
+    indexesEnsured = true
+  }
+  return collection
+}
+
+async function countLookup(namespace: QueryCacheNamespace, outcome: QueryCacheOutcome) {
+  const db = await getMongoDb()
+  const field = outcome === 'hit' ? 'hits' : outcome === 'miss' ? 'misses' : 'bypasses'
+  await db.collection<{ _id: string }>(STATS_COLLECTION).updateOne(
+    { _id: namespace },
+    { $inc: { [field]: 1 }, $setOnInsert: { since: new Date() } },
+    { upsert: true }
+  )
+}
+
+/**
+ * Return the cached value for `keyParts`, or compute, store and return it
+ *
+ * `shouldStore` rejects results not worth keeping (e.g. fallbacks produced
+ * while the upstream API was down). With `bypass`, the cache is not read but
+ * the fresh result still replaces the stored one.
+ */
+export async function withQueryCache<T>(
+  namespace: QueryCacheNamespace,
+  keyParts: Record<string, unknown>,
+  compute: () => Promise<T>,
+  options: { bypass?: boolean; shouldStore?: (value: T) => boolean } = {}
+): Promise<{ value: T; outcome: QueryCacheOutcome }> {
+  const normalized = normalizeKeyParts(keyParts)
+  const key = getCacheKey(namespace, normalized)
+
+  if (!options.bypass) {
+    try {
+      const collection = await getCacheCollection()
+      const entry = await collection.findOneAndUpdate(
+        { _id: key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 } }
+      )
+      if (entry) {
+        await countLookup(namespace, 'hit')
+        return { value: entry.value as T, outcome: 'hit' }
+      }
+    } catch (error: any) {
+      console.warn(`Query cache read failed (${namespace}):`, error?.message ?? error)
+    }
+  }
+
+  const value = await compute()
+  const outcome: QueryCacheOutcome = options.bypass ? 'bypass' : 'miss'
+
+  try {
+    if (!options.shouldStore || options.shouldStore(value)) {
+      const collection = await getCacheCollection()
+      const now = new Date()
+      await collection.replaceOne(
+        { _id: key },
+        {
+          namespace,
+          keyParts: normalized,
+          value,
+          hits: 0,
+          createdAt: now,
+          expiresAt: new Date(now.getTime() + QUERY_CACHE_TTL_SECONDS[namespace] * 1000),
+        },
+        { upsert: true }
+      )
+    }
+    await countLookup(namespace, outcome)
+  } catch (error: any) {
+    console.warn(`Query cache write failed (${namespace}):`, error?.message ?? error)
+  }
+
+  return { value, outcome }
+}
+
+/**
+ * Entry counts and hit/miss counters per namespace
+ */
+export async function getQueryCacheStats(): Promise<QueryCacheStats[]> {
+  const collection = await getCacheCollection()
+  const db = await getMongoDb()
+  const now = new Date()
+  const counters = await db.collection<{ _id: string }>(STATS_COLLECTION).find({}).toArray()
+
+  return Promise.all(
+    QUERY_CACHE_NAMESPACES.map(async (namespace): Promise<QueryCacheStats> => {
+      const stats: any = counters.find((doc) => doc._id === namespace) ?? {}
+      const hits = stats.hits ?? 0
+      const misses = stats.misses ?? 0
+      return {
+        namespace,
+        entries: await collection.countDocuments({ namespace, expiresAt: { $gt: now } }),
+        hits,
+        misses,
+        bypasses: stats.bypasses ?? 0,
+        hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+        ttlSeconds: QUERY_CACHE_TTL_SECONDS[namespace],
+        since: stats.since instanceof Date ? stats.since.toISOString() : null,
+      }
+    })
+  )
+}
+
+/**
+ * Delete cache entries: all, one namespace, or those created before a date.
+ * `resetStats` also clears the hit/miss counters of the purged namespaces.
+ */
+export async function purgeQueryCache(
+  options: { namespace?: QueryCacheNamespace; createdBefore?: Date; resetStats?: boolean } = {}
+): Promise<{ deleted: number }> {
+  const collection = await getCacheCollection()
+  const filter: Record<string, unknown> = {}
+  if (options.namespace) filter.namespace = options.namespace
+  if (options.createdBefore) filter.createdAt = { $lt: options.createdBefore }
+
+  const { deletedCount } = await collection.deleteMany(filter)
+
+  if (options.resetStats) {
+    const db = await getMongoDb()
+    await db
+      .collection<{ _id: string }>(STATS_COLLECTION)
+      .deleteMany(options.namespace ? { _id: options.namespace } : {})
+  }
+
+  return { deleted: deletedCount }
+}
@@ -0,0 +1,14 @@
+/**
+ * Who made a request
+ *
+ * The import tool has no login yet: the reverse proxy in front of it (or a
+ * script) names the user in the X-User header. Requests without it are
+ * recorded as "anonymous".
+ */
+
+const MAX_ACTOR_LENGTH = 100
+
+export function getRequestActor(request: Request): string {
+  const user = request.headers.get('x-user')?.trim()
+  return user ? user.slice(0, MAX_ACTOR_LENGTH) : 'anonymous'
+}
@@ -0,0 +1,185 @@
+/**
+ * Product revisions
+ *
+ * Audited writes that change the editable content fields (see lib/revisions)
+ * store a numbered snapshot of them in `product_revisions`, linked to the
+ * audit event. The first time a product is written, its state before the
+ * write is kept as well, so the first recorded change can be undone.
+ *
+ * Reverting goes through `revertProductToRevision` in ./products, which
+ * writes the snapshot back through the update whitelist.
+ */
+
+import { Collection, ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { diffRevisionFields, pickRevisionFields } from '../revisions'
+import { AuditAction, ProductRevision, ValidationResult } from '@/types/product'
+import type { AuditContext } from './audit'
+
+const COLLECTION = 'product_revisions'
+
+export type RevisionErrorCode = 'INVALID' | 'NOT_FOUND' | 'CONFLICT'
+
+/**
+ * Thrown for rejected reverts; routes map `status` to the response code
+ */
+export class RevisionError extends Error {
+  readonly code: RevisionErrorCode
+  // Validation failures of the reverted fields (INVALID)
+  readonly failedRules: ValidationResult['errors']
+
+  constructor(code: RevisionErrorCode, message: string, failedRules: ValidationResult['errors'] = []) {
+    super(message)
+    this.name = 'RevisionError'
+    this.code = code
+    this.failedRules = failedRules
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'CONFLICT':
+        return 409
+      default:
+        return 400
+    }
+  }
+}
+
+/**
+ * One audited write, with the product before and after it
+ */
+export interface RevisionEntry {
+  productId: ObjectId
+  auditEventId: ObjectId
+  action: AuditAction
+  before: Record<string, any>
+  after: Record<string, any>
+}
+
+let indexesEnsured = false
+
+async function getRevisionsCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection(COLLECTION)
+  if (!indexesEnsured) {
+    await collection.createIndex({ productId: 1, revision: -1 }, { unique: true, name: 'productId_1_revision_-1' })
+    indexesEnsured = true
+  }
+  return collection
+}
+
+function docToRevision(doc: any): ProductRevision {
+  return {
+    id: doc._id.toString(),
+    productId: doc.productId.toString(),
+    revision: doc.revision,
+    fields: pickRevisionFields(doc.fields ?? {}),
+    ...(doc.auditEventId && { auditEventId: doc.auditEventId.toString() }),
+    ...(doc.action && { action: doc.action }),
+    ...(doc.actor && { actor: doc.actor }),
+    ...(doc.source && { source: doc.source }),
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+  }
+}
+
+// Attempts per entry when concurrent writes take the same revision number
+const MAX_REVISION_ATTEMPTS = 5
+
+async function recordRevision(
+  collection: Collection,
+  context: AuditContext,
+  entry: RevisionEntry,
+  createdAt: Date
+): Promise<void> {
+  const fields = pickRevisionFields(entry.after)
+  const latest = await collection.findOne({ productId: entry.productId }, { sort: { revision: -1 } })
+  let revision = latest?.revision ?? 0
+  let previous = latest?.fields ?? null
+
+  // Keep the state before the first recorded change (new products have none)
+  if (!latest) {
+    const before = pickRevisionFields(entry.before)
+    if (Object.values(before).some((value) => value !== null)) {
+      revision = 1
+      previous = before
+      await collection.insertOne({
+        productId: entry.productId,
+        revision,
+        fields: before,
+        createdAt: entry.before.updatedAt instanceof Date ? entry.before.updatedAt : createdAt,
+      })
+    }
+  }
+
+  if (previous && diffRevisionFields(previous, fields).length === 0) return
+
+  await collection.insertOne({
+    productId: entry.productId,
+    revision: revision + 1,
+    fields,
+    auditEventId: entry.auditEventId,
+    action: entry.action,
+    actor: context.actor,
+    source: context.source,
+    createdAt,
+  })
+}
+
+/**
+ * Record a revision for each write that changed the editable fields
+ *
+ * Called by `recordAuditEvents`; like the audit log, a failure is logged and
+ * does not fail the product write. Numbers come from the latest revision, so
+ * when a concurrent write took the same number (duplicate key on the unique
+ * index) the entry is recorded again after the newer one.
+ */
+export async function recordRevisions(
+  context: AuditContext,
+  entries: RevisionEntry[],
+  createdAt: Date = new Date()
+): Promise<void> {
+  if (entries.length === 0) return
+
+  try {
+    const collection = await getRevisionsCollection()
+    for (const entry of entries) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await recordRevision(collection, context, entry, createdAt)
+          break
+        } catch (error: any) {
+          if (error?.code !== 11000 || attempt >= MAX_REVISION_ATTEMPTS) throw error
+        }
+      }
+    }
+  } catch (error: any) {
+    console.error('Failed to record product revisions:', error?.message ?? error)
+  }
+}
+
+/**
+ * Revisions of a product, newest first
+ */
+export async function listProductRevisions(productId: string, limit = 100): Promise<ProductRevision[]> {
+  const collection = await getRevisionsCollection()
+  const docs = await collection
+    .find({ productId: new ObjectId(productId) })
+    .sort({ revision: -1 })
+    .limit(limit)
+    .toArray()
+  return docs.map(docToRevision)
+}
+
+/**
+ * One revision of a product (null when it does not belong to the product)
+ */
+export async function getProductRevision(productId: string, revisionId: string): Promise<ProductRevision | null> {
+  if (!ObjectId.isValid(revisionId)) {
+    throw new RevisionError('INVALID', 'revisionId must be a revision id')
+  }
+  const collection = await getRevisionsCollection()
+  const doc = await collection.findOne({ _id: new ObjectId(revisionId), productId: new ObjectId(productId) })
+  return doc ? docToRevision(doc) : null
+}
@@ -0,0 +1,322 @@
+/**
+ * Product full-text search with a built-in n-gram index
+ *
+ * MongoDB text indexes don't tokenize Hangul, so a search for "토너" would not
+ * match "진정토너". Instead every product stores `searchNgrams`: the character
+ * bigrams of its searchable fields (nameOriginal, title, brand, sourceProductId,
+ * tags). A query is split into the same bigrams and matched with a plain `$in`
+ * on a multikey index, which works the same on Atlas, a local mongod or
+ * mongodb-memory-server. The database ranks matches by the number of shared
+ * bigrams and keeps the best MAX_CANDIDATES; those are then scored and
+ * highlighted in memory.
+ *
+ * A query of single characters ("차", "a b") has no bigrams to look up, so it
+ * falls back to a case-insensitive substring match on the searchable fields.
+ */
+
+import { getMongoDb } from '../mongodb'
+import {
+  Product,
+  ProductSearchField,
+  ProductSearchHighlight,
+  ProductSearchResponse,
+} from '../../types/product'
+
+export const SEARCH_FIELDS: ProductSearchField[] = ['nameOriginal', 'title', 'brand', 'sourceProductId', 'tags']
+
+// Relative weight of a match per field
+const FIELD_WEIGHTS: Record<ProductSearchField, number> = {
+  title: 3,
+  nameOriginal: 3,
+  brand: 2,
+  sourceProductId: 2,
+  tags: 1,
+}
+
+const MAX_NGRAMS_PER_PRODUCT = 1000
+const MAX_CANDIDATES = 500
+
+/**
+ * Lowercase, width-normalize (NFKC) and split into tokens on whitespace/punctuation
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[\s\p{P}\p{S}]+/u)
+    .filter((t) => t.length > 0)
+}
+
+/**
+ * Character bigrams of every token; single-character tokens are kept whole
+ */
+export function buildNgrams(text: string): string[] {
+  const grams = new Set<string>()
+  for (const token of tokenize(text)) {
+    const chars = Array.from(token)
+    if (chars.length === 1) {
+      grams.add(chars[0])
+      continue
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      grams.add(chars[i] + chars[i + 1])
+    }
+  }
+  return Array.from(grams)
+}
+
+function getFieldText(doc: any, field: ProductSearchField): string {
+  const value = doc[field]
+  if (Array.isArray(value)) return value.filter((v) => typeof v === 'string').join(' ')
+  return typeof value === 'string' ? value : ''
+}
+
+/**
+ * Compute the `searchNgrams` field for a product document
+ */
+export function buildSearchNgrams(doc: any): string[] {
+  const grams = new Set<string>()
+  for (const field of SEARCH_FIELDS) {
+    for (const gram of buildNgrams(getFieldText(doc, field))) {
+      grams.add(gram)
+      if (grams.size >= MAX_NGRAMS_PER_PRODUCT) return Array.from(grams)
+    }
+  }
+  return Array.from(grams)
+}
+
+/**
+ * Whether a patch touches a searchable field (so searchNgrams must be rebuilt)
+ */
+export function affectsSearchIndex(patch: Record<string, any>): boolean {
+  return SEARCH_FIELDS.some((field) => field in patch)
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Build a highlighted snippet around the matched ranges of a field
+ *
+ * Marks every occurrence of a query token, or failing that of a query bigram,
+ * so partial Hangul/Cyrillic fragments are still highlighted.
+ */
+function buildSnippet(text: string, queryTokens: string[], queryGrams: string[]): string | null {
+  const lower = text.toLowerCase()
+  const ranges: [number, number][] = []
+
+  const markAll = (needle: string) => {
+    if (!needle) return
+    let index = lower.indexOf(needle)
+    while (index !== -1) {
+      ranges.push([index, index + needle.length])
+      index = lower.indexOf(needle, index + 1)
+    }
+  }
+
+  queryTokens.forEach(markAll)
+  if (ranges.length === 0) {
+    queryGrams.forEach(markAll)
+  }
+  if (ranges.length === 0) return null
+
+  // Merge overlapping ranges
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+
+  // Window of ~80 chars around the first match
+  const windowStart = Math.max(0, merged[0][0] - 30)
+  const windowEnd = Math.min(text.length, windowStart + 80)
+
+  let snippet = windowStart > 0 ? '…' : ''
+  let cursor = windowStart
+  for (const [start, end] of merged) {
+    if (start >= windowEnd) break
+    const s = Math.max(start, cursor)
+    const e = Math.min(end, windowEnd)
+    if (s > cursor) snippet += escapeHtml(text.slice(cursor, s))
+    if (e > s) snippet += `<mark>${escapeHtml(text.slice(s, e))}</mark>`
+    cursor = Math.max(cursor, e)
+  }
+  snippet += escapeHtml(text.slice(cursor, windowEnd))
+  if (windowEnd < text.length) snippet += '…'
+
+  return snippet
+}
+
+/**
+ * Score a document against the query
+ *
+ * Per field: share of query bigrams found in the field, plus a bonus when the
+ * whole query appears as a substring. Fields are combined by weight.
+ */
+function scoreDocument(doc: any, query: string, queryTokens: string[], queryGrams: string[]) {
+  const normalizedQuery = query.normalize('NFKC').toLowerCase().trim()
+  const totalWeight = Object.values(FIELD_WEIGHTS).reduce((a, b) => a + b, 0)
+  let weighted = 0
+  const highlights: ProductSearchHighlight[] = []
+
+  for (const field of SEARCH_FIELDS) {
+    const text = getFieldText(doc, field)
+    if (!text) continue
+
+    const normalizedText = text.normalize('NFKC').toLowerCase()
+    const fieldGrams = new Set(buildNgrams(text))
+    // Single characters (from one-character tokens) also match inside words
+    const matched = queryGrams.filter(
+      (g) => fieldGrams.has(g) || (Array.from(g).length === 1 && normalizedText.includes(g))
+    ).length
+    if (matched === 0) continue
+
+    const coverage = matched / queryGrams.length
+    const substringBonus = normalizedText.includes(normalizedQuery) ? 1 : 0
+    weighted += FIELD_WEIGHTS[field] * (coverage * 0.7 + substringBonus * 0.3)
+
+    const snippet = buildSnippet(text, queryTokens, queryGrams)
+    if (snippet) {
+      highlights.push({ field, snippet })
+    }
+  }
+
+  return { score: Math.round((weighted / totalWeight) * 1000) / 1000, highlights }
+}
+
+/**
+ * Create the multikey index used by searchProducts (idempotent)
+ */
+export async function ensureSearchIndex(): Promise<void> {
+  const db = await getMongoDb()
+  await db.collection('products').createIndex({ searchNgrams: 1 }, { name: 'searchNgrams_1' })
+}
+
+/**
+ * Rebuild searchNgrams for every product (backfill after import or rule changes)
+ */
+export async function reindexProductSearch(): Promise<{ updated: number }> {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+
+  await ensureSearchIndex()
+
+  const projection: Record<string, 1> = {}
+  for (const field of SEARCH_FIELDS) projection[field] = 1
+
+  let updated = 0
+  let batch: any[] = []
+  const cursor = collection.find({}, { projection })
+
+  for await (const doc of cursor) {
+    batch.push({
+      updateOne: {
+        filter: { _id: doc._id },
+        update: { $set: { searchNgrams: buildSearchNgrams(doc) } },
+      },
+    })
+    if (batch.length >= 500) {
+      await collection.bulkWrite(batch)
+      updated += batch.length
+      batch = []
+    }
+  }
+  if (batch.length > 0) {
+    await collection.bulkWrite(batch)
+    updated += batch.length
+  }
+
+  return { updated }
+}
+
+/**
+ * Matching products with the most query bigrams first, capped at
+ * MAX_CANDIDATES; ranking before the cap keeps the best matches from being
+ * cut off when a common bigram matches thousands of products
+ */
+function buildCandidatePipeline(queryGrams: string[], filter: Record<string, any> = {}): any[] {
+  return [
+    { $match: { ...filter, searchNgrams: { $in: queryGrams } } },
+    { $addFields: { _gramMatches: { $size: { $setIntersection: ['$searchNgrams', queryGrams] } } } },
+    { $sort: { _gramMatches: -1, _id: 1 } },
+    { $limit: MAX_CANDIDATES },
+    { $project: { _gramMatches: 0 } },
+  ]
+}
+
+/**
+ * Products containing every (single-character) query token in one of the
+ * searchable fields; not indexed, but capped at MAX_CANDIDATES
+ */
+function buildSubstringPipeline(queryTokens: string[], filter: Record<string, any> = {}): any[] {
+  const tokenMatches = queryTokens.map((token) => ({
+    $or: SEARCH_FIELDS.map((field) => ({ [field]: { $regex: escapeRegex(token), $options: 'i' } })),
+  }))
+  return [
+    { $match: { $and: [filter, ...tokenMatches] } },
+    { $sort: { _id: 1 } },
+    { $limit: MAX_CANDIDATES },
+  ]
+}
+
+/**
+ * Search products by Korean, Mongolian or Latin fragments
+ *
+ * @param query - Free text (at least one character)
+ * @param options.filter - Extra MongoDB filter (e.g. lifecycleStatus, sourceStore)
+ * @param options.limit - Max results (default: 20, max: 100)
+ * @param options.docToProduct - Converter for result documents
+ */
+export async function searchProducts(
+  query: string,
+  options: {
+    filter?: Record<string, any>
+    limit?: number
+    docToProduct: (doc: any) => Product
+  }
+): Promise<ProductSearchResponse> {
+  const queryGrams = buildNgrams(query)
+  const queryTokens = tokenize(query)
+  if (queryGrams.length === 0) {
+    return { query, total: 0, results: [] }
+  }
+
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+
+  const singleCharacters = queryTokens.every((token) => Array.from(token).length === 1)
+  const pipeline = singleCharacters
+    ? buildSubstringPipeline(queryTokens, options.filter)
+    : buildCandidatePipeline(queryGrams, options.filter)
+  const candidates = await collection.aggregate(pipeline).toArray()
+
+  const limit = Math.min(Math.max(1, options.limit ?? 20), 100)
+  const scored = candidates
+    .map((doc) => ({ doc, ...scoreDocument(doc, query, queryTokens, queryGrams) }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  return {
+    query,
+    total: scored.length,
+    results: scored.slice(0, limit).map(({ doc, score, highlights }) => ({
+      product: options.docToProduct(doc),
+      score,
+      highlights,
+    })),
+  }
+}
@@ -0,0 +1,451 @@
+/**
+ * Source checker for PUSHED products
+ *
+ * Fetches each PUSHED product's sourceUrl, parses the current price and stock
+ * state with a per-store adapter, and writes the source change detection fields
+ * (sourceLastChecked*, sourcePriceChanged, sourceOutOfStock) back to MongoDB.
+ *
+ * Adapters only parse HTML; fetching is done by `fetchSourceHtml` unless
+ * `htmlFixtures` are injected, which keeps the whole check runnable offline.
+ *
+ * Every check is also appended to the `source_checks` collection so the
+ * price/stock history of a product survives later checks.
+ *
+ * Flagged products are then handled by the source policy (./sourcePolicy):
+ * auto-reprice, hide or queue for review, with an audit record per change.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { SourceCheckRecord, Store } from '@/types/product'
+import { getPricingConfig } from './pricing'
+import { decideSourcePolicy, getSourcePolicySettings, recordPolicyAudits } from './sourcePolicy'
+import { recordAuditEvents } from './audit'
+import { diffProductFields } from './products'
+import { refreshStorefrontFields } from './publisher'
+
+export interface SourceCheckParseResult {
+  priceKrw: number | null
+  inStock: boolean
+}
+
+export interface SourceCheckAdapter {
+  store: Store
+  parse(html: string): SourceCheckParseResult
+}
+
+export interface SourceCheckItemResult {
+  productId: string
+  sourceUrl: string
+  adapter: Store | null
+  httpStatus: number | null
+  priceKrw: number | null
+  inStock: boolean | null
+  priceChanged: boolean
+  outOfStock: boolean
+  error?: string
+}
+
+export interface SourceCheckSummary {
+  checked: number
+  priceChanged: number
+  outOfStock: number
+  failed: number
+  // Automatic changes made by the source policy
+  repriced: number
+  hidden: number
+  queuedForReview: number
+  results: SourceCheckItemResult[]
+}
+
+export interface RunSourceCheckOptions {
+  ids?: string[] // Restrict the check to these product ids (default: all PUSHED)
+  htmlFixtures?: Record<string, string> // sourceUrl -> HTML, bypasses the network
+  adapters?: Partial<Record<Store, SourceCheckAdapter>> // Override built-in adapters
+}
+
+// Markers shared by Korean storefronts when an item cannot be bought
+const SOLD_OUT_PATTERNS = [/품절/, /일시\s*품절/, /판매\s*종료/, /판매\s*중지/, /sold\s*-?\s*out/i]
+
+/**
+ * Parse a KRW price string such as "29,040원" or "29040" into a number
+ */
+function parseKrw(text: string | undefined): number | null {
+  if (!text) return null
+  const digits = text.replace(/[^\d]/g, '')
+  if (!digits) return null
+  const value = parseInt(digits, 10)
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Return the first capture group of the first matching pattern, parsed as KRW
+ */
+function matchPrice(html: string, patterns: RegExp[]): number | null {
+  for (const pattern of patterns) {
+    const match = html.match(pattern)
+    const price = parseKrw(match?.[1])
+    if (price !== null) return price
+  }
+  return null
+}
+
+function hasSoldOutMarker(html: string, patterns: RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(html))
+}
+
+// Open Graph / schema.org price tags used by most storefronts
+const META_PRICE_PATTERNS = [
+  /<meta[^>]+property=["']product:price:amount["'][^>]+content=["']([\d,]+)["']/i,
+  /<meta[^>]+content=["']([\d,]+)["'][^>]+property=["']product:price:amount["']/i,
+  /"price"\s*:\s*"?([\d,]+)"?/,
+]
+
+const gmarketAdapter: SourceCheckAdapter = {
+  store: 'gmarket',
+  parse(html) {
+    const priceKrw = matchPrice(html, [
+      /class=["'][^"']*price_real[^"']*["'][^>]*>\s*([\d,]+)/i,
+      /class=["'][^"']*box__price-seller[^"']*["'][\s\S]*?<strong[^>]*>\s*([\d,]+)/i,
+      ...META_PRICE_PATTERNS,
+    ])
+    const soldOut =
+      hasSoldOutMarker(html, SOLD_OUT_PATTERNS) ||
+      /"availability"\s*:\s*"[^"]*OutOfStock"/i.test(html)
+    return { priceKrw, inStock: !soldOut }
+  },
+}
+
+const oliveyoungAdapter: SourceCheckAdapter = {
+  store: 'oliveyoung',
+  parse(html) {
+    const priceKrw = matchPrice(html, [
+      /class=["'][^"']*price-2[^"']*["'][^>]*>[\s\S]*?<strong[^>]*>\s*([\d,]+)/i,
+      /class=["'][^"']*final-price[^"']*["'][^>]*>\s*([\d,]+)/i,
+      ...META_PRICE_PATTERNS,
+    ])
+    const soldOut =
+      hasSoldOutMarker(html, SOLD_OUT_PATTERNS) ||
+      /class=["'][^"']*btnSoldout[^"']*["']/i.test(html)
+    return { priceKrw, inStock: !soldOut }
+  },
+}
+
+const auctionAdapter: SourceCheckAdapter = {
+  store: 'auction',
+  parse(html) {
+    const priceKrw = matchPrice(html, [
+      /class=["'][^"']*price_real[^"']*["'][^>]*>\s*([\d,]+)/i,
+      /class=["'][^"']*price_sell[^"']*["'][^>]*>\s*([\d,]+)/i,
+      ...META_PRICE_PATTERNS,
+    ])
+    const soldOut =
+      hasSoldOutMarker(html, SOLD_OUT_PATTERNS) ||
+      /"availability"\s*:\s*"[^"]*OutOfStock"/i.test(html)
+    return { priceKrw, inStock: !soldOut }
+  },
+}
+
+export const SOURCE_CHECK_ADAPTERS: Record<Store, SourceCheckAdapter> = {
+  gmarket: gmarketAdapter,
+  oliveyoung: oliveyoungAdapter,
+  auction: auctionAdapter,
+}
+
+/**
+ * Resolve the adapter for a product, falling back to the sourceUrl host
+ * for documents that predate the sourceStore field
+ */
+function resolveAdapter(
+  store: string | undefined,
+  sourceUrl: string,
+  adapters: Record<Store, SourceCheckAdapter>
+): SourceCheckAdapter | null {
+  if (store && store in adapters) {
+    return adapters[store as Store]
+  }
+  if (/gmarket\.co\.kr/i.test(sourceUrl)) return adapters.gmarket
+  if (/oliveyoung\.co\.kr/i.test(sourceUrl)) return adapters.oliveyoung
+  if (/auction\.co\.kr/i.test(sourceUrl)) return adapters.auction
+  return null
+}
+
+/**
+ * Fetch the HTML of a source page
+ *
+ * @returns HTTP status and body (body is empty for non-2xx responses)
+ */
+export async function fetchSourceHtml(url: string): Promise<{ status: number; html: string }> {
+  // Use AbortController for timeout
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 10000) // 10s timeout
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml',
+        'Accept-Language': 'ko-KR,ko;q=0.9',
+        'User-Agent': 'Mozilla/5.0 (compatible; ProductImportTool/0.1)',
+      },
+    })
+
+    clearTimeout(timeoutId)
+
+    if (!response.ok) {
+      return { status: response.status, html: '' }
+    }
+
+    return { status: response.status, html: await response.text() }
+  } catch (error: any) {
+    clearTimeout(timeoutId)
+
+    if (error.name === 'AbortError') {
+      throw new Error('Source page request timed out after 10 seconds')
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Check a single product's source page
+ *
+ * Pure with respect to the database: returns the observed values without writing them.
+ */
+export async function checkProductSource(
+  product: { id: string; sourceStore?: string; sourceUrl: string; baselinePriceKrw: number | null },
+  options: Pick<RunSourceCheckOptions, 'htmlFixtures' | 'adapters'> = {}
+): Promise<SourceCheckItemResult> {
+  const adapters = { ...SOURCE_CHECK_ADAPTERS, ...options.adapters } as Record<Store, SourceCheckAdapter>
+  const adapter = resolveAdapter(product.sourceStore, product.sourceUrl, adapters)
+
+  const result: SourceCheckItemResult = {
+    productId: product.id,
+    sourceUrl: product.sourceUrl,
+    adapter: adapter?.store ?? null,
+    httpStatus: null,
+    priceKrw: null,
+    inStock: null,
+    priceChanged: false,
+    outOfStock: false,
+  }
+
+  if (!adapter) {
+    result.error = `No source check adapter for store: ${product.sourceStore}`
+    return result
+  }
+
+  try {
+    const fixture = options.htmlFixtures?.[product.sourceUrl]
+    const { status, html } = fixture !== undefined
+      ? { status: 200, html: fixture }
+      : await fetchSourceHtml(product.sourceUrl)
+
+    result.httpStatus = status
+
+    // A removed listing is the strongest out-of-stock signal we get
+    if (status === 404 || status === 410) {
+      result.inStock = false
+      result.outOfStock = true
+      return result
+    }
+
+    if (status < 200 || status >= 300) {
+      result.error = `Source page returned HTTP ${status}`
+      return result
+    }
+
+    const parsed = adapter.parse(html)
+    result.priceKrw = parsed.priceKrw
+    result.inStock = parsed.inStock
+    result.outOfStock = !parsed.inStock
+    result.priceChanged =
+      parsed.priceKrw !== null &&
+      product.baselinePriceKrw !== null &&
+      parsed.priceKrw !== product.baselinePriceKrw
+
+    if (parsed.priceKrw === null && parsed.inStock) {
+      result.error = 'Could not parse price from source page'
+    }
+  } catch (error: any) {
+    result.error = error?.message ?? String(error)
+  }
+
+  return result
+}
+
+// Convert source_checks document to SourceCheckRecord
+function docToSourceCheckRecord(doc: any): SourceCheckRecord {
+  const { _id, productId, checkedAt, ...rest } = doc
+  return {
+    ...rest,
+    id: _id.toString(),
+    productId: productId.toString(),
+    checkedAt: checkedAt instanceof Date ? checkedAt.toISOString() : checkedAt,
+  } as SourceCheckRecord
+}
+
+/**
+ * Append one check result to the source_checks collection
+ */
+async function recordSourceCheck(productObjectId: ObjectId, result: SourceCheckItemResult, checkedAt: Date) {
+  const db = await getMongoDb()
+  const { productId, ...fields } = result
+  await db.collection('source_checks').insertOne({
+    ...fields,
+    productId: productObjectId,
+    checkedAt,
+  })
+}
+
+/**
+ * List source check history for a product, most recent first
+ *
+ * @param productObjectId - Product _id (resolve slugs with getProductById first)
+ * @param options.since - Only include checks at or after this date
+ * @param options.limit - Max records to return (default: 200)
+ */
+export async function listSourceChecks(
+  productObjectId: string,
+  options: { since?: Date; limit?: number } = {}
+): Promise<SourceCheckRecord[]> {
+  const db = await getMongoDb()
+  const collection = db.collection('source_checks')
+
+  const query: any = { productId: new ObjectId(productObjectId) }
+  if (options.since) {
+    query.checkedAt = { $gte: options.since }
+  }
+
+  const docs = await collection
+    .find(query)
+    .sort({ checkedAt: -1 })
+    .limit(options.limit ?? 200)
+    .toArray()
+
+  return docs.map(docToSourceCheckRecord)
+}
+
+/**
+ * Run the source check for PUSHED products and persist the results
+ *
+ * RETIRED products are skipped on purpose: they are unpublished and hidden,
+ * so the policy has nothing to reprice or hide. Their stored check fields are
+ * kept, and checks resume against the same baseline once they are republished.
+ */
+export async function runSourceCheck(options: RunSourceCheckOptions = {}): Promise<SourceCheckSummary> {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+
+  const query: any = { lifecycleStatus: 'PUSHED' }
+  if (options.ids && options.ids.length > 0) {
+    const objectIds = options.ids.filter((id) => /^[a-f\d]{24}$/i.test(id)).map((id) => new ObjectId(id))
+    const slugs = options.ids.filter((id) => !/^[a-f\d]{24}$/i.test(id))
+    query.$or = [{ _id: { $in: objectIds } }, { slug: { $in: slugs } }]
+  }
+
+  const docs = await collection.find(query).toArray()
+  const [policySettings, pricingConfig] = await Promise.all([
+    getSourcePolicySettings(),
+    getPricingConfig(),
+  ])
+
+  const summary: SourceCheckSummary = {
+    checked: 0,
+    priceChanged: 0,
+    outOfStock: 0,
+    failed: 0,
+    repriced: 0,
+    hidden: 0,
+    queuedForReview: 0,
+    results: [],
+  }
+
+  for (const doc of docs) {
+    if (!doc.sourceUrl) continue
+
+    // Products pushed before baselines were persisted fall back to their import
+    // price; without any (or with the 0 older pushes stored) the first checked
+    // price becomes the baseline
+    const storedBaselineKrw: number | null = doc.sourceBaselinePriceKrw > 0 ? doc.sourceBaselinePriceKrw : null
+    const baselinePriceKrw: number | null =
+      storedBaselineKrw ?? doc.priceKrw ?? doc.importMeta?.source?.price ?? null
+
+    const result = await checkProductSource(
+      {
+        id: doc._id.toString(),
+        sourceStore: doc.sourceStore,
+        sourceUrl: doc.sourceUrl,
+        baselinePriceKrw,
+      },
+      options
+    )
+
+    summary.results.push(result)
+
+    // Failed checks are recorded too so gaps in the timeline are explainable
+    const now = new Date()
+    await recordSourceCheck(doc._id, result, now)
+
+    // Leave stored values untouched when the page could not be read
+    if (result.inStock === null) {
+      summary.failed++
+      continue
+    }
+
+    summary.checked++
+    if (result.priceChanged) summary.priceChanged++
+    if (result.outOfStock) summary.outOfStock++
+
+    const changes: any = {
+      sourceLastCheckedInStock: result.inStock,
+      sourceLastCheckedAt: now.toISOString(),
+      sourcePriceChanged: result.priceChanged,
+      sourceOutOfStock: result.outOfStock,
+      updatedAt: now,
+    }
+    if (result.priceKrw !== null) {
+      changes.sourceLastCheckedPriceKrw = result.priceKrw
+    }
+    if (baselinePriceKrw === null && result.priceKrw !== null) {
+      changes.sourceBaselinePriceKrw = result.priceKrw
+    } else if (storedBaselineKrw === null && baselinePriceKrw !== null) {
+      changes.sourceBaselinePriceKrw = baselinePriceKrw
+    }
+
+    const policy = decideSourcePolicy(doc, result, baselinePriceKrw, policySettings, pricingConfig)
+    for (const audit of policy.audits) {
+      if (audit.action === 'reprice') summary.repriced++
+      if (audit.action === 'hide') summary.hidden++
+      if (audit.action === 'queueReview') summary.queuedForReview++
+    }
+
+    await collection.updateOne({ _id: doc._id }, { $set: { ...changes, ...policy.changes } })
+    await recordPolicyAudits(doc._id, policy.audits, now)
+    // Check results are in the source history; only policy writes go to the audit log
+    const afterPolicy = { ...doc, ...policy.changes }
+    const policyChanges = diffProductFields(doc, afterPolicy)
+    if (policyChanges.length > 0) {
+      await recordAuditEvents(
+        { actor: 'source-policy', source: 'policy' },
+        [
+          {
+            productId: doc._id,
+            action: 'sourcePolicy',
+            changes: policyChanges,
+            snapshot: { before: doc, after: afterPolicy },
+          },
+        ],
+        now
+      )
+    }
+
+    // The storefront only picks up a new price or visibility when it is sent again
+    if (policy.changes.priceMnt !== undefined || policy.changes.visibility !== undefined) {
+      await refreshStorefrontFields(doc._id.toString(), { actor: 'source-policy', source: 'policy' })
+    }
+  }
+
+  return summary
+}
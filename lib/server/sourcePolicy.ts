@@ -0,0 +1,241 @@
+/**
+ * Source change policy engine
+ *
+ * Decides what happens to a PUSHED product after a source check flags it:
+ * - price changed within the tolerance band → recompute priceMnt (pricing engine)
+ * - price changed outside the band → queue for manual review
+ * - out of stock → hide (and unhide once back in stock), or queue for review
+ *
+ * Every automatic change is written to `source_policy_audit`. Accepting a new
+ * baseline (user action) is audited there as well.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { PricingConfig, suggestPriceMnt } from '../pricing'
+import { SourcePolicyAction, SourcePolicyAuditRecord, SourceReviewReason } from '@/types/product'
+import { SourceCheckItemResult } from './sourceCheck'
+
+export type PriceChangeAction = 'reprice' | 'review' | 'none'
+export type OutOfStockAction = 'hide' | 'review' | 'none'
+
+export interface SourcePolicySettings {
+  priceChange: {
+    action: PriceChangeAction
+    tolerancePercent: number // Max |change| vs baseline that is repriced automatically
+  }
+  outOfStock: {
+    action: OutOfStockAction
+  }
+}
+
+export const DEFAULT_SOURCE_POLICY: SourcePolicySettings = {
+  priceChange: { action: 'reprice', tolerancePercent: 10 },
+  outOfStock: { action: 'hide' },
+}
+
+export interface PolicyAuditDraft {
+  action: SourcePolicyAction
+  actor: 'policy' | 'user'
+  reason: string
+  before: Record<string, any>
+  after: Record<string, any>
+}
+
+export interface PolicyDecision {
+  changes: Record<string, any>
+  audits: PolicyAuditDraft[]
+}
+
+type SourcePolicySettingsDoc = Partial<SourcePolicySettings> & { _id: string; updatedAt?: Date }
+
+const SETTINGS_ID = 'default'
+
+function addReviewReason(doc: any, changes: Record<string, any>, reason: SourceReviewReason) {
+  const reasons: SourceReviewReason[] = changes.sourceReviewReasons ?? doc.sourceReviewReasons ?? []
+  if (!reasons.includes(reason)) {
+    changes.sourceReviewReasons = [...reasons, reason]
+  }
+  changes.sourceReviewStatus = 'pending'
+}
+
+function wasQueuedFor(doc: any, reason: SourceReviewReason): boolean {
+  return doc.sourceReviewStatus === 'pending' && (doc.sourceReviewReasons ?? []).includes(reason)
+}
+
+/**
+ * Decide the policy changes for one checked product (nothing is written here)
+ *
+ * @param doc - Product document as stored before the check
+ * @param result - Successful source check result
+ * @param baselinePriceKrw - Baseline the check compared against
+ */
+export function decideSourcePolicy(
+  doc: any,
+  result: SourceCheckItemResult,
+  baselinePriceKrw: number | null,
+  settings: SourcePolicySettings,
+  pricingConfig: PricingConfig
+): PolicyDecision {
+  const changes: Record<string, any> = {}
+  const audits: PolicyAuditDraft[] = []
+
+  // Stock: hide while out of stock, restore what the policy hid
+  if (result.outOfStock) {
+    if (settings.outOfStock.action === 'hide' && doc.visibility !== 'hidden') {
+      changes.visibility = 'hidden'
+      changes.sourceHiddenByPolicy = true
+      audits.push({
+        action: 'hide',
+        actor: 'policy',
+        reason: 'Source is out of stock',
+        before: { visibility: doc.visibility ?? 'public' },
+        after: { visibility: 'hidden' },
+      })
+    } else if (settings.outOfStock.action === 'review' && !wasQueuedFor(doc, 'outOfStock')) {
+      addReviewReason(doc, changes, 'outOfStock')
+      audits.push({
+        action: 'queueReview',
+        actor: 'policy',
+        reason: 'Source is out of stock',
+        before: { sourceReviewStatus: doc.sourceReviewStatus ?? null },
+        after: { sourceReviewStatus: 'pending' },
+      })
+    }
+  } else if (result.inStock && doc.sourceHiddenByPolicy && doc.visibility === 'hidden') {
+    changes.visibility = 'public'
+    changes.sourceHiddenByPolicy = false
+    audits.push({
+      action: 'unhide',
+      actor: 'policy',
+      reason: 'Source is back in stock',
+      before: { visibility: 'hidden' },
+      after: { visibility: 'public' },
+    })
+  }
+
+  // Price: reprice inside the tolerance band, otherwise review
+  if (result.priceChanged && result.priceKrw !== null && baselinePriceKrw) {
+    const changePercent = ((result.priceKrw - baselinePriceKrw) / baselinePriceKrw) * 100
+    const reason = `Source price ${baselinePriceKrw.toLocaleString()} → ${result.priceKrw.toLocaleString()} KRW (${changePercent > 0 ? '+' : ''}${changePercent.toFixed(1)}%)`
+    const withinBand = Math.abs(changePercent) <= settings.priceChange.tolerancePercent
+
+    if (settings.priceChange.action === 'reprice' && withinBand) {
+      const suggestion = suggestPriceMnt({ ...doc, priceKrw: result.priceKrw }, pricingConfig)
+      if (suggestion.priceMnt !== null && suggestion.priceMnt !== doc.priceMnt) {
+        changes.priceMnt = suggestion.priceMnt
+        audits.push({
+          action: 'reprice',
+          actor: 'policy',
+          reason,
+          before: { priceMnt: doc.priceMnt ?? null },
+          after: {
+            priceMnt: suggestion.priceMnt,
+            sourcePriceKrw: result.priceKrw,
+            exchangeRate: suggestion.exchangeRate,
+            ruleId: suggestion.ruleId,
+          },
+        })
+      }
+    } else if (settings.priceChange.action !== 'none' && !wasQueuedFor(doc, 'priceChanged')) {
+      addReviewReason(doc, changes, 'priceChanged')
+      audits.push({
+        action: 'queueReview',
+        actor: 'policy',
+        reason: withinBand ? reason : `${reason}, outside ±${settings.priceChange.tolerancePercent}% band`,
+        before: { sourceReviewStatus: doc.sourceReviewStatus ?? null },
+        after: { sourceReviewStatus: 'pending' },
+      })
+    }
+  }
+
+  return { changes, audits }
+}
+
+function docToAuditRecord(doc: any): SourcePolicyAuditRecord {
+  return {
+    id: doc._id.toString(),
+    productId: doc.productId.toString(),
+    action: doc.action,
+    actor: doc.actor,
+    reason: doc.reason,
+    before: doc.before ?? {},
+    after: doc.after ?? {},
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+  }
+}
+
+export async function recordPolicyAudits(
+  productObjectId: ObjectId,
+  audits: PolicyAuditDraft[],
+  createdAt: Date = new Date()
+): Promise<void> {
+  if (audits.length === 0) return
+  const db = await getMongoDb()
+  await db.collection('source_policy_audit').insertMany(
+    audits.map((audit) => ({ ...audit, productId: productObjectId, createdAt }))
+  )
+}
+
+/**
+ * Policy audit trail of a product, newest first
+ */
+export async function listPolicyAudits(
+  productObjectId: string,
+  limit = 100
+): Promise<SourcePolicyAuditRecord[]> {
+  const db = await getMongoDb()
+  const docs = await db
+    .collection('source_policy_audit')
+    .find({ productId: new ObjectId(productObjectId) })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray()
+  return docs.map(docToAuditRecord)
+}
+
+export async function getSourcePolicySettings(): Promise<SourcePolicySettings> {
+  const db = await getMongoDb()
+  const doc = await db.collection<SourcePolicySettingsDoc>('source_policy_settings').findOne({ _id: SETTINGS_ID })
+  return {
+    priceChange: { ...DEFAULT_SOURCE_POLICY.priceChange, ...doc?.priceChange },
+    outOfStock: { ...DEFAULT_SOURCE_POLICY.outOfStock, ...doc?.outOfStock },
+  }
+}
+
+export async function saveSourcePolicySettings(settings: SourcePolicySettings): Promise<SourcePolicySettings> {
+  const db = await getMongoDb()
+  const value: SourcePolicySettings = {
+    priceChange: {
+      action: settings.priceChange.action,
+      tolerancePercent: settings.priceChange.tolerancePercent,
+    },
+    outOfStock: { action: settings.outOfStock.action },
+  }
+  await db.collection<SourcePolicySettingsDoc>('source_policy_settings').updateOne(
+    { _id: SETTINGS_ID },
+    { $set: { ...value, updatedAt: new Date() } },
+    { upsert: true }
+  )
+  return value
+}
+
+/**
+ * Validate policy settings from an API body
+ *
+ * @returns list of problems (empty when valid)
+ */
+export function validateSourcePolicySettings(settings: any): string[] {
+  const errors: string[] = []
+  if (!['reprice', 'review', 'none'].includes(settings?.priceChange?.action)) {
+    errors.push('priceChange.action must be one of: reprice, review, none')
+  }
+  const tolerance = settings?.priceChange?.tolerancePercent
+  if (typeof tolerance !== 'number' || !Number.isFinite(tolerance) || tolerance < 0) {
+    errors.push('priceChange.tolerancePercent must be a number ≥ 0')
+  }
+  if (!['hide', 'review', 'none'].includes(settings?.outOfStock?.action)) {
+    errors.push('outOfStock.action must be one of: hide, review, none')
+  }
+  return errors
+}
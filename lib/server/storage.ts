@@ -0,0 +1,123 @@
+/**
+ * Object storage for rehosted files
+ *
+ * The interface mirrors the S3 object API (put/get/head/delete by key) so an
+ * S3-compatible backend (S3, R2, MinIO) can be added without touching callers.
+ * Selected by STORAGE_BACKEND (default: local).
+ *
+ * local: files under STORAGE_LOCAL_DIR (default: ./storage), served by
+ * GET /api/images/files/[...key] unless STORAGE_PUBLIC_BASE_URL points at a CDN.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface StoredObject {
+  body: Buffer
+  contentType: string
+}
+
+export interface StorageBackend {
+  name: string
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>
+  getObject(key: string): Promise<StoredObject | null>
+  headObject(key: string): Promise<boolean>
+  deleteObject(key: string): Promise<void>
+  getPublicUrl(key: string): string
+}
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+}
+
+/**
+ * Keys are relative paths like `images/ab/abcdef….jpg`; reject anything that
+ * could escape the storage root
+ */
+export function isValidStorageKey(key: string): boolean {
+  if (!key || key.length > 512) return false
+  if (key.startsWith('/') || key.includes('\\')) return false
+  return key.split('/').every((part) => part !== '' && part !== '.' && part !== '..')
+}
+
+function assertValidKey(key: string) {
+  if (!isValidStorageKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`)
+  }
+}
+
+export function createLocalStorageBackend(options: { rootDir: string; publicBaseUrl: string }): StorageBackend {
+  const root = path.resolve(options.rootDir)
+  const baseUrl = options.publicBaseUrl.replace(/\/+$/, '')
+
+  const resolveKey = (key: string) => {
+    assertValidKey(key)
+    return path.join(root, ...key.split('/'))
+  }
+
+  return {
+    name: 'local',
+
+    async putObject(key, body) {
+      const filePath = resolveKey(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      // Write then rename so readers never see a partial file
+      const tmpPath = `${filePath}.${process.pid}.tmp`
+      await fs.writeFile(tmpPath, body)
+      await fs.rename(tmpPath, filePath)
+    },
+
+    async getObject(key) {
+      try {
+        const body = await fs.readFile(resolveKey(key))
+        const contentType = CONTENT_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()] ?? 'application/octet-stream'
+        return { body, contentType }
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async headObject(key) {
+      try {
+        await fs.access(resolveKey(key))
+        return true
+      } catch {
+        return false
+      }
+    },
+
+    async deleteObject(key) {
+      await fs.rm(resolveKey(key), { force: true })
+    },
+
+    getPublicUrl(key) {
+      return `${baseUrl}/${key}`
+    },
+  }
+}
+
+let cachedBackend: StorageBackend | null = null
+
+/**
+ * Storage backend from the environment (cached per process)
+ */
+export function getStorageBackend(): StorageBackend {
+  if (cachedBackend) return cachedBackend
+
+  const backend = process.env.STORAGE_BACKEND || 'local'
+  if (backend !== 'local') {
+    throw new Error(`Unsupported STORAGE_BACKEND: ${backend} (supported: local)`)
+  }
+
+  cachedBackend = createLocalStorageBackend({
+    rootDir: process.env.STORAGE_LOCAL_DIR || './storage',
+    publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || '/api/images/files',
+  })
+  return cachedBackend
+}
@@ -0,0 +1,621 @@
+/**
+ * Storefront category taxonomy
+ *
+ * Imported products carry the source store's own categories
+ * (`importMeta.source.categoryKey` like `best_electronics_all` plus a
+ * `subCategory`), which mean nothing to the storefront. The taxonomy keeps:
+ * - `taxonomy_categories`: the storefront tree, two levels deep; products
+ *   refer to it by slug in `category` / `subCategory`
+ * - `category_mappings`: rules from a store's source category (optionally
+ *   narrowed to one sub-key) to a storefront category
+ *
+ * Products record how they got their category in `categoryAssignment`.
+ * Re-applying the rules never overrides a category picked by hand.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { diffProductFields, getProductById, updateProductById } from './products'
+import { AuditContext, recordAuditEvents, SYSTEM_AUDIT_CONTEXT } from './audit'
+import { CategorySource, findCategoryMapping, getProductSourceCategory } from '../taxonomy'
+import {
+  CategoryAssignment,
+  CategoryMappingApplyResult,
+  CategoryMappingRule,
+  Product,
+  SourceCategory,
+  SourceCategorySummary,
+  Store,
+  TaxonomyCategory,
+} from '@/types/product'
+
+export interface TaxonomyCategoryInput {
+  slug: string
+  name: string
+  nameMn?: string
+  parentSlug?: string | null
+  sort?: number
+}
+
+export interface CategoryMappingInput {
+  store: Store
+  sourceKey: string
+  sourceSubKey?: string | null
+  category: string
+  subCategory?: string | null
+  note?: string
+}
+
+export type TaxonomyErrorCode = 'INVALID' | 'DUPLICATE' | 'NOT_FOUND' | 'IN_USE'
+
+/**
+ * Thrown for rejected taxonomy writes; routes map `status` to the response code
+ */
+export class TaxonomyError extends Error {
+  readonly code: TaxonomyErrorCode
+  readonly details: string[]
+
+  constructor(code: TaxonomyErrorCode, message: string, details: string[] = []) {
+    super(message)
+    this.name = 'TaxonomyError'
+    this.code = code
+    this.details = details
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'DUPLICATE':
+      case 'IN_USE':
+        return 409
+      default:
+        return 400
+    }
+  }
+}
+
+const CATEGORIES_COLLECTION = 'taxonomy_categories'
+const MAPPINGS_COLLECTION = 'category_mappings'
+const STORES: Store[] = ['gmarket', 'oliveyoung', 'auction']
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// Fields needed to work out a product's source and storefront category
+const CATEGORY_PROJECTION = {
+  slug: 1,
+  sourceStore: 1,
+  category: 1,
+  subCategory: 1,
+  categoryAssignment: 1,
+  'importMeta.source.categoryKey': 1,
+  'importMeta.source.topCategory': 1,
+  'importMeta.source.subCategory': 1,
+}
+
+function sourceCategoryId(source: SourceCategory): string {
+  return `${source.store}\u0000${source.key}\u0000${source.subKey ?? ''}`
+}
+
+// ----- Validation -----
+
+function optionalString(input: any, field: string, errors: string[]) {
+  if (input?.[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+    errors.push(`${field} must be a string`)
+  }
+}
+
+/**
+ * Validate a taxonomy category from an API body
+ *
+ * @returns list of problems (empty when valid)
+ */
+export function validateTaxonomyCategoryInput(input: any): string[] {
+  const errors: string[] = []
+  if (typeof input?.slug !== 'string' || !SLUG_PATTERN.test(input.slug.trim())) {
+    errors.push('slug must be lowercase letters, digits and dashes (e.g. "skincare-set")')
+  }
+  if (typeof input?.name !== 'string' || input.name.trim() === '') {
+    errors.push('name must be a non-empty string')
+  }
+  optionalString(input, 'nameMn', errors)
+  optionalString(input, 'parentSlug', errors)
+  if (input?.sort !== undefined && input.sort !== null && !Number.isFinite(input.sort)) {
+    errors.push('sort must be a number')
+  }
+  return errors
+}
+
+/**
+ * Validate a mapping rule from an API body
+ *
+ * @returns list of problems (empty when valid)
+ */
+export function validateCategoryMappingInput(input: any): string[] {
+  const errors: string[] = []
+  if (!STORES.includes(input?.store)) {
+    errors.push(`store must be one of: ${STORES.join(', ')}`)
+  }
+  if (typeof input?.sourceKey !== 'string' || input.sourceKey.trim() === '') {
+    errors.push('sourceKey must be a non-empty string')
+  }
+  if (typeof input?.category !== 'string' || input.category.trim() === '') {
+    errors.push('category must be a non-empty string')
+  }
+  optionalString(input, 'sourceSubKey', errors)
+  optionalString(input, 'subCategory', errors)
+  optionalString(input, 'note', errors)
+  return errors
+}
+
+function toIsoString(value: any): string {
+  return value instanceof Date ? value.toISOString() : value
+}
+
+function docToTaxonomyCategory(doc: any): TaxonomyCategory {
+  return {
+    id: doc._id.toString(),
+    slug: doc.slug,
+    name: doc.name,
+    nameMn: doc.nameMn || undefined,
+    parentSlug: doc.parentSlug ?? null,
+    sort: typeof doc.sort === 'number' ? doc.sort : 0,
+    createdAt: toIsoString(doc.createdAt),
+    updatedAt: toIsoString(doc.updatedAt),
+  }
+}
+
+function docToCategoryMapping(doc: any): CategoryMappingRule {
+  return {
+    id: doc._id.toString(),
+    store: doc.store,
+    sourceKey: doc.sourceKey,
+    sourceSubKey: doc.sourceSubKey ?? null,
+    category: doc.category,
+    subCategory: doc.subCategory ?? null,
+    note: doc.note || undefined,
+    createdAt: toIsoString(doc.createdAt),
+    updatedAt: toIsoString(doc.updatedAt),
+  }
+}
+
+function parseObjectId(id: string, what: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw new TaxonomyError('NOT_FOUND', `${what} not found: ${id}`)
+  }
+  return new ObjectId(id)
+}
+
+async function getCategoriesCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection(CATEGORIES_COLLECTION)
+  await collection.createIndex({ slug: 1 }, { unique: true, name: 'slug_1' })
+  return collection
+}
+
+async function getMappingsCollection() {
+  const db = await getMongoDb()
+  const collection = db.collection(MAPPINGS_COLLECTION)
+  await collection.createIndex(
+    { store: 1, sourceKey: 1, sourceSubKey: 1 },
+    { unique: true, name: 'store_1_sourceKey_1_sourceSubKey_1' }
+  )
+  return collection
+}
+
+/**
+ * Throw unless `category` is a top-level slug and `subCategory` (if any) one of its children
+ */
+function assertCategoryPair(
+  categories: TaxonomyCategory[],
+  category: string,
+  subCategory: string | null
+) {
+  const top = categories.find((c) => c.slug === category)
+  if (!top || top.parentSlug !== null) {
+    throw new TaxonomyError('INVALID', `Not a top-level category: ${category}`)
+  }
+  if (subCategory && !categories.some((c) => c.slug === subCategory && c.parentSlug === category)) {
+    throw new TaxonomyError('INVALID', `Not a sub-category of ${category}: ${subCategory}`)
+  }
+}
+
+// ----- Categories -----
+
+/**
+ * The whole tree, parents before their children, by sort then name
+ */
+export async function listTaxonomyCategories(): Promise<TaxonomyCategory[]> {
+  const db = await getMongoDb()
+  const docs = await db.collection(CATEGORIES_COLLECTION).find({}).sort({ sort: 1, name: 1 }).toArray()
+  const categories = docs.map(docToTaxonomyCategory)
+  return categories
+    .filter((c) => c.parentSlug === null)
+    .flatMap((top) => [top, ...categories.filter((c) => c.parentSlug === top.slug)])
+}
+
+function categoryInputToFields(input: TaxonomyCategoryInput) {
+  return {
+    slug: input.slug.trim(),
+    name: input.name.trim(),
+    nameMn: input.nameMn?.trim() || undefined,
+    parentSlug: input.parentSlug?.trim() || null,
+    sort: typeof input.sort === 'number' ? input.sort : 0,
+  }
+}
+
+async function assertValidParent(parentSlug: string | null, slug: string) {
+  if (parentSlug === null) return
+  if (parentSlug === slug) {
+    throw new TaxonomyError('INVALID', 'A category cannot be its own parent')
+  }
+  const db = await getMongoDb()
+  const parent = await db.collection(CATEGORIES_COLLECTION).findOne({ slug: parentSlug })
+  if (!parent) {
+    throw new TaxonomyError('INVALID', `Parent category not found: ${parentSlug}`)
+  }
+  if (parent.parentSlug) {
+    throw new TaxonomyError('INVALID', `Categories are two levels deep; ${parentSlug} is already a sub-category`)
+  }
+}
+
+export async function createTaxonomyCategory(input: TaxonomyCategoryInput): Promise<TaxonomyCategory> {
+  const errors = validateTaxonomyCategoryInput(input)
+  if (errors.length > 0) {
+    throw new TaxonomyError('INVALID', 'Invalid category', errors)
+  }
+  const fields = categoryInputToFields(input)
+  await assertValidParent(fields.parentSlug, fields.slug)
+
+  const collection = await getCategoriesCollection()
+  const now = new Date()
+  const doc = { ...fields, createdAt: now, updatedAt: now }
+  try {
+    const result = await collection.insertOne(doc)
+    return docToTaxonomyCategory({ ...doc, _id: result.insertedId })
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new TaxonomyError('DUPLICATE', `Category already exists: ${fields.slug}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Rename, re-sort or move a category
+ *
+ * The slug is fixed: products and rules refer to it.
+ */
+export async function updateTaxonomyCategory(id: string, input: TaxonomyCategoryInput): Promise<TaxonomyCategory> {
+  const errors = validateTaxonomyCategoryInput(input)
+  if (errors.length > 0) {
+    throw new TaxonomyError('INVALID', 'Invalid category', errors)
+  }
+  const _id = parseObjectId(id, 'Category')
+  const collection = await getCategoriesCollection()
+  const current = await collection.findOne({ _id })
+  if (!current) {
+    throw new TaxonomyError('NOT_FOUND', `Category not found: ${id}`)
+  }
+
+  const fields = categoryInputToFields(input)
+  if (fields.slug !== current.slug) {
+    throw new TaxonomyError('INVALID', 'The slug of a category cannot be changed (products refer to it)')
+  }
+  if (fields.parentSlug !== (current.parentSlug ?? null)) {
+    await assertValidParent(fields.parentSlug, fields.slug)
+    if (fields.parentSlug !== null && await collection.countDocuments({ parentSlug: current.slug }) > 0) {
+      throw new TaxonomyError('INVALID', `${current.slug} has sub-categories and must stay top-level`)
+    }
+    if (await isCategoryInUse(current.slug)) {
+      throw new TaxonomyError('IN_USE', `${current.slug} is used by products or mapping rules and cannot be moved`)
+    }
+  }
+
+  const updated = await collection.findOneAndUpdate(
+    { _id },
+    { $set: { ...fields, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  )
+  if (!updated) {
+    throw new TaxonomyError('NOT_FOUND', `Category not found: ${id}`)
+  }
+  return docToTaxonomyCategory(updated)
+}
+
+async function isCategoryInUse(slug: string): Promise<boolean> {
+  const db = await getMongoDb()
+  const [products, rules] = await Promise.all([
+    db.collection('products').countDocuments({ $or: [{ category: slug }, { subCategory: slug }] }, { limit: 1 }),
+    db.collection(MAPPINGS_COLLECTION).countDocuments({ $or: [{ category: slug }, { subCategory: slug }] }, { limit: 1 }),
+  ])
+  return products > 0 || rules > 0
+}
+
+/**
+ * Delete an unused category (no sub-categories, products or rules)
+ */
+export async function deleteTaxonomyCategory(id: string): Promise<void> {
+  const _id = parseObjectId(id, 'Category')
+  const db = await getMongoDb()
+  const collection = db.collection(CATEGORIES_COLLECTION)
+  const current = await collection.findOne({ _id })
+  if (!current) {
+    throw new TaxonomyError('NOT_FOUND', `Category not found: ${id}`)
+  }
+  if (await collection.countDocuments({ parentSlug: current.slug }, { limit: 1 }) > 0) {
+    throw new TaxonomyError('IN_USE', `${current.slug} has sub-categories`)
+  }
+  if (await isCategoryInUse(current.slug)) {
+    throw new TaxonomyError('IN_USE', `${current.slug} is used by products or mapping rules`)
+  }
+  await collection.deleteOne({ _id })
+}
+
+// ----- Mapping rules -----
+
+export async function listCategoryMappings(): Promise<CategoryMappingRule[]> {
+  const db = await getMongoDb()
+  const docs = await db
+    .collection(MAPPINGS_COLLECTION)
+    .find({})
+    .sort({ store: 1, sourceKey: 1, sourceSubKey: 1 })
+    .toArray()
+  return docs.map(docToCategoryMapping)
+}
+
+async function mappingInputToFields(input: CategoryMappingInput) {
+  const errors = validateCategoryMappingInput(input)
+  if (errors.length > 0) {
+    throw new TaxonomyError('INVALID', 'Invalid mapping rule', errors)
+  }
+  const fields = {
+    store: input.store,
+    sourceKey: input.sourceKey.trim(),
+    sourceSubKey: input.sourceSubKey?.trim() || null,
+    category: input.category.trim(),
+    subCategory: input.subCategory?.trim() || null,
+    note: input.note?.trim() || undefined,
+  }
+  assertCategoryPair(await listTaxonomyCategories(), fields.category, fields.subCategory)
+  return fields
+}
+
+function describeSource(fields: { store: string; sourceKey: string; sourceSubKey: string | null }): string {
+  return `${fields.store}/${fields.sourceKey}${fields.sourceSubKey ? `/${fields.sourceSubKey}` : ''}`
+}
+
+export async function createCategoryMapping(input: CategoryMappingInput): Promise<CategoryMappingRule> {
+  const fields = await mappingInputToFields(input)
+  const collection = await getMappingsCollection()
+  const now = new Date()
+  const doc = { ...fields, createdAt: now, updatedAt: now }
+  try {
+    const result = await collection.insertOne(doc)
+    return docToCategoryMapping({ ...doc, _id: result.insertedId })
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new TaxonomyError('DUPLICATE', `A rule for ${describeSource(fields)} already exists`)
+    }
+    throw error
+  }
+}
+
+export async function updateCategoryMapping(id: string, input: CategoryMappingInput): Promise<CategoryMappingRule> {
+  const fields = await mappingInputToFields(input)
+  const _id = parseObjectId(id, 'Mapping rule')
+  const collection = await getMappingsCollection()
+  try {
+    const updated = await collection.findOneAndUpdate(
+      { _id },
+      { $set: { ...fields, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    )
+    if (!updated) {
+      throw new TaxonomyError('NOT_FOUND', `Mapping rule not found: ${id}`)
+    }
+    return docToCategoryMapping(updated)
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new TaxonomyError('DUPLICATE', `A rule for ${describeSource(fields)} already exists`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Delete a rule; products it mapped keep their category until rules are re-applied
+ */
+export async function deleteCategoryMapping(id: string): Promise<void> {
+  const _id = parseObjectId(id, 'Mapping rule')
+  const db = await getMongoDb()
+  const result = await db.collection(MAPPINGS_COLLECTION).deleteOne({ _id })
+  if (result.deletedCount === 0) {
+    throw new TaxonomyError('NOT_FOUND', `Mapping rule not found: ${id}`)
+  }
+}
+
+// ----- Assignment -----
+
+/**
+ * Category fields a rule gives a product, or null when the product keeps its own
+ *
+ * Hand-picked categories are kept, and so are products no rule covers.
+ */
+export function mapProductCategory(
+  product: CategorySource,
+  rules: CategoryMappingRule[],
+  now = new Date()
+): Pick<Product, 'category' | 'subCategory' | 'categoryAssignment'> | null {
+  if (product.categoryAssignment?.method === 'manual') return null
+  const source = getProductSourceCategory(product)
+  const rule = findCategoryMapping(source, rules)
+  if (!rule) return null
+
+  const assignment: CategoryAssignment = {
+    method: 'rule',
+    ruleId: rule.id,
+    source,
+    assignedAt: now.toISOString(),
+  }
+  return { category: rule.category, subCategory: rule.subCategory, categoryAssignment: assignment }
+}
+
+/**
+ * Map products through the rules (used by the import script)
+ *
+ * @returns a function giving the category fields for a product, or null
+ */
+export async function loadCategoryMapper(): Promise<(product: CategorySource) => ReturnType<typeof mapProductCategory>> {
+  const rules = await listCategoryMappings()
+  return (product) => mapProductCategory(product, rules)
+}
+
+/**
+ * Re-apply the rules to every product (e.g. after adding or changing rules)
+ */
+export async function applyCategoryMappings(
+  options: { store?: Store; context?: AuditContext } = {}
+): Promise<CategoryMappingApplyResult> {
+  const db = await getMongoDb()
+  const rules = await listCategoryMappings()
+  const products = await db
+    .collection('products')
+    .find(
+      { isDeleted: { $ne: true }, ...(options.store && { sourceStore: options.store }) },
+      { projection: CATEGORY_PROJECTION }
+    )
+    .toArray()
+
+  const result: CategoryMappingApplyResult = { matched: 0, updated: 0, manual: 0, unmapped: 0 }
+  const now = new Date()
+  const changes = new Map<string, Pick<Product, 'category' | 'subCategory' | 'categoryAssignment'>>()
+
+  for (const doc of products) {
+    const product = doc as unknown as CategorySource
+    const rule = findCategoryMapping(getProductSourceCategory(product), rules)
+    if (!rule) {
+      result.unmapped++
+      continue
+    }
+    result.matched++
+    if (product.categoryAssignment?.method === 'manual') {
+      result.manual++
+      continue
+    }
+
+    const unchanged =
+      product.category === rule.category &&
+      (product.subCategory ?? null) === rule.subCategory &&
+      product.categoryAssignment?.ruleId === rule.id
+    if (unchanged) continue
+
+    changes.set(doc._id.toString(), mapProductCategory(product, rules, now)!)
+  }
+
+  if (changes.size > 0) {
+    // Full documents of the changed products, for the audit diff and revisions
+    const before = await db
+      .collection('products')
+      .find({ _id: { $in: Array.from(changes.keys(), (id) => new ObjectId(id)) } })
+      .toArray()
+    const writeResult = await db.collection('products').bulkWrite(
+      before.map((doc) => ({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: { ...changes.get(doc._id.toString()), updatedAt: now } },
+        },
+      })),
+      { ordered: false }
+    )
+    result.updated = writeResult.modifiedCount
+
+    await recordAuditEvents(
+      options.context ?? SYSTEM_AUDIT_CONTEXT,
+      before.map((doc) => {
+        const after = { ...doc, ...changes.get(doc._id.toString()) }
+        return {
+          productId: doc._id,
+          action: 'update' as const,
+          changes: diffProductFields(doc, after),
+          note: 'Category mapping rules applied',
+          snapshot: { before: doc, after },
+        }
+      }),
+      now
+    )
+  }
+  return result
+}
+
+/**
+ * Set a product's storefront category by hand; rules leave it alone afterwards
+ */
+export async function assignProductCategory(
+  idOrSlug: string,
+  selection: { category: string; subCategory?: string | null },
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product> {
+  if (typeof selection?.category !== 'string' || selection.category.trim() === '') {
+    throw new TaxonomyError('INVALID', 'category must be a non-empty string')
+  }
+  const category = selection.category.trim()
+  const subCategory = selection.subCategory?.trim() || null
+  assertCategoryPair(await listTaxonomyCategories(), category, subCategory)
+
+  const product = await getProductById(idOrSlug)
+  if (!product) {
+    throw new TaxonomyError('NOT_FOUND', `Product not found: ${idOrSlug}`)
+  }
+
+  return updateProductById(product.id, {
+    category,
+    subCategory,
+    categoryAssignment: {
+      method: 'manual',
+      source: getProductSourceCategory(product),
+      assignedAt: new Date().toISOString(),
+    },
+  }, context)
+}
+
+/**
+ * Source categories found on products, with the rule covering each (mapping review)
+ */
+export async function listSourceCategories(): Promise<SourceCategorySummary[]> {
+  const db = await getMongoDb()
+  const [rules, products] = await Promise.all([
+    listCategoryMappings(),
+    db
+      .collection('products')
+      .find({ isDeleted: { $ne: true } }, { projection: CATEGORY_PROJECTION })
+      .toArray(),
+  ])
+
+  const summaries = new Map<string, SourceCategorySummary>()
+  for (const doc of products) {
+    const source = getProductSourceCategory(doc as unknown as CategorySource)
+    if (!source) continue
+    const id = sourceCategoryId(source)
+    const summary = summaries.get(id)
+    if (summary) {
+      summary.productCount++
+      continue
+    }
+    const rule = findCategoryMapping(source, rules)
+    summaries.set(id, {
+      ...source,
+      productCount: 1,
+      ruleId: rule?.id ?? null,
+      category: rule?.category ?? null,
+      subCategory: rule?.subCategory ?? null,
+    })
+  }
+
+  // Unmapped first, then the largest groups
+  return Array.from(summaries.values()).sort(
+    (a, b) =>
+      Number(a.ruleId !== null) - Number(b.ruleId !== null) ||
+      b.productCount - a.productCount ||
+      a.key.localeCompare(b.key)
+  )
+}
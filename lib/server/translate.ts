@@ -0,0 +1,478 @@
+/**
+ * Machine translation of product content (Korean → Mongolian)
+ *
+ * Fills the Mongolian `title`, `short_description` and `detailed_description`
+ * of RAW/DRAFT products through a pluggable provider:
+ * - gemini: Google Gemini (GEMINI_API_KEY), JSON mode
+ * - stub: deterministic output for tests and offline development
+ *
+ * Glossary terms are masked with placeholders before translation and restored
+ * afterwards (see glossary.ts). Results are cached per masked source text in
+ * `translation_cache`. What was
+ * translated is recorded in `translationMeta` on the product, so a field the
+ * editor changed afterwards is recognized as a human edit and only replaced
+ * with `overwrite: true`.
+ */
+
+import { createHash } from 'crypto'
+import { getMongoDb } from '../mongodb'
+import {
+  GlossaryCheckResult,
+  GlossaryTerm,
+  GlossaryViolation,
+  Product,
+  ProductStatus,
+  ProductTranslateResult,
+  TranslatableField,
+} from '@/types/product'
+import { QuotaExceededError } from './apiQuota'
+import { extractJson, generateGeminiContent, getGeminiConfig } from './gemini'
+import {
+  findTermViolations,
+  listGlossaryTerms,
+  maskGlossaryTerms,
+  renderForTranslation,
+  restoreGlossaryTerms,
+} from './glossary'
+import { getProductById, listProducts, updateProductById } from './products'
+import { LifecycleTransitionError } from './lifecycle'
+import { TrashError } from './trash'
+import type { AuditContext } from './audit'
+
+export const TRANSLATABLE_FIELDS: readonly TranslatableField[] = ['title', 'short_description', 'detailed_description']
+
+export type TranslationTexts = Partial<Record<TranslatableField, string>>
+
+export interface TranslationRequest {
+  texts: TranslationTexts
+  from: string // e.g. 'ko'
+  to: string   // e.g. 'mn'
+  context?: { brand?: string; category?: string }
+}
+
+export interface TranslationProvider {
+  name: string
+  translate(request: TranslationRequest): Promise<TranslationTexts>
+}
+
+export interface TranslateOptions {
+  fields?: TranslatableField[]
+  overwrite?: boolean // Replace fields edited by a human
+  provider?: TranslationProvider
+  glossary?: GlossaryTerm[] // Preloaded terms (bulk runs); loaded per call otherwise
+  context?: AuditContext
+}
+
+export type TranslationErrorCode = 'NOT_FOUND' | 'INVALID_STATUS' | 'NOT_CONFIGURED' | 'PROVIDER_FAILED' | 'QUOTA_EXCEEDED'
+
+/**
+ * Thrown for expected translation failures; routes map `status` to the response code
+ */
+export class TranslationError extends Error {
+  readonly code: TranslationErrorCode
+
+  constructor(code: TranslationErrorCode, message: string) {
+    super(message)
+    this.name = 'TranslationError'
+    this.code = code
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'INVALID_STATUS':
+        return 409
+      case 'NOT_CONFIGURED':
+        return 503
+      case 'QUOTA_EXCEEDED':
+        return 429
+      default:
+        return 502
+    }
+  }
+}
+
+const HANGUL_PATTERN = /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/
+
+// Source and target language of every import (Korean stores → Mongolian storefront)
+const SOURCE_LANGUAGE = 'ko'
+const TARGET_LANGUAGE = 'mn'
+
+// Only products still being prepared are machine translated
+const TRANSLATABLE_STATUSES = new Set(['RAW', 'DRAFT'])
+
+const FIELD_DESCRIPTIONS: Record<TranslatableField, string> = {
+  title: 'Product title (short, no promotional text)',
+  short_description: 'One or two sentence summary',
+  detailed_description: 'Full description, keep line breaks and bullet points',
+}
+
+/**
+ * Deterministic provider for tests: prefixes the source text with the target language
+ */
+export const stubTranslationProvider: TranslationProvider = {
+  name: 'stub',
+  async translate(request) {
+    const result: TranslationTexts = {}
+    for (const [field, text] of Object.entries(request.texts) as [TranslatableField, string][]) {
+      result[field] = `[${request.to}] ${text}`
+    }
+    return result
+  },
+}
+
+export function createGeminiTranslationProvider(config: { apiKey: string; model: string }): TranslationProvider {
+  return {
+    name: 'gemini',
+    async translate(request) {
+      const fields = Object.keys(request.texts) as TranslatableField[]
+      const contextLines = [
+        request.context?.brand && `Brand: "${request.context.brand}"`,
+        request.context?.category && `Category: "${request.context.category}"`,
+      ].filter(Boolean)
+
+      const prompt = `Translate the following e-commerce product texts from Korean into Mongolian (Cyrillic script).
+
+${contextLines.join('\n')}
+
+Requirements:
+- Natural Mongolian a shopper in Ulaanbaatar would understand
+- Keep brand names, model numbers, sizes and units (ml, g, mm, kg) unchanged
+- Remove store promotions (free shipping, coupons, event, 기획, 증정, etc.)
+- Do not leave any Korean (Hangul) characters in the output
+- Placeholders like __G0__ are fixed glossary terms: copy them unchanged to the matching position
+
+Texts (JSON):
+${JSON.stringify(request.texts, null, 2)}`
+
+      const textContent = await generateGeminiContent(prompt, {
+        apiKey: config.apiKey,
+        model: config.model,
+        systemInstruction: 'Return ONLY valid JSON with the same keys as the input texts. No markdown, no explanations.',
+        generationConfig: {
+          temperature: 0,
+          responseMimeType: 'application/json',
+          responseJsonSchema: {
+            type: 'object',
+            properties: Object.fromEntries(
+              fields.map((field) => [field, { type: 'string', description: FIELD_DESCRIPTIONS[field] }])
+            ),
+            required: fields,
+            additionalProperties: false,
+          },
+        },
+      })
+
+      const parsed = extractJson(textContent)
+      const result: TranslationTexts = {}
+      for (const field of fields) {
+        const value = parsed?.[field]
+        if (typeof value !== 'string' || value.trim() === '') {
+          throw new Error(`Gemini returned no translation for ${field}`)
+        }
+        result[field] = value.trim()
+      }
+      return result
+    },
+  }
+}
+
+/**
+ * Provider selected by TRANSLATION_PROVIDER (gemini | stub, default: gemini)
+ */
+export function getTranslationProvider(): TranslationProvider {
+  if (process.env.TRANSLATION_PROVIDER === 'stub') {
+    return stubTranslationProvider
+  }
+
+  const gemini = getGeminiConfig()
+  if (!gemini) {
+    throw new TranslationError('NOT_CONFIGURED', 'Translation provider not configured (set GEMINI_API_KEY)')
+  }
+  return createGeminiTranslationProvider(gemini)
+}
+
+/**
+ * Original (untranslated) text of a field
+ *
+ * The first translation records its source in translationMeta, so later runs
+ * keep translating from the original even after the field was replaced.
+ */
+function getSourceText(product: any, field: TranslatableField): string {
+  const recorded = product.translationMeta?.[field]?.sourceText
+  if (recorded) return recorded
+
+  const originals =
+    field === 'title'
+      ? [product.nameOriginal, product.importMeta?.source?.title]
+      : field === 'detailed_description'
+      ? [product.descriptionOriginal]
+      : []
+
+  for (const value of originals) {
+    if (typeof value === 'string' && value.trim() !== '') return value.trim()
+  }
+
+  // Imported text that was never translated still sits in the field itself
+  const current = typeof product[field] === 'string' ? product[field].trim() : ''
+  return HANGUL_PATTERN.test(current) ? current : ''
+}
+
+function getCacheKey(provider: string, from: string, to: string, text: string): string {
+  return createHash('sha256').update(`${provider}\u0000${from}\u0000${to}\u0000${text}`).digest('hex')
+}
+
+async function readCache(keys: string[]): Promise<Map<string, string>> {
+  if (keys.length === 0) return new Map()
+  const db = await getMongoDb()
+  const collection = db.collection<{ _id: string; translatedText: string }>('translation_cache')
+  const docs = await collection.find({ _id: { $in: keys } }).toArray()
+  if (docs.length > 0) {
+    await collection.updateMany(
+      { _id: { $in: docs.map((d) => d._id) } },
+      { $inc: { hits: 1 }, $set: { lastUsedAt: new Date() } }
+    )
+  }
+  return new Map(docs.map((d) => [d._id, d.translatedText]))
+}
+
+async function writeCache(
+  entries: { key: string; provider: string; from: string; to: string; sourceText: string; translatedText: string }[]
+): Promise<void> {
+  if (entries.length === 0) return
+  const db = await getMongoDb()
+  const now = new Date()
+  await db.collection<{ _id: string }>('translation_cache').bulkWrite(
+    entries.map(({ key, ...entry }) => ({
+      updateOne: {
+        filter: { _id: key },
+        update: { $set: { ...entry, updatedAt: now }, $setOnInsert: { createdAt: now, hits: 0 } },
+        upsert: true,
+      },
+    }))
+  )
+}
+
+/**
+ * Translate a product's Mongolian fields and save them (RAW moves to DRAFT)
+ */
+export async function translateProduct(
+  idOrSlug: string,
+  options: TranslateOptions = {}
+): Promise<ProductTranslateResult> {
+  const product: any = await getProductById(idOrSlug)
+  if (!product) {
+    throw new TranslationError('NOT_FOUND', `Product not found: ${idOrSlug}`)
+  }
+
+  const status = product.lifecycleStatus ?? 'RAW'
+  if (!TRANSLATABLE_STATUSES.has(status)) {
+    throw new TranslationError(
+      'INVALID_STATUS',
+      `Only RAW and DRAFT products can be machine translated (product is ${status})`
+    )
+  }
+
+  const provider = options.provider ?? getTranslationProvider()
+  const from = SOURCE_LANGUAGE
+  const to = TARGET_LANGUAGE
+  const fields = options.fields?.length ? options.fields : [...TRANSLATABLE_FIELDS]
+  const glossary = options.glossary ?? await listGlossaryTerms()
+
+  const skipped: ProductTranslateResult['skipped'] = []
+  const pending: {
+    field: TranslatableField
+    sourceText: string
+    masked: string
+    replacements: string[]
+    key: string
+  }[] = []
+
+  for (const field of fields) {
+    const sourceText = getSourceText(product, field)
+    if (!sourceText) {
+      skipped.push({ field, reason: 'NO_SOURCE_TEXT' })
+      continue
+    }
+
+    const current = typeof product[field] === 'string' ? product[field].trim() : ''
+    const meta = product.translationMeta?.[field]
+    if (
+      meta &&
+      meta.sourceText === sourceText &&
+      current === meta.translatedText &&
+      findTermViolations(sourceText, current, glossary).length === 0
+    ) {
+      skipped.push({ field, reason: 'UP_TO_DATE' })
+      continue
+    }
+
+    // Anything other than empty, the original or our last output was typed by someone
+    const isHumanEdit = current !== '' && current !== sourceText && current !== meta?.translatedText
+    if (isHumanEdit && !options.overwrite) {
+      skipped.push({ field, reason: 'HUMAN_EDIT' })
+      continue
+    }
+
+    // The cache stores masked text, so a changed target applies to cached results too
+    const { text: masked, replacements } = maskGlossaryTerms(sourceText, glossary, renderForTranslation)
+    pending.push({ field, sourceText, masked, replacements, key: getCacheKey(provider.name, from, to, masked) })
+  }
+
+  const cachedTexts = await readCache(pending.map((p) => p.key))
+  const misses = pending.filter((p) => !cachedTexts.has(p.key))
+
+  let providerTexts: TranslationTexts = {}
+  if (misses.length > 0) {
+    try {
+      providerTexts = await provider.translate({
+        texts: Object.fromEntries(misses.map((p) => [p.field, p.masked])),
+        from,
+        to,
+        context: { brand: product.brand, category: product.category },
+      })
+    } catch (error: any) {
+      if (error instanceof QuotaExceededError) throw error
+      throw new TranslationError('PROVIDER_FAILED', `Translation failed: ${error?.message ?? String(error)}`)
+    }
+    await writeCache(
+      misses
+        .filter((p) => providerTexts[p.field])
+        .map((p) => ({
+          key: p.key,
+          provider: provider.name,
+          from,
+          to,
+          sourceText: p.masked,
+          translatedText: providerTexts[p.field] as string,
+        }))
+    )
+  }
+
+  const translated: TranslatableField[] = []
+  const cached: TranslatableField[] = []
+  const patch: Record<string, any> = {}
+  const translationMeta = { ...(product.translationMeta ?? {}) }
+  const glossaryViolations: GlossaryViolation[] = []
+  const now = new Date().toISOString()
+
+  for (const { field, sourceText, replacements, key } of pending) {
+    const maskedText = cachedTexts.get(key) ?? providerTexts[field]
+    if (!maskedText) continue
+
+    // Placeholders the provider dropped show up as violations below
+    const { text } = restoreGlossaryTerms(maskedText, replacements)
+    glossaryViolations.push(
+      ...findTermViolations(sourceText, text, glossary).map((v) => ({ ...v, field }))
+    )
+
+    patch[field] = text
+    translationMeta[field] = { sourceText, translatedText: text, provider: provider.name, from, to, translatedAt: now }
+    translated.push(field)
+    if (cachedTexts.has(key)) cached.push(field)
+  }
+
+  let updated: Product = product
+  if (translated.length > 0) {
+    // Keep the legacy editor fields in sync (same as the store does on save)
+    if (patch.title !== undefined) patch.nameMn = patch.title
+    if (patch.detailed_description !== undefined) patch.descriptionMn = patch.detailed_description
+    patch.translationMeta = translationMeta
+    if (status === 'RAW') patch.lifecycleStatus = 'DRAFT'
+
+    updated = await updateProductById(product.id, patch, options.context)
+  }
+
+  return {
+    productId: product.id,
+    provider: provider.name,
+    translated,
+    cached,
+    skipped,
+    requiresConfirmation: skipped.some((s) => s.reason === 'HUMAN_EDIT'),
+    glossaryViolations,
+    product: updated,
+  }
+}
+
+/**
+ * Translate several products; failures are reported per product and the run
+ * goes on with the rest (products before a failure are already saved)
+ */
+export async function translateProducts(
+  ids: string[],
+  options: TranslateOptions = {}
+): Promise<{
+  results: ProductTranslateResult[]
+  errors: { id: string; code: string; error: string }[]
+}> {
+  // Resolve the provider once so a missing key fails the whole request
+  const provider = options.provider ?? getTranslationProvider()
+  const glossary = options.glossary ?? await listGlossaryTerms()
+
+  const results: ProductTranslateResult[] = []
+  const errors: { id: string; code: string; error: string }[] = []
+
+  for (const [index, id] of ids.entries()) {
+    try {
+      results.push(await translateProduct(id, { ...options, provider, glossary }))
+    } catch (error: any) {
+      // Out of quota: the remaining products would fail the same way
+      if (error instanceof QuotaExceededError) {
+        if (results.length === 0) throw error
+        for (const skipped of ids.slice(index)) {
+          errors.push({ id: skipped, code: 'QUOTA_EXCEEDED', error: error.message })
+        }
+        break
+      }
+      if (error instanceof TranslationError || error instanceof TrashError) {
+        errors.push({ id, code: error.code, error: error.message })
+      } else if (error instanceof LifecycleTransitionError) {
+        errors.push({ id, code: 'LIFECYCLE_TRANSITION_REJECTED', error: error.message })
+      } else {
+        console.error(`Failed to translate product ${id}:`, error)
+        errors.push({ id, code: 'FAILED', error: error?.message ?? String(error) })
+      }
+    }
+  }
+
+  return { results, errors }
+}
+
+/**
+ * Glossary rules broken by a product's Mongolian fields
+ *
+ * Fields that are empty or still hold the untranslated source are not checked.
+ */
+export function checkProductGlossary(product: Product, glossary: GlossaryTerm[]): GlossaryViolation[] {
+  return TRANSLATABLE_FIELDS.flatMap((field) => {
+    const sourceText = getSourceText(product, field)
+    const text = typeof product[field] === 'string' ? (product[field] as string).trim() : ''
+    if (!sourceText || !text || text === sourceText) return []
+    return findTermViolations(sourceText, text, glossary).map((v) => ({ ...v, field }))
+  })
+}
+
+/**
+ * Products whose Mongolian text violates the glossary (RAW products are skipped
+ * unless requested, they have not been translated yet)
+ */
+export async function findGlossaryViolations(filters: {
+  lifecycleStatus?: ProductStatus
+  store?: string
+} = {}): Promise<GlossaryCheckResult[]> {
+  const glossary = await listGlossaryTerms()
+  if (glossary.length === 0) return []
+
+  const products = await listProducts(filters)
+  return products
+    .filter((p) => filters.lifecycleStatus || p.lifecycleStatus !== 'RAW')
+    .map((p) => ({
+      productId: p.id,
+      title: p.title || p.nameMn || p.nameOriginal || p.id,
+      lifecycleStatus: p.lifecycleStatus,
+      violations: checkProductGlossary(p, glossary),
+    }))
+    .filter((r) => r.violations.length > 0)
+}
@@ -0,0 +1,245 @@
+/**
+ * Product trash (soft delete)
+ *
+ * Deleting sets `isDeleted`, `deletedAt` and `deletedBy` on the product;
+ * listings, search and the batch jobs leave such products out, and restoring
+ * clears the flags again. PUSHED products are live on the storefront and have
+ * to be retired before they can be deleted.
+ *
+ * Products stay in the trash for TRASH_RETENTION_DAYS (default 30) and are
+ * then purged: the product and its `images` documents are removed. Stored
+ * image files are kept, since other products may share them.
+ */
+
+import { ObjectId } from 'mongodb'
+import { getMongoDb } from '../mongodb'
+import { diffProductFields, getProductById } from './products'
+import { AuditContext, recordAuditEvents, SYSTEM_AUDIT_CONTEXT } from './audit'
+import { Product, TrashPurgeResult, TrashSummary } from '@/types/product'
+
+export type TrashErrorCode = 'INVALID' | 'NOT_FOUND' | 'CONFLICT'
+
+/**
+ * Thrown for rejected trash operations; routes map `status` to the response code
+ */
+export class TrashError extends Error {
+  readonly code: TrashErrorCode
+  readonly details: string[]
+
+  constructor(code: TrashErrorCode, message: string, details: string[] = []) {
+    super(message)
+    this.name = 'TrashError'
+    this.code = code
+    this.details = details
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404
+      case 'CONFLICT':
+        return 409
+      default:
+        return 400
+    }
+  }
+}
+
+const DEFAULT_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS)
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+function assertIds(ids: unknown): asserts ids is string[] {
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string')) {
+    throw new TrashError('INVALID', 'ids must be a non-empty array of strings')
+  }
+}
+
+/**
+ * Look up every product (by id or slug); all or nothing
+ */
+async function getProducts(ids: string[]): Promise<Product[]> {
+  const products: Product[] = []
+  const missing: string[] = []
+  for (const id of ids) {
+    const product = await getProductById(id)
+    if (product) {
+      products.push(product)
+    } else {
+      missing.push(id)
+    }
+  }
+  if (missing.length > 0) {
+    throw new TrashError('NOT_FOUND', `Product not found: ${missing.join(', ')}`, missing)
+  }
+  return products
+}
+
+async function reloadProducts(products: Product[]): Promise<Product[]> {
+  const reloaded = await Promise.all(products.map((product) => getProductById(product.id)))
+  return reloaded.filter((product): product is Product => product !== null)
+}
+
+/**
+ * Record `action` for the products whose trash state actually changed
+ */
+async function recordTrashEvents(
+  context: AuditContext,
+  action: 'delete' | 'restore',
+  before: Product[],
+  after: Product[]
+): Promise<void> {
+  const afterById = new Map(after.map((product) => [product.id, product]))
+  const events = before.flatMap((product) => {
+    const updated = afterById.get(product.id)
+    if (!updated || Boolean(updated.isDeleted) === Boolean(product.isDeleted)) return []
+    return [{ productId: product.id, action, changes: diffProductFields(product, updated) }]
+  })
+  await recordAuditEvents(context, events)
+}
+
+/**
+ * Move products to the trash
+ *
+ * Products already in the trash are left as they are.
+ *
+ * @throws TrashError (CONFLICT) when any product is PUSHED; nothing is deleted
+ */
+export async function deleteProducts(
+  ids: string[],
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product[]> {
+  assertIds(ids)
+  const products = await getProducts(ids)
+
+  const pushed = products.filter((product) => product.lifecycleStatus === 'PUSHED').map((product) => product.id)
+  if (pushed.length > 0) {
+    throw new TrashError('CONFLICT', 'Retire PUSHED products before deleting them', pushed)
+  }
+
+  const db = await getMongoDb()
+  await db.collection('products').updateMany(
+    { _id: { $in: products.map((product) => new ObjectId(product.id)) }, isDeleted: { $ne: true } },
+    {
+      $set: {
+        isDeleted: true,
+        deletedAt: new Date().toISOString(),
+        deletedBy: context.actor,
+        updatedAt: new Date(),
+      },
+    }
+  )
+
+  const deleted = await reloadProducts(products)
+  await recordTrashEvents(context, 'delete', products, deleted)
+  return deleted
+}
+
+/**
+ * Take products out of the trash (products not in it are left as they are)
+ */
+export async function restoreProducts(
+  ids: string[],
+  context: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Product[]> {
+  assertIds(ids)
+  const products = await getProducts(ids)
+
+  const db = await getMongoDb()
+  await db.collection('products').updateMany(
+    { _id: { $in: products.map((product) => new ObjectId(product.id)) }, isDeleted: true },
+    { $set: { isDeleted: false, deletedAt: null, deletedBy: null, updatedAt: new Date() } }
+  )
+
+  const restored = await reloadProducts(products)
+  await recordTrashEvents(context, 'restore', products, restored)
+  return restored
+}
+
+function getPurgeCutoff(retentionDays: number): string {
+  return new Date(Date.now() - retentionDays * DAY_MS).toISOString()
+}
+
+export async function getTrashSummary(): Promise<TrashSummary> {
+  const db = await getMongoDb()
+  const collection = db.collection('products')
+  const retentionDays = getTrashRetentionDays()
+  const [total, expired] = await Promise.all([
+    collection.countDocuments({ isDeleted: true }),
+    collection.countDocuments({ isDeleted: true, deletedAt: { $lt: getPurgeCutoff(retentionDays) } }),
+  ])
+  return { retentionDays, total, expired }
+}
+
+/**
+ * Permanently remove products from the trash, with their `images` documents
+ *
+ * @param options.ids - Purge these products now (all must be in the trash);
+ *   otherwise every product deleted more than `retentionDays` ago is purged
+ * @param options.dryRun - Count what would be purged without removing anything
+ * @param options.context - Recorded on the `purge` audit events (which outlive the products)
+ */
+export async function purgeTrash(
+  options: { ids?: string[]; retentionDays?: number; dryRun?: boolean; context?: AuditContext } = {}
+): Promise<TrashPurgeResult> {
+  const db = await getMongoDb()
+  const products = db.collection('products')
+
+  let productIds: ObjectId[]
+  let filter: Record<string, any>
+  if (options.ids !== undefined) {
+    assertIds(options.ids)
+    const found = await getProducts(options.ids)
+    const notDeleted = found.filter((product) => !product.isDeleted).map((product) => product.id)
+    if (notDeleted.length > 0) {
+      throw new TrashError('CONFLICT', 'Only products in the trash can be purged', notDeleted)
+    }
+    productIds = found.map((product) => new ObjectId(product.id))
+    filter = { isDeleted: true }
+  } else {
+    const cutoff = getPurgeCutoff(options.retentionDays ?? getTrashRetentionDays())
+    filter = { isDeleted: true, deletedAt: { $lt: cutoff } }
+    const docs = await products.find(filter, { projection: { _id: 1 } }).toArray()
+    productIds = docs.map((doc) => doc._id)
+  }
+
+  if (productIds.length === 0) {
+    return { purged: 0, imagesDeleted: 0 }
+  }
+
+  if (options.dryRun) {
+    const images = await db.collection('images').countDocuments({ productId: { $in: productIds } })
+    return { purged: productIds.length, imagesDeleted: images }
+  }
+
+  // Products first: one restored in the meantime no longer matches the filter
+  // and keeps its images. If the image delete fails, the leftover records are
+  // orphans, which image ingestion skips.
+  const purge = await products.deleteMany({ ...filter, _id: { $in: productIds } })
+  if (purge.deletedCount === 0) {
+    return { purged: 0, imagesDeleted: 0 }
+  }
+
+  let purgedIds = productIds
+  if (purge.deletedCount < productIds.length) {
+    const remaining = await products.find({ _id: { $in: productIds } }, { projection: { _id: 1 } }).toArray()
+    const kept = new Set(remaining.map((doc) => doc._id.toString()))
+    purgedIds = productIds.filter((productId) => !kept.has(productId.toString()))
+  }
+
+  const images = await db.collection('images').deleteMany({ productId: { $in: purgedIds } })
+  await recordAuditEvents(
+    options.context ?? SYSTEM_AUDIT_CONTEXT,
+    purgedIds.map((productId) => ({
+      productId,
+      action: 'purge' as const,
+      changes: [],
+      note: 'Permanently deleted from the trash',
+    }))
+  )
+  return { purged: purge.deletedCount, imagesDeleted: images.deletedCount }
+}
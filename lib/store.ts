@@ -1,10 +1,27 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
-import { Product, ProductStatus, DraftChanges, ValidationResult, Visibility } from "@/types/product"
+import {
+  Product,
+  ProductStatus,
+  DraftChanges,
+  ValidationResult,
+  Visibility,
+  ProductTranslateResult,
+  TranslatableField,
+  ProductImageIngestResult,
+  ProductImageVariantsResult,
+  ProductAttributeExtractResult,
+  ProductAttributeApplyResult,
+  ProductAttributeSuggestions,
+} from "@/types/product"
 import { generateFakeProducts } from "./fake-data"
 import { Store, Category } from "@/types/product"
 import { simulateSourceCheck } from "./deterministic-prng"
 import { apiClient } from "./api-client"
+import { normalizeProduct } from "./normalizeProduct"
+import { validateProduct as runValidationRules } from "./validation"
+import { buildRepriceItems, DEFAULT_PRICING_CONFIG, PricingConfig, RepriceResult } from "./pricing"
+import { applyAttributesToProduct, extractAttributesFromText, getAttributeSourceText } from "./attributes"
 
 const USE_API = process.env.NEXT_PUBLIC_USE_API === "true"
 
@@ -17,25 +34,68 @@ interface ProductStore {
     count: number
   } | null
   isLoading: boolean
-  isInitialized: boolean
   hasHydrated: boolean
 
   // Actions
-  loadProducts: () => Promise<void>
+  // API mode: pages are loaded by the dashboard and kept here so the editor
+  // finds them; loadProduct fetches one the store does not have yet
+  cacheProducts: (products: Product[]) => void
+  loadProduct: (id: string) => Promise<Product | undefined>
   searchProducts: (store: Store, category: Category, count: number) => Promise<void>
   updateProduct: (id: string, changes: DraftChanges) => Promise<void>
   updateProductStatus: (id: string, status: ProductStatus) => Promise<void>
   updateMultipleProductsStatus: (ids: string[], status: ProductStatus) => Promise<void>
+  // Take PUSHED products off the storefront; republish with updateMultipleProductsStatus(ids, "PUSHED")
+  retireProducts: (ids: string[], reason: string) => Promise<void>
+  // Trash (API mode only); restored products are added back to the list
+  deleteProducts: (ids: string[]) => Promise<void>
+  restoreProducts: (ids: string[]) => Promise<Product[]>
   getProduct: (id: string) => Product | undefined
   validateProduct: (product: Product) => ValidationResult
   toggleVisibility: (id: string) => Promise<void>
-  runSourceCheckForPushedProducts: () => Promise<{ checked: number; priceChanged: number; outOfStock: number }>
+  runSourceCheckForPushedProducts: () => Promise<{
+    checked: number
+    priceChanged: number
+    outOfStock: number
+    // Source policy actions (API mode only)
+    repriced?: number
+    hidden?: number
+    queuedForReview?: number
+  }>
+  acceptSourceBaseline: (id: string) => Promise<void>
+  getPricingConfig: () => Promise<PricingConfig>
+  repriceProducts: (ids: string[], apply: boolean) => Promise<RepriceResult>
+  translateProduct: (
+    id: string,
+    options?: { fields?: TranslatableField[]; overwrite?: boolean }
+  ) => Promise<ProductTranslateResult>
+  translateProducts: (
+    ids: string[],
+    options?: { fields?: TranslatableField[]; overwrite?: boolean }
+  ) => Promise<{ results: ProductTranslateResult[]; errors: { id: string; code: string; error: string }[] }>
+  processProductImages: (
+    id: string
+  ) => Promise<{ ingest: ProductImageIngestResult; variants: ProductImageVariantsResult }>
+  extractProductAttributes: (id: string, options?: { useLlm?: boolean }) => Promise<ProductAttributeExtractResult>
+  applyProductAttributes: (id: string, keys: string[]) => Promise<ProductAttributeApplyResult>
+  extractAttributesForProducts: (
+    ids: string[],
+    options?: { useLlm?: boolean }
+  ) => Promise<{ results: ProductAttributeExtractResult[]; errors: { id: string; code: string; error: string }[] }>
+  assignProductCategory: (id: string, category: string, subCategory: string | null) => Promise<Product>
+  revertProduct: (id: string, revisionId: string) => Promise<Product>
   setHasHydrated: (value: boolean) => void
 }
 
 const STORAGE_KEY = "product-import-store-v2"
 
 // Migration: Add missing fields to existing products
+// Republishing a RETIRED product makes it public again (as lib/server/publisher.ts does)
+function getRepublishFields(product: Product, lifecycleStatus: ProductStatus): Partial<Product> {
+  if (product.lifecycleStatus !== "RETIRED" || lifecycleStatus !== "PUSHED") return {}
+  return { visibility: "public", retiredAt: null, retiredBy: null, retiredReason: null }
+}
+
 function migrateProduct(product: any): Product {
   // Migrate old 'status' field to 'lifecycleStatus' if present
   const lifecycleStatus = product.lifecycleStatus ?? product.status ?? "RAW"
@@ -45,7 +105,7 @@ function migrateProduct(product: any): Product {
     lifecycleStatus,
     // Remove old status field if it was the lifecycle status (keep storefront status if different)
     // Only remove if it matches lifecycle values, otherwise preserve as storefront status
-    ...(product.status && ['RAW', 'DRAFT', 'READY', 'PUSHED'].includes(product.status) && product.lifecycleStatus
+    ...(product.status && ['RAW', 'DRAFT', 'READY', 'PUSHED', 'RETIRED'].includes(product.status) && product.lifecycleStatus
       ? {} // lifecycleStatus already set, remove old status
       : {}), // Keep status if it's a storefront value
     visibility: product.visibility || "public",
@@ -65,23 +125,35 @@ export const useProductStore = create<ProductStore>()(
       currentSearchResults: [],
       searchParams: null,
       isLoading: false,
-      isInitialized: false,
       hasHydrated: false,
 
       setHasHydrated: (value: boolean) => {
         set({ hasHydrated: value })
       },
 
-      loadProducts: async () => {
-        if (!USE_API || get().isInitialized) return
-        
-        set({ isLoading: true })
+      cacheProducts: (products: Product[]) => {
+        if (products.length === 0) return
+        const fresh = new Map(products.map((p) => [p.id, p]))
+        set((state) => {
+          const known = new Set(state.products.map((p) => p.id))
+          return {
+            products: [
+              ...state.products.map((p) => fresh.get(p.id) ?? p),
+              ...products.filter((p) => !known.has(p.id)),
+            ],
+          }
+        })
+      },
+
+      loadProduct: async (id: string) => {
+        if (!USE_API) return get().products.find((p) => p.id === id)
         try {
-          const products = await apiClient.getProducts()
-          set({ products, isLoading: false, isInitialized: true })
+          const product = await apiClient.getProduct(id)
+          get().cacheProducts([product])
+          return product
         } catch (error) {
-          console.error('Failed to load products from API:', error)
-          set({ isLoading: false, isInitialized: true })
+          console.error('Failed to load product from API:', error)
+          return undefined
         }
       },
 
@@ -108,18 +180,12 @@ export const useProductStore = create<ProductStore>()(
             
             const result = await res.json()
             
-            // Reload products from DB to get the actual created products with IDs
-            const products = await apiClient.getProducts()
-            
-            // Find the newly created products (they should match the search params)
-            const newProducts = products.filter((p) => 
-              p.sourceStore === store && 
-              p.category === category &&
-              !get().products.find((existing) => existing.id === p.id)
-            )
+            // Load just the products the import created
+            const createdIds: string[] = Array.isArray(result?.created) ? result.created : []
+            const newProducts = await Promise.all(createdIds.map((id) => apiClient.getProduct(id)))
+            get().cacheProducts(newProducts)
             
             set({
-              products: [...get().products, ...newProducts],
               currentSearchResults: newProducts,
               searchParams: { store, category, count },
               isLoading: false,
@@ -207,9 +273,10 @@ export const useProductStore = create<ProductStore>()(
             const updated = await apiClient.updateProductStatus(id, lifecycleStatus)
             
             // When pushing, initialize baseline and source check fields
-            // Use pre-update priceKrw if available, otherwise use updated priceKrw
+            // Use pre-update priceKrw if available, otherwise use updated priceKrw;
+            // without either the first source check sets the baseline
             const now = new Date().toISOString()
-            const baselinePriceKrw = currentProduct?.priceKrw ?? updated.priceKrw ?? 0
+            const baselinePriceKrw = currentProduct?.priceKrw ?? updated.priceKrw
             const finalUpdated = lifecycleStatus === "PUSHED" && 
                                  (currentProduct?.lifecycleStatus !== "PUSHED" || !currentProduct?.sourceBaselinePriceKrw)
               ? {
@@ -230,9 +297,17 @@ export const useProductStore = create<ProductStore>()(
               ),
               isLoading: false,
             }))
-          } catch (error) {
+          } catch (error: any) {
             console.error('Failed to update product lifecycleStatus:', error)
-            set({ isLoading: false })
+            // A failed publish returns the rolled-back product with its publishResult
+            const rolledBack = error?.body?.product ? normalizeProduct(error.body.product) : null
+            set((state) => ({
+              ...(rolledBack && {
+                products: state.products.map((p) => (p.id === id ? rolledBack : p)),
+                currentSearchResults: state.currentSearchResults.map((p) => (p.id === id ? rolledBack : p)),
+              }),
+              isLoading: false,
+            }))
             throw error
           }
           return
@@ -247,7 +322,7 @@ export const useProductStore = create<ProductStore>()(
               
               // CRITICAL FIX: Use current priceKrw BEFORE status change for baseline
               // This ensures baseline is from the original price, not a mutated one
-              const baselinePriceKrw = p.priceKrw ?? 0
+              const baselinePriceKrw = p.priceKrw
               
               // When pushing, initialize baseline and source check fields
               // Only initialize if baseline not already present
@@ -255,6 +330,7 @@ export const useProductStore = create<ProductStore>()(
                   (p.lifecycleStatus !== "PUSHED" || !p.sourceBaselinePriceKrw)) {
                 return {
                   ...p,
+                  ...getRepublishFields(p, lifecycleStatus),
                   lifecycleStatus,
                   sourceBaselinePriceKrw: baselinePriceKrw,
                   sourceLastCheckedPriceKrw: baselinePriceKrw,
@@ -265,17 +341,18 @@ export const useProductStore = create<ProductStore>()(
                 }
               }
               
-              return { ...p, lifecycleStatus }
+              return { ...p, ...getRepublishFields(p, lifecycleStatus), lifecycleStatus }
             }),
             currentSearchResults: state.currentSearchResults.map((p) => {
               if (p.id !== id) return p
               
-              const baselinePriceKrw = p.priceKrw ?? 0
+              const baselinePriceKrw = p.priceKrw
               
               if (lifecycleStatus === "PUSHED" && 
                   (p.lifecycleStatus !== "PUSHED" || !p.sourceBaselinePriceKrw)) {
                 return {
                   ...p,
+                  ...getRepublishFields(p, lifecycleStatus),
                   lifecycleStatus,
                   sourceBaselinePriceKrw: baselinePriceKrw,
                   sourceLastCheckedPriceKrw: baselinePriceKrw,
@@ -286,7 +363,7 @@ export const useProductStore = create<ProductStore>()(
                 }
               }
               
-              return { ...p, lifecycleStatus }
+              return { ...p, ...getRepublishFields(p, lifecycleStatus), lifecycleStatus }
             }),
           }
         })
@@ -306,9 +383,16 @@ export const useProductStore = create<ProductStore>()(
               ),
               isLoading: false,
             }))
-          } catch (error) {
+          } catch (error: any) {
             console.error('Failed to update multiple products lifecycleStatus:', error)
-            set({ isLoading: false })
+            // A partly failed publish returns every product in its current state
+            const returned: Product[] = Array.isArray(error?.body?.products) ? error.body.products.map((p: any) => normalizeProduct(p)) : []
+            const returnedMap = new Map(returned.map((p) => [p.id, p]))
+            set((state) => ({
+              products: state.products.map((p) => returnedMap.get(p.id) || p),
+              currentSearchResults: state.currentSearchResults.map((p) => returnedMap.get(p.id) || p),
+              isLoading: false,
+            }))
             throw error
           }
           return
@@ -319,51 +403,94 @@ export const useProductStore = create<ProductStore>()(
           const idSet = new Set(ids)
           return {
             products: state.products.map((p) =>
-              idSet.has(p.id) ? { ...p, lifecycleStatus } : p
+              idSet.has(p.id) ? { ...p, ...getRepublishFields(p, lifecycleStatus), lifecycleStatus } : p
             ),
             currentSearchResults: state.currentSearchResults.map((p) =>
-              idSet.has(p.id) ? { ...p, lifecycleStatus } : p
+              idSet.has(p.id) ? { ...p, ...getRepublishFields(p, lifecycleStatus), lifecycleStatus } : p
             ),
           }
         })
       },
 
-      getProduct: (id: string) => {
-        return get().products.find((p) => p.id === id)
-      },
-
-      validateProduct: (product: Product): ValidationResult => {
-        const errors: { field: string; message: string }[] = []
+      retireProducts: async (ids: string[], reason: string) => {
+        if (USE_API) {
+          set({ isLoading: true })
+          try {
+            const updated = await apiClient.retireProducts(ids, reason)
+            const updatedMap = new Map(updated.map((p) => [p.id, p]))
 
-        if (!product.nameMn || product.nameMn.trim() === "") {
-          errors.push({ field: "nameMn", message: "Mongolian name is required" })
+            set((state) => ({
+              products: state.products.map((p) => updatedMap.get(p.id) || p),
+              currentSearchResults: state.currentSearchResults.map((p) => updatedMap.get(p.id) || p),
+              isLoading: false,
+            }))
+          } catch (error: any) {
+            console.error('Failed to retire products:', error)
+            // Products retired before a failure are returned in their current state
+            const returned: Product[] = Array.isArray(error?.body?.products) ? error.body.products.map((p: any) => normalizeProduct(p)) : []
+            const returnedMap = new Map(returned.map((p) => [p.id, p]))
+            set((state) => ({
+              products: state.products.map((p) => returnedMap.get(p.id) || p),
+              currentSearchResults: state.currentSearchResults.map((p) => returnedMap.get(p.id) || p),
+              isLoading: false,
+            }))
+            throw error
+          }
+          return
         }
 
-        if (!product.descriptionMn || product.descriptionMn.trim() === "") {
-          errors.push({
-            field: "descriptionMn",
-            message: "Mongolian description is required",
-          })
-        }
+        // Original localStorage mode (no storefront to unpublish from)
+        const now = new Date().toISOString()
+        const retire = (p: Product): Product =>
+          ids.includes(p.id) && p.lifecycleStatus === "PUSHED"
+            ? {
+                ...p,
+                lifecycleStatus: "RETIRED",
+                visibility: "hidden",
+                retiredAt: now,
+                retiredBy: null,
+                retiredReason: reason.trim(),
+              }
+            : p
+        set((state) => ({
+          products: state.products.map(retire),
+          currentSearchResults: state.currentSearchResults.map(retire),
+        }))
+      },
 
-        if (!product.priceMnt || product.priceMnt <= 0) {
-          errors.push({
-            field: "priceMnt",
-            message: "Price must be greater than 0",
-          })
+      deleteProducts: async (ids: string[]) => {
+        if (!USE_API) {
+          throw new Error("The trash is only available in API mode")
         }
 
-        if (!product.imagesFinal || product.imagesFinal.length === 0) {
-          errors.push({
-            field: "imagesFinal",
-            message: "At least one image is required",
-          })
-        }
+        const deleted = await apiClient.deleteProducts(ids)
+        const deletedIds = new Set(deleted.map((p) => p.id))
+        set((state) => ({
+          products: state.products.filter((p) => !deletedIds.has(p.id)),
+          currentSearchResults: state.currentSearchResults.filter((p) => !deletedIds.has(p.id)),
+        }))
+      },
 
-        return {
-          isValid: errors.length === 0,
-          errors,
+      restoreProducts: async (ids: string[]) => {
+        if (!USE_API) {
+          throw new Error("The trash is only available in API mode")
         }
+
+        const restored = await apiClient.restoreProducts(ids)
+        const restoredIds = new Set(restored.map((p) => p.id))
+        set((state) => ({
+          products: [...state.products.filter((p) => !restoredIds.has(p.id)), ...restored],
+        }))
+        return restored
+      },
+
+      getProduct: (id: string) => {
+        return get().products.find((p) => p.id === id)
+      },
+
+      validateProduct: (product: Product): ValidationResult => {
+        // Same rules as the server-side READY/PUSHED gate
+        return runValidationRules(product)
       },
 
       toggleVisibility: async (id: string) => {
@@ -408,6 +535,29 @@ export const useProductStore = create<ProductStore>()(
       },
 
       runSourceCheckForPushedProducts: async () => {
+        if (USE_API) {
+          set({ isLoading: true })
+          try {
+            // Server fetches the source pages and persists the results
+            // The dashboard reloads its current page afterwards
+            const result = await apiClient.runSourceCheck()
+            set({ isLoading: false })
+            return {
+              checked: result.checked,
+              priceChanged: result.priceChanged,
+              outOfStock: result.outOfStock,
+              repriced: result.repriced,
+              hidden: result.hidden,
+              queuedForReview: result.queuedForReview,
+            }
+          } catch (error) {
+            console.error('Failed to run source check:', error)
+            set({ isLoading: false })
+            throw error
+          }
+        }
+
+        // Original localStorage mode
         // Simulate network delay
         await new Promise((resolve) => setTimeout(resolve, 800 + Math.random() * 400))
 
@@ -450,6 +600,237 @@ export const useProductStore = create<ProductStore>()(
           outOfStock: outOfStockCount,
         }
       },
+
+      acceptSourceBaseline: async (id: string) => {
+        if (USE_API) {
+          const updated = await apiClient.acceptSourceBaseline(id)
+          set((state) => ({
+            products: state.products.map((p) => (p.id === id ? updated : p)),
+          }))
+          return
+        }
+
+        // Original localStorage mode
+        set((state) => ({
+          products: state.products.map((p) => {
+            if (p.id !== id || p.sourceLastCheckedPriceKrw === undefined) return p
+            const reasons = (p.sourceReviewReasons ?? []).filter((r) => r !== "priceChanged")
+            return {
+              ...p,
+              sourceBaselinePriceKrw: p.sourceLastCheckedPriceKrw,
+              priceKrw: p.sourceLastCheckedPriceKrw,
+              sourcePriceChanged: false,
+              sourceReviewReasons: reasons,
+              sourceReviewStatus: reasons.length > 0 ? "pending" : null,
+            }
+          }),
+        }))
+      },
+
+      translateProduct: async (id, options = {}) => {
+        if (!USE_API) {
+          // Translation providers and the cache live on the server
+          throw new Error("Machine translation is only available in API mode")
+        }
+
+        const result = await apiClient.translateProduct(id, options)
+        set((state) => ({
+          products: state.products.map((p) => (p.id === result.productId ? result.product : p)),
+          currentSearchResults: state.currentSearchResults.map((p) =>
+            p.id === result.productId ? result.product : p
+          ),
+        }))
+        return result
+      },
+
+      translateProducts: async (ids, options = {}) => {
+        if (!USE_API) {
+          throw new Error("Machine translation is only available in API mode")
+        }
+
+        const result = await apiClient.translateProducts(ids, options)
+        const updated = new Map(result.results.map((r) => [r.productId, r.product]))
+        set((state) => ({
+          products: state.products.map((p) => updated.get(p.id) ?? p),
+          currentSearchResults: state.currentSearchResults.map((p) => updated.get(p.id) ?? p),
+        }))
+        return result
+      },
+
+      processProductImages: async (id) => {
+        if (!USE_API) {
+          // Downloads, storage and image processing run on the server
+          throw new Error("Image processing is only available in API mode")
+        }
+
+        // Ingestion rehosts imagesFinal and renders variants; the variants call returns the updated product
+        const ingest = await apiClient.ingestProductImages(id)
+        const variants = await apiClient.generateImageVariants(id)
+        set((state) => ({
+          products: state.products.map((p) => (p.id === variants.productId ? variants.product : p)),
+          currentSearchResults: state.currentSearchResults.map((p) =>
+            p.id === variants.productId ? variants.product : p
+          ),
+        }))
+        return { ingest, variants }
+      },
+
+      extractProductAttributes: async (id, options = {}) => {
+        if (USE_API) {
+          const result = await apiClient.extractProductAttributes(id, options.useLlm)
+          set((state) => ({
+            products: state.products.map((p) => (p.id === result.productId ? result.product : p)),
+            currentSearchResults: state.currentSearchResults.map((p) =>
+              p.id === result.productId ? result.product : p
+            ),
+          }))
+          return result
+        }
+
+        // localStorage mode: title rules only (Gemini runs on the server)
+        const product = get().products.find((p) => p.id === id)
+        if (!product) {
+          throw new Error(`Product not found: ${id}`)
+        }
+        const sourceText = getAttributeSourceText(product)
+        const suggestions: ProductAttributeSuggestions = {
+          attributes: extractAttributesFromText(sourceText),
+          sourceText,
+          method: "rules",
+          extractedAt: new Date().toISOString(),
+        }
+        await get().updateProduct(id, { attributeSuggestions: suggestions })
+        return { productId: id, suggestions, product: get().products.find((p) => p.id === id)! }
+      },
+
+      applyProductAttributes: async (id, keys) => {
+        if (USE_API) {
+          const result = await apiClient.applyProductAttributes(id, keys)
+          set((state) => ({
+            products: state.products.map((p) => (p.id === result.productId ? result.product : p)),
+            currentSearchResults: state.currentSearchResults.map((p) =>
+              p.id === result.productId ? result.product : p
+            ),
+          }))
+          return result
+        }
+
+        const product = get().products.find((p) => p.id === id)
+        if (!product?.attributeSuggestions) {
+          throw new Error(`Product has no attribute suggestions: ${id}`)
+        }
+        const applied = product.attributeSuggestions.attributes.filter((a) => keys.includes(a.key))
+        await get().updateProduct(id, { ...applyAttributesToProduct(product, applied), attributeSuggestions: null })
+        return { productId: id, applied, product: get().products.find((p) => p.id === id)! }
+      },
+
+      extractAttributesForProducts: async (ids, options = {}) => {
+        if (USE_API) {
+          const result = await apiClient.extractAttributesForProducts(ids, options.useLlm)
+          const updated = new Map(result.results.map((r) => [r.productId, r.product]))
+          set((state) => ({
+            products: state.products.map((p) => updated.get(p.id) ?? p),
+            currentSearchResults: state.currentSearchResults.map((p) => updated.get(p.id) ?? p),
+          }))
+          return result
+        }
+
+        // Same RAW-only rule as the bulk endpoint
+        const results: ProductAttributeExtractResult[] = []
+        const errors: { id: string; code: string; error: string }[] = []
+        for (const id of ids) {
+          const product = get().products.find((p) => p.id === id)
+          if (!product) {
+            errors.push({ id, code: "NOT_FOUND", error: `Product not found: ${id}` })
+          } else if (product.lifecycleStatus !== "RAW") {
+            errors.push({
+              id,
+              code: "INVALID_STATUS",
+              error: `Only RAW products are processed in bulk (product is ${product.lifecycleStatus})`,
+            })
+          } else {
+            results.push(await get().extractProductAttributes(id))
+          }
+        }
+        return { results, errors }
+      },
+
+      assignProductCategory: async (id, category, subCategory) => {
+        if (!USE_API) {
+          // The taxonomy lives in the database
+          throw new Error("Storefront categories are only available in API mode")
+        }
+
+        const product = await apiClient.assignProductCategory(id, category, subCategory)
+        set((state) => ({
+          products: state.products.map((p) => (p.id === product.id ? product : p)),
+          currentSearchResults: state.currentSearchResults.map((p) => (p.id === product.id ? product : p)),
+        }))
+        return product
+      },
+
+      revertProduct: async (id, revisionId) => {
+        if (!USE_API) {
+          // Revisions are recorded by the server
+          throw new Error("Revisions are only available in API mode")
+        }
+
+        const product = await apiClient.revertProduct(id, revisionId)
+        set((state) => ({
+          products: state.products.map((p) => (p.id === product.id ? product : p)),
+          currentSearchResults: state.currentSearchResults.map((p) => (p.id === product.id ? product : p)),
+        }))
+        return product
+      },
+
+      getPricingConfig: async () => {
+        if (USE_API) {
+          return apiClient.getPricingConfig()
+        }
+        // localStorage mode has no stored rate or rules
+        return DEFAULT_PRICING_CONFIG
+      },
+
+      repriceProducts: async (ids: string[], apply: boolean) => {
+        if (USE_API) {
+          const result = await apiClient.repriceProducts(ids, apply)
+          if (apply && result.changed > 0) {
+            // Refresh only the repriced products
+            const changedIds = result.items
+              .filter((item) => item.suggestedPriceMnt !== null && item.diffMnt !== 0)
+              .map((item) => item.id)
+            get().cacheProducts(await Promise.all(changedIds.map((id) => apiClient.getProduct(id))))
+          }
+          return result
+        }
+
+        // Original localStorage mode
+        const idSet = new Set(ids)
+        const items = buildRepriceItems(
+          get().products.filter((p) => idSet.has(p.id)),
+          DEFAULT_PRICING_CONFIG
+        )
+        const newPrices = new Map(
+          items
+            .filter((item) => item.suggestedPriceMnt !== null && item.diffMnt !== 0)
+            .map((item) => [item.id, item.suggestedPriceMnt as number])
+        )
+
+        if (apply && newPrices.size > 0) {
+          set((state) => ({
+            products: state.products.map((p) =>
+              newPrices.has(p.id) ? { ...p, priceMnt: newPrices.get(p.id) } : p
+            ),
+          }))
+        }
+
+        return {
+          exchangeRate: DEFAULT_PRICING_CONFIG.exchangeRate,
+          items,
+          changed: newPrices.size,
+          applied: apply,
+        }
+      },
     }),
     {
       name: STORAGE_KEY,
@@ -457,7 +838,7 @@ export const useProductStore = create<ProductStore>()(
       // Skip automatic hydration to prevent server/client mismatch
       skipHydration: true,
       // Only persist stable fields that should survive page reloads
-      // Do NOT persist ephemeral UI state like isLoading, isInitialized, currentSearchResults
+      // Do NOT persist ephemeral UI state like isLoading, currentSearchResults
       partialize: (state) => ({
         products: state.products,
         searchParams: state.searchParams,
@@ -0,0 +1,58 @@
+/**
+ * Storefront category helpers shared by the editor and the server
+ *
+ * Products keep the store's own category (source category) next to the
+ * storefront one; mapping rules translate between them (see
+ * lib/server/taxonomy.ts).
+ */
+
+import { CategoryMappingRule, Product, SourceCategory } from '../../types/product'
+
+export type CategorySource = Pick<Product, 'sourceStore' | 'category' | 'subCategory' | 'importMeta' | 'categoryAssignment'>
+
+/**
+ * The store's own category for a product
+ *
+ * Imported products have it in `importMeta.source`. Others (seeded, demo)
+ * only have `category`, which holds the source category until a rule or an
+ * editor replaces it; the assignment then remembers where it came from.
+ */
+export function getProductSourceCategory(product: CategorySource): SourceCategory | null {
+  const source = product.importMeta?.source
+  const key = source?.categoryKey || source?.topCategory
+  if (key) {
+    return { store: product.sourceStore, key, subKey: source?.subCategory || null }
+  }
+  if (product.categoryAssignment) {
+    return product.categoryAssignment.source ?? null
+  }
+  if (product.category) {
+    return { store: product.sourceStore, key: product.category, subKey: product.subCategory || null }
+  }
+  return null
+}
+
+/**
+ * Rule covering a source category: an exact sub-key rule wins over the
+ * listing-wide one
+ */
+export function findCategoryMapping(
+  source: SourceCategory | null,
+  rules: CategoryMappingRule[]
+): CategoryMappingRule | null {
+  if (!source) return null
+  const candidates = rules.filter((r) => r.store === source.store && r.sourceKey === source.key)
+  return (
+    candidates.find((r) => r.sourceSubKey !== null && r.sourceSubKey === source.subKey) ??
+    candidates.find((r) => r.sourceSubKey === null) ??
+    null
+  )
+}
+
+/**
+ * Source category for display, e.g. "gmarket / best_electronics_all / accessories"
+ */
+export function formatSourceCategory(source: SourceCategory | null): string {
+  if (!source) return ''
+  return [source.store, source.key, source.subKey].filter(Boolean).join(' / ')
+}
@@ -1,6 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { Product, ProductStatus } from "@/types/product"
+import { Product, ProductListQuery, ProductStatus } from "@/types/product"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -35,3 +35,68 @@ export function matchesLifecycleTab(product: Product, tab: 'ALL' | ProductStatus
   if (tab === 'ALL') return true
   return product.lifecycleStatus === tab
 }
+
+/**
+ * Flag priority used for sorting: out of stock > price changed > hidden > none.
+ * Mirrors the flagPriority sort of GET /api/products.
+ */
+export function getFlagPriority(product: Product): number {
+  if (product.sourceOutOfStock) return 3
+  if (product.sourcePriceChanged) return 2
+  if (product.visibility === "hidden") return 1
+  return 0
+}
+
+/**
+ * In-memory equivalent of the GET /api/products filters (localStorage mode).
+ */
+export function matchesProductQuery(product: Product, query: ProductListQuery): boolean {
+  if (!!product.isDeleted !== !!query.deleted) return false
+  if (query.lifecycleStatus && product.lifecycleStatus !== query.lifecycleStatus) return false
+  if (query.store && product.sourceStore !== query.store) return false
+  if (query.visibility && product.visibility !== query.visibility) return false
+  if (query.category && product.category !== query.category) return false
+  if (query.brand && (product.brand || "").toLowerCase() !== query.brand.toLowerCase()) return false
+  if (query.flag === "priceChanged" && !product.sourcePriceChanged) return false
+  if (query.flag === "outOfStock" && !product.sourceOutOfStock) return false
+  if (query.flag === "hidden" && product.visibility !== "hidden") return false
+  if (query.flag === "needsReview" && product.sourceReviewStatus !== "pending") return false
+
+  if (query.q && query.q.trim()) {
+    const q = query.q.trim().toLowerCase()
+    const haystack = [getDisplayTitle(product), product.nameOriginal, product.brand, product.sourceProductId]
+    if (!haystack.some((value) => (value || "").toLowerCase().includes(q))) return false
+  }
+
+  return true
+}
+
+/**
+ * In-memory equivalent of the GET /api/products sort (localStorage mode).
+ */
+export function compareProducts(
+  a: Product,
+  b: Product,
+  sort: ProductListQuery["sort"] = "flagPriority",
+  order: ProductListQuery["order"] = "desc"
+): number {
+  const value = (p: Product): number => {
+    switch (sort) {
+      case "createdAt":
+        return p.createdAt ? new Date(p.createdAt).getTime() : 0
+      case "price":
+        return p.priceMnt ?? 0
+      case "sourceLastCheckedAt":
+        return p.sourceLastCheckedAt ? new Date(p.sourceLastCheckedAt).getTime() : 0
+      case "deletedAt":
+        return p.deletedAt ? new Date(p.deletedAt).getTime() : 0
+      case "flagPriority":
+      default:
+        return getFlagPriority(p)
+    }
+  }
+
+  const diff = value(a) - value(b)
+  if (diff !== 0) return order === "asc" ? diff : -diff
+  return order === "asc" ? a.id.localeCompare(b.id) : b.id.localeCompare(a.id)
+}
@@ -0,0 +1,154 @@
+/**
+ * Shared product validation rule engine
+ *
+ * One set of named, configurable rules used by the editor (via the store),
+ * the API routes (lifecycle gate and PATCH checks) and the import script
+ * (record checks and the dry-run report). Results use the existing
+ * `ValidationResult` shape.
+ *
+ * Products are normalized first, so DB documents that only carry
+ * title/detailed_description/sale_price are judged like the editor judges them.
+ */
+
+import { normalizeProduct } from '../normalizeProduct'
+import { ValidationResult } from '../../types/product'
+import {
+  minImages,
+  mongolianDescription,
+  mongolianTitle,
+  noHangul,
+  priceMntBounds,
+  sourceTitle,
+  storefrontPrices,
+  ValidationError,
+  ValidationRule,
+} from './rules'
+
+export type { ValidationError, ValidationRule } from './rules'
+
+export const VALIDATION_RULES = {
+  mongolianTitle,
+  mongolianDescription,
+  noHangul,
+  minImages,
+  priceMntBounds,
+  sourceTitle,
+  storefrontPrices,
+}
+
+export type ValidationRuleName = keyof typeof VALIDATION_RULES
+
+type RuleOptions<K extends ValidationRuleName> =
+  typeof VALIDATION_RULES[K] extends ValidationRule<infer O> ? O : never
+
+/**
+ * Per-rule configuration: `false` disables a rule, an object overrides its defaults.
+ * Rules missing from the config run with their defaults.
+ */
+export type ValidationConfig = {
+  [K in ValidationRuleName]?: false | Partial<RuleOptions<K>>
+}
+
+// Gate for READY / PUSHED (the import record rules do not apply to edited products)
+export const READY_VALIDATION_CONFIG: ValidationConfig = {
+  sourceTitle: false,
+  storefrontPrices: false,
+}
+
+// Partial updates of DRAFT products: only reject values that are never valid
+export const DRAFT_VALIDATION_CONFIG: ValidationConfig = {
+  mongolianTitle: false,
+  mongolianDescription: false,
+  noHangul: false,
+  minImages: false,
+  priceMntBounds: { min: 0 },
+  sourceTitle: false,
+  storefrontPrices: false,
+}
+
+// Raw records of the import script; products failing these are skipped
+export const IMPORT_VALIDATION_CONFIG: ValidationConfig = {
+  mongolianTitle: false,
+  mongolianDescription: false,
+  noHangul: false,
+  minImages: false,
+  priceMntBounds: false,
+}
+
+export interface ValidateOptions {
+  // Only run rules that read at least one of these fields (e.g. keys of a PATCH body)
+  onlyFields?: string[]
+  // Skip normalizeProduct (for partial patches, where derived defaults would hide bad values)
+  normalize?: boolean
+}
+
+/**
+ * Run the configured rules, keeping the errors of each failing rule
+ *
+ * @param product - Product or raw product document
+ * @param config - Rule configuration (default: READY gate)
+ */
+export function validateProductRules(
+  product: any,
+  config: ValidationConfig = READY_VALIDATION_CONFIG,
+  options: ValidateOptions = {}
+): { rule: ValidationRuleName; errors: ValidationError[] }[] {
+  const normalized = options.normalize === false ? product : normalizeProduct(product)
+  const failures: { rule: ValidationRuleName; errors: ValidationError[] }[] = []
+
+  for (const name of Object.keys(VALIDATION_RULES) as ValidationRuleName[]) {
+    const ruleConfig = config[name]
+    if (ruleConfig === false) continue
+
+    const rule = VALIDATION_RULES[name] as ValidationRule<any>
+    if (options.onlyFields && !rule.fields.some((f) => options.onlyFields!.includes(f))) {
+      continue
+    }
+
+    const errors = rule.check(normalized, { ...rule.defaults, ...ruleConfig })
+    if (errors.length > 0) {
+      failures.push({ rule: name, errors })
+    }
+  }
+
+  return failures
+}
+
+/**
+ * Validate a product against the configured rules
+ *
+ * @param product - Product or raw product document
+ * @param config - Rule configuration (default: READY gate)
+ */
+export function validateProduct(
+  product: any,
+  config: ValidationConfig = READY_VALIDATION_CONFIG,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const errors = validateProductRules(product, config, options).flatMap((failure) => failure.errors)
+  return {
+    isValid: errors.length === 0,
+    errors,
+  }
+}
+
+/**
+ * Count failures per rule across many products (for bulk reports)
+ */
+export function summarizeValidation(
+  products: any[],
+  config: ValidationConfig = READY_VALIDATION_CONFIG
+): { valid: number; invalid: number; byRule: Record<string, number> } {
+  const byRule: Record<string, number> = {}
+  let valid = 0
+
+  for (const product of products) {
+    const failures = validateProductRules(product, config)
+    for (const { rule } of failures) {
+      byRule[rule] = (byRule[rule] || 0) + 1
+    }
+    if (failures.length === 0) valid++
+  }
+
+  return { valid, invalid: products.length - valid, byRule }
+}
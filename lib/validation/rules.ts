@@ -0,0 +1,168 @@
+import { Product, ValidationResult } from '../../types/product'
+
+export type ValidationError = ValidationResult['errors'][number]
+
+/**
+ * A named validation rule
+ *
+ * `fields` lists the product fields the rule reads, so callers can run only
+ * the rules affected by a partial update.
+ */
+export interface ValidationRule<TOptions> {
+  name: string
+  description: string
+  fields: string[]
+  defaults: TOptions
+  check: (product: Product, options: TOptions) => ValidationError[]
+}
+
+// Hangul syllables, jamo and compatibility jamo
+const HANGUL_PATTERN = /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/
+const CYRILLIC_PATTERN = /[\u0400-\u04FF]/
+
+// Title and description as the editor sees them (legacy nameMn/descriptionMn first)
+function getTitleText(product: Product): string {
+  return product.nameMn || product.title || ''
+}
+
+function getDescriptionText(product: Product): string {
+  return product.descriptionMn || product.detailed_description || product.short_description || ''
+}
+
+// Field name → text accessor for text rules; editor field names are used for errors
+const TEXT_FIELDS: Record<string, { errorField: string; label: string; get: (p: Product) => string }> = {
+  title: { errorField: 'nameMn', label: 'Title', get: getTitleText },
+  short_description: { errorField: 'short_description', label: 'Short description', get: (p) => p.short_description || '' },
+  detailed_description: { errorField: 'descriptionMn', label: 'Description', get: getDescriptionText },
+}
+
+export const mongolianTitle: ValidationRule<{ requireCyrillic: boolean }> = {
+  name: 'mongolianTitle',
+  description: 'Mongolian title is present',
+  fields: ['nameMn', 'title'],
+  defaults: { requireCyrillic: false },
+  check(product, options) {
+    const title = getTitleText(product).trim()
+    if (title === '') {
+      return [{ field: 'nameMn', message: 'Mongolian name is required' }]
+    }
+    if (options.requireCyrillic && !CYRILLIC_PATTERN.test(title)) {
+      return [{ field: 'nameMn', message: 'Mongolian name must be written in Cyrillic' }]
+    }
+    return []
+  },
+}
+
+export const mongolianDescription: ValidationRule<Record<string, never>> = {
+  name: 'mongolianDescription',
+  description: 'Mongolian description is present',
+  fields: ['descriptionMn', 'detailed_description', 'short_description'],
+  defaults: {},
+  check(product) {
+    if (getDescriptionText(product).trim() === '') {
+      return [{ field: 'descriptionMn', message: 'Mongolian description is required' }]
+    }
+    return []
+  },
+}
+
+export const noHangul: ValidationRule<{ fields: string[] }> = {
+  name: 'noHangul',
+  description: 'No Korean (Hangul) text left in translated fields',
+  fields: ['nameMn', 'title', 'short_description', 'descriptionMn', 'detailed_description'],
+  defaults: { fields: ['title', 'short_description'] },
+  check(product, options) {
+    const errors: ValidationError[] = []
+    for (const field of options.fields) {
+      const accessor = TEXT_FIELDS[field]
+      if (accessor && HANGUL_PATTERN.test(accessor.get(product))) {
+        errors.push({
+          field: accessor.errorField,
+          message: `${accessor.label} still contains Korean text`,
+        })
+      }
+    }
+    return errors
+  },
+}
+
+export const minImages: ValidationRule<{ min: number }> = {
+  name: 'minImages',
+  description: 'At least N final images',
+  fields: ['imagesFinal'],
+  defaults: { min: 1 },
+  check(product, options) {
+    const count = product.imagesFinal?.length ?? 0
+    if (count < options.min) {
+      return [{
+        field: 'imagesFinal',
+        message: options.min === 1
+          ? 'At least one image is required'
+          : `At least ${options.min} images are required (has ${count})`,
+      }]
+    }
+    return []
+  },
+}
+
+export const priceMntBounds: ValidationRule<{ min: number; max: number }> = {
+  name: 'priceMntBounds',
+  description: 'priceMnt within bounds',
+  fields: ['priceMnt'],
+  defaults: { min: 1, max: 50000000 },
+  check(product, options) {
+    const price = product.priceMnt ?? 0
+    if (typeof price !== 'number' || !Number.isFinite(price)) {
+      return [{ field: 'priceMnt', message: 'Price must be a number' }]
+    }
+    if (price < options.min) {
+      return [{
+        field: 'priceMnt',
+        message: options.min <= 0
+          ? 'Price cannot be negative'
+          : options.min === 1
+          ? 'Price must be greater than 0'
+          : `Price must be at least ${options.min.toLocaleString()} MNT`,
+      }]
+    }
+    if (price > options.max) {
+      return [{ field: 'priceMnt', message: `Price must be at most ${options.max.toLocaleString()} MNT` }]
+    }
+    return []
+  },
+}
+
+// Raw import documents (scripts/import-gmarket.ts): source fields before any editing
+
+export const sourceTitle: ValidationRule<Record<string, never>> = {
+  name: 'sourceTitle',
+  description: 'Source title is present',
+  fields: ['title'],
+  defaults: {},
+  check(product) {
+    if (typeof product.title !== 'string' || product.title.trim() === '') {
+      return [{ field: 'title', message: 'title must be a non-empty string' }]
+    }
+    return []
+  },
+}
+
+export const storefrontPrices: ValidationRule<{ fields: string[] }> = {
+  name: 'storefrontPrices',
+  description: 'Storefront prices are numbers',
+  fields: ['regular_price', 'sale_price'],
+  defaults: { fields: ['regular_price', 'sale_price'] },
+  check(product, options) {
+    const errors: ValidationError[] = []
+    for (const field of options.fields) {
+      // Storefront fields are not part of Product; numeric strings are accepted
+      const value = (product as Record<string, any>)[field]
+      if (value === undefined || value === null) continue
+      const price = typeof value === 'string' ? parseFloat(value) : value
+      if (typeof price !== 'number' || Number.isNaN(price)) {
+        errors.push({ field, message: `${field} must be a number (got: ${value})` })
+      }
+    }
+    return errors
+  },
+}
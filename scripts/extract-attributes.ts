@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * Attribute Extraction Script
+ *
+ * Proposes sizes, colors and specifications for RAW products that have no
+ * attribute suggestions yet, from their source titles. Proposals are stored
+ * for review in the editor; product fields are not changed. --llm also asks
+ * Gemini (counts against the Gemini quota).
+ *
+ * Usage: npm run attributes:extract -- [--limit 100] [--product <id>] [--llm]
+ */
+
+// Load environment variables from .env.local (must be before other imports)
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+// Also try .env as fallback
+if (!process.env.MONGODB_URI) {
+  config({ path: resolve(process.cwd(), '.env') })
+}
+
+import { extractAttributesForProducts, findRawProductsWithoutAttributeSuggestions } from '../lib/server/attributes'
+import { AuditContext } from '../lib/server/audit'
+
+const AUDIT_CONTEXT: AuditContext = { actor: 'extract-attributes', source: 'script' }
+
+interface Args {
+  limit: number
+  productId?: string
+  useLlm: boolean
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { limit: 100, useLlm: false }
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--limit' && argv[i + 1]) {
+      args.limit = Math.max(1, parseInt(argv[++i], 10) || 100)
+    } else if (argv[i] === '--product' && argv[i + 1]) {
+      args.productId = argv[++i]
+    } else if (argv[i] === '--llm') {
+      args.useLlm = true
+    }
+  }
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const startTime = Date.now()
+
+  const productIds = args.productId ? [args.productId] : await findRawProductsWithoutAttributeSuggestions(args.limit)
+  console.log(`🏷️  Extracting attributes for ${productIds.length} RAW products${args.useLlm ? ' (with Gemini)' : ''}...`)
+
+  const { results, errors } = await extractAttributesForProducts(productIds, { useLlm: args.useLlm, context: AUDIT_CONTEXT })
+
+  let proposed = 0
+  for (const result of results) {
+    const { attributes, llmError } = result.suggestions
+    proposed += attributes.length
+    console.log(`  ${result.productId}: ${attributes.map((a) => `${a.label}=${a.value}`).join(', ') || '(none)'}`)
+    if (llmError) {
+      console.log(`    ⚠️  Gemini: ${llmError}`)
+    }
+  }
+  for (const error of errors) {
+    console.log(`  ❌ ${error.id}: ${error.code} — ${error.error}`)
+  }
+
+  console.log(`\n  ✅ Products: ${results.length}`)
+  console.log(`  🏷️  Proposed: ${proposed}`)
+  console.log(`  ❌ Failed:   ${errors.length}`)
+  console.log(`\n⏱️  Elapsed: ${((Date.now() - startTime) / 1000).toFixed(2)}s`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
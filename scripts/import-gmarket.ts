@@ -6,7 +6,11 @@
  * Safely imports products and images from JSON files into MongoDB.
  * - Default: dry-run mode (validation only, no DB writes)
  * - Use --apply flag to enable database writes
- * - Idempotent: upserts products by slug, re-attaches images correctly
+ * - Idempotent: upserts products by slug, upserts images by source URL (keeping
+ *   rehosted files, hashes and variants from `images:ingest`)
+ * - Assigns storefront category/subCategory through the taxonomy mapping rules
+ *   (categories picked by hand in the editor are kept)
+ * - Rewrites brands to their canonical registry name and sets brandId
  */
 
 // Load environment variables from .env.local (must be before other imports)
@@ -26,6 +30,16 @@ import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
 import { ObjectId } from 'mongodb'
 import { getMongoDb } from '../lib/mongodb'
+import { IMPORT_VALIDATION_CONFIG, summarizeValidation, validateProductRules, VALIDATION_RULES } from '../lib/validation'
+import { buildSearchNgrams, ensureSearchIndex } from '../lib/server/search'
+import { loadCategoryMapper } from '../lib/server/taxonomy'
+import { loadBrandNormalizer } from '../lib/server/brands'
+import { AuditContext, recordAuditEvents } from '../lib/server/audit'
+import { diffProductFields } from '../lib/server/products'
+import { formatSourceCategory, getProductSourceCategory } from '../lib/taxonomy'
+
+// Recorded on the audit events of imported products
+const AUDIT_CONTEXT: AuditContext = { actor: 'import-gmarket', source: 'script' }
 
 // CLI Arguments
 interface Args {
@@ -72,6 +86,12 @@ interface DryRunReport {
     skipped: number
     errors: ValidationError[]
   }
+  // READY-gate rules from lib/validation (informational, does not skip products)
+  readiness: {
+    ready: number
+    notReady: number
+    byRule: Record<string, number>
+  }
 }
 
 interface ApplyReport {
@@ -83,8 +103,22 @@ interface ApplyReport {
   images: {
     deleted: number
     created: number
+    updated: number
     failed: number
   }
+  // Storefront categories from the taxonomy mapping rules
+  categories: {
+    mapped: number
+    manualKept: number
+    unmapped: number
+    unmappedSources: Record<string, number>
+  }
+  // Brand names matched against the brand registry
+  brands: {
+    normalized: number
+    unknown: number
+    unknownNames: Record<string, number>
+  }
   elapsedMs: number
 }
 
@@ -135,13 +169,14 @@ function normalizeStatus(value: any): 'Active' | 'Pending' | 'Draft' | null {
 }
 
 // Normalize lifecycleStatus enum value
-function normalizeLifecycleStatus(value: any): 'RAW' | 'DRAFT' | 'READY' | 'PUSHED' | null {
+function normalizeLifecycleStatus(value: any): 'RAW' | 'DRAFT' | 'READY' | 'PUSHED' | 'RETIRED' | null {
   if (typeof value !== 'string') return null
   const normalized = value.trim().toUpperCase()
   if (normalized === 'RAW') return 'RAW'
   if (normalized === 'DRAFT') return 'DRAFT'
   if (normalized === 'READY') return 'READY'
   if (normalized === 'PUSHED') return 'PUSHED'
+  if (normalized === 'RETIRED') return 'RETIRED'
   return null
 }
 
@@ -157,6 +192,11 @@ function generateFileId(url: string): string {
   return `ext_${Math.abs(hash).toString(16).padStart(12, '0')}`
 }
 
+// Images are matched per product on their source URL (originalUrl once rehosted)
+function getImageKey(productId: string, sourceUrl: string): string {
+  return `${productId}\u0000${sourceUrl}`
+}
+
 // Validate and normalize a product
 function validateProduct(p: any, index: number, seenSlugs: Set<string>): {
   valid: any | null
@@ -164,14 +204,12 @@ function validateProduct(p: any, index: number, seenSlugs: Set<string>): {
   isDuplicate: boolean
   enumNormalizations: { field: string; old: string; new: string }[]
 } {
-  const errors: string[] = []
   const enumNormalizations: { field: string; old: string; new: string }[] = []
   const normalized: any = { ...p }
 
-  // title: non-empty string
-  if (!p.title || typeof p.title !== 'string' || p.title.trim() === '') {
-    errors.push('title must be a non-empty string')
-  }
+  // Record rules (title present, numeric prices) from lib/validation
+  const errors: string[] = validateProductRules(p, IMPORT_VALIDATION_CONFIG, { normalize: false })
+    .flatMap((failure) => failure.errors.map((error) => error.message))
 
   // slug: non-empty string
   if (!p.slug || typeof p.slug !== 'string' || p.slug.trim() === '') {
@@ -212,27 +250,16 @@ function validateProduct(p: any, index: number, seenSlugs: Set<string>): {
       }
       normalized.lifecycleStatus = normalizedLifecycle
     } else {
-      errors.push(`lifecycleStatus must be one of: RAW, DRAFT, READY, PUSHED (got: ${p.lifecycleStatus})`)
+      errors.push(`lifecycleStatus must be one of: RAW, DRAFT, READY, PUSHED, RETIRED (got: ${p.lifecycleStatus})`)
     }
   } else {
     normalized.lifecycleStatus = 'RAW' // Default
   }
 
-  // regular_price and sale_price: must be numbers
-  if (p.regular_price !== undefined) {
-    const regularPrice = typeof p.regular_price === 'string' ? parseFloat(p.regular_price) : p.regular_price
-    if (isNaN(regularPrice)) {
-      errors.push(`regular_price must be a number (got: ${p.regular_price})`)
-    } else {
-      normalized.regular_price = regularPrice
-    }
-  }
-  if (p.sale_price !== undefined) {
-    const salePrice = typeof p.sale_price === 'string' ? parseFloat(p.sale_price) : p.sale_price
-    if (isNaN(salePrice)) {
-      errors.push(`sale_price must be a number (got: ${p.sale_price})`)
-    } else {
-      normalized.sale_price = salePrice
+  // regular_price and sale_price: numeric strings become numbers (checked by storefrontPrices)
+  for (const field of ['regular_price', 'sale_price']) {
+    if (typeof p[field] === 'string') {
+      normalized[field] = parseFloat(p[field])
     }
   }
 
@@ -394,6 +421,8 @@ function generateDryRunReport(
   productValidation: ProductValidation,
   imageValidation: ImageValidation
 ): DryRunReport {
+  const readiness = summarizeValidation(productValidation.valid)
+
   return {
     products: {
       total: productValidation.valid.length + productValidation.skipped.length,
@@ -409,6 +438,11 @@ function generateDryRunReport(
       skipped: imageValidation.skipped.length,
       errors: imageValidation.errors.slice(0, 10), // Show up to 10 errors
     },
+    readiness: {
+      ready: readiness.valid,
+      notReady: readiness.invalid,
+      byRule: readiness.byRule,
+    },
   }
 }
 
@@ -465,6 +499,19 @@ function printDryRunReport(report: DryRunReport, productValidation: ProductValid
     })
   }
 
+  console.log('\n✔️  READINESS (shared validation rules, READY gate):')
+  console.log(`  Ready:     ${report.readiness.ready}`)
+  console.log(`  Not ready: ${report.readiness.notReady}`)
+
+  const failingRules = Object.entries(report.readiness.byRule)
+  if (failingRules.length > 0) {
+    console.log('\n  Failing rules:')
+    failingRules.forEach(([name, count]) => {
+      const rule = VALIDATION_RULES[name as keyof typeof VALIDATION_RULES]
+      console.log(`    ${name} (${rule?.description ?? name}): ${count}`)
+    })
+  }
+
   console.log('\n' + '='.repeat(80))
   console.log('💡 To apply changes, run with --apply flag')
   console.log('='.repeat(80) + '\n')
@@ -500,11 +547,26 @@ async function applyChanges(
 
   const report: ApplyReport = {
     products: { created: 0, updated: 0, failed: 0 },
-    images: { deleted: 0, created: 0, failed: 0 },
+    images: { deleted: 0, created: 0, updated: 0, failed: 0 },
+    categories: { mapped: 0, manualKept: 0, unmapped: 0, unmappedSources: {} },
+    brands: { normalized: 0, unknown: 0, unknownNames: {} },
     elapsedMs: 0,
   }
 
-  // 1. Upsert products by slug
+  // Mapping rules, and products whose category was picked by hand (never overwritten)
+  const mapCategory = await loadCategoryMapper()
+  const manualSlugs = new Set(
+    (await productsCollection
+      .find(
+        { slug: { $in: validProducts.map((p) => p.slug) }, 'categoryAssignment.method': 'manual' },
+        { projection: { slug: 1 } }
+      )
+      .toArray()).map((doc) => doc.slug)
+  )
+  const normalizeBrand = await loadBrandNormalizer()
+
+  // 1. Upsert products by slug (searchNgrams keeps /api/products/search in sync)
+  await ensureSearchIndex()
   console.log(`\n📦 Upserting ${validProducts.length} products...`)
   const oldIdToSlug = new Map<string, string>() // oldId -> slug mapping
 
@@ -516,13 +578,43 @@ async function applyChanges(
       // Prepare product document (exclude oldId from DB)
       const { oldId, id, ...productData } = product
       const now = new Date()
+
+      if (manualSlugs.has(slug)) {
+        delete productData.category
+        delete productData.subCategory
+        report.categories.manualKept++
+      } else {
+        const mapped = mapCategory(productData)
+        if (mapped) {
+          Object.assign(productData, mapped)
+          report.categories.mapped++
+        } else {
+          // Keep the category from the file; the mapping review lists the source
+          const source = formatSourceCategory(getProductSourceCategory(productData)) || '(none)'
+          report.categories.unmappedSources[source] = (report.categories.unmappedSources[source] ?? 0) + 1
+          report.categories.unmapped++
+        }
+      }
+
+      if (productData.brand) {
+        const brandFields = normalizeBrand(productData.brand)
+        if (brandFields.brandId) {
+          report.brands.normalized++
+        } else {
+          report.brands.unknownNames[productData.brand] = (report.brands.unknownNames[productData.brand] ?? 0) + 1
+          report.brands.unknown++
+        }
+        Object.assign(productData, brandFields)
+      }
       
-      // Upsert by slug
+      // Upsert by slug (the previous version is kept for the audit diff)
+      const existing = await productsCollection.findOne({ slug })
       const result = await productsCollection.findOneAndUpdate(
         { slug },
         {
           $set: {
             ...productData,
+            searchNgrams: buildSearchNgrams(productData),
             updatedAt: now,
           },
           $setOnInsert: {
@@ -534,13 +626,19 @@ async function applyChanges(
       )
 
       if (result) {
-        // Check if it was created or updated
-        const existing = await productsCollection.findOne({ slug, createdAt: { $lt: now } })
         if (existing) {
           report.products.updated++
         } else {
           report.products.created++
         }
+        await recordAuditEvents(AUDIT_CONTEXT, [
+          {
+            productId: result._id,
+            action: existing ? 'update' : 'create',
+            changes: diffProductFields(existing ?? {}, result),
+            snapshot: { before: existing ?? {}, after: result },
+          },
+        ], now)
       }
     } catch (error: any) {
       console.error(`Failed to upsert product ${product.slug}:`, error.message)
@@ -585,30 +683,59 @@ async function applyChanges(
     realDbIdsForImages.add(realDbId)
   }
 
-  // 4. Delete existing images for imported products
+  // 4. Sync images by source URL: rows that already exist keep what ingestion
+  //    wrote (rehosted url, storageKey, phash, variants), new URLs are inserted
+  //    and only rows whose URL left the source are deleted
   if (realDbIdsForImages.size > 0) {
-    console.log(`  Deleting existing images for ${realDbIdsForImages.size} products...`)
-    const deleteResult = await imagesCollection.deleteMany({
-      productId: { $in: Array.from(realDbIdsForImages).map((id) => new ObjectId(id)) },
-    })
-    report.images.deleted = deleteResult.deletedCount || 0
-  }
+    const existingDocs = await imagesCollection
+      .find({ productId: { $in: Array.from(realDbIdsForImages).map((id) => new ObjectId(id)) } })
+      .toArray()
+    const existingByKey = new Map(
+      existingDocs.map((doc) => [getImageKey(doc.productId.toString(), doc.originalUrl ?? doc.url), doc])
+    )
 
-  // 5. Insert new images
-  if (rewrittenImages.length > 0) {
-    console.log(`  Inserting ${rewrittenImages.length} images...`)
-    try {
-      // Convert productId strings to ObjectIds for MongoDB
-      const imagesToInsert = rewrittenImages.map((img) => ({
-        ...img,
-        productId: new ObjectId(img.productId),
-      }))
-
-      const insertResult = await imagesCollection.insertMany(imagesToInsert)
-      report.images.created = insertResult.insertedCount || 0
-    } catch (error: any) {
-      console.error(`  Failed to insert images:`, error.message)
-      report.images.failed += rewrittenImages.length
+    const sourceKeys = new Set<string>()
+    const imageWrites: any[] = []
+    for (const image of rewrittenImages) {
+      const key = getImageKey(image.productId, image.url)
+      if (sourceKeys.has(key)) continue
+      sourceKeys.add(key)
+
+      const existing = existingByKey.get(key)
+      if (existing) {
+        imageWrites.push({
+          updateOne: {
+            filter: { _id: existing._id },
+            update: { $set: { file_id: image.file_id, provider: image.provider, sort: image.sort } },
+          },
+        })
+      } else {
+        imageWrites.push({ insertOne: { document: { ...image, productId: new ObjectId(image.productId) } } })
+      }
+    }
+
+    // Images added in the editor were never in the source file
+    const staleIds = existingDocs
+      .filter((doc) => doc.provider !== 'editor')
+      .filter((doc) => !sourceKeys.has(getImageKey(doc.productId.toString(), doc.originalUrl ?? doc.url)))
+      .map((doc) => doc._id)
+    if (staleIds.length > 0) {
+      console.log(`  Deleting ${staleIds.length} images no longer in the source...`)
+      const deleteResult = await imagesCollection.deleteMany({ _id: { $in: staleIds } })
+      report.images.deleted = deleteResult.deletedCount || 0
+    }
+
+    // 5. Insert new images and update the order of existing ones
+    if (imageWrites.length > 0) {
+      console.log(`  Writing ${imageWrites.length} images...`)
+      try {
+        const writeResult = await imagesCollection.bulkWrite(imageWrites, { ordered: false })
+        report.images.created = writeResult.insertedCount || 0
+        report.images.updated = writeResult.matchedCount || 0
+      } catch (error: any) {
+        console.error(`  Failed to write images:`, error.message)
+        report.images.failed += imageWrites.length
+      }
     }
   }
 
@@ -630,7 +757,39 @@ function printApplyReport(report: ApplyReport) {
   console.log('\n🖼️  IMAGES:')
   console.log(`  🗑️  Deleted: ${report.images.deleted}`)
   console.log(`  ✅ Created: ${report.images.created}`)
+  console.log(`  🔄 Updated: ${report.images.updated} (ingested files kept)`)
   console.log(`  ❌ Failed:  ${report.images.failed}`)
+  if (report.images.created > 0) {
+    console.log('  ℹ️  Image URLs are still hotlinked; run `npm run images:ingest` to rehost them')
+  }
+
+  console.log('\n🗂️  CATEGORIES:')
+  console.log(`  ✅ Mapped:      ${report.categories.mapped}`)
+  console.log(`  ✋ Kept (hand): ${report.categories.manualKept}`)
+  console.log(`  ⚠️  Unmapped:    ${report.categories.unmapped}`)
+  const unmappedSources = Object.entries(report.categories.unmappedSources)
+  if (unmappedSources.length > 0) {
+    console.log('\n  Unmapped source categories (add rules on /import/taxonomy):')
+    unmappedSources
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([source, count]) => {
+        console.log(`    ${source}: ${count}`)
+      })
+  }
+
+  console.log('\n🏷️  BRANDS:')
+  console.log(`  ✅ Registry: ${report.brands.normalized}`)
+  console.log(`  ⚠️  Unknown:  ${report.brands.unknown}`)
+  const unknownBrands = Object.entries(report.brands.unknownNames)
+  if (unknownBrands.length > 0) {
+    console.log(`\n  Unknown brands (first ${Math.min(10, unknownBrands.length)}; add them on /import/brands):`)
+    unknownBrands
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .forEach(([name, count]) => {
+        console.log(`    ${name}: ${count}`)
+      })
+  }
 
   console.log(`\n⏱️  Elapsed: ${(report.elapsedMs / 1000).toFixed(2)}s`)
   console.log('='.repeat(80) + '\n')
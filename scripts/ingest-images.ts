@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+/**
+ * Image Ingestion Script
+ *
+ * Downloads hotlinked product images (images collection and imagesFinal) and
+ * rehosts them in the configured storage backend, then renders the size
+ * variants of each product's final images. Safe to re-run: rehosted images
+ * are skipped, failed ones are retried with backoff and
+ * products that fail outright are skipped.
+ *
+ * --variants only renders missing variants (products rehosted before
+ * variants existed); add --force to render them again.
+ *
+ * Usage: npm run images:ingest -- [--limit 100] [--product <id>] [--variants [--force]]
+ */
+
+// Load environment variables from .env.local (must be before other imports)
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+// Also try .env as fallback
+if (!process.env.MONGODB_URI) {
+  config({ path: resolve(process.cwd(), '.env') })
+}
+
+import { findProductsWithPendingImages, ingestProductImages } from '../lib/server/imageIngest'
+import { findProductsMissingImageVariants, generateProductImageVariants } from '../lib/server/imageVariants'
+import { AuditContext } from '../lib/server/audit'
+
+const AUDIT_CONTEXT: AuditContext = { actor: 'ingest-images', source: 'script' }
+
+interface Args {
+  limit: number
+  productId?: string
+  variantsOnly: boolean
+  force: boolean
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { limit: 100, variantsOnly: false, force: false }
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--limit' && argv[i + 1]) {
+      args.limit = Math.max(1, parseInt(argv[++i], 10) || 100)
+    } else if (argv[i] === '--product' && argv[i + 1]) {
+      args.productId = argv[++i]
+    } else if (argv[i] === '--variants') {
+      args.variantsOnly = true
+    } else if (argv[i] === '--force') {
+      args.force = true
+    }
+  }
+  return args
+}
+
+async function renderVariants(args: Args) {
+  const productIds = args.productId ? [args.productId] : await findProductsMissingImageVariants(args.limit)
+  console.log(`🖼️  Rendering image variants for ${productIds.length} products...`)
+
+  const totals = { generated: 0, pending: 0, flagged: 0, failed: 0 }
+  for (const productId of productIds) {
+    const result = await generateProductImageVariants(productId, { force: args.force, context: AUDIT_CONTEXT })
+    totals.generated += result.generated
+    totals.pending += result.pending.length
+    totals.flagged += result.flagged.length
+    totals.failed += result.failed.length
+    console.log(
+      `  ${productId}: ${result.generated} rendered, ${result.pending.length} not rehosted, ` +
+        `${result.flagged.length} with overlay text, ${result.failed.length} failed`
+    )
+    for (const failure of result.failed) {
+      console.log(`    ⚠️  ${failure.url} — ${failure.error}`)
+    }
+  }
+
+  console.log(`\n  ✅ Rendered:     ${totals.generated}`)
+  console.log(`  ⏳ Not rehosted: ${totals.pending}`)
+  console.log(`  🔎 Overlay text: ${totals.flagged}`)
+  console.log(`  ❌ Failed:       ${totals.failed}`)
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const startTime = Date.now()
+
+  if (args.variantsOnly) {
+    await renderVariants(args)
+    console.log(`\n⏱️  Elapsed: ${((Date.now() - startTime) / 1000).toFixed(2)}s`)
+    process.exit(0)
+  }
+
+  const productIds = args.productId ? [args.productId] : await findProductsWithPendingImages(args.limit)
+  console.log(`🖼️  Ingesting images for ${productIds.length} products...`)
+
+  const totals = { ingested: 0, reused: 0, variants: 0, failed: 0, skipped: 0 }
+  for (const productId of productIds) {
+    let result
+    try {
+      result = await ingestProductImages(productId, { context: AUDIT_CONTEXT })
+    } catch (error: any) {
+      // One missing or broken product must not stop the rest of the run
+      totals.skipped++
+      console.log(`  ${productId}: skipped — ${error?.message ?? error}`)
+      continue
+    }
+    totals.ingested += result.ingested
+    totals.reused += result.reused
+    totals.variants += result.variantsGenerated
+    totals.failed += result.failed.length
+    console.log(
+      `  ${productId}: ${result.ingested} stored, ${result.reused} reused, ${result.variantsGenerated} variant sets, ${result.failed.length} failed`
+    )
+    for (const failure of result.failed) {
+      console.log(`    ⚠️  ${failure.url} — ${failure.error}`)
+    }
+  }
+
+  console.log(`\n  ✅ Stored:  ${totals.ingested}`)
+  console.log(`  ♻️  Reused:  ${totals.reused}`)
+  console.log(`  📐 Variant sets: ${totals.variants}`)
+  console.log(`  ❌ Failed:  ${totals.failed}`)
+  console.log(`  ⏭️  Skipped products: ${totals.skipped}`)
+  console.log(`\n⏱️  Elapsed: ${((Date.now() - startTime) / 1000).toFixed(2)}s`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * Trash Purge Script
+ *
+ * Permanently removes products that have been in the trash longer than
+ * TRASH_RETENTION_DAYS (default 30), with their `images` documents. Meant
+ * to run daily from cron.
+ *
+ * Usage: npm run trash:purge -- [--days 30] [--dry-run]
+ */
+
+// Load environment variables from .env.local (must be before other imports)
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+// Also try .env as fallback
+if (!process.env.MONGODB_URI) {
+  config({ path: resolve(process.cwd(), '.env') })
+}
+
+import { getTrashRetentionDays, purgeTrash } from '../lib/server/trash'
+
+interface Args {
+  retentionDays?: number
+  dryRun: boolean
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { dryRun: false }
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--days' && argv[i + 1]) {
+      const days = parseInt(argv[++i], 10)
+      if (Number.isFinite(days) && days >= 0) args.retentionDays = days
+    } else if (argv[i] === '--dry-run') {
+      args.dryRun = true
+    }
+  }
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const startTime = Date.now()
+  const retentionDays = args.retentionDays ?? getTrashRetentionDays()
+
+  console.log(`🗑️  Purging products deleted more than ${retentionDays} days ago${args.dryRun ? ' (dry run)' : ''}...`)
+
+  const result = await purgeTrash({ retentionDays, dryRun: args.dryRun })
+
+  console.log(`\n  ✅ Products ${args.dryRun ? 'to purge' : 'purged'}: ${result.purged}`)
+  console.log(`  🖼️  Image records: ${result.imagesDeleted}`)
+  console.log(`\n⏱️  Elapsed: ${((Date.now() - startTime) / 1000).toFixed(2)}s`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
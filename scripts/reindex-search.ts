@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+
+/**
+ * Product Search Reindex Script
+ *
+ * Rebuilds the n-gram search index (searchNgrams) used by /api/products/search.
+ * Run once for products created before the index existed, or after editing
+ * searchable fields directly in the database.
+ */
+
+// Load environment variables from .env.local (must be before other imports)
+import { config } from 'dotenv'
+import { resolve } from 'path'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+// Also try .env as fallback
+if (!process.env.MONGODB_URI) {
+  config({ path: resolve(process.cwd(), '.env') })
+}
+
+import { reindexProductSearch } from '../lib/server/search'
+
+async function main() {
+  console.log('🔎 Rebuilding product search index...')
+  const startTime = Date.now()
+  const { updated } = await reindexProductSearch()
+  console.log(`  ✅ Reindexed ${updated} products`)
+  console.log(`\n⏱️  Elapsed: ${((Date.now() - startTime) / 1000).toFixed(2)}s`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
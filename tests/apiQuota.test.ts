@@ -0,0 +1,44 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { installMemoryDb } from './helpers/memoryDb'
+import { API_QUOTA_CONFIG, getApiQuotaStatus, QuotaExceededError, withApiQuota } from '../lib/server/apiQuota'
+
+test('a request the daily budget rejects keeps its rate-limit token', async () => {
+  const collections = installMemoryDb()
+  Object.assign(API_QUOTA_CONFIG['google-cse'], { dailyBudget: 2, ratePerMinute: 10 })
+
+  assert.equal(await withApiQuota('google-cse', async () => 'first'), 'first')
+  assert.equal(await withApiQuota('google-cse', async () => 'second'), 'second')
+  for (let i = 0; i < 3; i++) {
+    await assert.rejects(
+      withApiQuota('google-cse', async () => 'over budget'),
+      (error: any) => error instanceof QuotaExceededError && error.code === 'DAILY_BUDGET_EXCEEDED'
+    )
+  }
+
+  const status = (await getApiQuotaStatus()).find((s) => s.provider === 'google-cse')
+  assert.equal(status?.used, 2)
+  assert.equal(status?.rejected, 3)
+  assert.equal(status?.remaining, 0)
+  // Only the two requests that were made used a token
+  assert.equal(status?.availableTokens, 8)
+  assert.equal(collections.api_usage.docs.length, 1)
+})
+
+test('failed requests count against the budget and as failures', async () => {
+  installMemoryDb()
+  Object.assign(API_QUOTA_CONFIG.gemini, { dailyBudget: 5, ratePerMinute: 10 })
+
+  await assert.rejects(
+    withApiQuota('gemini', async () => {
+      throw new Error('provider error')
+    }),
+    /provider error/
+  )
+  // The failure is counted in the background
+  await new Promise((resolve) => setImmediate(resolve))
+
+  const status = (await getApiQuotaStatus()).find((s) => s.provider === 'gemini')
+  assert.equal(status?.used, 1)
+  assert.equal(status?.failures, 1)
+})
@@ -0,0 +1,337 @@
+/**
+ * In-memory stand-in for the MongoDB client used by lib/mongodb
+ *
+ * Supports only what the code under test uses: equality, `$in`, `$lt(e)`,
+ * `$ne`, `$exists`, `$regex` and top-level `$or`/`$and` matches; the `$setIntersection` bigram
+ * count of the search pipeline, `$sort`, `$limit` and `$project` exclusion;
+ * cursors with `sort`/`limit`; `distinct` and `countDocuments`; inserts and
+ * `deleteMany`; and `$set`, `$unset`, `$inc` and `$setOnInsert` updates (with
+ * upsert). Unique indexes reject duplicate inserts with code 11000. Installed
+ * through the client cache in lib/mongodb, so no server is needed.
+ */
+
+import { ObjectId } from 'mongodb'
+
+type Doc = Record<string, any>
+
+function isEqual(value: any, condition: any): boolean {
+  if (condition instanceof ObjectId) {
+    return value instanceof ObjectId && value.equals(condition)
+  }
+  if (value instanceof ObjectId && typeof condition === 'string') return false
+  if (condition instanceof RegExp) return typeof value === 'string' && condition.test(value)
+  return value === condition
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (
+    condition &&
+    typeof condition === 'object' &&
+    !(condition instanceof ObjectId) &&
+    !(condition instanceof Date) &&
+    !(condition instanceof RegExp)
+  ) {
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+      switch (operator) {
+        case '$in': {
+          const values = Array.isArray(value) ? value : [value]
+          return values.some((v) => operand.some((o: any) => isEqual(v, o)))
+        }
+        case '$ne':
+          return !isEqual(value ?? null, operand)
+        case '$lt':
+          return value !== undefined && value < operand
+        case '$lte':
+          return value !== undefined && value <= operand
+        case '$exists':
+          return (value !== undefined) === operand
+        case '$regex': {
+          const pattern = new RegExp(operand, condition.$options ?? '')
+          const values = Array.isArray(value) ? value : [value]
+          return values.some((v) => typeof v === 'string' && pattern.test(v))
+        }
+        case '$options':
+          return true
+        default:
+          throw new Error(`Unsupported query operator: ${operator}`)
+      }
+    })
+  }
+  if (Array.isArray(value) && !Array.isArray(condition)) {
+    return value.some((v) => isEqual(v, condition))
+  }
+  return isEqual(value ?? null, condition)
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (field === '$or') return (condition as Doc[]).some((branch) => matches(doc, branch))
+    if (field === '$and') return (condition as Doc[]).every((branch) => matches(doc, branch))
+    return matchesCondition(doc[field], condition)
+  })
+}
+
+function evaluate(doc: Doc, expression: any): any {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return doc[expression.slice(1)]
+  }
+  if (expression && typeof expression === 'object' && !Array.isArray(expression)) {
+    if ('$size' in expression) return evaluate(doc, expression.$size).length
+    if ('$setIntersection' in expression) {
+      const [a, b] = expression.$setIntersection.map((e: any) => evaluate(doc, e) as any[])
+      return Array.from(new Set(a.filter((v: any) => b.includes(v))))
+    }
+  }
+  return expression
+}
+
+function compareValues(a: any, b: any): number {
+  if (a instanceof ObjectId && b instanceof ObjectId) return a.toHexString().localeCompare(b.toHexString())
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function sortDocs(docs: Doc[], spec: Record<string, number>): Doc[] {
+  const keys = Object.entries(spec)
+  return [...docs].sort((a, b) => {
+    for (const [field, direction] of keys) {
+      const order = compareValues(a[field], b[field]) * direction
+      if (order !== 0) return order
+    }
+    return 0
+  })
+}
+
+function runPipeline(docs: Doc[], pipeline: Doc[]): Doc[] {
+  let result = docs.map((doc) => ({ ...doc }))
+  for (const stage of pipeline) {
+    if (stage.$match) {
+      result = result.filter((doc) => matches(doc, stage.$match))
+    } else if (stage.$addFields) {
+      result = result.map((doc) => {
+        const added: Doc = {}
+        for (const [field, expression] of Object.entries(stage.$addFields)) added[field] = evaluate(doc, expression)
+        return { ...doc, ...added }
+      })
+    } else if (stage.$sort) {
+      result = sortDocs(result, stage.$sort)
+    } else if (stage.$limit) {
+      result = result.slice(0, stage.$limit)
+    } else if (stage.$project) {
+      result = result.map((doc) => {
+        const projected = { ...doc }
+        for (const field of Object.keys(stage.$project)) delete projected[field]
+        return projected
+      })
+    } else {
+      throw new Error(`Unsupported pipeline stage: ${Object.keys(stage)[0]}`)
+    }
+  }
+  return result
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean): void {
+  for (const [operator, fields] of Object.entries(update)) {
+    switch (operator) {
+      case '$set':
+        Object.assign(doc, fields)
+        break
+      case '$setOnInsert':
+        if (inserting) Object.assign(doc, fields)
+        break
+      case '$unset':
+        for (const field of Object.keys(fields)) delete doc[field]
+        break
+      case '$inc':
+        for (const [field, amount] of Object.entries(fields as Record<string, number>)) {
+          doc[field] = (doc[field] ?? 0) + amount
+        }
+        break
+      default:
+        throw new Error(`Unsupported update operator: ${operator}`)
+    }
+  }
+}
+
+// Equality fields of a filter become fields of an upserted document
+function upsertBase(filter: Doc): Doc {
+  const base: Doc = {}
+  for (const [field, condition] of Object.entries(filter)) {
+    if (!field.startsWith('$') && (typeof condition !== 'object' || condition instanceof ObjectId)) {
+      base[field] = condition
+    }
+  }
+  return base
+}
+
+class MemoryCursor {
+  private docs: Doc[]
+
+  constructor(docs: Doc[]) {
+    this.docs = docs
+  }
+
+  sort(spec: Record<string, number>) {
+    this.docs = sortDocs(this.docs, spec)
+    return this
+  }
+
+  limit(count: number) {
+    this.docs = this.docs.slice(0, count)
+    return this
+  }
+
+  async next(): Promise<Doc | null> {
+    return this.docs.shift() ?? null
+  }
+
+  async toArray(): Promise<Doc[]> {
+    return this.docs
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield* this.docs
+  }
+}
+
+export class MemoryCollection {
+  docs: Doc[] = []
+  indexes: Doc[] = []
+  private uniqueIndexes: string[][] = []
+
+  constructor(docs: Doc[] = []) {
+    this.docs = docs.map((doc) => ({ _id: new ObjectId(), ...doc }))
+  }
+
+  async createIndex(keys: Doc, options: { unique?: boolean } = {}): Promise<string> {
+    this.indexes.push(keys)
+    if (options.unique) this.uniqueIndexes.push(Object.keys(keys))
+    return Object.keys(keys).join('_')
+  }
+
+  private insert(doc: Doc): void {
+    for (const fields of this.uniqueIndexes) {
+      if (this.docs.some((existing) => fields.every((field) => isEqual(existing[field], doc[field])))) {
+        throw Object.assign(new Error(`E11000 duplicate key error (${fields.join(', ')})`), { code: 11000 })
+      }
+    }
+    this.docs.push(doc)
+  }
+
+  aggregate(pipeline: Doc[]) {
+    return { toArray: async () => runPipeline(this.docs, pipeline) }
+  }
+
+  find(filter: Doc = {}, options: { projection?: Record<string, 1> } = {}) {
+    const found = this.docs.filter((doc) => matches(doc, filter)).map((doc) => {
+      if (!options.projection) return { ...doc }
+      const projected: Doc = { _id: doc._id }
+      for (const field of Object.keys(options.projection)) {
+        if (field in doc) projected[field] = doc[field]
+      }
+      return projected
+    })
+    return new MemoryCursor(found)
+  }
+
+  async distinct(field: string, filter: Doc = {}): Promise<any[]> {
+    const values: any[] = []
+    for (const doc of this.docs.filter((d) => matches(d, filter))) {
+      if (!values.some((value) => isEqual(value, doc[field]))) values.push(doc[field])
+    }
+    return values
+  }
+
+  async countDocuments(filter: Doc = {}): Promise<number> {
+    return this.docs.filter((doc) => matches(doc, filter)).length
+  }
+
+  async findOne(filter: Doc = {}, options: { sort?: Record<string, number> } = {}): Promise<Doc | null> {
+    const cursor = this.find(filter)
+    if (options.sort) cursor.sort(options.sort)
+    return cursor.next()
+  }
+
+  async insertOne(doc: Doc) {
+    const inserted = { _id: new ObjectId(), ...doc }
+    this.insert(inserted)
+    return { insertedId: inserted._id }
+  }
+
+  async insertMany(docs: Doc[]) {
+    const insertedIds: Record<number, ObjectId> = {}
+    for (const [index, doc] of docs.entries()) {
+      insertedIds[index] = (await this.insertOne(doc)).insertedId
+    }
+    return { insertedIds }
+  }
+
+  async updateOne(filter: Doc, update: Doc, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find((d) => matches(d, filter))
+    if (doc) {
+      applyUpdate(doc, update, false)
+      return { matchedCount: 1, modifiedCount: 1 }
+    }
+    if (options.upsert) {
+      const inserted: Doc = { _id: new ObjectId(), ...upsertBase(filter) }
+      applyUpdate(inserted, update, true)
+      this.insert(inserted)
+    }
+    return { matchedCount: 0, modifiedCount: 0 }
+  }
+
+  async updateMany(filter: Doc, update: Doc) {
+    const found = this.docs.filter((d) => matches(d, filter))
+    for (const doc of found) applyUpdate(doc, update, false)
+    return { matchedCount: found.length, modifiedCount: found.length }
+  }
+
+  async deleteMany(filter: Doc) {
+    const kept = this.docs.filter((doc) => !matches(doc, filter))
+    const deletedCount = this.docs.length - kept.length
+    this.docs = kept
+    return { deletedCount }
+  }
+
+  async findOneAndUpdate(
+    filter: Doc,
+    update: Doc,
+    options: { returnDocument?: 'before' | 'after'; upsert?: boolean } = {}
+  ) {
+    const doc = this.docs.find((d) => matches(d, filter))
+    if (!doc) {
+      if (!options.upsert) return null
+      await this.updateOne(filter, update, { upsert: true })
+      return options.returnDocument === 'after' ? { ...this.docs[this.docs.length - 1] } : null
+    }
+    const before = { ...doc }
+    applyUpdate(doc, update, false)
+    return options.returnDocument === 'after' ? { ...doc } : before
+  }
+
+  async bulkWrite(operations: Doc[]) {
+    let modifiedCount = 0
+    for (const { updateOne } of operations) {
+      const result = await this.updateOne(updateOne.filter, updateOne.update, { upsert: updateOne.upsert })
+      modifiedCount += result.modifiedCount
+    }
+    return { modifiedCount }
+  }
+}
+
+/**
+ * Point lib/mongodb at in-memory collections (created on first use)
+ */
+export function installMemoryDb(collections: Record<string, MemoryCollection> = {}) {
+  process.env.MONGODB_URI ??= 'mongodb://memory'
+  process.env.MONGODB_DB ??= 'test'
+  const db = {
+    collection(name: string) {
+      collections[name] ??= new MemoryCollection()
+      return collections[name]
+    },
+  }
+  // lib/mongodb keeps a reference to this object, so update it in place
+  global.mongoClientCache ??= { client: null, promise: null }
+  global.mongoClientCache.client = { db: () => db } as any
+  return collections
+}
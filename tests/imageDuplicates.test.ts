@@ -0,0 +1,85 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import sharp from 'sharp'
+import { ObjectId } from 'mongodb'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import {
+  computePerceptualHash,
+  getImageDuplicateWarnings,
+  hammingDistance,
+  NEAR_DUPLICATE_DISTANCE,
+} from '../lib/server/imageDuplicates'
+
+// A product bottle beside a box, with a shaded background
+const PRODUCT_SHOT =
+  '<defs><linearGradient id="g"><stop offset="0" stop-color="#eee"/><stop offset="1" stop-color="#999"/></linearGradient></defs>' +
+  '<rect width="100%" height="100%" fill="url(#g)"/>' +
+  '<rect x="120" y="160" width="180" height="520" rx="30" fill="#246"/>' +
+  '<rect x="420" y="380" width="280" height="300" fill="#d63"/>'
+
+// A different picture: light bands over a dark frame
+const OTHER_SHOT =
+  '<rect width="100%" height="100%" fill="#222"/>' +
+  '<rect x="0" y="100" width="800" height="120" fill="#ddd"/>' +
+  '<rect x="0" y="460" width="800" height="200" fill="#bbb"/>' +
+  '<circle cx="600" cy="330" r="90" fill="#fff"/>'
+
+function render(shapes: string): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="800">${shapes}</svg>`
+  return sharp(Buffer.from(svg)).png().toBuffer()
+}
+
+test('hamming distance counts the differing bits', () => {
+  assert.equal(hammingDistance('0000000000000000', '0000000000000000'), 0)
+  assert.equal(hammingDistance('0000000000000000', 'ffffffffffffffff'), 64)
+  assert.equal(hammingDistance('00000000000000f0', '0000000000000010'), 3)
+})
+
+test('the hash is 16 hex characters', async () => {
+  assert.match(await computePerceptualHash(await render(PRODUCT_SHOT)), /^[0-9a-f]{16}$/)
+})
+
+test('a resized, re-encoded copy is within the near-duplicate distance', async () => {
+  const original = await render(PRODUCT_SHOT)
+  const copy = await sharp(original).resize(300).jpeg({ quality: 50 }).toBuffer()
+
+  const distance = hammingDistance(await computePerceptualHash(original), await computePerceptualHash(copy))
+  assert.ok(distance <= NEAR_DUPLICATE_DISTANCE, `distance ${distance}`)
+})
+
+test('a different picture is beyond the near-duplicate distance', async () => {
+  const distance = hammingDistance(
+    await computePerceptualHash(await render(PRODUCT_SHOT)),
+    await computePerceptualHash(await render(OTHER_SHOT))
+  )
+  assert.ok(distance > NEAR_DUPLICATE_DISTANCE, `distance ${distance}`)
+})
+
+test('editor warnings flag shared images and near duplicates within a product', async () => {
+  const [productId, ...otherIds] = [new ObjectId(), new ObjectId(), new ObjectId()]
+  const products = new MemoryCollection([
+    { _id: productId, slug: 'toner', imagesFinal: ['https://cdn/a.jpg', 'https://cdn/b.jpg', 'https://cdn/c.jpg'] },
+  ])
+  const images = new MemoryCollection([
+    { url: 'https://cdn/a.jpg', productId, phash: '0f0f0f0f0f0f0f0f' },
+    // Two bits off the first image
+    { url: 'https://cdn/b.jpg', productId, phash: '0f0f0f0f0f0f0f0c' },
+    { url: 'https://cdn/c.jpg', productId, phash: 'f0f0f0f0f0f0f0f0' },
+    // The third image is attached to two more products
+    ...otherIds.map((id) => ({ url: `https://cdn/${id.toHexString()}.jpg`, productId: id, phash: 'f0f0f0f0f0f0f0f0' })),
+  ])
+  installMemoryDb({ products, images })
+
+  const warnings = await getImageDuplicateWarnings(productId.toHexString())
+
+  assert.deepEqual(
+    warnings.map((w) => [w.kind, w.url]),
+    [
+      ['shared', 'https://cdn/c.jpg'],
+      ['nearDuplicate', 'https://cdn/b.jpg'],
+    ]
+  )
+  assert.equal(warnings[0].productCount, 3)
+  assert.equal(warnings[1].otherUrl, 'https://cdn/a.jpg')
+  assert.equal(warnings[1].distance, 2)
+})
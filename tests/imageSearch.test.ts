@@ -0,0 +1,71 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { QuotaExceededError } from '../lib/server/apiQuota'
+import { ImageSearchError, ImageSearchProvider, searchImagesWithProviders } from '../lib/server/imageSearch'
+
+const REQUEST = { query: 'toner', count: 10, start: 1 }
+
+function provider(name: string, urls: string[]): ImageSearchProvider {
+  return { name, search: async () => urls.map((url) => ({ url })) }
+}
+
+function failing(name: string, error: Error): ImageSearchProvider {
+  return {
+    name,
+    search: async () => {
+      throw error
+    },
+  }
+}
+
+const quotaError = () =>
+  new QuotaExceededError('DAILY_BUDGET_EXCEEDED', 'google-cse', new Date(), 'Google Custom Search daily budget used up')
+
+test('URLs differing only in scheme or host case are merged', async () => {
+  const { results } = await searchImagesWithProviders(
+    [provider('a', ['https://CDN.Example.com/img/Toner.jpg']), provider('b', ['HTTPS://cdn.example.com/img/Toner.jpg/#zoom'])],
+    REQUEST
+  )
+
+  assert.equal(results.length, 1)
+  assert.deepEqual(results[0].providers, ['a', 'b'])
+})
+
+test('URLs whose paths differ in case stay separate', async () => {
+  const { results } = await searchImagesWithProviders(
+    [provider('a', ['https://cdn.example.com/img/Toner.jpg']), provider('b', ['https://cdn.example.com/img/toner.jpg'])],
+    REQUEST
+  )
+
+  assert.equal(results.length, 2)
+})
+
+test('an exhausted quota is reported when every provider fails', async () => {
+  await assert.rejects(
+    searchImagesWithProviders(
+      [failing('source', new ImageSearchError('PROVIDER_FAILED', 'Source page returned HTTP 503')), failing('google', quotaError())],
+      REQUEST
+    ),
+    (error: any) => error instanceof QuotaExceededError && error.status === 429
+  )
+})
+
+test('other failures of every provider are a provider failure', async () => {
+  await assert.rejects(
+    searchImagesWithProviders(
+      [failing('source', new Error('socket hang up')), failing('fixture', new Error('bad file'))],
+      REQUEST
+    ),
+    (error: any) => error instanceof ImageSearchError && error.code === 'PROVIDER_FAILED' && error.status === 502
+  )
+})
+
+test('a provider out of quota is listed as an error while others answer', async () => {
+  const { results, errors } = await searchImagesWithProviders(
+    [failing('google', quotaError()), provider('fixture', ['https://cdn.example.com/a.jpg'])],
+    REQUEST
+  )
+
+  assert.equal(results.length, 1)
+  assert.deepEqual(errors.map((e) => e.provider), ['google'])
+})
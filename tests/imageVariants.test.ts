@@ -0,0 +1,53 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import sharp from 'sharp'
+import { detectOverlayText } from '../lib/server/imageVariants'
+
+const SIZE = 800
+
+// A tall product bottle in the middle of a white frame
+const BOTTLE = '<rect x="250" y="150" width="300" height="500" rx="40" fill="#c84"/>'
+
+// Rows of short dark strokes, like a line of small text
+function textBlock(left: number, top: number, width: number, color = '#333'): string {
+  const strokes: string[] = []
+  for (let x = left; x < left + width; x += 9) {
+    strokes.push(`<rect x="${x}" y="${top}" width="3" height="24" fill="${color}"/>`)
+  }
+  return strokes.join('')
+}
+
+function render(shapes: string, background = '#fff'): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}"><rect width="100%" height="100%" fill="${background}"/>${shapes}</svg>`
+  return sharp(Buffer.from(svg)).png().toBuffer()
+}
+
+test('a clean product photo has no overlay text', async () => {
+  assert.deepEqual(await detectOverlayText(await render(BOTTLE)), [])
+})
+
+test('text in a corner is flagged with its region', async () => {
+  const image = await render(BOTTLE + textBlock(560, 750, 200, '#888'))
+  assert.deepEqual(await detectOverlayText(image), ['bottomRight'])
+})
+
+test('a logo in the top left corner is flagged', async () => {
+  const image = await render(BOTTLE + textBlock(20, 20, 160))
+  assert.deepEqual(await detectOverlayText(image), ['topLeft'])
+})
+
+test('a product filling the frame is not flagged', async () => {
+  const image = await render('<rect x="0" y="0" width="800" height="800" fill="#3a6"/>' + textBlock(250, 380, 300, '#fff'))
+  assert.deepEqual(await detectOverlayText(image), [])
+})
+
+test('busy photos are not flagged, even with edges in every corner', async () => {
+  const noise = Buffer.alloc(400 * 400 * 3)
+  let seed = 7
+  for (let i = 0; i < noise.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    noise[i] = seed % 256
+  }
+  const image = await sharp(noise, { raw: { width: 400, height: 400, channels: 3 } }).png().toBuffer()
+  assert.deepEqual(await detectOverlayText(image), [])
+})
@@ -0,0 +1,82 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  checkLifecycleTransition,
+  getPushInitFields,
+  isTransitionAllowed,
+  LIFECYCLE_STATUSES,
+} from '../lib/server/lifecycle'
+
+// A product that passes the READY gate
+const COMPLETE = {
+  title: 'Нүүрний тос',
+  detailed_description: 'Чийгшүүлэх тос',
+  imagesFinal: ['https://cdn/a.jpg'],
+  priceMnt: 45000,
+}
+
+test('the transition table allows only the documented moves', () => {
+  const allowed = LIFECYCLE_STATUSES.flatMap((from) =>
+    LIFECYCLE_STATUSES.filter((to) => from !== to && isTransitionAllowed(from, to)).map((to) => `${from}→${to}`)
+  )
+
+  assert.deepEqual(allowed, [
+    'RAW→DRAFT',
+    'RAW→READY',
+    'RAW→PUSHED',
+    'DRAFT→READY',
+    'DRAFT→PUSHED',
+    'READY→DRAFT',
+    'READY→PUSHED',
+    'PUSHED→RETIRED',
+    'RETIRED→PUSHED',
+  ])
+  for (const status of LIFECYCLE_STATUSES) {
+    assert.ok(isTransitionAllowed(status, status), status)
+  }
+})
+
+test('an illegal move names the allowed targets', () => {
+  const failure = checkLifecycleTransition('p1', COMPLETE, 'PUSHED', 'DRAFT')
+
+  assert.equal(failure?.reason, 'ILLEGAL_TRANSITION')
+  assert.equal(failure?.failedRules[0].field, 'lifecycleStatus')
+  assert.match(failure!.failedRules[0].message, /allowed: RETIRED/)
+})
+
+test('moves into READY or PUSHED run the validation gate', () => {
+  const incomplete = { ...COMPLETE, imagesFinal: [], priceMnt: 0 }
+
+  assert.equal(checkLifecycleTransition('p1', COMPLETE, 'DRAFT', 'READY'), null)
+  const failure = checkLifecycleTransition('p1', incomplete, 'DRAFT', 'PUSHED')
+  assert.equal(failure?.reason, 'VALIDATION_FAILED')
+  assert.deepEqual(failure?.failedRules.map((rule) => rule.field), ['imagesFinal', 'priceMnt'])
+})
+
+test('staying in a state and moving back to DRAFT skip validation', () => {
+  const incomplete = { title: '' }
+
+  assert.equal(checkLifecycleTransition('p1', incomplete, 'READY', 'READY'), null)
+  assert.equal(checkLifecycleTransition('p1', incomplete, 'READY', 'DRAFT'), null)
+  assert.equal(checkLifecycleTransition('p1', incomplete, 'PUSHED', 'RETIRED'), null)
+})
+
+test('a push takes the source baseline from the stored price', () => {
+  const fields = getPushInitFields({ importMeta: { source: { price: 25000 } } })
+
+  assert.equal(fields.sourceBaselinePriceKrw, 25000)
+  assert.equal(fields.sourceLastCheckedPriceKrw, 25000)
+  assert.equal(fields.sourcePriceChanged, false)
+})
+
+test('a push without a price leaves the baseline unset', () => {
+  const fields = getPushInitFields({})
+
+  assert.ok(!('sourceBaselinePriceKrw' in fields))
+  assert.ok(!('sourceLastCheckedPriceKrw' in fields))
+  assert.equal(fields.sourceOutOfStock, false)
+})
+
+test('a republished product keeps its existing baseline', () => {
+  assert.deepEqual(getPushInitFields({ sourceBaselinePriceKrw: 30000, priceKrw: 28000 }), {})
+})
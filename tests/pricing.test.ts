@@ -0,0 +1,139 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import {
+  buildRepriceItems,
+  DEFAULT_EXCHANGE_RATE,
+  DEFAULT_PRICING_CONFIG,
+  findMarkupRule,
+  MarkupRule,
+  PricingConfig,
+  roundPrice,
+  suggestPriceMnt,
+  validatePricingSettings,
+} from '../lib/pricing'
+import { getEffectiveExchangeRate } from '../lib/server/pricing'
+
+const RULES: MarkupRule[] = [
+  { id: 'all', percent: 10, fixedFeeMnt: 0, perKgMnt: 0 },
+  { id: 'gmarket', store: 'gmarket', percent: 15, fixedFeeMnt: 0, perKgMnt: 0 },
+  { id: 'skincare', category: 'Skincare', percent: 20, fixedFeeMnt: 0, perKgMnt: 0 },
+  { id: 'gmarket-skincare', store: 'gmarket', category: 'Skincare', percent: 25, fixedFeeMnt: 0, perKgMnt: 0 },
+]
+
+function config(overrides: Partial<PricingConfig> = {}): PricingConfig {
+  return { ...DEFAULT_PRICING_CONFIG, exchangeRate: { rate: 2.5, effectiveFrom: '2026-01-01T00:00:00.000Z' }, ...overrides }
+}
+
+test('rounding follows the mode and step', () => {
+  assert.equal(roundPrice(12349, { mode: 'nearest', step: 100 }), 12300)
+  assert.equal(roundPrice(12350, { mode: 'nearest', step: 100 }), 12400)
+  assert.equal(roundPrice(12301, { mode: 'up', step: 100 }), 12400)
+  assert.equal(roundPrice(12399, { mode: 'down', step: 100 }), 12300)
+  assert.equal(roundPrice(12345.6, { mode: 'nearest', step: 0 }), 12346)
+})
+
+test('the most specific markup rule wins', () => {
+  const rule = (product: any) => findMarkupRule(RULES, product)?.id
+
+  assert.equal(rule({ sourceStore: 'gmarket', category: 'skincare' }), 'gmarket-skincare')
+  assert.equal(rule({ sourceStore: 'oliveyoung', category: 'Skincare' }), 'skincare')
+  assert.equal(rule({ sourceStore: 'gmarket', category: 'Makeup' }), 'gmarket')
+  assert.equal(rule({ sourceStore: 'oliveyoung', category: 'Makeup' }), 'all')
+  assert.equal(findMarkupRule(RULES.slice(1), { sourceStore: 'oliveyoung', category: 'Makeup' }), null)
+})
+
+test('the first rule wins a tie', () => {
+  const rules: MarkupRule[] = [
+    { id: 'first', category: 'Skincare', percent: 5, fixedFeeMnt: 0, perKgMnt: 0 },
+    { id: 'second', category: 'skincare', percent: 50, fixedFeeMnt: 0, perKgMnt: 0 },
+  ]
+
+  assert.equal(findMarkupRule(rules, { sourceStore: 'gmarket', category: 'Skincare' })?.id, 'first')
+})
+
+test('the suggestion adds markup, the fixed fee and the weight surcharge before rounding', () => {
+  const rules: MarkupRule[] = [{ id: 'all', percent: 20, fixedFeeMnt: 3000, perKgMnt: 8000 }]
+  const suggestion = suggestPriceMnt(
+    { priceKrw: 10000, shippingWeightKg: 0.35 },
+    config({ rules, rounding: { mode: 'up', step: 500 } })
+  )
+
+  // 25000 + 5000 + 3000 + 2800 = 35800 → 36000
+  assert.deepEqual(suggestion, {
+    priceMnt: 36000,
+    priceKrw: 10000,
+    exchangeRate: 2.5,
+    ruleId: 'all',
+    baseMnt: 25000,
+    markupMnt: 5000,
+    fixedFeeMnt: 3000,
+    weightSurchargeMnt: 2800,
+    weightKg: 0.35,
+  })
+})
+
+test('products without a weight use the default weight', () => {
+  const rules: MarkupRule[] = [{ id: 'all', percent: 0, fixedFeeMnt: 0, perKgMnt: 10000 }]
+  const suggestion = suggestPriceMnt({ priceKrw: 10000 }, config({ rules, defaultWeightKg: 0.5 }))
+
+  assert.equal(suggestion.weightKg, 0.5)
+  assert.equal(suggestion.priceMnt, 30000)
+})
+
+test('the source price falls back to import metadata and storefront prices', () => {
+  assert.equal(suggestPriceMnt({ importMeta: { source: { price: 20000 } } }, config()).priceKrw, 20000)
+  assert.equal(suggestPriceMnt({ sale_price: 0, regular_price: 18000 }, config()).priceKrw, 18000)
+})
+
+test('reprice items diff against the current price and skip products without a source price', () => {
+  const items = buildRepriceItems(
+    [
+      { id: 'a', title: 'Тос', priceKrw: 10000, priceMnt: 24000 },
+      { id: 'b', title: 'Маск', priceMnt: 5000 },
+    ],
+    config()
+  )
+
+  assert.deepEqual(
+    items.map((item) => [item.id, item.suggestedPriceMnt, item.diffMnt]),
+    [
+      ['a', 25000, 1000],
+      ['b', null, 0],
+    ]
+  )
+})
+
+test('settings validation lists every problem', () => {
+  assert.deepEqual(
+    validatePricingSettings({
+      rules: [
+        { id: 'a', percent: -150, fixedFeeMnt: 0, perKgMnt: 0 },
+        { id: 'a', percent: 0, fixedFeeMnt: -1, perKgMnt: 0 },
+      ],
+      rounding: { mode: 'half', step: 0 },
+      defaultWeightKg: 0,
+    }),
+    [
+      'rules[0].percent must be a number ≥ -100',
+      'rules[1].id "a" is duplicated',
+      'rules[1].fixedFeeMnt must be ≥ 0',
+      'rounding.mode must be one of: nearest, up, down',
+      'rounding.step must be greater than 0',
+    ]
+  )
+  assert.deepEqual(validatePricingSettings(DEFAULT_PRICING_CONFIG), [])
+})
+
+test('the effective rate is the latest one not in the future', async () => {
+  installMemoryDb({
+    exchange_rates: new MemoryCollection([
+      { rate: 2.4, effectiveFrom: new Date('2026-01-01'), createdAt: new Date('2026-01-01') },
+      { rate: 2.55, effectiveFrom: new Date('2026-03-01'), createdAt: new Date('2026-02-20') },
+      { rate: 2.8, effectiveFrom: new Date('2026-06-01'), createdAt: new Date('2026-02-25') },
+    ]),
+  })
+
+  assert.equal((await getEffectiveExchangeRate(new Date('2026-04-15'))).rate, 2.55)
+  assert.equal((await getEffectiveExchangeRate(new Date('2025-12-31'))).rate, DEFAULT_EXCHANGE_RATE)
+})
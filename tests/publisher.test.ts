@@ -0,0 +1,217 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ObjectId } from 'mongodb'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import { LifecycleTransitionError } from '../lib/server/lifecycle'
+import {
+  publishProduct,
+  PublishError,
+  publishProducts,
+  retireProduct,
+  STOREFRONT_PUBLISHERS,
+} from '../lib/server/publisher'
+
+const CONTEXT = { actor: 'editor@example.com', source: 'ui' as const }
+
+const COMPLETE = {
+  title: 'Нүүрний тос',
+  detailed_description: 'Чийгшүүлэх тос',
+  imagesFinal: ['https://cdn/a.jpg'],
+  priceMnt: 45000,
+}
+
+// Adapter whose storefront is down
+STOREFRONT_PUBLISHERS.unavailable = {
+  name: 'unavailable',
+  async publish() {
+    throw new Error('Storefront is down')
+  },
+  async unpublish() {
+    throw new Error('Storefront is down')
+  },
+}
+
+function setup(docs: Record<string, any>[], publisher = 'mongo') {
+  process.env.STOREFRONT_PUBLISHER = publisher
+  const products = new MemoryCollection(docs.map((doc) => ({ _id: new ObjectId(), ...doc })))
+  const collections = installMemoryDb({ products })
+  return { products, collections, ids: products.docs.map((doc) => doc._id.toHexString() as string) }
+}
+
+test('publishing moves the product to PUSHED and writes the storefront fields', async () => {
+  const { products, collections, ids } = setup([
+    { ...COMPLETE, lifecycleStatus: 'READY', importMeta: { source: { price: 18000 } } },
+  ])
+
+  const product = await publishProduct(ids[0], { fields: { priceMnt: 48000 }, context: CONTEXT })
+
+  const [doc] = products.docs
+  assert.equal(product.lifecycleStatus, 'PUSHED')
+  assert.equal(doc.priceMnt, 48000)
+  assert.equal(doc.regular_price, 48000)
+  assert.equal(doc.status, 'Active')
+  assert.equal(doc.sourceBaselinePriceKrw, 18000)
+  assert.equal(doc.pushedBy, 'editor@example.com')
+  assert.deepEqual([doc.publishResult.ok, doc.publishResult.adapter], [true, 'mongo'])
+  assert.equal(collections.audit_events.docs[0].action, 'publish')
+})
+
+test('an adapter failure rolls the product back and keeps the edits unsaved', async () => {
+  const { products, collections, ids } = setup(
+    [{ ...COMPLETE, lifecycleStatus: 'READY', importMeta: { source: { price: 18000 } } }],
+    'unavailable'
+  )
+
+  await assert.rejects(
+    publishProduct(ids[0], { fields: { priceMnt: 48000 }, context: CONTEXT }),
+    (error: any) =>
+      error instanceof PublishError &&
+      error.code === 'PUBLISH_FAILED' &&
+      error.status === 502 &&
+      error.product?.lifecycleStatus === 'READY'
+  )
+
+  const [doc] = products.docs
+  assert.equal(doc.lifecycleStatus, 'READY')
+  assert.equal(doc.priceMnt, 45000)
+  assert.equal(doc.sourceBaselinePriceKrw, undefined)
+  assert.equal(doc.sourcePriceChanged, undefined)
+  assert.deepEqual(
+    [doc.publishResult.ok, doc.publishResult.error, doc.publishResult.rolledBackTo],
+    [false, 'Storefront is down', 'READY']
+  )
+  assert.equal(collections.audit_events.docs[0].action, 'publishFailed')
+})
+
+test('a product failing validation is not claimed', async () => {
+  const { products, ids } = setup([{ ...COMPLETE, imagesFinal: [], lifecycleStatus: 'DRAFT' }])
+
+  await assert.rejects(
+    publishProduct(ids[0], { context: CONTEXT }),
+    (error: any) => error instanceof LifecycleTransitionError && error.failures[0].reason === 'VALIDATION_FAILED'
+  )
+  assert.equal(products.docs[0].lifecycleStatus, 'DRAFT')
+  assert.equal(products.docs[0].publishResult, undefined)
+})
+
+test('products in the trash are not published', async () => {
+  const { ids } = setup([{ ...COMPLETE, lifecycleStatus: 'READY', isDeleted: true }])
+
+  await assert.rejects(
+    publishProduct(ids[0], { context: CONTEXT }),
+    (error: any) => error instanceof PublishError && error.code === 'CONFLICT'
+  )
+})
+
+test('bulk publishing reports adapter failures per product', async () => {
+  const { products, ids } = setup(
+    [
+      { ...COMPLETE, lifecycleStatus: 'READY' },
+      { ...COMPLETE, lifecycleStatus: 'DRAFT' },
+    ],
+    'unavailable'
+  )
+
+  const result = await publishProducts([...ids, 'missing-slug'], { context: CONTEXT })
+
+  assert.deepEqual(
+    result.errors.map((error) => [error.id, error.code]),
+    [
+      ['missing-slug', 'NOT_FOUND'],
+      [ids[0], 'PUBLISH_FAILED'],
+      [ids[1], 'PUBLISH_FAILED'],
+    ]
+  )
+  assert.deepEqual(products.docs.map((doc) => doc.lifecycleStatus), ['READY', 'DRAFT'])
+})
+
+test('bulk publishing changes nothing when one product may not be pushed', async () => {
+  const { products, ids } = setup([
+    { ...COMPLETE, lifecycleStatus: 'READY' },
+    { ...COMPLETE, priceMnt: 0, lifecycleStatus: 'DRAFT' },
+  ])
+
+  await assert.rejects(
+    publishProducts(ids, { context: CONTEXT }),
+    (error: any) => error instanceof LifecycleTransitionError && error.failures.length === 1
+  )
+  assert.deepEqual(products.docs.map((doc) => doc.lifecycleStatus), ['READY', 'DRAFT'])
+})
+
+test('retiring unpublishes and hides the product and saves the edits', async () => {
+  const { products, collections, ids } = setup([
+    { ...COMPLETE, lifecycleStatus: 'PUSHED', status: 'Active', visibility: 'public' },
+  ])
+
+  const product = await retireProduct(ids[0], {
+    reason: ' Discontinued at the source ',
+    fields: { priceMnt: 40000, visibility: 'public' },
+    context: CONTEXT,
+  })
+
+  const [doc] = products.docs
+  assert.equal(product.lifecycleStatus, 'RETIRED')
+  assert.equal(doc.status, 'Draft')
+  assert.equal(doc.visibility, 'hidden')
+  assert.equal(doc.priceMnt, 40000)
+  assert.deepEqual([doc.retiredBy, doc.retiredReason], ['editor@example.com', 'Discontinued at the source'])
+  assert.equal(collections.audit_events.docs[0].action, 'retire')
+})
+
+test('an adapter failure puts the retired product back as it was', async () => {
+  const { products, ids } = setup(
+    [{ ...COMPLETE, lifecycleStatus: 'PUSHED', visibility: 'public', sourceHiddenByPolicy: false }],
+    'unavailable'
+  )
+
+  await assert.rejects(
+    retireProduct(ids[0], { reason: 'Discontinued', fields: { priceMnt: 40000 }, context: CONTEXT }),
+    (error: any) => error instanceof PublishError && error.code === 'PUBLISH_FAILED'
+  )
+
+  const [doc] = products.docs
+  assert.equal(doc.lifecycleStatus, 'PUSHED')
+  assert.equal(doc.visibility, 'public')
+  assert.equal(doc.priceMnt, 45000)
+  assert.equal(doc.retiredAt, undefined)
+  assert.equal(doc.retiredReason, undefined)
+})
+
+test('retiring needs a reason and a PUSHED product', async () => {
+  const { products, ids } = setup([
+    { ...COMPLETE, lifecycleStatus: 'PUSHED' },
+    { ...COMPLETE, lifecycleStatus: 'READY' },
+  ])
+
+  await assert.rejects(
+    retireProduct(ids[0], { reason: '  ', context: CONTEXT }),
+    (error: any) => error instanceof PublishError && error.code === 'INVALID' && error.status === 400
+  )
+  await assert.rejects(
+    retireProduct(ids[1], { reason: 'Discontinued', context: CONTEXT }),
+    (error: any) => error instanceof LifecycleTransitionError && error.failures[0].reason === 'ILLEGAL_TRANSITION'
+  )
+  assert.deepEqual(products.docs.map((doc) => doc.lifecycleStatus), ['PUSHED', 'READY'])
+})
+
+test('republishing a retired product makes it public and clears the retirement', async () => {
+  const { products, ids } = setup([
+    {
+      ...COMPLETE,
+      lifecycleStatus: 'RETIRED',
+      visibility: 'hidden',
+      sourceBaselinePriceKrw: 18000,
+      retiredAt: '2026-10-01T00:00:00.000Z',
+      retiredBy: 'editor@example.com',
+      retiredReason: 'Discontinued',
+    },
+  ])
+
+  await publishProduct(ids[0], { context: CONTEXT })
+
+  const [doc] = products.docs
+  assert.equal(doc.lifecycleStatus, 'PUSHED')
+  assert.equal(doc.visibility, 'public')
+  assert.equal(doc.status, 'Active')
+  assert.deepEqual([doc.retiredAt, doc.retiredBy, doc.retiredReason], [null, null, null])
+})
@@ -0,0 +1,104 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ObjectId } from 'mongodb'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import { revertProductToRevision } from '../lib/server/products'
+import { recordRevisions, RevisionError } from '../lib/server/revisions'
+import { pickRevisionFields } from '../lib/revisions'
+
+const CONTEXT = { actor: 'editor@example.com', source: 'ui' as const }
+
+// Revision 1 holds `revisionFields`, revision 2 the current product
+function setup(product: Record<string, any>, revisionFields: Record<string, any>) {
+  const productId = new ObjectId()
+  const products = new MemoryCollection([{ _id: productId, lifecycleStatus: 'DRAFT', ...product }])
+  const revisionId = new ObjectId()
+  const revisions = new MemoryCollection([
+    { _id: revisionId, productId, revision: 1, fields: pickRevisionFields(revisionFields), createdAt: new Date() },
+    { productId, revision: 2, fields: pickRevisionFields(product), createdAt: new Date() },
+  ])
+  const collections = installMemoryDb({ products, product_revisions: revisions })
+  return { productId: productId.toHexString(), revisionId: revisionId.toHexString(), products, revisions, collections }
+}
+
+test('reverting brings back the revision values and records a new revision', async () => {
+  const { productId, revisionId, products, revisions, collections } = setup(
+    { title: 'Шинэ нэр', priceMnt: 45000, imagesFinal: ['https://cdn/a.jpg'] },
+    { title: 'Хуучин нэр', priceMnt: 40000, imagesFinal: ['https://cdn/a.jpg'] }
+  )
+
+  const product = await revertProductToRevision(productId, revisionId, CONTEXT)
+
+  assert.equal(product.title, 'Хуучин нэр')
+  assert.equal(products.docs[0].priceMnt, 40000)
+  assert.equal(collections.audit_events.docs[0].action, 'revert')
+  assert.equal(collections.audit_events.docs[0].note, 'Reverted to revision 1')
+  assert.deepEqual(revisions.docs.map((doc) => doc.revision), [1, 2, 3])
+  assert.equal(revisions.docs[2].fields.title, 'Хуучин нэр')
+})
+
+test('list fields unset at the revision come back empty, not null', async () => {
+  const { productId, revisionId, products } = setup(
+    { title: 'Тос', imagesFinal: ['https://cdn/a.jpg'] },
+    { title: 'Тос' }
+  )
+
+  await revertProductToRevision(productId, revisionId, CONTEXT)
+
+  assert.deepEqual(products.docs[0].imagesFinal, [])
+})
+
+test('a revision with values the editor would reject is not written back', async () => {
+  const { productId, revisionId, products } = setup(
+    { title: 'Тос', priceMnt: 45000 },
+    { title: 'Тос', priceMnt: -100 }
+  )
+
+  await assert.rejects(
+    revertProductToRevision(productId, revisionId, CONTEXT),
+    (error: any) =>
+      error instanceof RevisionError &&
+      error.status === 400 &&
+      error.failedRules.some((rule) => rule.field === 'priceMnt')
+  )
+  assert.equal(products.docs[0].priceMnt, 45000)
+})
+
+test('trashed products are not reverted', async () => {
+  const { productId, revisionId } = setup({ title: 'Тос', isDeleted: true }, { title: 'Хуучин' })
+
+  await assert.rejects(
+    revertProductToRevision(productId, revisionId, CONTEXT),
+    (error: any) => error instanceof RevisionError && error.code === 'CONFLICT'
+  )
+})
+
+test('concurrent writes both get a revision, numbered one after the other', async () => {
+  const productId = new ObjectId()
+  const revisions = new MemoryCollection([
+    { productId, revision: 1, fields: pickRevisionFields({ title: 'Тос' }), createdAt: new Date() },
+  ])
+  await revisions.createIndex({ productId: 1, revision: -1 }, { unique: true })
+  installMemoryDb({ product_revisions: revisions })
+
+  const entry = (title: string) => ({
+    productId,
+    auditEventId: new ObjectId(),
+    action: 'update' as const,
+    before: { title: 'Тос' },
+    after: { title },
+  })
+  await Promise.all([
+    recordRevisions(CONTEXT, [entry('Тос A')]),
+    recordRevisions(CONTEXT, [entry('Тос B')]),
+  ])
+
+  assert.deepEqual(
+    revisions.docs.map((doc) => [doc.revision, doc.fields.title]),
+    [
+      [1, 'Тос'],
+      [2, 'Тос A'],
+      [3, 'Тос B'],
+    ]
+  )
+})
@@ -0,0 +1,147 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import {
+  affectsSearchIndex,
+  buildNgrams,
+  buildSearchNgrams,
+  reindexProductSearch,
+  searchProducts,
+} from '../lib/server/search'
+import { searchProductsText } from '../lib/server/products'
+import { normalizeBrandKey } from '../lib/brands'
+
+function productsCollection(products: Record<string, any>[]): MemoryCollection {
+  const collection = new MemoryCollection(products.map((p) => ({ ...p, searchNgrams: buildSearchNgrams(p) })))
+  installMemoryDb({ products: collection })
+  return collection
+}
+
+function search(query: string, limit?: number) {
+  return searchProducts(query, {
+    limit,
+    docToProduct: (doc) => ({ id: doc._id.toString(), title: doc.title, brand: doc.brand }) as any,
+  })
+}
+
+test('buildNgrams splits Hangul and Cyrillic into normalized bigrams', () => {
+  assert.deepEqual(buildNgrams('진정토너'), ['진정', '정토', '토너'])
+  assert.deepEqual(buildNgrams('Тос'), ['то', 'ос'])
+  // Full-width Latin is width-normalized; single characters are kept whole
+  assert.deepEqual(buildNgrams('ＡＢ c'), ['ab', 'c'])
+})
+
+test('a Korean fragment matches inside a longer word', async () => {
+  productsCollection([
+    { title: '라운드랩 독도 진정토너 200ml', brand: '라운드랩' },
+    { title: '삼성 갤럭시 버즈', brand: 'Samsung' },
+  ])
+
+  const response = await search('토너')
+
+  assert.equal(response.total, 1)
+  assert.equal(response.results[0].product.title, '라운드랩 독도 진정토너 200ml')
+  assert.deepEqual(response.results[0].highlights, [
+    { field: 'title', snippet: '라운드랩 독도 진정<mark>토너</mark> 200ml' },
+  ])
+})
+
+test('a Mongolian fragment matches case-insensitively', async () => {
+  productsCollection([
+    { title: 'Арьс чийгшүүлэгч тос', brand: 'Laneige' },
+    { title: 'Шампунь', brand: 'Mise en scene' },
+  ])
+
+  const response = await search('ЧИЙГ')
+
+  assert.equal(response.total, 1)
+  assert.equal(response.results[0].product.title, 'Арьс чийгшүүлэгч тос')
+  assert.match(response.results[0].highlights[0].snippet, /<mark>чийг<\/mark>/)
+})
+
+test('results are ranked by field weight and whole-query matches', async () => {
+  productsCollection([
+    { title: 'Cleansing foam', tags: ['toner pad'] },
+    { title: 'Daily toner pad', brand: 'Anua' },
+    { title: 'Toner', brand: 'Toner Lab' },
+  ])
+
+  const response = await search('toner pad')
+
+  assert.deepEqual(
+    response.results.map((r) => r.product.title),
+    ['Daily toner pad', 'Toner', 'Cleansing foam']
+  )
+  assert.ok(response.results[0].score > response.results[1].score)
+})
+
+test('the best matches survive the candidate cap', async () => {
+  // 600 products share one common bigram; the exact match is inserted last
+  const filler = Array.from({ length: 600 }, (_, i) => ({ title: `Set ${i}` }))
+  productsCollection([...filler, { title: 'Sunscreen set' }])
+
+  const response = await search('sunscreen set', 1)
+
+  assert.equal(response.results[0].product.title, 'Sunscreen set')
+})
+
+test('reindexing rebuilds stale n-grams so renamed products are found', async () => {
+  const collection = productsCollection([{ title: 'Old name', brand: 'Innisfree' }])
+  // Written without going through updateProductById
+  Object.assign(collection.docs[0], { title: '녹차 세럼' })
+  assert.equal((await search('세럼')).total, 0)
+
+  const result = await reindexProductSearch()
+
+  assert.deepEqual(result, { updated: 1 })
+  assert.deepEqual(collection.indexes, [{ searchNgrams: 1 }])
+  assert.equal((await search('세럼')).results[0].product.title, '녹차 세럼')
+  assert.equal((await search('old name')).total, 0)
+})
+
+test('affectsSearchIndex only reports searchable fields', () => {
+  assert.equal(affectsSearchIndex({ brand: 'Anua' }), true)
+  assert.equal(affectsSearchIndex({ tags: [] }), true)
+  assert.equal(affectsSearchIndex({ priceMnt: 1000, nameMn: 'Тос' }), false)
+})
+
+test('a single character matches inside longer words', async () => {
+  productsCollection([
+    { title: '녹차 세럼', brand: 'Innisfree' },
+    { title: '자동차 방향제' },
+    { title: 'Vitamin C serum', tags: ['brightening'] },
+  ])
+
+  const hangul = await search('차')
+  assert.deepEqual(hangul.results.map((r) => r.product.title).sort(), ['녹차 세럼', '자동차 방향제'])
+  assert.deepEqual(hangul.results.find((r) => r.product.title === '녹차 세럼')?.highlights, [
+    { field: 'title', snippet: '녹<mark>차</mark> 세럼' },
+  ])
+
+  assert.deepEqual((await search('세 럼')).results.map((r) => r.product.title), ['녹차 세럼'])
+  assert.deepEqual((await search('V')).results.map((r) => r.product.title), ['Vitamin C serum'])
+})
+
+test('text search applies the listing filters, with brand aliases, before the result cap', async () => {
+  const products = Array.from({ length: 120 }, (_, i) => ({ title: `Toner ${i}`, brand: 'Anua', category: 'skincare' }))
+  const collection = new MemoryCollection(
+    [
+      ...products,
+      { title: 'Heartleaf toner', brand: '아누아', category: 'skincare', sourcePriceChanged: true },
+      { title: 'Heartleaf toner pad', brand: '아누아', category: 'makeup', sourcePriceChanged: true },
+    ].map((p) => ({ ...p, searchNgrams: buildSearchNgrams(p) }))
+  )
+  const brands = new MemoryCollection([
+    { name: 'Anua', aliases: { ko: ['아누아'] }, keys: [normalizeBrandKey('Anua'), normalizeBrandKey('아누아')] },
+  ])
+  installMemoryDb({ products: collection, brands })
+
+  const response = await searchProductsText('toner', {
+    brand: 'anua',
+    category: 'skincare',
+    flag: 'priceChanged',
+    limit: 100,
+  })
+
+  assert.deepEqual(response.results.map((r) => r.product.title), ['Heartleaf toner'])
+})
@@ -0,0 +1,129 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import { checkProductSource, runSourceCheck, SOURCE_CHECK_ADAPTERS } from '../lib/server/sourceCheck'
+
+const GMARKET_URL = 'https://item.gmarket.co.kr/Item?goodscode=1001'
+const OLIVEYOUNG_URL = 'https://www.oliveyoung.co.kr/store/goods/getGoodsDetail.do?goodsNo=A0001'
+const AUCTION_URL = 'https://itempage3.auction.co.kr/DetailView.aspx?itemno=B0001'
+
+const FIXTURES: Record<string, string> = {
+  [GMARKET_URL]: '<div class="box__price"><span class="price_real">10,500</span>원</div>',
+  [OLIVEYOUNG_URL]:
+    '<div class="price-2"><strong>18,000</strong>원</div><button class="btnSoldout">일시품절</button>',
+  [AUCTION_URL]: '<meta property="product:price:amount" content="7900"><span>판매중</span>',
+}
+
+function check(sourceUrl: string, baselinePriceKrw: number | null) {
+  return checkProductSource({ id: 'p1', sourceUrl, baselinePriceKrw }, { htmlFixtures: FIXTURES })
+}
+
+test('adapters parse price and stock from the store markup', () => {
+  assert.deepEqual(SOURCE_CHECK_ADAPTERS.gmarket.parse(FIXTURES[GMARKET_URL]), { priceKrw: 10500, inStock: true })
+  assert.deepEqual(SOURCE_CHECK_ADAPTERS.oliveyoung.parse(FIXTURES[OLIVEYOUNG_URL]), { priceKrw: 18000, inStock: false })
+  // Falls back to the Open Graph price tag
+  assert.deepEqual(SOURCE_CHECK_ADAPTERS.auction.parse(FIXTURES[AUCTION_URL]), { priceKrw: 7900, inStock: true })
+})
+
+test('a price that differs from the baseline is a price change', async () => {
+  const result = await check(GMARKET_URL, 10000)
+
+  assert.equal(result.adapter, 'gmarket')
+  assert.equal(result.httpStatus, 200)
+  assert.equal(result.priceKrw, 10500)
+  assert.equal(result.priceChanged, true)
+  assert.equal(result.outOfStock, false)
+  assert.equal(result.error, undefined)
+})
+
+test('the same price as the baseline is not a change', async () => {
+  const result = await check(AUCTION_URL, 7900)
+
+  assert.equal(result.priceChanged, false)
+  assert.equal(result.inStock, true)
+})
+
+test('a sold-out marker is reported as out of stock', async () => {
+  const result = await check(OLIVEYOUNG_URL, 18000)
+
+  assert.equal(result.inStock, false)
+  assert.equal(result.outOfStock, true)
+  assert.equal(result.priceChanged, false)
+})
+
+test('a page without a price is reported as a parse error', async () => {
+  const result = await checkProductSource(
+    { id: 'p1', sourceUrl: GMARKET_URL, baselinePriceKrw: 10000 },
+    { htmlFixtures: { [GMARKET_URL]: '<html><body>점검 중</body></html>' } }
+  )
+
+  assert.equal(result.priceKrw, null)
+  assert.equal(result.priceChanged, false)
+  assert.equal(result.error, 'Could not parse price from source page')
+})
+
+test('unknown stores have no adapter', async () => {
+  const result = await checkProductSource(
+    { id: 'p1', sourceStore: 'coupang', sourceUrl: 'https://www.coupang.com/vp/products/1', baselinePriceKrw: 1000 },
+    { htmlFixtures: FIXTURES }
+  )
+
+  assert.equal(result.adapter, null)
+  assert.equal(result.inStock, null)
+  assert.match(result.error ?? '', /No source check adapter/)
+})
+
+test('runSourceCheck updates PUSHED products, applies the policy, refreshes the storefront and skips RETIRED ones', async () => {
+  const products = new MemoryCollection([
+    { slug: 'toner', lifecycleStatus: 'PUSHED', sourceStore: 'gmarket', sourceUrl: GMARKET_URL, sourceBaselinePriceKrw: 10000, priceKrw: 10000, priceMnt: 30000 },
+    { slug: 'serum', lifecycleStatus: 'PUSHED', sourceStore: 'oliveyoung', sourceUrl: OLIVEYOUNG_URL, sourceBaselinePriceKrw: 18000, visibility: 'public' },
+    { slug: 'retired', lifecycleStatus: 'RETIRED', sourceStore: 'auction', sourceUrl: AUCTION_URL, sourceBaselinePriceKrw: 5000 },
+    { slug: 'draft', lifecycleStatus: 'DRAFT', sourceStore: 'auction', sourceUrl: AUCTION_URL, sourceBaselinePriceKrw: 5000 },
+  ])
+  const collections = installMemoryDb({ products })
+
+  const summary = await runSourceCheck({ htmlFixtures: FIXTURES })
+
+  assert.equal(summary.checked, 2)
+  assert.equal(summary.failed, 0)
+  assert.equal(summary.priceChanged, 1)
+  assert.equal(summary.outOfStock, 1)
+  assert.equal(summary.repriced, 1)
+  assert.equal(summary.hidden, 1)
+  assert.deepEqual(summary.results.map((r) => r.sourceUrl).sort(), [GMARKET_URL, OLIVEYOUNG_URL].sort())
+
+  const [toner, serum, retired, draft] = products.docs
+  assert.equal(toner.sourcePriceChanged, true)
+  assert.equal(toner.sourceLastCheckedPriceKrw, 10500)
+  assert.notEqual(toner.priceMnt, 30000)
+  // The new price reaches the storefront
+  assert.equal(toner.regular_price, toner.priceMnt)
+  assert.equal(toner.publishResult.ok, true)
+  assert.equal(serum.sourceOutOfStock, true)
+  assert.equal(serum.visibility, 'hidden')
+  assert.equal(serum.sourceHiddenByPolicy, true)
+  assert.equal(retired.sourceLastCheckedAt, undefined)
+  assert.equal(draft.sourceLastCheckedAt, undefined)
+
+  assert.equal(collections.source_checks.docs.length, 2)
+  assert.equal(collections.source_policy_audit.docs.length, 2)
+})
+
+test('the first checked price becomes the baseline of a product pushed without one', async () => {
+  const products = new MemoryCollection([
+    { slug: 'no-price', lifecycleStatus: 'PUSHED', sourceStore: 'gmarket', sourceUrl: GMARKET_URL },
+    // Older pushes stored a 0 baseline
+    { slug: 'zero', lifecycleStatus: 'PUSHED', sourceStore: 'auction', sourceUrl: AUCTION_URL, sourceBaselinePriceKrw: 0 },
+  ])
+  installMemoryDb({ products })
+
+  const summary = await runSourceCheck({ htmlFixtures: FIXTURES })
+
+  assert.equal(summary.priceChanged, 0)
+  assert.equal(summary.repriced, 0)
+  const [noPrice, zero] = products.docs
+  assert.equal(noPrice.sourceBaselinePriceKrw, 10500)
+  assert.equal(noPrice.sourcePriceChanged, false)
+  assert.equal(zero.sourceBaselinePriceKrw, 7900)
+  assert.equal(zero.sourcePriceChanged, false)
+})
@@ -0,0 +1,137 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { DEFAULT_PRICING_CONFIG, PricingConfig } from '../lib/pricing'
+import {
+  DEFAULT_SOURCE_POLICY,
+  decideSourcePolicy,
+  SourcePolicySettings,
+  validateSourcePolicySettings,
+} from '../lib/server/sourcePolicy'
+import { SourceCheckItemResult } from '../lib/server/sourceCheck'
+
+const PRICING: PricingConfig = { ...DEFAULT_PRICING_CONFIG, exchangeRate: { rate: 2.5, effectiveFrom: '2026-01-01T00:00:00.000Z' } }
+
+function result(overrides: Partial<SourceCheckItemResult>): SourceCheckItemResult {
+  return {
+    productId: 'p1',
+    sourceUrl: 'https://item.gmarket.co.kr/Item?goodscode=1',
+    adapter: 'gmarket',
+    httpStatus: 200,
+    priceKrw: 10000,
+    inStock: true,
+    priceChanged: false,
+    outOfStock: false,
+    ...overrides,
+  }
+}
+
+function policy(overrides: Partial<SourcePolicySettings>): SourcePolicySettings {
+  return { ...DEFAULT_SOURCE_POLICY, ...overrides }
+}
+
+test('a price change inside the tolerance band is repriced', () => {
+  const { changes, audits } = decideSourcePolicy(
+    { priceMnt: 25000 },
+    result({ priceKrw: 10800, priceChanged: true }),
+    10000,
+    DEFAULT_SOURCE_POLICY,
+    PRICING
+  )
+
+  assert.deepEqual(changes, { priceMnt: 27000 })
+  assert.equal(audits[0].action, 'reprice')
+  assert.equal(audits[0].reason, 'Source price 10,000 → 10,800 KRW (+8.0%)')
+})
+
+test('a price change outside the band is queued for review', () => {
+  const { changes, audits } = decideSourcePolicy(
+    { priceMnt: 25000 },
+    result({ priceKrw: 8000, priceChanged: true }),
+    10000,
+    DEFAULT_SOURCE_POLICY,
+    PRICING
+  )
+
+  assert.deepEqual(changes, { sourceReviewReasons: ['priceChanged'], sourceReviewStatus: 'pending' })
+  assert.equal(audits[0].action, 'queueReview')
+  assert.match(audits[0].reason, /-20\.0%\), outside ±10% band$/)
+})
+
+test('a product already queued for the same reason is not queued again', () => {
+  const doc = { priceMnt: 25000, sourceReviewStatus: 'pending', sourceReviewReasons: ['priceChanged'] }
+  const decision = decideSourcePolicy(doc, result({ priceKrw: 8000, priceChanged: true }), 10000, DEFAULT_SOURCE_POLICY, PRICING)
+
+  assert.deepEqual(decision, { changes: {}, audits: [] })
+})
+
+test('a repriced value equal to the current price changes nothing', () => {
+  const decision = decideSourcePolicy(
+    { priceMnt: 25500 },
+    result({ priceKrw: 10200, priceChanged: true }),
+    10000,
+    DEFAULT_SOURCE_POLICY,
+    PRICING
+  )
+
+  assert.deepEqual(decision, { changes: {}, audits: [] })
+})
+
+test('the none action ignores price changes', () => {
+  const settings = policy({ priceChange: { action: 'none', tolerancePercent: 10 } })
+  const decision = decideSourcePolicy({ priceMnt: 25000 }, result({ priceKrw: 8000, priceChanged: true }), 10000, settings, PRICING)
+
+  assert.deepEqual(decision, { changes: {}, audits: [] })
+})
+
+test('an out-of-stock product is hidden and unhidden once back in stock', () => {
+  const hidden = decideSourcePolicy(
+    { visibility: 'public' },
+    result({ inStock: false, outOfStock: true }),
+    10000,
+    DEFAULT_SOURCE_POLICY,
+    PRICING
+  )
+  assert.deepEqual(hidden.changes, { visibility: 'hidden', sourceHiddenByPolicy: true })
+  assert.equal(hidden.audits[0].action, 'hide')
+
+  const restored = decideSourcePolicy(
+    { visibility: 'hidden', sourceHiddenByPolicy: true },
+    result({}),
+    10000,
+    DEFAULT_SOURCE_POLICY,
+    PRICING
+  )
+  assert.deepEqual(restored.changes, { visibility: 'public', sourceHiddenByPolicy: false })
+  assert.equal(restored.audits[0].action, 'unhide')
+})
+
+test('products hidden by an editor stay hidden when back in stock', () => {
+  const decision = decideSourcePolicy({ visibility: 'hidden' }, result({}), 10000, DEFAULT_SOURCE_POLICY, PRICING)
+
+  assert.deepEqual(decision, { changes: {}, audits: [] })
+})
+
+test('out of stock with the review action keeps earlier review reasons', () => {
+  const settings = policy({ outOfStock: { action: 'review' } })
+  const { changes } = decideSourcePolicy(
+    { sourceReviewStatus: 'pending', sourceReviewReasons: ['priceChanged'] },
+    result({ inStock: false, outOfStock: true }),
+    10000,
+    settings,
+    PRICING
+  )
+
+  assert.deepEqual(changes, { sourceReviewReasons: ['priceChanged', 'outOfStock'], sourceReviewStatus: 'pending' })
+})
+
+test('settings validation lists every problem', () => {
+  assert.deepEqual(
+    validateSourcePolicySettings({ priceChange: { action: 'raise', tolerancePercent: -1 }, outOfStock: {} }),
+    [
+      'priceChange.action must be one of: reprice, review, none',
+      'priceChange.tolerancePercent must be a number ≥ 0',
+      'outOfStock.action must be one of: hide, review, none',
+    ]
+  )
+  assert.deepEqual(validateSourcePolicySettings(DEFAULT_SOURCE_POLICY), [])
+})
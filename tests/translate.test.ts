@@ -0,0 +1,138 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import {
+  stubTranslationProvider,
+  translateProduct,
+  translateProducts,
+  TranslationError,
+  TranslationProvider,
+} from '../lib/server/translate'
+import { GlossaryTerm } from '../types/product'
+
+// Stub provider that counts the texts it was asked to translate
+function countingProvider() {
+  const calls: string[][] = []
+  const provider: TranslationProvider = {
+    name: 'stub',
+    async translate(request) {
+      calls.push(Object.keys(request.texts))
+      return stubTranslationProvider.translate(request)
+    },
+  }
+  return { provider, calls }
+}
+
+function setup(products: Record<string, any>[]) {
+  const collection = new MemoryCollection(products)
+  const collections = installMemoryDb({ products: collection })
+  return { collection, collections, ids: collection.docs.map((doc) => doc._id.toHexString()) }
+}
+
+test('the stub provider prefixes every text with the target language', async () => {
+  const result = await stubTranslationProvider.translate({
+    texts: { title: '진정 토너', short_description: '순한 토너' },
+    from: 'ko',
+    to: 'mn',
+  })
+
+  assert.deepEqual(result, { title: '[mn] 진정 토너', short_description: '[mn] 순한 토너' })
+})
+
+test('a RAW product is translated, recorded and moved to DRAFT', async () => {
+  const { collection, collections, ids } = setup([{ slug: 'toner', title: '진정 토너', lifecycleStatus: 'RAW' }])
+
+  const result = await translateProduct(ids[0], { provider: stubTranslationProvider, glossary: [] })
+
+  assert.deepEqual(result.translated, ['title'])
+  assert.equal(result.product.title, '[mn] 진정 토너')
+  assert.equal(result.product.lifecycleStatus, 'DRAFT')
+
+  const doc = collection.docs[0]
+  assert.equal(doc.nameMn, '[mn] 진정 토너')
+  assert.equal(doc.translationMeta.title.sourceText, '진정 토너')
+  assert.equal(doc.translationMeta.title.provider, 'stub')
+  assert.equal(collections.translation_cache.docs.length, 1)
+})
+
+test('an up-to-date translation is skipped', async () => {
+  const { ids } = setup([{ slug: 'toner', title: '진정 토너', lifecycleStatus: 'RAW' }])
+  const { provider, calls } = countingProvider()
+
+  await translateProduct(ids[0], { provider, glossary: [] })
+  const second = await translateProduct(ids[0], { provider, glossary: [] })
+
+  assert.deepEqual(second.translated, [])
+  assert.ok(second.skipped.some((s) => s.field === 'title' && s.reason === 'UP_TO_DATE'))
+  assert.equal(calls.length, 1)
+})
+
+test('human edits are kept unless overwrite is set', async () => {
+  const { collection, ids } = setup([{ slug: 'toner', title: '진정 토너', lifecycleStatus: 'RAW' }])
+  await translateProduct(ids[0], { provider: stubTranslationProvider, glossary: [] })
+  collection.docs[0].title = 'Тайвшруулах тонер'
+
+  const kept = await translateProduct(ids[0], { provider: stubTranslationProvider, glossary: [] })
+  assert.ok(kept.skipped.some((s) => s.field === 'title' && s.reason === 'HUMAN_EDIT'))
+  assert.equal(kept.requiresConfirmation, true)
+  assert.equal(collection.docs[0].title, 'Тайвшруулах тонер')
+
+  const replaced = await translateProduct(ids[0], { provider: stubTranslationProvider, glossary: [], overwrite: true })
+  assert.deepEqual(replaced.translated, ['title'])
+  assert.equal(collection.docs[0].title, '[mn] 진정 토너')
+})
+
+test('the same source text is served from the cache', async () => {
+  const { ids } = setup([
+    { slug: 'toner-a', title: '진정 토너', lifecycleStatus: 'RAW' },
+    { slug: 'toner-b', title: '진정 토너', lifecycleStatus: 'RAW' },
+  ])
+  const { provider, calls } = countingProvider()
+
+  await translateProduct(ids[0], { provider, glossary: [] })
+  const second = await translateProduct(ids[1], { provider, glossary: [] })
+
+  assert.deepEqual(second.cached, ['title'])
+  assert.equal(second.product.title, '[mn] 진정 토너')
+  assert.equal(calls.length, 1)
+})
+
+test('mapped glossary terms are restored to their target', async () => {
+  const { ids } = setup([{ slug: 'toner', title: '라운드랩 토너', lifecycleStatus: 'RAW' }])
+  const glossary: GlossaryTerm[] = [
+    { id: 'g1', source: '라운드랩', mode: 'map', target: 'Round Lab', createdAt: '', updatedAt: '' },
+  ]
+
+  const result = await translateProduct(ids[0], { provider: stubTranslationProvider, glossary })
+
+  assert.equal(result.product.title, '[mn] Round Lab 토너')
+  assert.deepEqual(result.glossaryViolations, [])
+})
+
+test('only RAW and DRAFT products are translated', async () => {
+  const { ids } = setup([{ slug: 'toner', title: '진정 토너', lifecycleStatus: 'READY' }])
+
+  await assert.rejects(
+    translateProduct(ids[0], { provider: stubTranslationProvider, glossary: [] }),
+    (error: any) => error instanceof TranslationError && error.code === 'INVALID_STATUS'
+  )
+})
+
+test('a bulk run reports failing products and translates the rest', async () => {
+  const { collection, ids } = setup([
+    { slug: 'toner', title: '진정 토너', lifecycleStatus: 'RAW' },
+    { slug: 'trashed', title: '세럼', lifecycleStatus: 'RAW', isDeleted: true },
+    { slug: 'pushed', title: '크림', lifecycleStatus: 'PUSHED' },
+    { slug: 'pad', title: '토너 패드', lifecycleStatus: 'DRAFT' },
+  ])
+
+  const { results, errors } = await translateProducts(ids, { provider: stubTranslationProvider, glossary: [] })
+
+  assert.deepEqual(results.map((r) => r.productId), [ids[0], ids[3]])
+  assert.deepEqual(errors.map((e) => [e.id, e.code]), [
+    [ids[1], 'CONFLICT'],
+    [ids[2], 'INVALID_STATUS'],
+  ])
+  assert.equal(collection.docs[1].title, '세럼')
+  assert.equal(collection.docs[3].title, '[mn] 토너 패드')
+})
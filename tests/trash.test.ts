@@ -0,0 +1,116 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ObjectId } from 'mongodb'
+import { installMemoryDb, MemoryCollection } from './helpers/memoryDb'
+import { deleteProducts, getTrashSummary, purgeTrash, restoreProducts, TrashError } from '../lib/server/trash'
+
+const CONTEXT = { actor: 'editor@example.com', source: 'ui' as const }
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString()
+}
+
+function setup(products: Record<string, any>[], images: Record<string, any>[] = []) {
+  const productCollection = new MemoryCollection(products.map((doc) => ({ _id: new ObjectId(), ...doc })))
+  const ids = productCollection.docs.map((doc) => doc._id as ObjectId)
+  const imageCollection = new MemoryCollection(
+    images.map(({ product, ...doc }) => ({ ...doc, productId: ids[product] }))
+  )
+  const collections = installMemoryDb({ products: productCollection, images: imageCollection })
+  return { ids, products: productCollection, images: imageCollection, collections }
+}
+
+test('deleting and restoring set and clear the trash flags', async () => {
+  const { ids, products, collections } = setup([{ slug: 'toner', lifecycleStatus: 'DRAFT' }])
+
+  const [deleted] = await deleteProducts(['toner'], CONTEXT)
+  assert.equal(deleted.isDeleted, true)
+  assert.equal(products.docs[0].deletedBy, 'editor@example.com')
+
+  await restoreProducts([ids[0].toHexString()], CONTEXT)
+  assert.deepEqual(
+    [products.docs[0].isDeleted, products.docs[0].deletedAt, products.docs[0].deletedBy],
+    [false, null, null]
+  )
+  assert.deepEqual(collections.audit_events.docs.map((doc) => doc.action), ['delete', 'restore'])
+})
+
+test('PUSHED products cannot be deleted and nothing else is', async () => {
+  const { products } = setup([
+    { slug: 'toner', lifecycleStatus: 'DRAFT' },
+    { slug: 'serum', lifecycleStatus: 'PUSHED' },
+  ])
+
+  await assert.rejects(
+    deleteProducts(['toner', 'serum'], CONTEXT),
+    (error: any) => error instanceof TrashError && error.code === 'CONFLICT' && error.status === 409
+  )
+  assert.deepEqual(products.docs.map((doc) => doc.isDeleted), [undefined, undefined])
+})
+
+test('expired products are purged with their images and audited', async () => {
+  const { ids, products, images, collections } = setup(
+    [
+      { slug: 'old', isDeleted: true, deletedAt: daysAgo(40) },
+      { slug: 'recent', isDeleted: true, deletedAt: daysAgo(5) },
+      { slug: 'live', lifecycleStatus: 'DRAFT' },
+    ],
+    [
+      { url: 'https://cdn/old.jpg', product: 0 },
+      { url: 'https://cdn/recent.jpg', product: 1 },
+    ]
+  )
+
+  assert.deepEqual(await getTrashSummary(), { retentionDays: 30, total: 2, expired: 1 })
+  assert.deepEqual(await purgeTrash({ dryRun: true }), { purged: 1, imagesDeleted: 1 })
+  assert.equal(products.docs.length, 3)
+
+  assert.deepEqual(await purgeTrash({ context: CONTEXT }), { purged: 1, imagesDeleted: 1 })
+  assert.deepEqual(products.docs.map((doc) => doc.slug), ['recent', 'live'])
+  assert.deepEqual(images.docs.map((doc) => doc.url), ['https://cdn/recent.jpg'])
+  assert.equal(collections.audit_events.docs.length, 1)
+  assert.ok(collections.audit_events.docs[0].productId.equals(ids[0]))
+  assert.equal(collections.audit_events.docs[0].action, 'purge')
+})
+
+test('purging by id needs every product to be in the trash', async () => {
+  const { products } = setup([
+    { slug: 'old', isDeleted: true, deletedAt: daysAgo(1) },
+    { slug: 'live', lifecycleStatus: 'DRAFT' },
+  ])
+
+  await assert.rejects(
+    purgeTrash({ ids: ['old', 'live'], context: CONTEXT }),
+    (error: any) => error instanceof TrashError && error.code === 'CONFLICT'
+  )
+  assert.equal(products.docs.length, 2)
+
+  assert.deepEqual(await purgeTrash({ ids: ['old'], context: CONTEXT }), { purged: 1, imagesDeleted: 0 })
+  assert.deepEqual(products.docs.map((doc) => doc.slug), ['live'])
+})
+
+test('a product restored during the purge keeps its images and is not audited', async () => {
+  const { ids, products, images, collections } = setup(
+    [
+      { slug: 'old', isDeleted: true, deletedAt: daysAgo(40) },
+      { slug: 'restored', isDeleted: true, deletedAt: daysAgo(40) },
+    ],
+    [
+      { url: 'https://cdn/old.jpg', product: 0 },
+      { url: 'https://cdn/restored.jpg', product: 1 },
+    ]
+  )
+  // Restore the second product between the lookup and the delete
+  const deleteMany = products.deleteMany.bind(products)
+  products.deleteMany = async (filter) => {
+    products.docs[1].isDeleted = false
+    return deleteMany(filter)
+  }
+
+  assert.deepEqual(await purgeTrash({ context: CONTEXT }), { purged: 1, imagesDeleted: 1 })
+  assert.deepEqual(products.docs.map((doc) => doc.slug), ['restored'])
+  assert.deepEqual(images.docs.map((doc) => doc.url), ['https://cdn/restored.jpg'])
+  assert.equal(collections.audit_events.docs.length, 1)
+  assert.ok(collections.audit_events.docs[0].productId.equals(ids[0]))
+})
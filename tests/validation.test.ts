@@ -0,0 +1,87 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DRAFT_VALIDATION_CONFIG,
+  IMPORT_VALIDATION_CONFIG,
+  summarizeValidation,
+  validateProduct,
+  validateProductRules,
+} from '../lib/validation'
+
+const COMPLETE = {
+  title: 'Нүүрний тос',
+  detailed_description: 'Чийгшүүлэх тос',
+  imagesFinal: ['https://cdn/a.jpg'],
+  priceMnt: 45000,
+}
+
+test('a complete product passes the READY gate', () => {
+  assert.deepEqual(validateProduct(COMPLETE), { isValid: true, errors: [] })
+})
+
+test('failures are reported per rule with editor field names', () => {
+  const failures = validateProductRules({ title: '', imagesFinal: [], priceMnt: 0 })
+
+  assert.deepEqual(
+    failures.map((failure) => [failure.rule, failure.errors[0].field]),
+    [
+      ['mongolianTitle', 'nameMn'],
+      ['mongolianDescription', 'descriptionMn'],
+      ['minImages', 'imagesFinal'],
+      ['priceMntBounds', 'priceMnt'],
+    ]
+  )
+})
+
+test('Korean text left in the title or short description is rejected', () => {
+  const result = validateProduct({ ...COMPLETE, title: 'Нүүрний 크림', short_description: '수분 크림' })
+
+  assert.deepEqual(
+    result.errors.map((error) => error.field),
+    ['nameMn', 'short_description']
+  )
+})
+
+test('rule options override the defaults and false disables a rule', () => {
+  const product = { ...COMPLETE, title: 'Face cream', priceMnt: 60000000 }
+
+  assert.deepEqual(
+    validateProduct(product, { mongolianTitle: { requireCyrillic: true }, priceMntBounds: false }).errors,
+    [{ field: 'nameMn', message: 'Mongolian name must be written in Cyrillic' }]
+  )
+  assert.deepEqual(
+    validateProduct(product).errors,
+    [{ field: 'priceMnt', message: `Price must be at most ${(50000000).toLocaleString()} MNT` }]
+  )
+})
+
+test('DRAFT updates only reject values that are never valid', () => {
+  const options = { onlyFields: ['priceMnt', 'title'], normalize: false }
+
+  assert.equal(validateProduct({ title: '', priceMnt: 0 }, DRAFT_VALIDATION_CONFIG, options).isValid, true)
+  assert.deepEqual(
+    validateProduct({ priceMnt: -1 }, DRAFT_VALIDATION_CONFIG, options).errors,
+    [{ field: 'priceMnt', message: 'Price cannot be negative' }]
+  )
+})
+
+test('onlyFields skips rules that do not read the patched fields', () => {
+  const failures = validateProductRules({ title: '', imagesFinal: [] }, undefined, { onlyFields: ['imagesFinal'] })
+
+  assert.deepEqual(failures.map((failure) => failure.rule), ['minImages'])
+})
+
+test('import records need a source title and numeric storefront prices', () => {
+  const result = validateProduct({ title: ' ', regular_price: '12000', sale_price: 'free' }, IMPORT_VALIDATION_CONFIG)
+
+  assert.deepEqual(
+    result.errors.map((error) => error.field),
+    ['title', 'sale_price']
+  )
+})
+
+test('the summary counts failures per rule', () => {
+  const summary = summarizeValidation([COMPLETE, { ...COMPLETE, imagesFinal: [] }, { ...COMPLETE, title: '', imagesFinal: [] }])
+
+  assert.deepEqual(summary, { valid: 1, invalid: 2, byRule: { minImages: 2, mongolianTitle: 1 } })
+})
@@ -2,7 +2,7 @@ export type Store = "gmarket" | "oliveyoung" | "auction"
 
 export type Category = string
 
-export type ProductStatus = "RAW" | "DRAFT" | "READY" | "PUSHED"
+export type ProductStatus = "RAW" | "DRAFT" | "READY" | "PUSHED" | "RETIRED"
 export type StorefrontStatus = "Active" | "Pending" | "Draft"
 
 export type Visibility = "public" | "hidden"
@@ -12,27 +12,47 @@ export interface Product {
   slug?: string          // Product slug (from DB)
   sourceStore: Store
   category: Category
+  subCategory?: string | null  // Storefront sub-category slug (see lib/server/taxonomy.ts)
+  categoryAssignment?: CategoryAssignment | null
   sourceUrl: string
   nameOriginal?: string  // Optional for DB products
   nameMn?: string        // Optional, legacy - use title for new products
   title?: string         // Preferred Mongolian title (from DB)
   brand?: string
+  brandId?: string | null  // Registry brand `brand` was normalized to (see lib/server/brands.ts)
+  sourceProductId?: string  // Product ID on the source store (from DB)
   priceKrw?: number      // Optional for DB products
   priceMnt?: number
+  shippingWeightKg?: number  // Used for the per-kg pricing surcharge
   descriptionOriginal?: string  // Optional for DB products
   descriptionMn?: string        // Optional, legacy - use short_description/detailed_description
   short_description?: string     // Preferred Mongolian short description
   detailed_description?: string  // Preferred Mongolian detailed description
   imagesOriginal?: string[]      // Optional
   imagesFinal?: string[]         // Optional - may come from custom_properties.imageUrls
-  lifecycleStatus: ProductStatus  // Import tool lifecycle: RAW → DRAFT → READY → PUSHED
+  lifecycleStatus: ProductStatus  // Import tool lifecycle: RAW → DRAFT → READY → PUSHED ⇄ RETIRED
   createdAt: string
+  updatedAt?: string             // Set by the server on every write (API mode)
   // Visibility control
   visibility: Visibility
   // Storefront status (optional, managed by ecommerce app)
-  status?: StorefrontStatus  // "Active" | "Pending" | "Draft" - DO NOT modify from import tool
+  status?: StorefrontStatus  // "Active" | "Pending" | "Draft" - only the publisher sets it (lib/server/publisher.ts)
+  // Last publish to the storefront
+  pushedAt?: string
+  pushedBy?: string
+  publishResult?: PublishResult
+  // Taken off the storefront (lifecycleStatus RETIRED); cleared on republish
+  retiredAt?: string | null
+  retiredBy?: string | null
+  retiredReason?: string | null
+  // In the trash (see lib/server/trash.ts); purged after the retention period
+  isDeleted?: boolean
+  deletedAt?: string | null
+  deletedBy?: string | null
   // Custom properties (may include imageUrls, etc.)
   custom_properties?: any
+  // Import provenance (source listing, ranking, notes) as written by scripts/import-gmarket.ts
+  importMeta?: ProductImportMeta
   // Source change detection fields
   sourceBaselinePriceKrw?: number
   sourceLastCheckedPriceKrw?: number
@@ -40,6 +60,507 @@ export interface Product {
   sourceLastCheckedAt?: string
   sourcePriceChanged?: boolean
   sourceOutOfStock?: boolean
+  // Source change policy (see lib/server/sourcePolicy.ts)
+  sourceReviewStatus?: "pending" | null   // Queued for manual review by the policy
+  sourceReviewReasons?: SourceReviewReason[]
+  sourceHiddenByPolicy?: boolean          // Hidden automatically while out of stock
+  // Machine translation (see lib/server/translate.ts)
+  translationMeta?: Partial<Record<TranslatableField, TranslationMetaEntry>>
+  // Resized copies of rehosted imagesFinal entries (see lib/server/imageVariants.ts)
+  imageVariants?: ProductImageVariantEntry[]
+  // Storefront attributes
+  sizes?: string[]
+  colors?: string[]
+  custom_specifications?: Record<string, string> | null
+  // Attributes proposed from the source title, waiting for review (see lib/attributes)
+  attributeSuggestions?: ProductAttributeSuggestions | null
+}
+
+// Outcome of the last publish attempt (see lib/server/publisher.ts)
+export interface PublishResult {
+  ok: boolean
+  adapter: string              // "mongo" | "webhook"
+  at: string
+  externalId?: string          // Storefront id of the product, when the adapter reports one
+  url?: string                 // Live product page
+  error?: string
+  rolledBackTo?: ProductStatus // Lifecycle status restored after a failed publish
+}
+
+export type ProductAttributeKind =
+  | "volume" | "weight" | "length" | "dimensions" | "capacity" | "count" | "pack" | "size" | "color"
+
+export type ProductAttributeTarget = "sizes" | "colors" | "custom_specifications"
+
+export interface ExtractedAttribute {
+  key: string                  // kind:value, unique within a product's suggestions
+  kind: ProductAttributeKind
+  target: ProductAttributeTarget
+  label: string                // custom_specifications key, e.g. "Volume", "Length range"
+  value: string                // Normalized, e.g. "250ml", "4~36mm", "Silver", "Set of 2"
+  match: string                // Title text it was read from
+  source: "rule" | "llm"
+}
+
+export interface ProductAttributeSuggestions {
+  attributes: ExtractedAttribute[]
+  sourceText: string
+  method: "rules" | "rules+llm"
+  llmError?: string            // Gemini was asked but failed; rule results are kept
+  extractedAt: string
+}
+
+export interface ProductAttributeExtractResult {
+  productId: string
+  suggestions: ProductAttributeSuggestions
+  product: Product
+}
+
+export interface ProductAttributeApplyResult {
+  productId: string
+  applied: ExtractedAttribute[]
+  product: Product
+}
+
+export type TranslatableField = "title" | "short_description" | "detailed_description"
+
+// What the last machine translation of a field used and produced
+export interface TranslationMetaEntry {
+  sourceText: string
+  translatedText: string
+  provider: string
+  from: string
+  to: string
+  translatedAt: string
+}
+
+// Brand registry (brands collection, see lib/server/brands.ts)
+export type BrandAliasLang = "ko" | "en" | "mn"
+
+export interface Brand {
+  id: string
+  name: string                // Canonical name written to product.brand
+  aliases: Record<BrandAliasLang, string[]>
+  logoUrl?: string
+  domains: string[]           // Official sites, e.g. "tonymoly.com"; images hosted there rank as official
+  createdAt: string
+  updatedAt: string
+}
+
+// Brand review row: one brand name found on products
+export interface ProductBrandSummary {
+  brand: string
+  productCount: number
+  brandId: string | null      // Registry brand the name matches, if any
+  canonical: string | null    // Its canonical name (differs from `brand` until normalized)
+}
+
+export interface BrandNormalizeResult {
+  matched: number             // Products whose brand is in the registry
+  updated: number             // Products rewritten to the canonical name
+  unmatched: number           // Products with a brand the registry does not know
+}
+
+export interface ProductImportMeta {
+  source?: {
+    store?: string
+    categoryKey?: string     // Source listing, e.g. "best_electronics_all"
+    topCategory?: string
+    subCategory?: string
+    [key: string]: any
+  }
+  [key: string]: any
+}
+
+// Storefront category tree (taxonomy_categories collection, see lib/server/taxonomy.ts)
+// Two levels: top-level categories and their sub-categories
+export interface TaxonomyCategory {
+  id: string
+  slug: string             // Written to product.category / product.subCategory
+  name: string
+  nameMn?: string
+  parentSlug: string | null
+  sort: number
+  createdAt: string
+  updatedAt: string
+}
+
+// Source category as the store lists it; subKey narrows a listing (e.g. "accessories")
+export interface SourceCategory {
+  store: Store
+  key: string
+  subKey: string | null
+}
+
+// Rule mapping a source category to a storefront category (category_mappings collection)
+// Without sourceSubKey the rule covers every sub-key of the listing
+export interface CategoryMappingRule {
+  id: string
+  store: Store
+  sourceKey: string
+  sourceSubKey: string | null
+  category: string         // Top-level taxonomy slug
+  subCategory: string | null
+  note?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CategoryAssignment {
+  method: "rule" | "manual"
+  ruleId?: string
+  source?: SourceCategory | null
+  assignedAt: string
+}
+
+// Mapping review row: one source category found on products
+export interface SourceCategorySummary extends SourceCategory {
+  productCount: number
+  ruleId: string | null    // Rule that covers it, if any
+  category: string | null
+  subCategory: string | null
+}
+
+export interface CategoryMappingApplyResult {
+  matched: number          // Products covered by a rule
+  updated: number          // Products whose category changed
+  manual: number           // Covered but kept, categories were picked by hand
+  unmapped: number         // No rule covers the source category
+}
+
+// Glossary (glossary_terms collection, see lib/server/glossary.ts)
+// protect: keep the source term verbatim (brand names, 200ml)
+// map: always render the source term as `target`
+export type GlossaryTermMode = "protect" | "map"
+
+export interface GlossaryTerm {
+  id: string
+  source: string         // Term as it appears in the source text, matched case-insensitively
+  mode: GlossaryTermMode
+  target?: string        // Fixed Mongolian equivalent (map mode)
+  english?: string       // Used in English image search queries instead of the source term
+  note?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface GlossaryViolation {
+  field: TranslatableField
+  term: string
+  expected: string       // Text that must appear in the Mongolian field
+  message: string
+}
+
+export interface GlossaryCheckResult {
+  productId: string
+  title: string
+  lifecycleStatus: ProductStatus
+  violations: GlossaryViolation[]
+}
+
+export type TranslationSkipReason = "HUMAN_EDIT" | "NO_SOURCE_TEXT" | "UP_TO_DATE"
+
+export interface ProductTranslateResult {
+  productId: string
+  provider: string
+  translated: TranslatableField[]
+  cached: TranslatableField[]       // Subset of translated served from the cache
+  skipped: { field: TranslatableField; reason: TranslationSkipReason }[]
+  requiresConfirmation: boolean     // Human edits were kept; retry with overwrite to replace them
+  glossaryViolations: GlossaryViolation[]  // Glossary terms the translation lost
+  product: Product
+}
+
+export type SourceReviewReason = "priceChanged" | "outOfStock"
+
+export type SourcePolicyAction = "reprice" | "hide" | "unhide" | "queueReview" | "acceptBaseline"
+
+// One automatic (or accepted) change made because of a source check (source_policy_audit collection)
+export interface SourcePolicyAuditRecord {
+  id: string
+  productId: string
+  action: SourcePolicyAction
+  actor: "policy" | "user"
+  reason: string
+  before: Record<string, any>
+  after: Record<string, any>
+  createdAt: string
+}
+
+// Product mutation history (audit_events collection, see lib/server/audit.ts)
+export type AuditSource = "ui" | "bulk" | "import" | "script" | "policy" | "system"
+
+export type AuditAction =
+  | "create" | "update" | "statusChange" | "publish" | "publishFailed" | "retire"
+  | "delete" | "restore" | "purge" | "reprice" | "acceptBaseline" | "sourcePolicy" | "revert"
+
+export interface AuditFieldChange {
+  field: string
+  before: any                // null when the field was not set
+  after: any
+}
+
+export interface AuditEvent {
+  id: string
+  productId: string
+  action: AuditAction
+  actor: string              // X-User of the request, "import-gmarket", "source-policy" or "system"
+  source: AuditSource
+  changes: AuditFieldChange[]
+  note?: string              // e.g. the error of a failed publish
+  createdAt: string
+}
+
+// Editable content fields kept in revision snapshots (see lib/revisions)
+export type RevisionField =
+  | "title" | "nameMn" | "descriptionMn" | "short_description" | "detailed_description"
+  | "brand" | "priceKrw" | "priceMnt" | "imagesFinal" | "category" | "subCategory"
+
+// Snapshot of the editable fields after a change (product_revisions collection, see lib/server/revisions.ts)
+export interface ProductRevision {
+  id: string
+  productId: string
+  revision: number           // 1, 2, ... per product
+  fields: Record<RevisionField, any>  // null when the field was not set
+  // Change that produced the revision; unset for the state before the first recorded change
+  auditEventId?: string
+  action?: AuditAction
+  actor?: string
+  source?: AuditSource
+  createdAt: string
+}
+
+// Document in the images collection (written by scripts/import-gmarket.ts,
+// rehosted by lib/server/imageIngest.ts)
+export interface ProductImageRecord {
+  id: string
+  productId: string
+  file_id?: string
+  url: string              // Rehosted URL once ingested, source URL before
+  provider?: string        // gmarket | official | editor
+  sort: number
+  originalUrl?: string     // Source URL the image was downloaded from
+  storageKey?: string
+  contentType?: string
+  bytes?: number
+  width?: number
+  height?: number
+  sha256?: string
+  phash?: string           // 64-bit perceptual (difference) hash, hex
+  ingestStatus?: "done" | "failed"
+  ingestError?: string
+  ingestAttempts?: number  // Failed downloads so far; retried with backoff up to IMAGE_INGEST_MAX_ATTEMPTS
+  ingestedAt?: string
+  variants?: ImageVariantSet
+  overlayRegions?: ImageOverlayRegion[]  // Corners with likely watermark text; set with the variants
+  variantsGeneratedAt?: string
+}
+
+// Standard sizes: thumbnail for lists, card for product cards, zoom for the detail view
+export type ImageVariantName = "thumbnail" | "card" | "zoom"
+
+// Width and height of each variant in px (smaller when the source is)
+export const IMAGE_VARIANT_SIZES: Record<ImageVariantName, number> = {
+  thumbnail: 160,
+  card: 600,
+  zoom: 1200,
+}
+
+// Corner of an image where overlaid text (a shop watermark or logo) was detected
+export type ImageOverlayRegion = "topLeft" | "topRight" | "bottomLeft" | "bottomRight"
+
+// One square, white-padded variant in both output formats
+export interface ImageVariantFile {
+  size: number             // Width and height in px
+  webp: string             // URL
+  jpeg: string             // URL
+}
+
+export type ImageVariantSet = Record<ImageVariantName, ImageVariantFile>
+
+export interface ProductImageVariantEntry {
+  url: string              // imagesFinal entry the variants belong to
+  variants: ImageVariantSet
+  overlayRegions?: ImageOverlayRegion[]  // Likely watermark text; kept off the primary slot
+}
+
+// Shown in the editor next to an imagesFinal entry
+export interface ImageDuplicateWarning {
+  url: string
+  kind: "shared" | "nearDuplicate"
+  message: string
+  productCount?: number    // shared: products using the image, including this one
+  otherUrl?: string        // nearDuplicate: the earlier image it matches
+  distance?: number        // nearDuplicate: Hamming distance of the hashes
+}
+
+// GET /api/images/shared: one picture attached to many products
+export interface SharedImageReportItem {
+  kind: "phash" | "file_id"
+  key: string
+  productCount: number
+  productIds: string[]
+  sampleUrl: string
+  originalUrls: string[]
+}
+
+// Image search suggestion scored by lib/server/imageScoring.ts
+export interface ImageCandidateScoreBreakdown {
+  // Each factor 0–1; null when it could not be measured (counts as neutral)
+  resolution: number | null    // Shorter side in px
+  aspectRatio: number | null   // Closeness to square
+  background: number | null    // Share of near-white border pixels
+  fileSize: number | null      // Penalizes tiny (overcompressed) and huge files
+  domainTrust: number | null   // Official brand site > retailer > marketplace > social
+  textOverlay: number | null   // 1 = clean photo, 0 = dense text/graphics
+}
+
+export interface ImageCandidate {
+  url: string
+  thumbnailUrl?: string
+  contextUrl?: string          // Page the image was found on
+  domain: string
+  width?: number
+  height?: number
+  bytes?: number
+  providers: string[]          // Image search providers that returned it
+  score: number                // 0–100, weighted from the breakdown
+  breakdown: ImageCandidateScoreBreakdown
+  preselected: boolean         // Among the best few, selected in the picker by default
+}
+
+// Paid external APIs with a usage ledger (see lib/server/apiQuota.ts)
+export type ApiQuotaProvider = "google-cse" | "gemini"
+
+export interface ApiQuotaStatus {
+  provider: ApiQuotaProvider
+  day: string                // UTC day, YYYY-MM-DD
+  used: number               // Requests sent today
+  failures: number           // Of which failed
+  rejected: number           // Refused locally because the budget was spent
+  dailyBudget: number
+  remaining: number
+  resetAt: string            // Next UTC midnight
+  ratePerMinute: number
+  availableTokens: number    // Requests that can be sent right now
+}
+
+// External lookups cached in query_cache (see lib/server/queryCache.ts)
+export type QueryCacheNamespace = "imageQuery" | "imageSearch"
+
+export interface QueryCacheStats {
+  namespace: QueryCacheNamespace
+  entries: number            // Unexpired entries
+  hits: number
+  misses: number
+  bypasses: number
+  hitRate: number | null     // hits / (hits + misses)
+  ttlSeconds: number
+  since: string | null       // First counted lookup
+}
+
+export interface ProductImageIngestResult {
+  productId: string
+  ingested: number         // Downloaded and stored
+  reused: number           // Already rehosted for another product
+  failed: { url: string; error: string }[]
+  variantsGenerated: number
+  images: ProductImageRecord[]
+}
+
+export interface ProductImageVariantsResult {
+  productId: string
+  generated: number        // Images whose variants were rendered
+  skipped: number          // Variants already present
+  pending: string[]        // imagesFinal entries not rehosted yet
+  flagged: string[]        // imagesFinal entries with likely watermark text
+  failed: { url: string; error: string }[]
+  product: Product
+}
+
+// One persisted source check (source_checks collection)
+export interface SourceCheckRecord {
+  id: string
+  productId: string
+  sourceUrl: string
+  adapter: Store | null
+  httpStatus: number | null
+  priceKrw: number | null
+  inStock: boolean | null
+  priceChanged: boolean
+  outOfStock: boolean
+  error?: string
+  checkedAt: string
+}
+
+// Server-side product listing (GET /api/products)
+export type ProductSortKey = "createdAt" | "price" | "sourceLastCheckedAt" | "flagPriority" | "deletedAt"
+export type ProductFlagFilter = "priceChanged" | "outOfStock" | "hidden" | "needsReview"
+
+export interface ProductListQuery {
+  lifecycleStatus?: ProductStatus
+  store?: string
+  visibility?: string
+  q?: string                 // Case-insensitive match on title, names, brand, sourceProductId
+  flag?: ProductFlagFilter
+  category?: string
+  brand?: string
+  deleted?: boolean          // Products in the trash instead of the others
+  sort?: ProductSortKey      // Default: flagPriority
+  order?: "asc" | "desc"     // Default: desc
+  limit?: number             // Default: 50, max: 200
+  cursor?: string            // Opaque cursor from a previous page's nextCursor
+}
+
+export interface ProductPage {
+  items: Product[]
+  nextCursor: string | null
+  total: number
+}
+
+// Dashboard counts and filter options over all products outside the trash
+export interface ProductStats {
+  total: number
+  byStatus: Record<ProductStatus, number>
+  categories: string[]
+  brands: string[]
+}
+
+// Trash summary and purge outcome (see lib/server/trash.ts)
+export interface TrashSummary {
+  retentionDays: number
+  total: number
+  expired: number            // Deleted longer ago than retentionDays
+}
+
+export interface TrashPurgeResult {
+  purged: number
+  imagesDeleted: number
+}
+
+export type ProductSearchField = "nameOriginal" | "title" | "brand" | "sourceProductId" | "tags"
+
+export interface ProductSearchHighlight {
+  field: ProductSearchField
+  snippet: string // HTML-escaped text with matches wrapped in <mark></mark>
+}
+
+export interface ProductSearchResult {
+  product: Product
+  score: number // 0..1, higher is more relevant
+  highlights: ProductSearchHighlight[]
+}
+
+// Listing filters the full-text search also takes
+export type ProductSearchFilters = Pick<
+  ProductListQuery,
+  "lifecycleStatus" | "store" | "visibility" | "category" | "brand" | "flag"
+>
+
+export interface ProductSearchResponse {
+  query: string
+  total: number
+  results: ProductSearchResult[]
 }
 
 export interface ValidationResult {
@@ -53,11 +574,19 @@ export interface ValidationResult {
 export interface DraftChanges {
   nameMn?: string
   descriptionMn?: string
+  short_description?: string
   brand?: string
   priceMnt?: number
+  shippingWeightKg?: number
   imagesFinal?: string[]
+  sizes?: string[]
+  colors?: string[]
+  custom_specifications?: Record<string, string> | null
+  attributeSuggestions?: ProductAttributeSuggestions | null
 }
 
+// Source store categories offered by the demo search (not storefront categories,
+// those come from the taxonomy)
 export const STORE_CATEGORIES: Record<Store, Category[]> = {
   gmarket: ["Skincare", "Makeup", "Haircare", "Fragrance", "Health"],
   oliveyoung: ["Skincare", "Makeup", "Haircare", "Body Care", "Men's Care"],